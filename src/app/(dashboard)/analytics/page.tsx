@@ -1,8 +1,121 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Badge } from '@/components/ui/badge'
-import { TrendingUp, Users, DollarSign, Activity } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Users, DollarSign, Activity, PieChart, Layers, Package, Award, AlertCircle, Upload, RotateCcw } from 'lucide-react'
+import { CohortHeatmap } from '@/components/charts/cohort-heatmap'
+import { RevenueChart } from '@/components/charts/revenue-chart'
+import { RevenueConcentrationChart } from '@/components/charts/revenue-concentration-chart'
+import { MRRBandChart } from '@/components/charts/mrr-band-chart'
+import { ProductLinesChart } from '@/components/charts/product-lines-chart'
+import { BenchmarkRadarChart } from '@/components/charts/benchmark-radar-chart'
+import { CustomerInsights } from '@/components/dashboard/customer-insights'
+import { ForecastSettings } from '@/components/dashboard/forecast-settings'
+import { CohortAnalyzer } from '@/lib/calculations/cohorts'
+import { ForecastCalculator } from '@/lib/calculations/forecast'
+import { DataStore } from '@/lib/data-store'
+import { parseBenchmarkFile } from '@/lib/benchmark-parser'
+import {
+  Annotation,
+  BenchmarkComparison,
+  CohortMatrix,
+  ConcentrationMetrics,
+  CustomerValueMetrics,
+  ExpansionBreakdown,
+  ForecastMethod,
+  MonthlyMetrics,
+  ParetoPoint,
+  ScenarioDrivers
+} from '@/types'
+
+// Base-case drivers from recent history with default bull/bear spreads
+function historicalScenarios(metrics: MonthlyMetrics[]): ScenarioDrivers | null {
+  const drivers = ForecastCalculator.estimateDrivers(metrics)
+  return drivers ? ForecastCalculator.scenariosFromDrivers(drivers) : null
+}
 
 export default function AnalyticsPage() {
+  const [cohorts, setCohorts] = useState<CohortMatrix>({ cohorts: [], maxPeriods: 0 })
+  const [customerValue, setCustomerValue] = useState<CustomerValueMetrics[]>([])
+  const [grossMarginPercent, setGrossMarginPercent] = useState<number | null>(null)
+  const [concentration, setConcentration] = useState<ConcentrationMetrics[]>([])
+  const [pareto, setPareto] = useState<ParetoPoint[]>([])
+  const [productMetrics, setProductMetrics] = useState<Record<string, MonthlyMetrics[]>>({})
+  const [expansion, setExpansion] = useState<ExpansionBreakdown[]>([])
+  const [metrics, setMetrics] = useState<MonthlyMetrics[]>([])
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [benchmark, setBenchmark] = useState<BenchmarkComparison | null>(null)
+  const [hasCustomBenchmarks, setHasCustomBenchmarks] = useState(false)
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null)
+  const benchmarkInputRef = useRef<HTMLInputElement>(null)
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>('trend')
+  const [horizonMonths, setHorizonMonths] = useState(12)
+  const [scenarios, setScenarios] = useState<ScenarioDrivers | null>(null)
+
+  // Load customer data on mount and whenever a new upload lands
+  useEffect(() => {
+    const loadData = () => {
+      setCohorts(CohortAnalyzer.calculateCohorts(DataStore.getReportingData()))
+      setCustomerValue(DataStore.getCustomerValueMetrics())
+      setGrossMarginPercent(DataStore.getSettings().grossMarginPercent)
+      setConcentration(DataStore.getConcentrationMetrics())
+      setPareto(DataStore.getParetoCurve())
+      setProductMetrics(DataStore.getProductMetrics())
+      setExpansion(DataStore.getExpansionBreakdown())
+      setAnnotations(DataStore.getAnnotations())
+      setBenchmark(DataStore.getBenchmarkComparison())
+      setHasCustomBenchmarks(DataStore.hasCustomBenchmarks())
+
+      const monthlyMetrics = DataStore.getMetrics()
+      setMetrics(monthlyMetrics)
+      setScenarios(historicalScenarios(monthlyMetrics))
+    }
+
+    loadData()
+
+    window.addEventListener('storage', loadData)
+    return () => window.removeEventListener('storage', loadData)
+  }, [])
+
+  const handleGrossMarginChange = (value: number | null) => {
+    DataStore.saveSettings({ ...DataStore.getSettings(), grossMarginPercent: value })
+    setGrossMarginPercent(value)
+    setCustomerValue(DataStore.getCustomerValueMetrics())
+  }
+
+  const handleImportBenchmarks = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      DataStore.saveBenchmarks(await parseBenchmarkFile(file))
+      setBenchmarkError(null)
+    } catch (err) {
+      setBenchmarkError(err instanceof Error ? err.message : 'Failed to read benchmark file')
+      return
+    }
+    setBenchmark(DataStore.getBenchmarkComparison())
+    setHasCustomBenchmarks(true)
+  }
+
+  const handleResetBenchmarks = () => {
+    DataStore.saveBenchmarks([])
+    setBenchmark(DataStore.getBenchmarkComparison())
+    setHasCustomBenchmarks(false)
+    setBenchmarkError(null)
+  }
+
+  const trend = useMemo(() => ForecastCalculator.fitTrend(metrics), [metrics])
+  const forecast = useMemo(() => {
+    if (forecastMethod === 'trend') {
+      return ForecastCalculator.trendForecast(metrics, horizonMonths)
+    }
+    return scenarios ? ForecastCalculator.driverForecast(metrics, scenarios, horizonMonths) : []
+  }, [metrics, forecastMethod, horizonMonths, scenarios])
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -13,92 +126,172 @@ export default function AnalyticsPage() {
             Deep dive into your SaaS metrics and performance trends.
           </p>
         </div>
-        <Badge variant="secondary">Coming Soon</Badge>
       </div>
 
-      {/* Placeholder Content */}
+      {/* Analytics Content */}
       <div className="grid gap-6 md:grid-cols-2">
-        <Card>
+        <div className="md:col-span-2 space-y-6">
+          <RevenueChart data={metrics} forecast={forecast} annotations={annotations} />
+          <ForecastSettings
+            method={forecastMethod}
+            horizonMonths={horizonMonths}
+            trend={trend}
+            scenarios={scenarios}
+            forecast={forecast}
+            onMethodChange={setForecastMethod}
+            onHorizonChange={setHorizonMonths}
+            onScenariosChange={setScenarios}
+            onReset={() => setScenarios(historicalScenarios(metrics))}
+          />
+        </div>
+
+        <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5 text-blue-600" />
-              Revenue Analytics
+              <Activity className="h-5 w-5 text-orange-600" />
+              Performance Tracking
             </CardTitle>
             <CardDescription>
-              Detailed revenue breakdown and forecasting
+              Goal tracking and performance monitoring
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-64 flex flex-col items-center justify-center text-gray-500 space-y-2">
-              <TrendingUp className="h-12 w-12 text-gray-300" />
-              <p className="text-lg font-medium">Advanced Revenue Analytics</p>
+              <Activity className="h-12 w-12 text-gray-300" />
+              <p className="text-lg font-medium">Performance Monitoring</p>
               <p className="text-sm text-center">
-                Revenue forecasting, cohort analysis, and advanced metrics coming soon.
+                Goal setting, alerts, and performance dashboards coming soon.
               </p>
             </div>
           </CardContent>
         </Card>
 
-        <Card>
+        <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5 text-purple-600" />
               Customer Analytics
             </CardTitle>
             <CardDescription>
-              Customer behavior and retention insights
+              Cohort retention by first paying month
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-64 flex flex-col items-center justify-center text-gray-500 space-y-2">
-              <Users className="h-12 w-12 text-gray-300" />
-              <p className="text-lg font-medium">Customer Insights</p>
-              <p className="text-sm text-center">
-                Customer segmentation, lifetime value, and behavior analysis coming soon.
-              </p>
-            </div>
+            <CohortHeatmap data={cohorts} />
           </CardContent>
         </Card>
 
-        <Card>
+        <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <DollarSign className="h-5 w-5 text-green-600" />
-              Financial Metrics
+              Customer Insights
             </CardTitle>
             <CardDescription>
-              Advanced financial calculations and ratios
+              ARPA, customer lifetime and LTV from observed logo churn
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-64 flex flex-col items-center justify-center text-gray-500 space-y-2">
-              <DollarSign className="h-12 w-12 text-gray-300" />
-              <p className="text-lg font-medium">Financial Analysis</p>
-              <p className="text-sm text-center">
-                LTV:CAC ratios, unit economics, and financial modeling coming soon.
-              </p>
-            </div>
+            <CustomerInsights
+              data={customerValue}
+              grossMarginPercent={grossMarginPercent}
+              onGrossMarginChange={handleGrossMarginChange}
+            />
           </CardContent>
         </Card>
 
-        <Card>
+        <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Activity className="h-5 w-5 text-orange-600" />
-              Performance Tracking
+              <PieChart className="h-5 w-5 text-red-600" />
+              Revenue Concentration
             </CardTitle>
             <CardDescription>
-              Goal tracking and performance monitoring
+              Share of MRR held by the largest customers, Herfindahl index and Pareto curve
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-64 flex flex-col items-center justify-center text-gray-500 space-y-2">
-              <Activity className="h-12 w-12 text-gray-300" />
-              <p className="text-lg font-medium">Performance Monitoring</p>
-              <p className="text-sm text-center">
-                Goal setting, alerts, and performance dashboards coming soon.
-              </p>
+            <RevenueConcentrationChart data={concentration} pareto={pareto} />
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-indigo-600" />
+              Customer Size Distribution
+            </CardTitle>
+            <CardDescription>
+              Customers and MRR by monthly MRR band over time
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MRRBandChart data={concentration} />
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5 text-blue-600" />
+              Product Lines
+            </CardTitle>
+            <CardDescription>
+              MRR, NRR and churn per product, and expansion split into cross-sell, up-sell and price increases
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProductLinesChart products={productMetrics} expansion={expansion} />
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <Award className="h-5 w-5 text-amber-600" />
+                  Peer Benchmarks
+                </CardTitle>
+                <CardDescription>
+                  {benchmark ? `Percentile vs ${benchmark.stage} peers` : 'Percentile vs peers at the same ARR'}
+                  {hasCustomBenchmarks ? ' from your benchmark dataset' : ' from built-in illustrative benchmarks'}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  ref={benchmarkInputRef}
+                  type="file"
+                  accept=".json,.csv,.xlsx,.xls"
+                  className="hidden"
+                  onChange={handleImportBenchmarks}
+                />
+                {hasCustomBenchmarks && (
+                  <Button variant="ghost" size="sm" className="flex items-center gap-2" onClick={handleResetBenchmarks}>
+                    <RotateCcw className="h-4 w-4" />
+                    Use Built-in
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => benchmarkInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4" />
+                  Load Benchmarks
+                </Button>
+              </div>
             </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {benchmarkError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{benchmarkError}</AlertDescription>
+              </Alert>
+            )}
+            <BenchmarkRadarChart comparison={benchmark} />
           </CardContent>
         </Card>
       </div>
@@ -116,9 +309,6 @@ export default function AnalyticsPage() {
             <div className="space-y-2">
               <h4 className="font-medium text-gray-900">Revenue Analytics</h4>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Revenue forecasting & predictions</li>
-                <li>• Cohort analysis by acquisition month</li>
-                <li>• Revenue waterfall charts</li>
                 <li>• Seasonal trend analysis</li>
               </ul>
             </div>
@@ -126,9 +316,7 @@ export default function AnalyticsPage() {
             <div className="space-y-2">
               <h4 className="font-medium text-gray-900">Customer Analytics</h4>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Customer lifetime value (LTV)</li>
                 <li>• Churn prediction models</li>
-                <li>• Customer segmentation</li>
                 <li>• Usage & engagement metrics</li>
               </ul>
             </div>
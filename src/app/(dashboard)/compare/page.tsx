@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, GitCompare } from 'lucide-react'
+import { RevenueChart } from '@/components/charts/revenue-chart'
+import { CustomerGrowthChart } from '@/components/charts/customer-growth-chart'
+import { SummaryKPITable } from '@/components/dashboard/summary-kpi-table'
+import { COMPARISON_COLORS } from '@/lib/constants'
+import { ComparedCompany, ComparisonAlignment, ComparisonOptions } from '@/types'
+
+// Matches the limit enforced by /api/compare
+const MAX_SELECTED = 6
+
+export default function ComparePage() {
+  const [available, setAvailable] = useState<{ id: string; name: string }[] | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [companies, setCompanies] = useState<ComparedCompany[]>([])
+  const [options, setOptions] = useState<ComparisonOptions>({ alignment: 'calendar', indexed: false })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadCompanies = async () => {
+      try {
+        const response = await fetch('/api/companies')
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load companies')
+        }
+        setAvailable(body.companies)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load companies')
+      }
+    }
+
+    loadCompanies()
+  }, [])
+
+  useEffect(() => {
+    if (selectedIds.length < 2) {
+      setCompanies([])
+      return
+    }
+
+    const loadComparison = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/compare?companyIds=${selectedIds.map(encodeURIComponent).join(',')}`)
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load comparison')
+        }
+        setCompanies(body.companies)
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load comparison')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadComparison()
+  }, [selectedIds])
+
+  const toggleCompany = (companyId: string) => {
+    setSelectedIds(current => current.includes(companyId)
+      ? current.filter(id => id !== companyId)
+      : current.length < MAX_SELECTED ? [...current, companyId] : current
+    )
+  }
+
+  const comparison = companies.length >= 2 ? { companies, options } : null
+  const missingFx = companies.filter(company => company.missingFxCurrencies?.length)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-gray-900">Compare</h2>
+        <p className="text-gray-600 mt-2">
+          Overlay revenue, customers and retention for up to {MAX_SELECTED} companies.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {missingFx.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No FX rate for {missingFx.map(company => `${company.missingFxCurrencies!.join(', ')} (${company.name})`).join('; ')}.
+            Customers billed in these currencies are left out until rates are uploaded.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="h-5 w-5 text-blue-600" />
+                Companies
+              </CardTitle>
+              <CardDescription>
+                Pick two or more. Milestone alignment puts each company&apos;s first $1M ARR month at M0.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={options.alignment}
+                onValueChange={(value) => setOptions(current => ({ ...current, alignment: value as ComparisonAlignment }))}
+              >
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar month</SelectItem>
+                  <SelectItem value="milestone">Months since $1M ARR</SelectItem>
+                </SelectContent>
+              </Select>
+              <Tabs
+                value={options.indexed ? 'indexed' : 'absolute'}
+                onValueChange={(value) => setOptions(current => ({ ...current, indexed: value === 'indexed' }))}
+              >
+                <TabsList>
+                  <TabsTrigger value="absolute">Absolute</TabsTrigger>
+                  <TabsTrigger value="indexed">Indexed</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!available ? (
+            <div className="flex gap-2">
+              {Array.from({ length: 3 }, (_, i) => <Skeleton key={i} className="h-9 w-32" />)}
+            </div>
+          ) : available.length < 2 ? (
+            <div className="text-sm text-gray-500">
+              Add at least two companies to compare them.
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {available.map(company => {
+                const position = selectedIds.indexOf(company.id)
+                return (
+                  <Button
+                    key={company.id}
+                    variant={position === -1 ? 'outline' : 'default'}
+                    size="sm"
+                    className="flex items-center gap-2"
+                    disabled={position === -1 && selectedIds.length >= MAX_SELECTED}
+                    onClick={() => toggleCompany(company.id)}
+                  >
+                    {position !== -1 && (
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: COMPARISON_COLORS[position % COMPARISON_COLORS.length] }}
+                      />
+                    )}
+                    {company.name}
+                  </Button>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-80 lg:col-span-2" />
+          <Skeleton className="h-64" />
+          <Skeleton className="h-64" />
+        </div>
+      )}
+
+      {!isLoading && comparison && (
+        <>
+          <RevenueChart data={[]} comparison={comparison} />
+          <div className="grid gap-6 lg:grid-cols-2">
+            <CustomerGrowthChart data={[]} comparison={comparison} />
+            <SummaryKPITable data={[]} comparison={comparison} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -7,13 +7,17 @@ import { CustomerGrowthChart } from '@/components/charts/customer-growth-chart'
 import { MagicNumberChart } from '@/components/charts/magic-number-chart'
 import { ExpandableChart } from '@/components/charts/expandable-chart'
 import { SummaryKPITable } from '@/components/dashboard/summary-kpi-table'
+import { GracePeriodSettings } from '@/components/dashboard/grace-period-settings'
+import { SpendSettings } from '@/components/dashboard/spend-settings'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Upload, Trash2, FileSpreadsheet, AlertCircle, BarChart3, DollarSign, TrendingUp } from 'lucide-react'
+import { Upload, Trash2, FileSpreadsheet, AlertCircle, BarChart3, DollarSign, TrendingUp, Download } from 'lucide-react'
 import Link from 'next/link'
 import { DataStore } from '@/lib/data-store'
-import { MonthlyMetrics } from '@/types'
+import { DEFAULT_COMPANY_SETTINGS } from '@/lib/constants'
+import { downloadCsv, movementLedgerToCsv } from '@/lib/export'
+import { CompanySettings, EfficiencyMetrics, GracePeriodAdjustment, MonthlyMetrics, SpendMonth } from '@/types'
 
 export default function DashboardPage() {
   const [hasData, setHasData] = useState(false)
@@ -24,6 +28,10 @@ export default function DashboardPage() {
     dateRange: string;
   } | null>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [settings, setSettings] = useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS)
+  const [gracePeriodAdjustments, setGracePeriodAdjustments] = useState<GracePeriodAdjustment[]>([])
+  const [spend, setSpend] = useState<SpendMonth[]>([])
+  const [efficiency, setEfficiency] = useState<EfficiencyMetrics[]>([])
 
   // Load data on component mount
   useEffect(() => {
@@ -34,6 +42,10 @@ export default function DashboardPage() {
       if (dataExists) {
         setMetrics(DataStore.getMetrics())
         setDataSummary(DataStore.getDataSummary())
+        setSettings(DataStore.getSettings())
+        setGracePeriodAdjustments(DataStore.getGracePeriodAdjustments())
+        setSpend(DataStore.getSpend())
+        setEfficiency(DataStore.getEfficiencyMetrics())
       }
     }
 
@@ -53,9 +65,30 @@ export default function DashboardPage() {
     setHasData(false)
     setMetrics([])
     setDataSummary(null)
+    setSpend([])
+    setEfficiency([])
     setShowDeleteConfirm(false)
   }
 
+  const handleGracePeriodChange = (churnGracePeriodMonths: number) => {
+    const updated = { ...settings, churnGracePeriodMonths }
+    DataStore.saveSettings(updated)
+    setSettings(updated)
+    setMetrics(DataStore.getMetrics())
+    setGracePeriodAdjustments(DataStore.getGracePeriodAdjustments())
+    setEfficiency(DataStore.getEfficiencyMetrics())
+  }
+
+  const handleSaveSpend = (updated: SpendMonth[]) => {
+    DataStore.saveSpend(updated)
+    setSpend(DataStore.getSpend())
+    setEfficiency(DataStore.getEfficiencyMetrics())
+  }
+
+  const handleDownloadLedger = () => {
+    downloadCsv('mrr-movement-ledger.csv', movementLedgerToCsv(DataStore.getMovementLedger()))
+  }
+
   // Empty state when no data - SaaSBoard inspired design
   if (!hasData) {
     return (
@@ -140,6 +173,15 @@ export default function DashboardPage() {
         
         {/* Data Management Actions */}
         <div className="flex gap-2">
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex items-center gap-2"
+            onClick={handleDownloadLedger}
+          >
+            <Download className="h-4 w-4" />
+            Download MRR Ledger
+          </Button>
           <Link href="/upload">
             <Button variant="outline" size="sm" className="flex items-center gap-2">
               <Upload className="h-4 w-4" />
@@ -223,11 +265,11 @@ export default function DashboardPage() {
           
           <div className="w-full min-h-[400px]">
             <ExpandableChart 
-              title="Magic Number"
-              description="Growth efficiency metric - measures new revenue generation relative to churn"
+              title="Sales Efficiency"
+              description="Magic Number, CAC payback and burn multiple from S&M spend"
             >
               <div className="h-80 w-full">
-                <MagicNumberChart data={metrics} />
+                <MagicNumberChart data={efficiency} />
               </div>
             </ExpandableChart>
           </div>
@@ -235,8 +277,21 @@ export default function DashboardPage() {
 
         {/* Summary KPI Table - Full Width */}
         <div className="w-full">
-          <SummaryKPITable data={metrics} />
+          <SummaryKPITable data={metrics} efficiency={efficiency} />
         </div>
+
+        {/* Calculation Settings */}
+        <GracePeriodSettings
+          graceMonths={settings.churnGracePeriodMonths}
+          adjustments={gracePeriodAdjustments}
+          onChange={handleGracePeriodChange}
+        />
+
+        <SpendSettings
+          months={metrics.map(m => m.month)}
+          spend={spend}
+          onSave={handleSaveSpend}
+        />
       </div>
     </div>
   )
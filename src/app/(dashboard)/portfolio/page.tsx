@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle, Briefcase } from 'lucide-react'
+import { PortfolioTable } from '@/components/dashboard/portfolio-table'
+import { PortfolioSummary } from '@/types'
+
+export default function PortfolioPage() {
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPortfolio = async () => {
+      try {
+        const response = await fetch('/api/portfolio')
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load portfolio')
+        }
+        setSummary(body)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load portfolio')
+      }
+    }
+
+    loadPortfolio()
+  }, [])
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: summary?.currency ?? 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: Math.abs(value) >= 1000000 ? 'compact' : 'standard'
+    }).format(value)
+  }
+
+  const formatOptionalRate = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`
+
+  const tiles = summary ? [
+    { label: 'Total ARR', value: formatCurrency(summary.totalARR), detail: `${summary.companies.length - summary.excludedCompanyIds.length} companies` },
+    { label: 'Net New ARR', value: formatCurrency(summary.totalNetNewARR), detail: 'Latest month, all companies' },
+    { label: 'Growth YoY', value: formatOptionalRate(summary.weightedGrowthYoY), detail: 'ARR-weighted average' },
+    {
+      label: 'NRR (TTM)',
+      value: formatOptionalRate(summary.weightedNRR),
+      detail: summary.nrrExcludedCompanyIds.length > 0
+        ? `ARR-weighted average, excludes ${summary.nrrExcludedCompanyIds.length} without 12 months of customer data`
+        : 'ARR-weighted average'
+    },
+    {
+      label: 'Burn Multiple',
+      value: summary.weightedBurnMultiple === null ? '—' : `${summary.weightedBurnMultiple.toFixed(2)}x`,
+      detail: 'ARR-weighted average'
+    },
+    { label: 'Net Burn', value: formatCurrency(summary.totalNetBurn), detail: 'Latest month with burn, summed' }
+  ] : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-gray-900">Portfolio</h2>
+        <p className="text-gray-600 mt-2">
+          Latest ARR, growth, retention and burn across every company you track.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!summary && !error && (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {Array.from({ length: 6 }, (_, i) => <Skeleton key={i} className="h-24" />)}
+        </div>
+      )}
+
+      {summary && (
+        <>
+          {/* Portfolio totals */}
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            {tiles.map(tile => (
+              <div key={tile.label} className="rounded-lg border border-gray-100 bg-white p-4">
+                <div className="text-xs text-gray-600">{tile.label}</div>
+                <div className="text-2xl font-bold text-gray-900 mt-1">{tile.value}</div>
+                <div className="text-xs text-gray-500 mt-1">{tile.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          {summary.excludedCompanyIds.length > 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {summary.excludedCompanyIds.length} compan{summary.excludedCompanyIds.length === 1 ? 'y reports' : 'ies report'} in
+                another currency without an FX rate to {summary.currency} and {summary.excludedCompanyIds.length === 1 ? 'is' : 'are'} left
+                out of the totals. Upload FX rates for {summary.excludedCompanyIds.length === 1 ? 'it' : 'them'} to include {summary.excludedCompanyIds.length === 1 ? 'it' : 'them'}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Briefcase className="h-5 w-5 text-blue-600" />
+                Companies
+              </CardTitle>
+              <CardDescription>
+                Click a column to rank companies by it
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PortfolioTable companies={summary.companies} portfolioCurrency={summary.currency} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+// Month annotations API route - per company notes drawn as chart markers
+// Price changes, big deals, data corrections and free-form notes
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import { ANNOTATION_TYPES } from '@/lib/constants';
+import type { Annotation, AnnotationType } from '@/types';
+
+const TYPES = Object.keys(ANNOTATION_TYPES) as AnnotationType[];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { data, error } = await supabase
+      .from('metric_annotations')
+      .select('id, month, type, title, description, created_at')
+      .eq('company_id', companyId)
+      .order('month', { ascending: true });
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to fetch annotations' }, { status: 500 });
+    }
+    
+    const annotations: Annotation[] = (data || []).map(row => ({
+      id: String(row.id),
+      month: String(row.month).slice(0, 7),
+      type: row.type as AnnotationType,
+      title: row.title,
+      ...(row.description ? { description: row.description } : {}),
+      createdAt: row.created_at,
+    }));
+    
+    return Response.json({ annotations });
+  
+  } catch (error) {
+    console.error('Annotations GET API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { companyId, annotation } = body as { companyId?: string; annotation?: Partial<Annotation> };
+    
+    if (!companyId || !annotation) {
+      return Response.json({ error: 'Company ID and annotation are required' }, { status: 400 });
+    }
+    
+    // Validate before touching the database
+    const errors: string[] = [];
+    if (typeof annotation.month !== 'string' || !/^\d{4}-\d{2}$/.test(annotation.month)) {
+      errors.push('Invalid month (expected YYYY-MM)');
+    }
+    if (!annotation.type || !TYPES.includes(annotation.type)) {
+      errors.push(`Type must be one of: ${TYPES.join(', ')}`);
+    }
+    // Bodies are untyped JSON, so check the text fields are strings before trimming them
+    const title = typeof annotation.title === 'string' ? annotation.title.trim() : '';
+    if (!title) {
+      errors.push('Title is required');
+    }
+    if (annotation.description != null && typeof annotation.description !== 'string') {
+      errors.push('Description must be text');
+    }
+    
+    if (errors.length > 0) {
+      return Response.json({ error: 'Validation failed', details: errors }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { data, error } = await supabase
+      .from('metric_annotations')
+      .insert({
+        company_id: companyId,
+        month: `${annotation.month}-01`,
+        type: annotation.type,
+        title,
+        description: annotation.description?.trim() || null,
+      })
+      .select('id, created_at')
+      .single();
+    
+    if (error || !data) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to save annotation' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true, id: String(data.id), createdAt: data.created_at });
+  
+  } catch (error) {
+    console.error('Annotations POST API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    const id = searchParams.get('id');
+    
+    if (!companyId || !id) {
+      return Response.json({ error: 'Company ID and annotation ID are required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { error } = await supabase
+      .from('metric_annotations')
+      .delete()
+      .eq('id', id)
+      .eq('company_id', companyId);
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to delete annotation' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true });
+  
+  } catch (error) {
+    console.error('Annotations DELETE API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
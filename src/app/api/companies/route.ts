@@ -2,6 +2,8 @@
 // Part of the SaaSGrid improvement plan implementation
 
 import { createServerClient } from '@supabase/ssr';
+import { DEFAULT_COMPANY_SETTINGS, MAX_CHURN_GRACE_PERIOD_MONTHS } from '@/lib/constants';
+import type { CompanySettings } from '@/types';
 import { NextRequest } from 'next/server';
 
 export async function GET(request: NextRequest) {
@@ -98,3 +100,159 @@ export async function POST(request: NextRequest) {
     }, { status: 500 });
   }
 }
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { companyId, settings } = body;
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    if (!settings || typeof settings !== 'object') {
+      return Response.json({ error: 'Settings object is required' }, { status: 400 });
+    }
+    
+    // Only the provided settings are validated and changed
+    const graceMonths = settings.churnGracePeriodMonths;
+    if (
+      graceMonths !== undefined && (
+        !Number.isInteger(graceMonths) ||
+        graceMonths < 0 ||
+        graceMonths > MAX_CHURN_GRACE_PERIOD_MONTHS
+      )
+    ) {
+      return Response.json({ 
+        error: `churnGracePeriodMonths must be an integer between 0 and ${MAX_CHURN_GRACE_PERIOD_MONTHS}` 
+      }, { status: 400 });
+    }
+    
+    const grossMargin = settings.grossMarginPercent;
+    if (
+      grossMargin !== undefined &&
+      grossMargin !== null &&
+      (typeof grossMargin !== 'number' || grossMargin <= 0 || grossMargin > 100)
+    ) {
+      return Response.json({ 
+        error: 'grossMarginPercent must be null or a number between 0 and 100' 
+      }, { status: 400 });
+    }
+    
+    // Profit margin may be negative (burning cash) but not below -100%
+    const profitMargin = settings.profitMarginPercent;
+    if (
+      profitMargin !== undefined &&
+      profitMargin !== null &&
+      (typeof profitMargin !== 'number' || profitMargin < -100 || profitMargin > 100)
+    ) {
+      return Response.json({ 
+        error: 'profitMarginPercent must be null or a number between -100 and 100' 
+      }, { status: 400 });
+    }
+    
+    const reportingCurrency = settings.reportingCurrency;
+    if (reportingCurrency !== undefined && (typeof reportingCurrency !== 'string' || !/^[A-Z]{3}$/.test(reportingCurrency))) {
+      return Response.json({ 
+        error: 'reportingCurrency must be a three-letter ISO 4217 code' 
+      }, { status: 400 });
+    }
+    
+    const fxConversion = settings.fxConversion;
+    if (fxConversion !== undefined && fxConversion !== 'average' && fxConversion !== 'monthEnd') {
+      return Response.json({ 
+        error: "fxConversion must be 'average' or 'monthEnd'" 
+      }, { status: 400 });
+    }
+    
+    // A share of MRR, e.g. 0.5 flags customers whose MRR moves by half or more in a month
+    const customerChangeThreshold = settings.customerChangeThreshold;
+    if (
+      customerChangeThreshold !== undefined &&
+      (typeof customerChangeThreshold !== 'number' || customerChangeThreshold <= 0 || customerChangeThreshold > 10)
+    ) {
+      return Response.json({ 
+        error: 'customerChangeThreshold must be a number above 0 and at most 10' 
+      }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Merge with the stored settings of a company the user owns
+    const { data: existing, error: companyError } = await supabase
+      .from('companies')
+      .select('settings')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !existing) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const previousCurrency: string = existing.settings?.reportingCurrency ?? DEFAULT_COMPANY_SETTINGS.reportingCurrency;
+    
+    // Rows uploaded before currencies were stamped are in the old reporting currency; label them before it changes
+    if (reportingCurrency !== undefined && reportingCurrency !== previousCurrency) {
+      const { error: stampError } = await supabase
+        .from('customer_mrr')
+        .update({ currency: previousCurrency })
+        .eq('company_id', companyId)
+        .is('currency', null);
+      
+      if (stampError) {
+        console.error('Database error:', stampError);
+        return Response.json({ error: 'Failed to update company settings' }, { status: 500 });
+      }
+    }
+    
+    const nextSettings: CompanySettings = {
+      ...DEFAULT_COMPANY_SETTINGS,
+      ...(existing.settings || {}),
+      ...(graceMonths !== undefined ? { churnGracePeriodMonths: graceMonths } : {}),
+      ...(grossMargin !== undefined ? { grossMarginPercent: grossMargin } : {}),
+      ...(profitMargin !== undefined ? { profitMarginPercent: profitMargin } : {}),
+      ...(reportingCurrency !== undefined ? { reportingCurrency } : {}),
+      ...(fxConversion !== undefined ? { fxConversion } : {}),
+      ...(customerChangeThreshold !== undefined ? { customerChangeThreshold } : {}),
+    };
+    
+    // Update settings on a company the user owns
+    const { data: company, error } = await supabase
+      .from('companies')
+      .update({ settings: nextSettings })
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+    
+    if (error || !company) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to update company settings' }, { status: 500 });
+    }
+    
+    return Response.json({ company });
+    
+  } catch (error) {
+    console.error('Companies PATCH API error:', error);
+    return Response.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
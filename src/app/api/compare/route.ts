@@ -0,0 +1,72 @@
+// Compare API route - monthly metrics for several companies side by side
+// Alignment and indexing happen client-side so toggling them needs no refetch
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import { loadCompanyMetrics } from '@/lib/supabase/company-data';
+import type { ComparedCompany } from '@/types';
+
+// Enough to keep overlaid charts readable
+const MAX_COMPARED_COMPANIES = 6;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyIds = Array.from(new Set(
+      (searchParams.get('companyIds') || '').split(',').map(id => id.trim()).filter(Boolean)
+    ));
+    
+    if (companyIds.length < 2) {
+      return Response.json({ error: 'At least two company IDs are required' }, { status: 400 });
+    }
+    
+    if (companyIds.length > MAX_COMPARED_COMPANIES) {
+      return Response.json({ error: `At most ${MAX_COMPARED_COMPANIES} companies can be compared` }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify ownership of every requested company
+    const { data: owned, error: companyError } = await supabase
+      .from('companies')
+      .select('id, name, settings')
+      .in('id', companyIds)
+      .eq('user_id', user.id);
+    
+    if (companyError || !owned || owned.length !== companyIds.length) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    // Keep the order the companies were requested in
+    const byId = new Map(owned.map(company => [company.id, company]));
+    const companies: ComparedCompany[] = await Promise.all(companyIds.map(async companyId => {
+      const company = byId.get(companyId)!;
+      const { settings, metrics, missingFxCurrencies } = await loadCompanyMetrics(supabase, company.id, company.settings);
+      return { companyId, name: company.name, currency: settings.reportingCurrency, metrics, missingFxCurrencies };
+    }));
+    
+    return Response.json({ companies });
+    
+  } catch (error) {
+    console.error('Compare API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
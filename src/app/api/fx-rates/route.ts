@@ -0,0 +1,161 @@
+// FX rate API route - per company, currency and month
+// Rates convert customer MRR into the company's reporting currency
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import type { FxRate } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('month, currency, average_rate, month_end_rate')
+      .eq('company_id', companyId)
+      .order('month', { ascending: true });
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to fetch FX rates' }, { status: 500 });
+    }
+    
+    const rates: FxRate[] = (data || []).map(row => ({
+      month: String(row.month).slice(0, 7),
+      currency: row.currency,
+      average: Number(row.average_rate),
+      monthEnd: Number(row.month_end_rate),
+    }));
+    
+    return Response.json({ rates });
+  
+  } catch (error) {
+    console.error('FX rates GET API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { companyId, rates } = body as { companyId?: string; rates?: FxRate[] };
+    
+    if (!companyId || !Array.isArray(rates)) {
+      return Response.json({ error: 'Company ID and rates array are required' }, { status: 400 });
+    }
+    
+    // Validate each rate before touching the database
+    const errors: string[] = [];
+    rates.forEach((entry, index) => {
+      if (!entry.month || !/^\d{4}-\d{2}$/.test(entry.month)) {
+        errors.push(`Entry ${index + 1}: invalid month (expected YYYY-MM)`);
+      }
+      if (!entry.currency || !/^[A-Z]{3}$/.test(entry.currency)) {
+        errors.push(`Entry ${index + 1}: currency must be a three-letter ISO code`);
+      }
+      if (typeof entry.average !== 'number' || entry.average <= 0) {
+        errors.push(`Entry ${index + 1}: average must be a positive number`);
+      }
+      if (typeof entry.monthEnd !== 'number' || entry.monthEnd <= 0) {
+        errors.push(`Entry ${index + 1}: monthEnd must be a positive number`);
+      }
+    });
+    
+    if (errors.length > 0) {
+      return Response.json({ error: 'Validation failed', details: errors }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { error } = await supabase
+      .from('fx_rates')
+      .upsert(
+        rates.map(entry => ({
+          company_id: companyId,
+          month: `${entry.month}-01`,
+          currency: entry.currency,
+          average_rate: entry.average,
+          month_end_rate: entry.monthEnd,
+        })),
+        { onConflict: 'company_id,currency,month' }
+      );
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to save FX rates' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true, ratesSaved: rates.length });
+  
+  } catch (error) {
+    console.error('FX rates PUT API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,208 @@
+// Import templates API route - saved column mappings per company and source system
+// Uploads whose headers match a template are imported with it instead of format detection
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import { fetchImportTemplates } from '@/lib/supabase/company-data';
+import { columnMappingErrors } from '@/lib/file-parser';
+import type { ImportTemplate } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    return Response.json({ templates: await fetchImportTemplates(supabase, companyId) });
+    
+  } catch (error) {
+    console.error('Import templates GET API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Save a template; one with the same name for the company is replaced
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { companyId, template } = body as { companyId?: string; template?: Partial<ImportTemplate> };
+    
+    if (!companyId || !template) {
+      return Response.json({ error: 'Company ID and template are required' }, { status: 400 });
+    }
+    
+    // Validate before touching the database
+    const errors: string[] = [];
+    const mapping = template.mapping;
+    if (!template.name || template.name.trim() === '') {
+      errors.push('Name is required');
+    }
+    if (!Array.isArray(template.headers) || template.headers.length === 0) {
+      errors.push('Headers are required to match future uploads');
+    }
+    if (template.sheetNames !== undefined && !Array.isArray(template.sheetNames)) {
+      errors.push('Sheet names must be a list');
+    }
+    if (template.headerRow !== undefined && (!Number.isInteger(template.headerRow) || template.headerRow < 0)) {
+      errors.push('Header row must be a whole number of 0 or more');
+    }
+    errors.push(...columnMappingErrors(mapping));
+    
+    if (errors.length > 0) {
+      return Response.json({ error: 'Validation failed', details: errors }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { data, error } = await supabase
+      .from('import_templates')
+      .upsert({
+        company_id: companyId,
+        name: template.name!.trim(),
+        source_system: template.sourceSystem?.trim() || null,
+        sheet_names: template.sheetNames ?? [],
+        header_row: template.headerRow ?? 0,
+        headers: template.headers,
+        mapping,
+      }, { onConflict: 'company_id,name' })
+      .select('id, created_at')
+      .single();
+    
+    if (error || !data) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to save import template' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true, id: String(data.id), createdAt: data.created_at });
+    
+  } catch (error) {
+    console.error('Import templates POST API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    const id = searchParams.get('id');
+    
+    if (!companyId || !id) {
+      return Response.json({ error: 'Company ID and template ID are required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { error } = await supabase
+      .from('import_templates')
+      .delete()
+      .eq('id', id)
+      .eq('company_id', companyId);
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to delete import template' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true });
+    
+  } catch (error) {
+    console.error('Import templates DELETE API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
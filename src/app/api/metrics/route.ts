@@ -1,18 +1,46 @@
 // Working metrics API route - implements Step 4 from improvement plan
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { calculateMetrics, calculateMetricsSeries, type MonthlyMetric } from '@/lib/metrics';
+import { calculateMetrics, calculateMetricsSeries, toMonthlyMetricRows, type MonthlyMetric } from '@/lib/metrics';
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics';
+import { GracePeriodAdjuster } from '@/lib/calculations/grace-period';
+import { CurrencyConverter } from '@/lib/calculations/currency';
+import { SegmentCalculator } from '@/lib/calculations/segments';
+import { ProductCalculator } from '@/lib/calculations/products';
+import { RestatementCalculator } from '@/lib/calculations/restatements';
+import {
+  fetchCustomerMonths,
+  fetchCustomerVersions,
+  fetchFxRates,
+  fetchMetricVersions,
+  fetchSpend,
+} from '@/lib/supabase/company-data';
+import { DEFAULT_COMPANY_SETTINGS, SEGMENT_DIMENSIONS } from '@/lib/constants';
+import type { CompanySettings, GracePeriodAdjustment, SegmentDimension } from '@/types';
 import { NextRequest } from 'next/server';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const companyId = searchParams.get('companyId');
+    // Optional segment slice, e.g. segmentBy=plan&segmentValue=Pro
+    const segmentBy = searchParams.get('segmentBy');
+    const segmentValue = searchParams.get('segmentValue');
+    // Optional point-in-time view: figures as reported on this date (YYYY-MM-DD)
+    const asOf = searchParams.get('asOf');
     
     if (!companyId) {
       return Response.json({ error: 'Missing companyId parameter' }, { status: 400 });
     }
     
+    if (segmentBy && !SEGMENT_DIMENSIONS.some(dimension => dimension.key === segmentBy)) {
+      return Response.json({ error: 'Invalid segmentBy parameter' }, { status: 400 });
+    }
+    
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return Response.json({ error: 'Invalid asOf parameter (expected YYYY-MM-DD)' }, { status: 400 });
+    }
+    
     // Create Supabase client with service role for server-side access
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -25,47 +53,138 @@ export async function GET(request: NextRequest) {
       }
     );
     
-    // Query monthly metrics data
-    const { data: monthlyData, error } = await supabase
-      .from('monthly_metrics')
-      .select('*')
-      .eq('company_id', companyId)
-      .order('month', { ascending: true });
+    // Company settings drive customer-level recalculation (e.g. churn grace period)
+    const { data: company } = await supabase
+      .from('companies')
+      .select('settings')
+      .eq('id', companyId)
+      .single();
     
-    if (error) {
-      console.error('Database error:', error);
-      return Response.json({ error: 'Failed to fetch metrics data' }, { status: 500 });
+    const settings: CompanySettings = { ...DEFAULT_COMPANY_SETTINGS, ...(company?.settings || {}) };
+    
+    const spend = await fetchSpend(supabase, companyId);
+    
+    // Prefer customer-level data so settings are applied the same way as on the client.
+    // customer_mrr only holds the latest upload, so past views rebuild the rows from each upload's copy.
+    const customerMonths = asOf
+      ? RestatementCalculator.customerMonthsAsOf(await fetchCustomerVersions(supabase, companyId, asOf), asOf)
+      : await fetchCustomerMonths(supabase, companyId);
+    
+    if (customerMonths.length > 0) {
+      // Convert every row into the reporting currency before calculating
+      const conversion = CurrencyConverter.convert(
+        customerMonths,
+        await fetchFxRates(supabase, companyId),
+        settings.reportingCurrency,
+        settings.fxConversion
+      );
+      
+      const rows = segmentBy && segmentValue
+        ? SegmentCalculator.filter(conversion.data, { dimension: segmentBy as SegmentDimension, value: segmentValue })
+        : conversion.data;
+      // S&M spend is company-wide, so efficiency ratios are only reported unsliced
+      const rowSpend = rows === conversion.data ? spend : [];
+      
+      const metricsData = toMonthlyMetricRows(
+        SaaSMetricsCalculator.calculateMetrics(rows, settings)
+      );
+      const gracePeriodAdjustments: GracePeriodAdjustment[] = GracePeriodAdjuster.apply(
+        rows,
+        settings.churnGracePeriodMonths
+      ).adjustments;
+      
+      // segmentBy without a value returns the full series for every segment value
+      const segments = segmentBy && !segmentValue
+        ? Object.fromEntries(
+            Object.entries(SegmentCalculator.calculateBySegment(conversion.data, segmentBy as SegmentDimension, settings))
+              .map(([value, metrics]) => [value, calculateMetricsSeries(toMonthlyMetricRows(metrics), [], settings)])
+          )
+        : undefined;
+      
+      // Per-product series and expansion mix, when the upload had a product column
+      const hasProducts = rows.some(row => row.product);
+      const products = hasProducts
+        ? Object.fromEntries(
+            Object.entries(ProductCalculator.calculateByProduct(rows, settings))
+              .map(([product, metrics]) => [product, calculateMetricsSeries(toMonthlyMetricRows(metrics), [], settings)])
+          )
+        : undefined;
+      
+      return Response.json({
+        latest: calculateMetrics(metricsData, rowSpend, settings),
+        series: calculateMetricsSeries(metricsData, rowSpend, settings),
+        hasData: true,
+        settings,
+        gracePeriodAdjustments,
+        currency: settings.reportingCurrency,
+        missingFxCurrencies: conversion.missingCurrencies,
+        segmentDimensions: SegmentCalculator.dimensions(customerMonths),
+        ...(segments ? { segments } : {}),
+        ...(products ? { products, expansionBreakdown: ProductCalculator.expansionBreakdown(rows) } : {}),
+        ...(asOf ? { asOf } : {}),
+        dataRange: {
+          start: metricsData[0]?.month,
+          end: metricsData[metricsData.length - 1]?.month,
+          months: metricsData.length
+        }
+      });
+    }
+    
+    // Uploads of monthly totals only; past views use the totals each upload reported
+    let metricsData: MonthlyMetric[];
+    
+    if (asOf) {
+      const totals = RestatementCalculator.asOf(await fetchMetricVersions(supabase, companyId), asOf);
+      metricsData = toMonthlyMetricRows(SaaSMetricsCalculator.calculateFromMonthlyTotals(totals, settings));
+    } else {
+      const { data: monthlyData, error } = await supabase
+        .from('monthly_metrics')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('month', { ascending: true });
+      
+      if (error) {
+        console.error('Database error:', error);
+        return Response.json({ error: 'Failed to fetch metrics data' }, { status: 500 });
+      }
+      
+      // Transform database data to MonthlyMetric format
+      metricsData = (monthlyData || []).map(row => ({
+        month: row.month,
+        mrr: row.mrr || 0,
+        new_mrr: row.new_mrr || 0,
+        new_customers: row.new_customers || 0,
+        reactivation_mrr: row.reactivation_mrr || 0,
+        expansion_mrr: row.expansion_mrr || 0,
+        contraction_mrr: row.contraction_mrr || 0,
+        churned_mrr: row.churned_mrr || 0,
+        churned_customers: row.churned_customers ?? null,
+        customers: row.customers || 0,
+        company_id: row.company_id
+      }));
     }
     
     // If no data found, return empty metrics
-    if (!monthlyData || monthlyData.length === 0) {
+    if (metricsData.length === 0) {
       return Response.json({
         latest: calculateMetrics([]),
         series: [],
-        hasData: false
+        hasData: false,
+        ...(asOf ? { asOf } : {})
       });
     }
     
-    // Transform database data to MonthlyMetric format
-    const metricsData: MonthlyMetric[] = monthlyData.map(row => ({
-      month: row.month,
-      mrr: row.mrr || 0,
-      new_mrr: row.new_mrr || 0,
-      expansion_mrr: row.expansion_mrr || 0,
-      contraction_mrr: row.contraction_mrr || 0,
-      churned_mrr: row.churned_mrr || 0,
-      customers: row.customers || 0,
-      company_id: row.company_id
-    }));
-    
     // Calculate latest metrics and time series
-    const latest = calculateMetrics(metricsData);
-    const series = calculateMetricsSeries(metricsData);
+    const latest = calculateMetrics(metricsData, spend, settings);
+    const series = calculateMetricsSeries(metricsData, spend, settings);
     
     return Response.json({
       latest,
       series,
       hasData: true,
+      settings,
+      gracePeriodAdjustments: [],
+      ...(asOf ? { asOf } : {}),
       dataRange: {
         start: metricsData[0]?.month,
         end: metricsData[metricsData.length - 1]?.month,
@@ -112,9 +231,12 @@ export async function POST(request: NextRequest) {
           month: metric.month,
           mrr: metric.mrr,
           new_mrr: metric.new_mrr || 0,
+          new_customers: metric.new_customers || 0,
+          reactivation_mrr: metric.reactivation_mrr || 0,
           expansion_mrr: metric.expansion_mrr || 0,
           contraction_mrr: metric.contraction_mrr || 0,
           churned_mrr: metric.churned_mrr || 0,
+          churned_customers: metric.churned_customers ?? null,
           customers: metric.customers || 0,
         })),
         { 
@@ -0,0 +1,90 @@
+// Portfolio API route - latest metrics for every company the user owns
+// ARR, growth, NRR and burn per company, with totals and ARR-weighted averages
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import { EfficiencyCalculator } from '@/lib/calculations/efficiency';
+import { FX_BASE_CURRENCY } from '@/lib/calculations/currency';
+import { PortfolioCalculator, type PortfolioInput } from '@/lib/calculations/portfolio';
+import { fetchFxRates, loadCompanyMetrics } from '@/lib/supabase/company-data';
+import type { PortfolioSortKey } from '@/types';
+
+const SORT_KEYS: PortfolioSortKey[] = ['name', 'arr', 'netNewARR', 'arrGrowthYoY', 'nrr', 'netBurn', 'burnMultiple'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sortBy = searchParams.get('sortBy') || 'arr';
+    const order = searchParams.get('order');
+    
+    if (!SORT_KEYS.includes(sortBy as PortfolioSortKey)) {
+      return Response.json({ error: `Invalid sortBy parameter (expected one of: ${SORT_KEYS.join(', ')})` }, { status: 400 });
+    }
+    
+    if (order && order !== 'asc' && order !== 'desc') {
+      return Response.json({ error: 'Invalid order parameter (expected asc or desc)' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const { data: companies, error } = await supabase
+      .from('companies')
+      .select('id, name, settings')
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to fetch companies' }, { status: 500 });
+    }
+    
+    const inputs: PortfolioInput[] = await Promise.all((companies || []).map(async company => {
+      const { settings, metrics, spend, missingFxCurrencies } = await loadCompanyMetrics(supabase, company.id, company.settings);
+      return {
+        companyId: company.id,
+        name: company.name,
+        currency: settings.reportingCurrency,
+        metrics,
+        efficiency: EfficiencyCalculator.calculate(metrics, spend),
+        spend,
+        fxRates: await fetchFxRates(supabase, company.id),
+        fxConversion: settings.fxConversion,
+        missingFxCurrencies,
+      };
+    }));
+    
+    // Totals are in USD; companies without a rate to convert them are listed but not summed
+    const summary = PortfolioCalculator.summarize(inputs, FX_BASE_CURRENCY);
+    
+    return Response.json({
+      ...summary,
+      companies: PortfolioCalculator.sort(
+        summary.companies,
+        sortBy as PortfolioSortKey,
+        (order as 'asc' | 'desc' | null) ?? undefined,
+        summary.currency
+      ),
+    });
+    
+  } catch (error) {
+    console.error('Portfolio API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
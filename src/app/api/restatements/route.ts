@@ -0,0 +1,66 @@
+// Restatements API route - months whose figures changed between uploads
+// Also lists the uploads, which are the dates /api/metrics?asOf can show
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import { RestatementCalculator } from '@/lib/calculations/restatements';
+import { fetchMetricVersions } from '@/lib/supabase/company-data';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const versions = await fetchMetricVersions(supabase, companyId);
+    
+    return Response.json({
+      uploads: versions.map(version => ({
+        uploadId: version.uploadId,
+        fileName: version.fileName,
+        uploadedAt: version.uploadedAt,
+        months: version.months.length,
+      })),
+      restatements: RestatementCalculator.diff(versions),
+    });
+    
+  } catch (error) {
+    console.error('Restatements API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
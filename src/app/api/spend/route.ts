@@ -0,0 +1,156 @@
+// Sales & marketing spend API route - per company and month
+// Feeds Magic Number, CAC, CAC payback and burn multiple
+
+import { createServerClient } from '@supabase/ssr';
+import { NextRequest } from 'next/server';
+import type { SpendMonth } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId');
+    
+    if (!companyId) {
+      return Response.json({ error: 'Company ID is required' }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { data, error } = await supabase
+      .from('sales_marketing_spend')
+      .select('month, sm_spend, net_burn')
+      .eq('company_id', companyId)
+      .order('month', { ascending: true });
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to fetch spend' }, { status: 500 });
+    }
+    
+    const spend: SpendMonth[] = (data || []).map(row => ({
+      month: String(row.month).slice(0, 7),
+      salesMarketingSpend: Number(row.sm_spend) || 0,
+      ...(row.net_burn !== null ? { netBurn: Number(row.net_burn) } : {}),
+    }));
+    
+    return Response.json({ spend });
+  
+  } catch (error) {
+    console.error('Spend GET API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { companyId, spend } = body as { companyId?: string; spend?: SpendMonth[] };
+    
+    if (!companyId || !Array.isArray(spend)) {
+      return Response.json({ error: 'Company ID and spend array are required' }, { status: 400 });
+    }
+    
+    // Validate each month before touching the database
+    const errors: string[] = [];
+    spend.forEach((entry, index) => {
+      if (!entry.month || !/^\d{4}-\d{2}$/.test(entry.month)) {
+        errors.push(`Entry ${index + 1}: invalid month (expected YYYY-MM)`);
+      }
+      if (typeof entry.salesMarketingSpend !== 'number' || entry.salesMarketingSpend < 0) {
+        errors.push(`Entry ${index + 1}: salesMarketingSpend must be a non-negative number`);
+      }
+      if (entry.netBurn !== undefined && typeof entry.netBurn !== 'number') {
+        errors.push(`Entry ${index + 1}: netBurn must be a number`);
+      }
+    });
+    
+    if (errors.length > 0) {
+      return Response.json({ error: 'Validation failed', details: errors }, { status: 400 });
+    }
+    
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          getAll: () => [],
+          setAll: () => {},
+        },
+      }
+    );
+    
+    // Get user from auth
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    // Verify company ownership
+    const { data: company, error: companyError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('user_id', user.id)
+      .single();
+    
+    if (companyError || !company) {
+      return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
+    }
+    
+    const { error } = await supabase
+      .from('sales_marketing_spend')
+      .upsert(
+        spend.map(entry => ({
+          company_id: companyId,
+          month: `${entry.month}-01`,
+          sm_spend: entry.salesMarketingSpend,
+          net_burn: entry.netBurn ?? null,
+        })),
+        { onConflict: 'company_id,month' }
+      );
+    
+    if (error) {
+      console.error('Database error:', error);
+      return Response.json({ error: 'Failed to save spend' }, { status: 500 });
+    }
+    
+    return Response.json({ success: true, monthsSaved: spend.length });
+  
+  } catch (error) {
+    console.error('Spend PUT API error:', error);
+    return Response.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
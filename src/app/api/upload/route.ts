@@ -4,14 +4,33 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextRequest } from 'next/server';
 import { validateCsv, formatValidationErrors } from '@/lib/csv-validate';
-import { parseSpreadsheet } from '@/lib/file-parser';
-import { type MonthlyMetric } from '@/lib/metrics';
+import {
+  applyColumnMapping,
+  columnMappingErrors,
+  findImportTemplate,
+  mappingForTemplate,
+  parseSpreadsheet,
+  readSheet,
+} from '@/lib/file-parser';
+import { calculateUploadMetrics, toMonthlyMetricRows, toMonthlyTotals } from '@/lib/metrics';
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics';
+import { AnomalyDetector } from '@/lib/calculations/anomalies';
+import { fetchCustomerMonths, fetchFxRates, fetchImportTemplates } from '@/lib/supabase/company-data';
+import { CurrencyConverter } from '@/lib/calculations/currency';
+import { DEFAULT_COMPANY_SETTINGS } from '@/lib/constants';
+import type { Anomaly, ColumnMapping, CompanySettings, CustomerMonth, ImportTemplate, MonthlyMetrics, MRRMovement } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const companyId = formData.get('companyId') as string;
+    // Optional JSON column mapping confirmed in the upload wizard (spreadsheets only)
+    const mappingField = formData.get('mapping') as string | null;
+    // Optional saved import template to apply instead of matching one by headers
+    const templateId = formData.get('templateId') as string | null;
+    // Optional JSON list of worksheets to stack; otherwise the best-recognised sheet is used
+    const sheetNamesField = formData.get('sheetNames') as string | null;
     
     if (!file) {
       return Response.json({ error: 'No file provided' }, { status: 400 });
@@ -21,6 +40,45 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: 'Company ID is required' }, { status: 400 });
     }
     
+    let mapping: ColumnMapping | null = null;
+    if (mappingField) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(mappingField);
+      } catch {
+        return Response.json({ error: 'Invalid column mapping', details: ['Mapping must be JSON'] }, { status: 400 });
+      }
+      
+      const mappingErrors = columnMappingErrors(parsed);
+      if (mappingErrors.length > 0) {
+        return Response.json({ error: 'Invalid column mapping', details: mappingErrors }, { status: 400 });
+      }
+      
+      // Optional fields default as the wizard sends them
+      const fields = parsed as Partial<ColumnMapping>;
+      mapping = {
+        ...(parsed as ColumnMapping),
+        customerIdColumn: fields.customerIdColumn ?? null,
+        monthColumn: fields.monthColumn ?? null,
+        valueColumn: fields.valueColumn ?? null,
+        monthColumns: fields.monthColumns ?? [],
+      };
+    }
+    
+    let sheetNames: string[] = [];
+    if (sheetNamesField) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(sheetNamesField);
+      } catch {
+        // Reported below
+      }
+      if (!Array.isArray(parsed) || parsed.some(name => typeof name !== 'string')) {
+        return Response.json({ error: 'Sheet names must be a JSON list of strings' }, { status: 400 });
+      }
+      sheetNames = parsed;
+    }
+    
     // Validate file type and size
     const allowedTypes = [
       'text/csv',
@@ -60,7 +118,7 @@ export async function POST(request: NextRequest) {
     // Verify company ownership
     const { data: company, error: companyError } = await supabase
       .from('companies')
-      .select('id')
+      .select('id, settings')
       .eq('id', companyId)
       .eq('user_id', user.id)
       .single();
@@ -69,8 +127,14 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: 'Invalid company or access denied' }, { status: 403 });
     }
     
+    const settings: CompanySettings = { ...DEFAULT_COMPANY_SETTINGS, ...(company.settings || {}) };
+    
     let parsedData: any[];
+    let customerRows: CustomerMonth[] = [];
+    let monthlyMetrics: MonthlyMetrics[];
+    let movements: MRRMovement[] = [];
     let validationResult: any;
+    let importTemplate: ImportTemplate | null = null;
     
     try {
       // Parse file based on type
@@ -87,33 +151,52 @@ export async function POST(request: NextRequest) {
         }
         
         parsedData = validationResult.rows;
+        monthlyMetrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(toMonthlyTotals(parsedData), settings);
       } else {
-        // Use existing Excel parser for .xlsx/.xls files
-        const customerMonthData = await parseSpreadsheet(file);
-        
-        // Transform CustomerMonth data to MonthlyMetric format
-        const monthlyMetrics = new Map<string, MonthlyMetric>();
-        
-        customerMonthData.forEach(item => {
-          const month = item.month;
-          if (!monthlyMetrics.has(month)) {
-            monthlyMetrics.set(month, {
-              month,
-              mrr: 0,
-              customers: 0,
-              new_mrr: 0,
-              expansion_mrr: 0,
-              contraction_mrr: 0,
-              churned_mrr: 0,
-            });
+        // Use existing Excel parser for .xlsx/.xls files; a confirmed mapping or saved template skips format detection
+        if (mapping) {
+          customerRows = applyColumnMapping(await readSheet(file, { sheetNames }), mapping);
+        } else {
+          const templates = (await fetchImportTemplates(supabase, companyId))
+            .filter(template => !templateId || template.id === templateId);
+          
+          if (templateId && templates.length === 0) {
+            return Response.json({ error: 'Import template not found' }, { status: 404 });
           }
           
-          const metric = monthlyMetrics.get(month)!;
-          metric.mrr += item.mrr;
-          metric.customers += 1;
-        });
+          const match = await findImportTemplate(file, templates);
+          if (templateId && !match) {
+            return Response.json({ error: 'File does not match the import template headers' }, { status: 422 });
+          }
+          
+          importTemplate = match?.template ?? null;
+          customerRows = match
+            ? applyColumnMapping(match.sheet, mappingForTemplate(match.template, match.sheet))
+            : await parseSpreadsheet(file, { sheetNames });
+        }
+        
+        // Rows without a currency column are billed in the reporting currency at the time of upload
+        customerRows = CurrencyConverter.stamp(customerRows, settings.reportingCurrency);
         
-        parsedData = Array.from(monthlyMetrics.values());
+        // Calculate movements from customer-level data in the reporting currency, honouring company settings,
+        // against the stored history so a partial re-upload does not count its first month's customers as new
+        const upload = calculateUploadMetrics(
+          customerRows,
+          await fetchFxRates(supabase, companyId),
+          settings,
+          await fetchCustomerMonths(supabase, companyId)
+        );
+        
+        if (upload.missingCurrencies.length > 0) {
+          return Response.json({
+            error: `No FX rate for ${upload.missingCurrencies.join(', ')}. Upload FX rates before importing customers billed in ${upload.missingCurrencies.length > 1 ? 'these currencies' : 'this currency'}.`,
+            missingFxCurrencies: upload.missingCurrencies
+          }, { status: 422 });
+        }
+        
+        monthlyMetrics = upload.metrics;
+        movements = upload.ledger;
+        parsedData = toMonthlyMetricRows(monthlyMetrics);
       }
       
       if (parsedData.length === 0) {
@@ -122,6 +205,11 @@ export async function POST(request: NextRequest) {
         }, { status: 422 });
       }
       
+      // Flag outlier months, large single-customer swings and customer count drops
+      const anomalies: Anomaly[] = AnomalyDetector.detect(monthlyMetrics, movements, {
+        customerChange: settings.customerChangeThreshold
+      });
+      
       // Create snapshot for rollback capability
       const snapshot = {
         fileName: file.name,
@@ -131,7 +219,10 @@ export async function POST(request: NextRequest) {
         companyId,
         dataPreview: parsedData.slice(0, 5), // Store first 5 rows for preview
         totalRows: parsedData.length,
-        validationSummary: validationResult?.summary || null
+        validationSummary: validationResult?.summary || null,
+        importTemplate: importTemplate
+          ? { id: importTemplate.id, name: importTemplate.name, sourceSystem: importTemplate.sourceSystem }
+          : null
       };
       
       // Start transaction: create upload job first
@@ -143,6 +234,7 @@ export async function POST(request: NextRequest) {
           file_size: file.size,
           status: 'processing',
           snapshot: snapshot,
+          import_template_id: importTemplate?.id ?? null,
           user_id: user.id
         })
         .select()
@@ -153,18 +245,120 @@ export async function POST(request: NextRequest) {
         return Response.json({ error: 'Failed to create upload job' }, { status: 500 });
       }
       
-      // Upsert metrics data
+      // Mark the job failed and drop the versions it recorded, so history only holds completed uploads
+      const failUpload = async (message: string) => {
+        await supabase.from('monthly_metrics_versions').delete().eq('upload_job_id', uploadJob.id);
+        await supabase.from('customer_mrr_versions').delete().eq('upload_job_id', uploadJob.id);
+        await supabase
+          .from('upload_jobs')
+          .update({ status: 'failed', error_message: message })
+          .eq('id', uploadJob.id);
+      };
+      
       const metricsToInsert = parsedData.map(metric => ({
         company_id: companyId,
         month: metric.month,
         mrr: metric.mrr || 0,
         new_mrr: metric.new_mrr || 0,
+        new_customers: metric.new_customers || 0,
+        reactivation_mrr: metric.reactivation_mrr || 0,
         expansion_mrr: metric.expansion_mrr || 0,
         contraction_mrr: metric.contraction_mrr || 0,
         churned_mrr: metric.churned_mrr || 0,
+        churned_customers: metric.churned_customers ?? null,
         customers: metric.customers || 0,
       }));
       
+      // monthly_metrics only holds the latest figures; record this upload's as a version before
+      // replacing anything, so the latest figures never change without a version to restate them from
+      const { error: versionError } = await supabase
+        .from('monthly_metrics_versions')
+        .insert(metricsToInsert.map(metric => ({
+          ...metric,
+          upload_job_id: uploadJob.id,
+          recorded_at: snapshot.uploadedAt,
+        })));
+      
+      if (versionError) {
+        await failUpload(versionError.message);
+        
+        console.error('Failed to insert metric versions:', versionError);
+        return Response.json({ error: 'Failed to save metrics history' }, { status: 500 });
+      }
+      
+      // Keep customer-level rows so /api/metrics can recalculate when settings change
+      if (customerRows.length > 0) {
+        const uploadedMonths = Array.from(new Set(customerRows.map(row => row.month)));
+        const customerRecords = customerRows.map(row => ({
+          company_id: companyId,
+          customer_id: row.customerId,
+          customer_name: row.customerName,
+          month: row.month,
+          mrr: row.mrr,
+          currency: row.currency,
+          attributes: row.attributes ?? null,
+          product: row.product ?? null,
+          quantity: row.quantity ?? null,
+        }));
+        
+        // customer_mrr only holds the latest rows; keep this upload's copy so as-of views recalculate from it
+        const { error: customerVersionError } = await supabase
+          .from('customer_mrr_versions')
+          .insert(customerRecords.map(record => ({
+            ...record,
+            upload_job_id: uploadJob.id,
+            recorded_at: snapshot.uploadedAt,
+          })));
+        
+        if (customerVersionError) {
+          await failUpload(customerVersionError.message);
+          
+          console.error('Failed to insert customer MRR versions:', customerVersionError);
+          return Response.json({ error: 'Failed to save customer history' }, { status: 500 });
+        }
+        
+        await supabase
+          .from('customer_mrr')
+          .delete()
+          .eq('company_id', companyId)
+          .in('month', uploadedMonths);
+        
+        const { error: customerError } = await supabase
+          .from('customer_mrr')
+          .insert(customerRecords);
+        
+        if (customerError) {
+          await failUpload(customerError.message);
+          
+          console.error('Failed to insert customer MRR:', customerError);
+          return Response.json({ error: 'Failed to save customer data' }, { status: 500 });
+        }
+      }
+      
+      // Monthly CSVs may carry S&M spend and net burn alongside MRR
+      const spendRows = parsedData
+        .filter(metric => metric.sm_spend !== undefined)
+        .map(metric => ({
+          company_id: companyId,
+          month: metric.month,
+          sm_spend: metric.sm_spend,
+          net_burn: metric.net_burn ?? null,
+        }));
+      
+      if (spendRows.length > 0) {
+        const { error: spendError } = await supabase
+          .from('sales_marketing_spend')
+          .upsert(spendRows, { onConflict: 'company_id,month' });
+        
+        if (spendError) {
+          await failUpload(spendError.message);
+          
+          console.error('Failed to insert spend:', spendError);
+          return Response.json({ error: 'Failed to save spend data' }, { status: 500 });
+        }
+      }
+      
+      // Upsert metrics data
       const { error: metricsError } = await supabase
         .from('monthly_metrics')
         .upsert(metricsToInsert, { 
@@ -173,11 +367,7 @@ export async function POST(request: NextRequest) {
         });
       
       if (metricsError) {
-        // Update job status to failed
-        await supabase
-          .from('upload_jobs')
-          .update({ status: 'failed', error_message: metricsError.message })
-          .eq('id', uploadJob.id);
+        await failUpload(metricsError.message);
         
         console.error('Failed to insert metrics:', metricsError);
         return Response.json({ error: 'Failed to save metrics data' }, { status: 500 });
@@ -189,6 +379,7 @@ export async function POST(request: NextRequest) {
         .update({ 
           status: 'completed',
           rows_processed: parsedData.length,
+          anomalies,
           completed_at: new Date().toISOString()
         })
         .eq('id', uploadJob.id);
@@ -197,6 +388,8 @@ export async function POST(request: NextRequest) {
         success: true,
         uploadJobId: uploadJob.id,
         rowsProcessed: parsedData.length,
+        anomalies,
+        importTemplate: snapshot.importTemplate,
         summary: {
           totalRows: parsedData.length,
           dateRange: {
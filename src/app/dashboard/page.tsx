@@ -5,16 +5,46 @@ import { PremiumKPICards } from '@/components/dashboard/premium-kpi-cards'
 import { ARRWaterfallChart } from '@/components/charts/arr-waterfall-chart'
 import { CustomerGrowthChart } from '@/components/charts/customer-growth-chart'
 import { MagicNumberChart } from '@/components/charts/magic-number-chart'
+import { ContractRevenueChart } from '@/components/charts/contract-revenue-chart'
 import { ExpandableChart } from '@/components/charts/expandable-chart'
 import { PremiumChartContainer } from '@/components/charts/premium-chart-container'
 import { SummaryKPITable } from '@/components/dashboard/summary-kpi-table'
+import { GracePeriodSettings } from '@/components/dashboard/grace-period-settings'
+import { SpendSettings } from '@/components/dashboard/spend-settings'
+import { CurrencySettings } from '@/components/dashboard/currency-settings'
+import { SegmentFilter } from '@/components/dashboard/segment-filter'
+import { WhatChanged } from '@/components/dashboard/what-changed'
+import { AnomalyWarnings } from '@/components/dashboard/anomaly-warnings'
+import { RestatementDiff } from '@/components/dashboard/restatement-diff'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Upload, Trash2, FileSpreadsheet, AlertCircle, BarChart3, DollarSign, TrendingUp } from 'lucide-react'
+import { Upload, Trash2, FileSpreadsheet, AlertCircle, BarChart3, DollarSign, TrendingUp, Download, History } from 'lucide-react'
 import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
 import { DataStore } from '@/lib/data-store'
-import { MonthlyMetrics } from '@/types'
+import { DEFAULT_COMPANY_SETTINGS, SEGMENT_DIMENSIONS } from '@/lib/constants'
+import { downloadCsv, movementLedgerToCsv } from '@/lib/export'
+import { Annotation, Anomaly, BenchmarkComparison, CompanySettings, ContractRevenueMetrics, EfficiencyMetrics, FxConversion, FxRate, GracePeriodAdjustment, MetricVersion, MonthExplanation, MonthlyMetrics, Restatement, SegmentDimension, SegmentFilter as SegmentFilterValue, SpendMonth } from '@/types'
+
+// Currency view showing every customer converted into the reporting currency
+const REPORTING_VIEW = 'reporting'
+// As-of option showing the figures from the most recent upload
+const LATEST_VERSION = 'latest'
+
+// asOf (YYYY-MM-DD) recalculates the customer rows reported on that date, unsliced
+function loadMetrics(view: string, segment: SegmentFilterValue | null, asOf: string = ''): MonthlyMetrics[] {
+  if (asOf) return DataStore.getMetricsAsOf(asOf)
+  if (view !== REPORTING_VIEW) return DataStore.getMetricsInCurrency(view, segment)
+  return segment ? DataStore.getSegmentMetrics(segment) : DataStore.getMetrics()
+}
+
+function loadSegmentValues(): Partial<Record<SegmentDimension, string[]>> {
+  return Object.fromEntries(
+    DataStore.getSegmentDimensions().map(dimension => [dimension, DataStore.getSegmentValues(dimension)])
+  )
+}
 
 export default function DashboardPage() {
   const [hasData, setHasData] = useState(false)
@@ -25,6 +55,25 @@ export default function DashboardPage() {
     dateRange: string;
   } | null>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [settings, setSettings] = useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS)
+  const [gracePeriodAdjustments, setGracePeriodAdjustments] = useState<GracePeriodAdjustment[]>([])
+  const [spend, setSpend] = useState<SpendMonth[]>([])
+  const [efficiency, setEfficiency] = useState<EfficiencyMetrics[]>([])
+  const [fxRates, setFxRates] = useState<FxRate[]>([])
+  const [currencies, setCurrencies] = useState<string[]>([])
+  const [missingFxCurrencies, setMissingFxCurrencies] = useState<string[]>([])
+  const [viewCurrency, setViewCurrency] = useState(REPORTING_VIEW)
+  const [segmentValues, setSegmentValues] = useState<Partial<Record<SegmentDimension, string[]>>>({})
+  const [segment, setSegment] = useState<SegmentFilterValue | null>(null)
+  const [contractRevenue, setContractRevenue] = useState<ContractRevenueMetrics[]>([])
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([])
+  const [benchmarks, setBenchmarks] = useState<BenchmarkComparison | null>(null)
+  const [explainedMonth, setExplainedMonth] = useState('')
+  const [explanation, setExplanation] = useState<MonthExplanation | null>(null)
+  const [metricVersions, setMetricVersions] = useState<MetricVersion[]>([])
+  const [restatements, setRestatements] = useState<Restatement[]>([])
+  const [asOf, setAsOf] = useState('')
 
   // Load data on component mount
   useEffect(() => {
@@ -33,8 +82,29 @@ export default function DashboardPage() {
       setHasData(dataExists)
       
       if (dataExists) {
-        setMetrics(DataStore.getMetrics())
+        const loaded = DataStore.getMetrics()
+        const latestMonth = loaded.length > 0 ? loaded[loaded.length - 1].month : ''
+        setMetrics(loaded)
         setDataSummary(DataStore.getDataSummary())
+        setSettings(DataStore.getSettings())
+        setGracePeriodAdjustments(DataStore.getGracePeriodAdjustments())
+        setSpend(DataStore.getSpend())
+        setEfficiency(DataStore.getEfficiencyMetrics())
+        setFxRates(DataStore.getFxRates())
+        setCurrencies(DataStore.getCurrencies())
+        setMissingFxCurrencies(DataStore.getMissingFxCurrencies())
+        setViewCurrency(REPORTING_VIEW)
+        setSegmentValues(loadSegmentValues())
+        setSegment(null)
+        setContractRevenue(DataStore.getContractRevenue())
+        setAnnotations(DataStore.getAnnotations())
+        setAnomalies(DataStore.getAnomalies())
+        setBenchmarks(DataStore.getBenchmarkComparison())
+        setExplainedMonth(latestMonth)
+        setExplanation(latestMonth ? DataStore.getMonthExplanation(latestMonth) : null)
+        setMetricVersions(DataStore.getMetricVersions())
+        setRestatements(DataStore.getRestatements())
+        setAsOf('')
       }
     }
 
@@ -54,9 +124,118 @@ export default function DashboardPage() {
     setHasData(false)
     setMetrics([])
     setDataSummary(null)
+    setSpend([])
+    setEfficiency([])
+    setSegmentValues({})
+    setSegment(null)
+    setContractRevenue([])
+    setAnomalies([])
+    setBenchmarks(null)
+    setExplainedMonth('')
+    setExplanation(null)
+    setMetricVersions([])
+    setRestatements([])
+    setAsOf('')
     setShowDeleteConfirm(false)
   }
 
+  const handleGracePeriodChange = (churnGracePeriodMonths: number) => {
+    const updated = { ...settings, churnGracePeriodMonths }
+    DataStore.saveSettings(updated)
+    setSettings(updated)
+    setMetrics(loadMetrics(viewCurrency, segment, asOf))
+    setGracePeriodAdjustments(DataStore.getGracePeriodAdjustments())
+    setEfficiency(DataStore.getEfficiencyMetrics())
+    setBenchmarks(DataStore.getBenchmarkComparison())
+    refreshExplanation(explainedMonth, segment)
+  }
+
+  const handleProfitMarginChange = (profitMarginPercent: number | null) => {
+    const updated = { ...settings, profitMarginPercent }
+    DataStore.saveSettings(updated)
+    setSettings(updated)
+    setMetrics(loadMetrics(viewCurrency, segment, asOf))
+  }
+
+  // Reporting currency or FX basis changes re-convert every customer
+  const handleCurrencySettingsChange = (reportingCurrency: string, fxConversion: FxConversion) => {
+    const updated = { ...settings, reportingCurrency, fxConversion }
+    DataStore.saveSettings(updated)
+    setSettings(updated)
+    refreshConvertedData()
+  }
+
+  const handleImportFxRates = (rates: FxRate[]) => {
+    DataStore.saveFxRates(rates)
+    setFxRates(DataStore.getFxRates())
+    refreshConvertedData()
+  }
+
+  const refreshConvertedData = () => {
+    setMetrics(loadMetrics(viewCurrency, segment, asOf))
+    setGracePeriodAdjustments(DataStore.getGracePeriodAdjustments())
+    setEfficiency(DataStore.getEfficiencyMetrics())
+    setCurrencies(DataStore.getCurrencies())
+    setMissingFxCurrencies(DataStore.getMissingFxCurrencies())
+    setDataSummary(DataStore.getDataSummary())
+    setBenchmarks(DataStore.getBenchmarkComparison())
+    refreshExplanation(explainedMonth, segment)
+  }
+
+  const refreshExplanation = (month: string, selected: SegmentFilterValue | null) => {
+    setExplanation(month ? DataStore.getMonthExplanation(month, selected) : null)
+  }
+
+  // Past views are shown unsliced in the reporting currency
+  const handleAsOfChange = (value: string) => {
+    const selected = value === LATEST_VERSION ? '' : value
+    setAsOf(selected)
+    setViewCurrency(REPORTING_VIEW)
+    setSegment(null)
+    setMetrics(loadMetrics(REPORTING_VIEW, null, selected))
+    refreshExplanation(explainedMonth, null)
+  }
+
+  const handleViewCurrencyChange = (view: string) => {
+    setViewCurrency(view)
+    setMetrics(loadMetrics(view, segment))
+  }
+
+  const handleSegmentChange = (selected: SegmentFilterValue | null) => {
+    setSegment(selected)
+    setMetrics(loadMetrics(viewCurrency, selected))
+    refreshExplanation(explainedMonth, selected)
+  }
+
+  const handleExplainedMonthChange = (month: string) => {
+    setExplainedMonth(month)
+    refreshExplanation(month, segment)
+  }
+
+  const handleAddAnnotation = (annotation: Pick<Annotation, 'month' | 'type' | 'title' | 'description'>) => {
+    DataStore.saveAnnotation({
+      ...annotation,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
+    })
+    setAnnotations(DataStore.getAnnotations())
+  }
+
+  const handleDeleteAnnotation = (id: string) => {
+    DataStore.deleteAnnotation(id)
+    setAnnotations(DataStore.getAnnotations())
+  }
+
+  const handleSaveSpend = (updated: SpendMonth[]) => {
+    DataStore.saveSpend(updated)
+    setSpend(DataStore.getSpend())
+    setEfficiency(DataStore.getEfficiencyMetrics())
+  }
+
+  const handleDownloadLedger = () => {
+    downloadCsv('mrr-movement-ledger.csv', movementLedgerToCsv(DataStore.getMovementLedger()))
+  }
+
   // Empty state when no data - SaaSBoard inspired design
   if (!hasData) {
     return (
@@ -127,6 +306,17 @@ export default function DashboardPage() {
   // Dashboard with real data
   const currentMetrics = metrics[metrics.length - 1] // Latest month
   const previousMetrics = metrics[metrics.length - 2] // Previous month
+  const isReportingView = viewCurrency === REPORTING_VIEW
+  // Spend is company-wide, so efficiency only lines up with the unsliced metrics
+  const isUnsliced = isReportingView && segment === null
+  // One entry per day with an upload, newest first
+  const versionDates = Array.from(new Set(metricVersions.map(version => version.uploadedAt.slice(0, 10)))).reverse()
+  const segmentLabel = segment
+    ? `${SEGMENT_DIMENSIONS.find(dimension => dimension.key === segment.dimension)?.label}: ${segment.value}`
+    : null
+  const displayCurrency = isReportingView ? settings.reportingCurrency : viewCurrency
+  // Only offer the toggle when some customers are billed in another currency
+  const showCurrencyToggle = currencies.some(currency => currency !== settings.reportingCurrency)
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-12 isolate">
@@ -141,6 +331,42 @@ export default function DashboardPage() {
         
         {/* Data Management Actions */}
         <div className="flex gap-2">
+          {metricVersions.length > 1 && (
+            <Select value={asOf || LATEST_VERSION} onValueChange={handleAsOfChange}>
+              <SelectTrigger className="w-48 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LATEST_VERSION}>As of latest upload</SelectItem>
+                {versionDates.map(date => (
+                  <SelectItem key={date} value={date}>As of {format(parseISO(date), 'MMM d, yyyy')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {!asOf && <SegmentFilter values={segmentValues} value={segment} onChange={handleSegmentChange} />}
+          {showCurrencyToggle && !asOf && (
+            <Select value={viewCurrency} onValueChange={handleViewCurrencyChange}>
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={REPORTING_VIEW}>Reporting ({settings.reportingCurrency})</SelectItem>
+                {currencies.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency} (original)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex items-center gap-2"
+            onClick={handleDownloadLedger}
+          >
+            <Download className="h-4 w-4" />
+            Download MRR Ledger
+          </Button>
           <Link href="/dashboard/upload">
             <Button variant="outline" size="sm" className="flex items-center gap-2">
               <Upload className="h-4 w-4" />
@@ -177,6 +403,30 @@ export default function DashboardPage() {
         </Alert>
       )}
 
+      {/* Flags raised when the data was uploaded */}
+      <AnomalyWarnings anomalies={anomalies} currency={settings.reportingCurrency} />
+
+      {asOf && (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertDescription>
+            Showing figures as reported on {format(parseISO(asOf), 'MMM d, yyyy')}, recalculated from each month&apos;s uploaded customer rows with the current settings and FX rates.
+            Sales efficiency and the movement explainer reflect the latest upload.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!isUnsliced && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Showing only customers
+            {segmentLabel && ` in ${segmentLabel}`}
+            {!isReportingView && ` billed in ${viewCurrency}, in their original currency`}. Sales efficiency is calculated for all customers in the reporting currency.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Premium KPI Cards with Real Data */}
       {currentMetrics && (
         <PremiumKPICards 
@@ -187,11 +437,23 @@ export default function DashboardPage() {
             nrr: currentMetrics.netRevenueRetention,
             grr: currentMetrics.grossRevenueRetention,
             churnRate: currentMetrics.logoChurnRate,
+            netNewARR: currentMetrics.netNewARR,
+            quickRatio: currentMetrics.quickRatio,
+            arrGrowthQoQ: currentMetrics.arrGrowthQoQ,
+            arrGrowthYoY: currentMetrics.arrGrowthYoY,
+            cmgr: currentMetrics.cmgr,
+            ruleOf40: currentMetrics.ruleOf40,
           }} 
           previousMetrics={previousMetrics ? {
             mrr: previousMetrics.totalMRR,
             customerCount: previousMetrics.customerCount,
           } : undefined}
+          trailingRetention={currentMetrics.trailingRetention}
+          series={metrics}
+          profitMarginPercent={settings.profitMarginPercent}
+          onProfitMarginChange={handleProfitMarginChange}
+          currency={displayCurrency}
+          benchmarks={isUnsliced && !asOf ? benchmarks : null}
         />
       )}
 
@@ -203,10 +465,12 @@ export default function DashboardPage() {
           subtitle="Annual Recurring Revenue breakdown showing growth drivers and churn impact"
           variant="premium"
           onExpand={() => {/* Handle expand */}}
-          onExport={(format) => {/* Handle export */}}
+          onExport={(format) => {
+            if (format === 'csv') handleDownloadLedger()
+          }}
         >
           <div className="h-[420px] w-full">
-            <ARRWaterfallChart data={metrics} />
+            <ARRWaterfallChart data={metrics} currency={displayCurrency} annotations={annotations} />
           </div>
         </PremiumChartContainer>
         
@@ -220,25 +484,51 @@ export default function DashboardPage() {
               onExport={(format) => {/* Handle export */}}
             >
               <div className="h-[420px] w-full">
-                <CustomerGrowthChart data={metrics} />
+                <CustomerGrowthChart data={metrics} currency={displayCurrency} annotations={annotations} />
               </div>
             </PremiumChartContainer>
           </div>
           
           <div className="col-span-12 xl:col-span-6">
             <PremiumChartContainer
-              title="Magic Number"
-              subtitle="Growth efficiency metric - measures new revenue generation relative to churn"
+              title="Sales Efficiency"
+              subtitle="Magic Number, CAC payback and burn multiple from S&M spend"
               onExpand={() => {/* Handle expand */}}
               onExport={(format) => {/* Handle export */}}
             >
               <div className="h-[420px] w-full">
-                <MagicNumberChart data={metrics} />
+                <MagicNumberChart data={efficiency} />
               </div>
             </PremiumChartContainer>
           </div>
         </div>
 
+        {/* Customers behind the month's movements, plus user notes */}
+        {explainedMonth && (
+          <WhatChanged
+            months={metrics.map(m => m.month)}
+            month={explainedMonth}
+            explanation={explanation}
+            annotations={annotations}
+            currency={settings.reportingCurrency}
+            onMonthChange={handleExplainedMonthChange}
+            onAddAnnotation={handleAddAnnotation}
+            onDeleteAnnotation={handleDeleteAnnotation}
+          />
+        )}
+
+        {/* Contract schedule, only for contract uploads */}
+        {contractRevenue.length > 0 && (
+          <PremiumChartContainer
+            title="Bookings, Billings & RPO"
+            subtitle="Contract bookings, invoicing, deferred revenue and remaining performance obligations"
+            actions={false}
+            timeSelector={false}
+          >
+            <ContractRevenueChart data={contractRevenue} currency={settings.reportingCurrency} />
+          </PremiumChartContainer>
+        )}
+
         {/* Summary KPI Table - Enhanced */}
         <PremiumChartContainer
           title="Monthly Performance Summary"
@@ -246,8 +536,36 @@ export default function DashboardPage() {
           actions={false}
           timeSelector={false}
         >
-          <SummaryKPITable data={metrics} />
+          <SummaryKPITable data={metrics} efficiency={isUnsliced ? efficiency : []} currency={displayCurrency} />
         </PremiumChartContainer>
+
+        {/* What each re-upload changed in previously reported months */}
+        {metricVersions.length > 1 && (
+          <RestatementDiff restatements={restatements} currency={settings.reportingCurrency} />
+        )}
+
+        {/* Calculation Settings */}
+        <GracePeriodSettings
+          graceMonths={settings.churnGracePeriodMonths}
+          adjustments={gracePeriodAdjustments}
+          onChange={handleGracePeriodChange}
+        />
+
+        <SpendSettings
+          months={metrics.map(m => m.month)}
+          spend={spend}
+          onSave={handleSaveSpend}
+        />
+
+        <CurrencySettings
+          reportingCurrency={settings.reportingCurrency}
+          fxConversion={settings.fxConversion}
+          rates={fxRates}
+          currencies={currencies}
+          missingCurrencies={missingFxCurrencies}
+          onSettingsChange={handleCurrencySettingsChange}
+          onRatesImport={handleImportFxRates}
+        />
       </div>
     </div>
   )
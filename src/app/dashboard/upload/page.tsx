@@ -1,18 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { FileUploader } from '@/components/upload/file-uploader'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { CheckCircle2, AlertCircle, BarChart3 } from 'lucide-react'
-import { CustomerMonth } from '@/types'
+import { CheckCircle2, AlertCircle, BarChart3, History } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { Contract, CustomerMonth, MetricVersion } from '@/types'
 import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
 import { DataStore } from '@/lib/data-store'
 import Link from 'next/link'
 
 export default function UploadPage() {
   const [uploadedData, setUploadedData] = useState<CustomerMonth[] | null>(null)
+  const [uploadedContracts, setUploadedContracts] = useState<Contract[]>([])
+  const [uploadedFileName, setUploadedFileName] = useState('')
+  const [uploadedTemplateName, setUploadedTemplateName] = useState<string | undefined>(undefined)
+  const [uploadHistory, setUploadHistory] = useState<MetricVersion[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingResult, setProcessingResult] = useState<{
     success: boolean
@@ -26,8 +32,20 @@ export default function UploadPage() {
     dateRange: string
   } | null>(null)
 
-  const handleUploadComplete = async (data: CustomerMonth[]) => {
+  useEffect(() => {
+    setUploadHistory(DataStore.getMetricVersions().reverse())
+  }, [])
+
+  const handleUploadComplete = async (
+    data: CustomerMonth[],
+    contracts: Contract[],
+    fileName: string,
+    templateName?: string
+  ) => {
     setUploadedData(data)
+    setUploadedContracts(contracts)
+    setUploadedFileName(fileName)
+    setUploadedTemplateName(templateName)
     setProcessingResult(null)
     
     // Generate debug info for display
@@ -53,7 +71,9 @@ export default function UploadPage() {
       const metrics = SaaSMetricsCalculator.calculateMetrics(uploadedData)
       
       // Save data to localStorage for dashboard access
-      DataStore.saveCustomerData(uploadedData)
+      DataStore.saveContracts(uploadedContracts)
+      DataStore.saveCustomerData(uploadedData, uploadedFileName, uploadedTemplateName)
+      setUploadHistory(DataStore.getMetricVersions().reverse())
       
       // Trigger storage event for dashboard update
       window.dispatchEvent(new Event('storage'))
@@ -111,6 +131,14 @@ export default function UploadPage() {
                     <li><strong>mrr:</strong> Revenue amount (numeric)</li>
                   </ul>
                 </div>
+                <div>
+                  <p className="font-medium text-sm text-gray-900">Contract Export (one row per contract):</p>
+                  <ul className="text-xs text-gray-600 space-y-1 ml-4">
+                    <li><strong>customer, start_date, end_date:</strong> Service term (end date inclusive)</li>
+                    <li><strong>tcv:</strong> Total contract value, recognized straight-line as MRR</li>
+                    <li><strong>billing_frequency:</strong> monthly, quarterly, annual (default) or upfront</li>
+                  </ul>
+                </div>
                 <div>
                   <p className="font-medium text-sm text-gray-900">Wide Format (customers as rows, months as columns):</p>
                   <ul className="text-xs text-gray-600 space-y-1 ml-4">
@@ -273,6 +301,40 @@ export default function UploadPage() {
           </AlertDescription>
         </Alert>
       )}
+
+      {/* Upload History */}
+      {uploadHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Upload History
+            </CardTitle>
+            <CardDescription>
+              Files processed so far, newest first, with the import template used for each
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {uploadHistory.map(version => (
+                <div key={version.uploadId} className="flex items-center justify-between text-sm border-b border-gray-100 pb-2">
+                  <div>
+                    <span className="font-medium text-gray-900">{version.fileName}</span>
+                    <span className="text-gray-500 ml-2">
+                      {format(parseISO(version.uploadedAt), 'MMM d, yyyy HH:mm')} · {version.months.length} months
+                    </span>
+                  </div>
+                  {version.templateName ? (
+                    <Badge variant="secondary">{version.templateName}</Badge>
+                  ) : (
+                    <span className="text-xs text-gray-400">No template</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,35 @@
+import { ReferenceLine } from 'recharts'
+import { ANNOTATION_TYPES } from '@/lib/constants'
+import { Annotation } from '@/types'
+
+/**
+ * One dashed vertical marker per annotated month, labelled with the first title.
+ * Returned as an array so the lines are direct children of the chart; months
+ * outside the chart's x-axis are not drawn.
+ */
+export function renderAnnotationMarkers(
+  annotations: Annotation[],
+  formatMonth: (month: string) => string,
+  yAxisId?: string
+) {
+  const byMonth = new Map<string, Annotation[]>()
+  for (const annotation of annotations) {
+    byMonth.set(annotation.month, [...(byMonth.get(annotation.month) || []), annotation])
+  }
+
+  return Array.from(byMonth, ([month, items]) => {
+    const color = ANNOTATION_TYPES[items[0].type].color
+    const title = items.length > 1 ? `${items[0].title} +${items.length - 1}` : items[0].title
+
+    return (
+      <ReferenceLine
+        key={`annotation-${month}`}
+        x={formatMonth(month)}
+        yAxisId={yAxisId}
+        stroke={color}
+        strokeDasharray="4 4"
+        label={{ value: title, position: 'insideTopLeft', fontSize: 10, fill: color }}
+      />
+    )
+  })
+}
@@ -3,27 +3,33 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { format, parseISO } from 'date-fns'
+import { Annotation } from '@/types'
+import { renderAnnotationMarkers } from './annotation-markers'
 
 interface ARRWaterfallChartProps {
   data: Array<{
     month: string
     totalMRR: number
     newMRR: number
+    reactivationMRR: number
     expansionMRR: number
     contractionMRR: number
     churnedMRR: number
     arr: number
     netRevenueRetention: number
   }>
+  // ISO 4217 code the values are expressed in
+  currency?: string
+  annotations?: Annotation[]
 }
 
-export function ARRWaterfallChart({ data }: ARRWaterfallChartProps) {
+export function ARRWaterfallChart({ data, currency = 'USD', annotations = [] }: ARRWaterfallChartProps) {
   const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
   
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
       notation: value >= 1000000 ? 'compact' : 'standard',
@@ -53,6 +59,7 @@ export function ARRWaterfallChart({ data }: ARRWaterfallChartProps) {
       monthFormatted: formatMonth(item.month),
       retainedARR,
       newARR: item.newMRR * 12,
+      reactivationARR: item.reactivationMRR * 12,
       expansionARR: item.expansionMRR * 12,
       contractionARR: -item.contractionMRR * 12, // Negative for visual effect
       churnedARR: -item.churnedMRR * 12, // Negative for visual effect
@@ -132,6 +139,14 @@ export function ARRWaterfallChart({ data }: ARRWaterfallChartProps) {
                 name="New ARR"
                 radius={[0, 0, 0, 0]}
               />
+              <Bar
+                yAxisId="arr"
+                dataKey="reactivationARR"
+                stackId="positive"
+                fill="#8b5cf6"
+                name="Reactivation ARR"
+                radius={[0, 0, 0, 0]}
+              />
               <Bar
                 yAxisId="arr"
                 dataKey="expansionARR"
@@ -169,6 +184,8 @@ export function ARRWaterfallChart({ data }: ARRWaterfallChartProps) {
                 dot={{ fill: '#6366f1', strokeWidth: 2, r: 4 }}
                 name="NRR %"
               />
+
+              {renderAnnotationMarkers(annotations, formatMonth, 'arr')}
             </ComposedChart>
           </ResponsiveContainer>
         </div>
@@ -183,6 +200,10 @@ export function ARRWaterfallChart({ data }: ARRWaterfallChartProps) {
             <div className="w-3 h-3 bg-yellow-500 rounded"></div>
             <span>New ARR: Revenue from new customers</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-violet-500 rounded"></div>
+            <span>Reactivation ARR: Returning former customers</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 bg-green-500 rounded"></div>
             <span>Expansion ARR: Upsells and upgrades</span>
@@ -0,0 +1,109 @@
+'use client'
+
+import { RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { BENCHMARK_METRICS } from '@/lib/constants'
+import { BenchmarkComparison } from '@/types'
+
+interface BenchmarkRadarChartProps {
+  comparison: BenchmarkComparison | null
+}
+
+const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export function BenchmarkRadarChart({ comparison }: BenchmarkRadarChartProps) {
+  if (!comparison || comparison.results.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-center text-sm text-gray-500 px-6">
+        {comparison
+          ? 'Not enough history to benchmark yet. Retention and churn need 12 months of customer-level data.'
+          : 'Upload MRR data within an ARR band of the benchmark dataset to see peer percentiles.'}
+      </div>
+    )
+  }
+
+  const rows = BENCHMARK_METRICS.flatMap(({ key, label, isRate }) => {
+    const result = comparison.results.find(r => r.metric === key)
+    if (!result) return []
+    const format = isRate ? formatPercentage : (value: number) => `${value.toFixed(1)}x`
+    return [{ ...result, label, format }]
+  })
+
+  const chartData = rows.map(row => ({
+    label: row.label,
+    company: row.percentile,
+    median: 50
+  }))
+
+  return (
+    <div className="space-y-6">
+      {/* Radar - peer percentile per metric, median ring for reference */}
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <RadarChart data={chartData} outerRadius="75%">
+            <PolarGrid className="opacity-50" />
+            <PolarAngleAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <PolarRadiusAxis domain={[0, 100]} tickCount={5} tick={{ fontSize: 10 }} axisLine={false} />
+            <Tooltip
+              formatter={(value: number, name: string) => [`P${value}`, name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e2e8f0',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              }}
+            />
+            <Legend />
+            <Radar
+              name="Peer median"
+              dataKey="median"
+              stroke="#6b7280"
+              strokeDasharray="4 4"
+              fill="none"
+            />
+            <Radar
+              name="Company"
+              dataKey="company"
+              stroke="#3b82f6"
+              fill="#3b82f6"
+              fillOpacity={0.25}
+              strokeWidth={2}
+            />
+          </RadarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Percentile table */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="text-left py-2 px-2 font-medium text-gray-700">Metric</th>
+            <th className="text-right py-2 px-2 font-medium text-gray-700">Company</th>
+            <th className="text-right py-2 px-2 font-medium text-gray-700">P25</th>
+            <th className="text-right py-2 px-2 font-medium text-gray-700">P50</th>
+            <th className="text-right py-2 px-2 font-medium text-gray-700">P75</th>
+            <th className="text-right py-2 px-2 font-medium text-gray-700">Percentile</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.metric} className="border-b border-gray-100">
+              <td className="py-1.5 px-2 text-gray-900">{row.label}</td>
+              <td className="py-1.5 px-2 text-right font-mono">{row.format(row.value)}</td>
+              <td className="py-1.5 px-2 text-right font-mono text-gray-600">{row.format(row.percentiles.p25)}</td>
+              <td className="py-1.5 px-2 text-right font-mono text-gray-600">{row.format(row.percentiles.p50)}</td>
+              <td className="py-1.5 px-2 text-right font-mono text-gray-600">{row.format(row.percentiles.p75)}</td>
+              <td className={`py-1.5 px-2 text-right font-medium ${row.percentile >= 50 ? 'text-green-600' : 'text-red-600'}`}>
+                P{row.percentile}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-600">
+        Percentiles rank the company among {comparison.stage} peers; higher is better, so low churn ranks high.
+        Retention and churn are trailing twelve months.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CohortMatrix } from '@/types'
+
+interface CohortHeatmapProps {
+  data: CohortMatrix
+}
+
+type RetentionView = 'logo' | 'revenue'
+
+export function CohortHeatmap({ data }: CohortHeatmapProps) {
+  const [view, setView] = useState<RetentionView>('revenue')
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  const formatPercent = (value: number) => {
+    return `${Math.round(value * 100)}%`
+  }
+
+  // Blue scale for retention up to 100%, green once a cohort has expanded past it
+  const getCellStyle = (value: number) => {
+    if (value > 1) {
+      const intensity = Math.min(1, (value - 1) / 0.5)
+      return {
+        backgroundColor: `rgba(16, 185, 129, ${0.25 + intensity * 0.6})`,
+        color: intensity > 0.5 ? 'white' : '#064e3b'
+      }
+    }
+    return {
+      backgroundColor: `rgba(59, 130, 246, ${0.08 + value * 0.8})`,
+      color: value > 0.55 ? 'white' : '#1e3a8a'
+    }
+  }
+
+  if (data.cohorts.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload customer-level MRR data to see cohort retention.
+      </div>
+    )
+  }
+
+  const periods = Array.from({ length: data.maxPeriods }, (_, i) => i)
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={view} onValueChange={(value) => setView(value as RetentionView)}>
+        <TabsList>
+          <TabsTrigger value="revenue">Revenue Retention</TabsTrigger>
+          <TabsTrigger value="logo">Logo Retention</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th className="text-left py-2 px-2 font-medium text-gray-700 whitespace-nowrap">Cohort</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">Customers</th>
+              {periods.map(period => (
+                <th key={period} className="py-2 px-2 font-medium text-gray-700 text-center">
+                  M{period}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.cohorts.map(row => {
+              const values = view === 'logo' ? row.logoRetention : row.revenueRetention
+              return (
+                <tr key={row.cohort}>
+                  <td className="py-1.5 px-2 font-medium text-gray-900 whitespace-nowrap">
+                    {formatMonth(row.cohort)}
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-600">
+                    {row.initialCustomers}
+                  </td>
+                  {periods.map(period => (
+                    period < values.length ? (
+                      <td
+                        key={period}
+                        className="py-1.5 px-2 text-center font-mono rounded"
+                        style={getCellStyle(values[period])}
+                        title={`${formatMonth(row.cohort)} cohort, month ${period}: ${formatPercent(values[period])}`}
+                      >
+                        {formatPercent(values[period])}
+                      </td>
+                    ) : (
+                      <td key={period} />
+                    )
+                  ))}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        {view === 'logo'
+          ? 'Share of each cohort\'s customers still paying N months after their first paying month.'
+          : 'Cohort MRR N months after start as a share of the cohort\'s starting MRR.'}
+      </p>
+    </div>
+  )
+}
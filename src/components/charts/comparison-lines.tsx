@@ -0,0 +1,68 @@
+import { Line } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { COMPARISON_COLORS } from '@/lib/constants'
+import { ComparedCompany, ComparisonRow } from '@/types'
+
+/**
+ * Label for a comparison period: a calendar month, or months since the
+ * milestone written as M+3 / M-2 (M0 is the milestone month itself).
+ */
+export function formatComparisonPeriod(period: string | number): string {
+  if (typeof period === 'number') {
+    return period === 0 ? 'M0' : `M${period > 0 ? '+' : ''}${period}`
+  }
+  try {
+    return format(parseISO(`${period}-01`), 'MMM yy')
+  } catch {
+    return period
+  }
+}
+
+/**
+ * Flatten comparison rows into recharts data, one key per company
+ */
+export function toComparisonChartData(rows: ComparisonRow[]) {
+  return rows.map(row => ({ periodFormatted: formatComparisonPeriod(row.period), ...row.values }))
+}
+
+/**
+ * One line per compared company, coloured by selection order so a company keeps
+ * its colour when others are excluded. Returned as an array so the lines are
+ * direct children of the chart; gaps are bridged into a continuous line.
+ */
+export function renderComparisonLines(companies: ComparedCompany[], excludedCompanyIds: string[] = [], yAxisId?: string) {
+  return companies.map((company, index) => excludedCompanyIds.includes(company.companyId) ? null : (
+    <Line
+      key={company.companyId}
+      yAxisId={yAxisId}
+      type="monotone"
+      dataKey={company.companyId}
+      name={company.name}
+      stroke={COMPARISON_COLORS[index % COMPARISON_COLORS.length]}
+      strokeWidth={2}
+      dot={false}
+      connectNulls
+    />
+  ))
+}
+
+/**
+ * Names of companies left off a comparison, or nothing when all are shown
+ */
+export function ComparisonExclusions({ companies, excludedCompanyIds, reason }: {
+  companies: ComparedCompany[]
+  excludedCompanyIds: string[]
+  reason: string
+}) {
+  if (excludedCompanyIds.length === 0) return null
+
+  const names = companies
+    .filter(company => excludedCompanyIds.includes(company.companyId))
+    .map(company => company.name)
+
+  return (
+    <p className="mt-2 text-xs text-gray-500">
+      Not shown ({reason}): {names.join(', ')}
+    </p>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { ContractRevenueMetrics } from '@/types'
+
+interface ContractRevenueChartProps {
+  data: ContractRevenueMetrics[]
+  currency?: string
+}
+
+type ContractView = 'flows' | 'balances'
+
+const SERIES: Record<ContractView, { key: keyof Omit<ContractRevenueMetrics, 'month'>; label: string; color: string }[]> = {
+  flows: [
+    { key: 'bookings', label: 'Bookings', color: '#8b5cf6' },
+    { key: 'billings', label: 'Billings', color: '#3b82f6' },
+    { key: 'revenue', label: 'Recognized Revenue', color: '#10b981' }
+  ],
+  balances: [
+    { key: 'rpo', label: 'RPO', color: '#f59e0b' },
+    { key: 'deferredRevenue', label: 'Deferred Revenue', color: '#ef4444' }
+  ]
+}
+
+// Trailing months summed for the bookings and billings tiles
+const TRAILING_MONTHS = 12
+
+export function ContractRevenueChart({ data, currency = 'USD' }: ContractRevenueChartProps) {
+  const [view, setView] = useState<ContractView>('balances')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 100000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload a contract export to see bookings, billings, deferred revenue and RPO.
+      </div>
+    )
+  }
+
+  const latest = data[data.length - 1]
+  const trailing = data.slice(-TRAILING_MONTHS)
+  const sum = (key: 'bookings' | 'billings') => trailing.reduce((total, item) => total + item[key], 0)
+
+  const tiles = [
+    { label: 'RPO', value: formatCurrency(latest.rpo), detail: 'Booked TCV not yet recognized' },
+    { label: 'Deferred Revenue', value: formatCurrency(latest.deferredRevenue), detail: 'Billed, not yet recognized' },
+    { label: 'Bookings', value: formatCurrency(sum('bookings')), detail: `Last ${trailing.length} months` },
+    { label: 'Billings', value: formatCurrency(sum('billings')), detail: `Last ${trailing.length} months` }
+  ]
+
+  const chartData = data.map(item => ({ monthFormatted: formatMonth(item.month), ...item }))
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as ContractView)}>
+        <TabsList>
+          <TabsTrigger value="balances">RPO &amp; Deferred</TabsTrigger>
+          <TabsTrigger value="flows">Bookings &amp; Billings</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="rounded-lg border border-gray-100 p-4">
+            <div className="text-xs text-gray-600">{tile.label}</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{tile.value}</div>
+            <div className="text-xs text-gray-500 mt-1">{tile.detail}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={CHART_MARGIN}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="monthFormatted" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+            <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={formatCurrency} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatCurrency(value), name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e2e8f0',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              }}
+            />
+            <Legend />
+            {SERIES[view].map(item => view === 'flows' ? (
+              <Bar key={item.key} dataKey={item.key} name={item.label} fill={item.color} />
+            ) : (
+              <Line
+                key={item.key}
+                type="monotone"
+                dataKey={item.key}
+                name={item.label}
+                stroke={item.color}
+                strokeWidth={3}
+                dot={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        Contracts are booked in their start month, billed in advance for each billing period and recognized straight-line over the term.
+      </p>
+    </div>
+  )
+}
@@ -1,9 +1,13 @@
 'use client'
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { ComposedChart, LineChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { format, parseISO } from 'date-fns'
 import { TrendingUp, Users } from 'lucide-react'
+import { ComparisonCalculator } from '@/lib/calculations/comparison'
+import { Annotation, ComparisonView } from '@/types'
+import { renderAnnotationMarkers } from './annotation-markers'
+import { ComparisonExclusions, renderComparisonLines, toComparisonChartData } from './comparison-lines'
 
 interface CustomerGrowthChartProps {
   data: Array<{
@@ -12,15 +16,77 @@ interface CustomerGrowthChartProps {
     newMRR: number
     churnedMRR: number
   }>
+  // ISO 4217 code the values are expressed in
+  currency?: string
+  annotations?: Annotation[]
+  // Overlays each compared company's customer count in place of the breakdown
+  comparison?: ComparisonView
 }
 
-export function CustomerGrowthChart({ data }: CustomerGrowthChartProps) {
+export function CustomerGrowthChart({ data, currency = 'USD', annotations = [], comparison }: CustomerGrowthChartProps) {
   const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  if (comparison) {
+    const overlay = ComparisonCalculator.overlay(comparison.companies, metric => metric.customerCount, comparison.options)
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-blue-600" />
+            Customer Growth
+          </CardTitle>
+          <CardDescription>
+            {comparison.options.indexed ? 'Customer count indexed to 100' : 'Paying customers'}
+            {comparison.options.alignment === 'milestone' ? ' by months since $1M ARR' : ' by calendar month'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={toComparisonChartData(overlay.rows)} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis
+                  dataKey="periodFormatted"
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  formatter={(value: number, name: string) => [
+                    comparison.options.indexed ? value.toFixed(1) : value,
+                    name
+                  ]}
+                  contentStyle={{
+                    backgroundColor: 'white',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                  }}
+                />
+                {renderComparisonLines(comparison.companies, overlay.excludedCompanyIds)}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <ComparisonExclusions
+            companies={comparison.companies}
+            excludedCompanyIds={overlay.excludedCompanyIds}
+            reason={comparison.options.alignment === 'milestone' ? 'never reached $1M ARR' : 'no customers in the first shared month'}
+          />
+        </CardContent>
+      </Card>
+    )
+  }
   
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
       notation: value >= 1000000 ? 'compact' : 'standard',
@@ -179,6 +245,8 @@ export function CustomerGrowthChart({ data }: CustomerGrowthChartProps) {
                 dot={{ fill: '#6366f1', strokeWidth: 2, r: 3 }}
                 name="Growth Rate %"
               />
+
+              {renderAnnotationMarkers(annotations, formatMonth, 'customers')}
             </ComposedChart>
           </ResponsiveContainer>
         </div>
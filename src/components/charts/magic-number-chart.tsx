@@ -1,166 +1,212 @@
 'use client'
 
+import { useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
 import { format, parseISO } from 'date-fns'
 import { Zap } from 'lucide-react'
+import { EfficiencyMetrics } from '@/types'
 
 interface MagicNumberChartProps {
-  data: Array<{
-    month: string
-    newMRR: number
-    expansionMRR: number
-    contractionMRR: number
-    churnedMRR: number
-  }>
+  data: EfficiencyMetrics[]
+}
+
+type EfficiencyView = 'magicNumber' | 'cacPaybackMonths' | 'burnMultiple' | 'cac'
+
+interface ViewConfig {
+  label: string
+  color: string
+  benchmark?: number
+  formula: string
+  format: (value: number) => string
+  // Rating thresholds from best to worst
+  rate: (value: number) => { label: string; className: string }
+}
+
+const RATING_CLASSES = {
+  excellent: 'bg-green-100 text-green-800',
+  good: 'bg-blue-100 text-blue-800',
+  fair: 'bg-yellow-100 text-yellow-800',
+  poor: 'bg-red-100 text-red-800'
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+    notation: value >= 100000 ? 'compact' : 'standard'
+  }).format(value)
+}
+
+const VIEWS: Record<EfficiencyView, ViewConfig> = {
+  magicNumber: {
+    label: 'Magic Number',
+    color: '#f59e0b',
+    benchmark: 0.75,
+    formula: 'Net New ARR this quarter ÷ S&M spend last quarter',
+    format: (value) => value.toFixed(2),
+    rate: (value) =>
+      value >= 1.0 ? { label: 'Excellent', className: RATING_CLASSES.excellent } :
+      value >= 0.75 ? { label: 'Good', className: RATING_CLASSES.good } :
+      value >= 0.5 ? { label: 'Fair', className: RATING_CLASSES.fair } :
+      { label: 'Poor', className: RATING_CLASSES.poor }
+  },
+  cacPaybackMonths: {
+    label: 'CAC Payback',
+    color: '#3b82f6',
+    benchmark: 12,
+    formula: 'S&M spend last quarter ÷ New + Expansion MRR this quarter (months)',
+    format: (value) => `${value.toFixed(1)} mo`,
+    rate: (value) =>
+      value <= 12 ? { label: 'Excellent', className: RATING_CLASSES.excellent } :
+      value <= 18 ? { label: 'Good', className: RATING_CLASSES.good } :
+      value <= 24 ? { label: 'Fair', className: RATING_CLASSES.fair } :
+      { label: 'Poor', className: RATING_CLASSES.poor }
+  },
+  burnMultiple: {
+    label: 'Burn Multiple',
+    color: '#ef4444',
+    benchmark: 1.5,
+    formula: 'Net burn this quarter ÷ Net New ARR this quarter',
+    format: (value) => `${value.toFixed(2)}x`,
+    rate: (value) =>
+      value <= 1 ? { label: 'Excellent', className: RATING_CLASSES.excellent } :
+      value <= 1.5 ? { label: 'Good', className: RATING_CLASSES.good } :
+      value <= 2 ? { label: 'Fair', className: RATING_CLASSES.fair } :
+      { label: 'Poor', className: RATING_CLASSES.poor }
+  },
+  cac: {
+    label: 'CAC',
+    color: '#8b5cf6',
+    formula: 'S&M spend last quarter ÷ New customers this quarter',
+    format: formatCurrency,
+    rate: () => ({ label: 'Per new customer', className: 'bg-gray-100 text-gray-800' })
+  }
 }
 
 export function MagicNumberChart({ data }: MagicNumberChartProps) {
+  const [view, setView] = useState<EfficiencyView>('magicNumber')
   const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
-  
+  const config = VIEWS[view]
+
   const formatMonth = (month: string) => {
     try {
-      return format(parseISO(`${month}-01`), 'MMM yy')
+      return format(parseISO(`${month.slice(0, 7)}-01`), 'MMM yy')
     } catch {
       return month
     }
   }
 
-  // Calculate Magic Number for each month
-  const chartData = data.map((item, index) => {
-    if (index === 0) {
-      return {
-        ...item,
-        monthFormatted: formatMonth(item.month),
-        magicNumber: 0, // No previous data for first month
-        efficiency: 'N/A'
-      }
-    }
-
-    // Magic Number = (New MRR + Expansion MRR) / Previous Month's Sales & Marketing Spend
-    // Since we don't have S&M spend yet, we'll use a proxy calculation
-    // Magic Number = Net New MRR / (Churned MRR + Contraction MRR) 
-    // This shows growth efficiency relative to losses
-    
-    const netNewMRR = item.newMRR + item.expansionMRR
-    const lostMRR = item.churnedMRR + item.contractionMRR
-    const magicNumber = lostMRR > 0 ? netNewMRR / lostMRR : netNewMRR > 0 ? 5 : 0
-    
-    let efficiency = 'Poor'
-    if (magicNumber >= 1.5) efficiency = 'Excellent'
-    else if (magicNumber >= 1.0) efficiency = 'Good'
-    else if (magicNumber >= 0.7) efficiency = 'Fair'
-
-    return {
-      ...item,
+  const chartData = data
+    .filter(item => item[view] !== null)
+    .map(item => ({
       monthFormatted: formatMonth(item.month),
-      magicNumber: Math.round(magicNumber * 100) / 100,
-      efficiency,
-      netNewMRR,
-      lostMRR
-    }
-  })
+      value: item[view] as number
+    }))
 
-  const latestMagicNumber = chartData[chartData.length - 1]?.magicNumber || 0
-  const avgMagicNumber = chartData.length > 1 ? 
-    chartData.slice(1).reduce((sum, item) => sum + item.magicNumber, 0) / (chartData.length - 1) : 0
+  const latest = chartData[chartData.length - 1]
+  const hasSpend = data.some(item => item.laggedSpend !== null)
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Zap className="h-5 w-5 text-yellow-600" />
-          Magic Number
+          Sales Efficiency
         </CardTitle>
         <CardDescription>
-          Growth efficiency metric - measures new revenue generation relative to churn
+          Magic Number, CAC payback and burn multiple using prior-quarter S&amp;M spend
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {/* Current Magic Number Display */}
-        <div className="text-center mb-6">
-          <div className="text-4xl font-bold text-gray-900 mb-1">
-            {latestMagicNumber.toFixed(1)}
-          </div>
-          <div className="text-sm text-gray-600 mb-2">
-            Current Magic Number
+        <Tabs value={view} onValueChange={(value) => setView(value as EfficiencyView)} className="mb-4">
+          <TabsList>
+            {(Object.keys(VIEWS) as EfficiencyView[]).map(key => (
+              <TabsTrigger key={key} value={key}>{VIEWS[key].label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {!hasSpend ? (
+          <div className="h-48 flex items-center justify-center text-center text-sm text-gray-500 px-6">
+            Add sales &amp; marketing spend below to calculate Magic Number, CAC and CAC payback.
+            Ratios need two full quarters: one of spend and the one after it.
           </div>
-          <div className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${
-            latestMagicNumber >= 1.5 ? 'bg-green-100 text-green-800' :
-            latestMagicNumber >= 1.0 ? 'bg-blue-100 text-blue-800' :
-            latestMagicNumber >= 0.7 ? 'bg-yellow-100 text-yellow-800' :
-            'bg-red-100 text-red-800'
-          }`}>
-            {chartData[chartData.length - 1]?.efficiency || 'N/A'}
+        ) : !latest ? (
+          <div className="h-48 flex items-center justify-center text-center text-sm text-gray-500 px-6">
+            {view === 'burnMultiple'
+              ? 'Burn multiple needs net burn for a full quarter in which ARR grew.'
+              : 'Not enough spend history yet. Each ratio needs a full quarter of spend before the quarter it measures.'}
           </div>
-        </div>
+        ) : (
+          <>
+            {/* Current value */}
+            <div className="text-center mb-6">
+              <div className="text-4xl font-bold text-gray-900 mb-1">
+                {config.format(latest.value)}
+              </div>
+              <div className="text-sm text-gray-600 mb-2">
+                Current {config.label}
+              </div>
+              <div className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${config.rate(latest.value).className}`}>
+                {config.rate(latest.value).label}
+              </div>
+            </div>
 
-        {/* Trend Chart */}
-        <div className="h-48">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart
-              data={chartData.slice(1)} // Skip first month (no previous data)
-              margin={CHART_MARGIN}
-            >
-              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-              <XAxis 
-                dataKey="monthFormatted" 
-                tick={{ fontSize: 12 }}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis 
-                tick={{ fontSize: 12 }}
-                tickLine={false}
-                axisLine={false}
-                domain={[0, 'dataMax + 0.5']}
-              />
-              
-              <Tooltip 
-                formatter={(value: number) => [value.toFixed(2), 'Magic Number']}
-                labelFormatter={(label) => `${label}`}
-                contentStyle={{
-                  backgroundColor: 'white',
-                  border: '1px solid #e2e8f0',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                }}
-              />
-              
-              {/* Magic Number trend line */}
-              <Line
-                type="monotone"
-                dataKey="magicNumber"
-                stroke="#f59e0b"
-                strokeWidth={3}
-                dot={{ fill: '#f59e0b', strokeWidth: 2, r: 5 }}
-                activeDot={{ r: 7, stroke: '#f59e0b', strokeWidth: 2 }}
-              />
-              
-              {/* Reference lines for benchmarks */}
-              <Line
-                type="monotone"
-                data={chartData.map(d => ({ ...d, benchmark: 1.0 }))}
-                dataKey="benchmark"
-                stroke="#6b7280"
-                strokeWidth={1}
-                strokeDasharray="3 3"
-                dot={false}
-                legendType="none"
-              />
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
+            {/* Trend Chart */}
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={CHART_MARGIN}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis
+                    dataKey="monthFormatted"
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value: number) => view === 'cac' ? formatCurrency(value) : String(value)}
+                  />
 
-        {/* Magic Number Explanation */}
-        <div className="mt-4 text-xs text-gray-600 space-y-1">
-          <div><strong>Magic Number</strong> = (New MRR + Expansion MRR) ÷ (Churned MRR + Contraction MRR)</div>
-          <div className="grid grid-cols-2 gap-2">
-            <div>• <span className="text-green-600">≥1.5:</span> Excellent efficiency</div>
-            <div>• <span className="text-blue-600">≥1.0:</span> Good efficiency</div>
-            <div>• <span className="text-yellow-600">≥0.7:</span> Fair efficiency</div>
-            <div>• <span className="text-red-600">&lt;0.7:</span> Poor efficiency</div>
-          </div>
+                  <Tooltip
+                    formatter={(value: number) => [config.format(value), config.label]}
+                    labelFormatter={(label) => `${label}`}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                    }}
+                  />
+
+                  {/* Benchmark line */}
+                  {config.benchmark !== undefined && (
+                    <ReferenceLine y={config.benchmark} stroke="#6b7280" strokeDasharray="3 3" />
+                  )}
+
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    stroke={config.color}
+                    strokeWidth={3}
+                    dot={{ fill: config.color, strokeWidth: 2, r: 5 }}
+                    activeDot={{ r: 7, stroke: config.color, strokeWidth: 2 }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+
+        {/* Formula */}
+        <div className="mt-4 text-xs text-gray-600">
+          <strong>{config.label}</strong> = {config.formula}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { ConcentrationMetrics } from '@/types'
+
+interface MRRBandChartProps {
+  data: ConcentrationMetrics[]
+}
+
+type BandView = 'customers' | 'mrr'
+
+// Smallest to largest band
+const BAND_COLORS = ['#93c5fd', '#3b82f6', '#6366f1', '#8b5cf6', '#a855f7', '#d946ef']
+
+export function MRRBandChart({ data }: MRRBandChartProps) {
+  const [view, setView] = useState<BandView>('customers')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 100000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload customer-level MRR data to see customers by MRR band.
+      </div>
+    )
+  }
+
+  const bandLabels = data[0].bands.map(band => band.label)
+  const latest = data[data.length - 1]
+  const formatValue = (value: number) => view === 'mrr' ? formatCurrency(value) : value.toLocaleString()
+
+  // One row per month with a column per band
+  const chartData = data.map(item => ({
+    monthFormatted: formatMonth(item.month),
+    ...Object.fromEntries(item.bands.map(band => [band.label, band[view]]))
+  }))
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as BandView)}>
+        <TabsList>
+          <TabsTrigger value="customers">Customers</TabsTrigger>
+          <TabsTrigger value="mrr">MRR</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Latest month by band */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {latest.bands.map(band => (
+          <div key={band.label} className="rounded-lg border border-gray-100 p-4">
+            <div className="text-xs text-gray-600">{band.label} MRR</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{band.customers.toLocaleString()}</div>
+            <div className="text-xs text-gray-500 mt-1">
+              {formatCurrency(band.mrr)}
+              {latest.totalMRR > 0 && ` • ${((band.mrr / latest.totalMRR) * 100).toFixed(1)}% of MRR`}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={CHART_MARGIN}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="monthFormatted" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+            <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={formatValue} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatValue(value), name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e2e8f0',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              }}
+            />
+            <Legend />
+            {bandLabels.map((label, i) => (
+              <Bar
+                key={label}
+                dataKey={label}
+                stackId="bands"
+                fill={BAND_COLORS[i % BAND_COLORS.length]}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
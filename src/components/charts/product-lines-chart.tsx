@@ -0,0 +1,203 @@
+'use client'
+
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { ExpansionBreakdown, MonthlyMetrics } from '@/types'
+
+interface ProductLinesChartProps {
+  // Monthly metrics per product
+  products: Record<string, MonthlyMetrics[]>
+  expansion: ExpansionBreakdown[]
+}
+
+type ProductView = 'mrr' | 'nrr' | 'churn' | 'expansion'
+
+const PRODUCT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16']
+
+const EXPANSION_SERIES: { key: keyof Omit<ExpansionBreakdown, 'month'>; label: string; color: string }[] = [
+  { key: 'crossSellMRR', label: 'Cross-sell', color: '#8b5cf6' },
+  { key: 'upsellMRR', label: 'Up-sell', color: '#10b981' },
+  { key: 'priceIncreaseMRR', label: 'Price increase', color: '#f59e0b' }
+]
+
+// Trailing months summed for the expansion tiles
+const EXPANSION_WINDOW_MONTHS = 12
+
+export function ProductLinesChart({ products, expansion }: ProductLinesChartProps) {
+  const [view, setView] = useState<ProductView>('mrr')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 100000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  const productNames = Object.keys(products)
+
+  if (productNames.length < 2) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload data with a product column to see MRR, NRR and churn by product line.
+      </div>
+    )
+  }
+
+  const months = Array.from(new Set(productNames.flatMap(product => products[product].map(m => m.month)))).sort()
+  const latestMonth = months[months.length - 1]
+  const formatValue = (value: number) => view === 'nrr' || view === 'churn' ? formatPercent(value) : formatCurrency(value)
+
+  // Rates need a starting base, so months where the product had no MRR before are left blank
+  const rateFor = (metrics: MonthlyMetrics[], month: string) => {
+    const index = metrics.findIndex(m => m.month === month)
+    if (index < 1 || metrics[index - 1].totalMRR <= 0) return null
+    return view === 'nrr' ? metrics[index].netRevenueRetention : metrics[index].logoChurnRate
+  }
+
+  const chartData = view === 'expansion'
+    ? expansion.map(item => ({ monthFormatted: formatMonth(item.month), ...item }))
+    : months.map(month => ({
+        monthFormatted: formatMonth(month),
+        ...Object.fromEntries(productNames.map(product => [
+          product,
+          view === 'mrr'
+            ? products[product].find(m => m.month === month)?.totalMRR ?? 0
+            : rateFor(products[product], month)
+        ]))
+      }))
+
+  const series = view === 'expansion'
+    ? EXPANSION_SERIES.map(item => ({ key: item.key as string, label: item.label, color: item.color }))
+    : productNames.map((product, i) => ({ key: product, label: product, color: PRODUCT_COLORS[i % PRODUCT_COLORS.length] }))
+
+  // Latest month per product
+  const totalMRR = productNames.reduce((sum, product) =>
+    sum + (products[product].find(m => m.month === latestMonth)?.totalMRR ?? 0), 0)
+  const rows = productNames.map(product => {
+    const metrics = products[product]
+    const latest = metrics.find(m => m.month === latestMonth)
+    const index = metrics.findIndex(m => m.month === latestMonth)
+    const hasBase = index > 0 && metrics[index - 1].totalMRR > 0
+    return {
+      product,
+      mrr: latest?.totalMRR ?? 0,
+      customers: latest?.customerCount ?? 0,
+      nrr: hasBase ? latest!.netRevenueRetention : null,
+      churn: hasBase ? latest!.logoChurnRate : null,
+      twelveMonthNRR: latest?.trailingRetention?.twelveMonth?.nrr ?? null
+    }
+  })
+
+  const trailingExpansion = expansion.slice(-EXPANSION_WINDOW_MONTHS)
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as ProductView)}>
+        <TabsList>
+          <TabsTrigger value="mrr">MRR</TabsTrigger>
+          <TabsTrigger value="nrr">NRR</TabsTrigger>
+          <TabsTrigger value="churn">Logo Churn</TabsTrigger>
+          <TabsTrigger value="expansion">Expansion Mix</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {view === 'expansion' ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {EXPANSION_SERIES.map(item => (
+            <div key={item.key} className="rounded-lg border border-gray-100 p-4">
+              <div className="text-xs text-gray-600">{item.label}</div>
+              <div className="text-2xl font-bold text-gray-900 mt-1">
+                {formatCurrency(trailingExpansion.reduce((sum, month) => sum + month[item.key], 0))}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">Added MRR, last {trailingExpansion.length} months</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-2 px-2 font-medium text-gray-700">Product</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">MRR</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">Share</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">Customers</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">NRR (month)</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">NRR (12 mo)</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">Logo Churn</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.product} className="border-b border-gray-100">
+                <td className="py-2 px-2 text-gray-900">{row.product}</td>
+                <td className="py-2 px-2 text-right font-mono">{formatCurrency(row.mrr)}</td>
+                <td className="py-2 px-2 text-right font-mono">{totalMRR > 0 ? formatPercent(row.mrr / totalMRR) : '—'}</td>
+                <td className="py-2 px-2 text-right font-mono">{row.customers.toLocaleString()}</td>
+                <td className="py-2 px-2 text-right font-mono">{row.nrr !== null ? formatPercent(row.nrr) : '—'}</td>
+                <td className="py-2 px-2 text-right font-mono">{row.twelveMonthNRR !== null ? formatPercent(row.twelveMonthNRR) : '—'}</td>
+                <td className="py-2 px-2 text-right font-mono">{row.churn !== null ? formatPercent(row.churn) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={CHART_MARGIN}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="monthFormatted" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+            <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={formatValue} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatValue(value), name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e2e8f0',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              }}
+            />
+            <Legend />
+            {series.map(item => view === 'mrr' || view === 'expansion' ? (
+              <Bar key={item.key} dataKey={item.key} name={item.label} stackId="lines" fill={item.color} />
+            ) : (
+              <Line
+                key={item.key}
+                type="monotone"
+                dataKey={item.key}
+                name={item.label}
+                stroke={item.color}
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        Dropping a product counts as churn for that product even when the customer keeps others.
+        Expansion mix compares product lines of existing customers: new products are cross-sell, extra units are up-sell
+        and a higher price per unit is a price increase. Without a quantity column all growth on a line counts as up-sell.
+      </p>
+    </div>
+  )
+}
@@ -1,8 +1,12 @@
 'use client'
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { ComposedChart, LineChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { format, parseISO } from 'date-fns'
+import { ComparisonCalculator } from '@/lib/calculations/comparison'
+import { Annotation, ComparisonView, ForecastPoint } from '@/types'
+import { renderAnnotationMarkers } from './annotation-markers'
+import { ComparisonExclusions, renderComparisonLines, toComparisonChartData } from './comparison-lines'
 
 interface RevenueChartProps {
   data: Array<{
@@ -13,9 +17,14 @@ interface RevenueChartProps {
     contractionMRR: number
     churnedMRR: number
   }>
+  // Projected months drawn as a dashed MRR line with a bear-to-bull band
+  forecast?: ForecastPoint[]
+  annotations?: Annotation[]
+  // Overlays each compared company's MRR in place of the breakdown
+  comparison?: ComparisonView
 }
 
-export function RevenueChart({ data }: RevenueChartProps) {
+export function RevenueChart({ data, forecast = [], annotations = [], comparison }: RevenueChartProps) {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -33,23 +42,48 @@ export function RevenueChart({ data }: RevenueChartProps) {
     }
   }
 
-  const chartData = data.map(item => ({
+  if (comparison) {
+    return <RevenueComparisonChart comparison={comparison} />
+  }
+
+  const hasForecast = forecast.length > 0
+  const lastMonth = data[data.length - 1]
+
+  const chartData: Array<Record<string, string | number | number[] | undefined>> = data.map(item => ({
     ...item,
     monthFormatted: formatMonth(item.month),
   }))
 
+  if (hasForecast && lastMonth) {
+    // Start the forecast at the last actual month so the dashed line connects
+    chartData[chartData.length - 1] = {
+      ...chartData[chartData.length - 1],
+      forecastMRR: lastMonth.totalMRR,
+      forecastRange: [lastMonth.totalMRR, lastMonth.totalMRR],
+    }
+    forecast.forEach(point => {
+      chartData.push({
+        month: point.month,
+        monthFormatted: formatMonth(point.month),
+        forecastMRR: point.base,
+        forecastRange: [point.bear, point.bull],
+      })
+    })
+  }
+
   return (
     <Card className="col-span-full">
       <CardHeader>
         <CardTitle>Revenue Breakdown</CardTitle>
         <CardDescription>
           Monthly recurring revenue with breakdown by new, expansion, contraction, and churn
+          {hasForecast && ' • dashed line shows the base forecast, shaded band the bear to bull range'}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="h-80">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart
+            <ComposedChart
               data={chartData}
               margin={{
                 top: 10,
@@ -72,8 +106,10 @@ export function RevenueChart({ data }: RevenueChartProps) {
                 tickFormatter={(value) => formatCurrency(value)}
               />
               <Tooltip 
-                formatter={(value: number, name: string) => [
-                  formatCurrency(value), 
+                formatter={(value: number | number[], name: string) => [
+                  Array.isArray(value)
+                    ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+                    : formatCurrency(value), 
                   name.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())
                 ]}
                 labelFormatter={(label) => `Month: ${label}`}
@@ -122,9 +158,113 @@ export function RevenueChart({ data }: RevenueChartProps) {
                 fillOpacity={0.6}
                 name="Churned MRR"
               />
-            </AreaChart>
+
+              {/* Actual MRR continued by the forecast */}
+              {hasForecast && (
+                <>
+                  <Area
+                    type="monotone"
+                    dataKey="forecastRange"
+                    stroke="none"
+                    fill="#8b5cf6"
+                    fillOpacity={0.15}
+                    name="Forecast Range"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="totalMRR"
+                    stroke="#1f2937"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Total MRR"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="forecastMRR"
+                    stroke="#8b5cf6"
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    name="Forecast MRR"
+                  />
+                </>
+              )}
+
+              {renderAnnotationMarkers(annotations, formatMonth)}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function RevenueComparisonChart({ comparison }: { comparison: ComparisonView }) {
+  const { companies, options } = comparison
+  const overlay = ComparisonCalculator.overlay(companies, metric => metric.totalMRR, options)
+  const currencies = new Map(companies.map(company => [company.companyId, company.currency]))
+
+  // Companies may report in different currencies, so the axis drops the symbol
+  const formatAxis = (value: number) => options.indexed
+    ? String(value)
+    : new Intl.NumberFormat('en-US', { notation: 'compact' }).format(value)
+
+  const formatValue = (value: number, companyId: string) => options.indexed
+    ? value.toFixed(1)
+    : new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currencies.get(companyId) ?? 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+
+  return (
+    <Card className="col-span-full">
+      <CardHeader>
+        <CardTitle>Revenue</CardTitle>
+        <CardDescription>
+          {options.indexed ? 'MRR indexed to 100' : 'Monthly recurring revenue'}
+          {options.alignment === 'milestone' ? ' by months since $1M ARR' : ' by calendar month'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={toComparisonChartData(overlay.rows)} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="periodFormatted"
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatAxis}
+              />
+              <Tooltip
+                formatter={(value: number, name: string, item: { dataKey?: unknown }) => [
+                  formatValue(value, String(item.dataKey)),
+                  name
+                ]}
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                }}
+              />
+              {renderComparisonLines(companies, overlay.excludedCompanyIds)}
+            </LineChart>
           </ResponsiveContainer>
         </div>
+        <ComparisonExclusions
+          companies={companies}
+          excludedCompanyIds={overlay.excludedCompanyIds}
+          reason={options.alignment === 'milestone' ? 'never reached $1M ARR' : 'no MRR in the first shared month'}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { PieChart } from 'lucide-react'
+import { ConcentrationMetrics, ParetoPoint } from '@/types'
+
+interface RevenueConcentrationChartProps {
+  data: ConcentrationMetrics[]
+  pareto: ParetoPoint[]
+}
+
+type ConcentrationView = 'share' | 'hhi' | 'pareto'
+
+// DOJ/FTC thresholds: below 1,500 unconcentrated, above 2,500 highly concentrated
+const HHI_MODERATE = 1500
+const HHI_HIGH = 2500
+
+const SHARE_LINES = [
+  { key: 'top1Share', label: 'Top customer', color: '#ef4444' },
+  { key: 'top10Share', label: 'Top 10 customers', color: '#f59e0b' },
+  { key: 'top20PercentShare', label: 'Top 20% of customers', color: '#3b82f6' }
+] as const
+
+export function RevenueConcentrationChart({ data, pareto }: RevenueConcentrationChartProps) {
+  const [view, setView] = useState<ConcentrationView>('share')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  const rateHHI = (value: number) => {
+    if (value >= HHI_HIGH) return { label: 'Highly concentrated', className: 'bg-red-100 text-red-800' }
+    if (value >= HHI_MODERATE) return { label: 'Moderately concentrated', className: 'bg-yellow-100 text-yellow-800' }
+    return { label: 'Diversified', className: 'bg-green-100 text-green-800' }
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload customer-level MRR data to see revenue concentration.
+      </div>
+    )
+  }
+
+  const latest = data[data.length - 1]
+  const hhiRating = rateHHI(latest.herfindahlIndex)
+  const chartData = data.map(item => ({ ...item, monthFormatted: formatMonth(item.month) }))
+  const paretoData = pareto.map(point => ({
+    customerPercent: Math.round(point.customerShare * 1000) / 10,
+    mrrShare: point.mrrShare
+  }))
+
+  const tiles = [
+    { label: 'Top Customer', value: formatPercentage(latest.top1Share), detail: 'Share of MRR' },
+    { label: 'Top 10 Customers', value: formatPercentage(latest.top10Share), detail: 'Share of MRR' },
+    { label: 'Top 20% of Customers', value: formatPercentage(latest.top20PercentShare), detail: `${Math.ceil(latest.customerCount * 0.2)} of ${latest.customerCount} customers` },
+    { label: 'Herfindahl Index', value: latest.herfindahlIndex.toLocaleString(), detail: hhiRating.label }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as ConcentrationView)}>
+        <TabsList>
+          <TabsTrigger value="share">Top Customers</TabsTrigger>
+          <TabsTrigger value="hhi">Herfindahl Index</TabsTrigger>
+          <TabsTrigger value="pareto">Pareto Curve</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="rounded-lg border border-gray-100 p-4">
+            <div className="text-xs text-gray-600">{tile.label}</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{tile.value}</div>
+            <div className="text-xs text-gray-500 mt-1">{tile.detail}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {view === 'pareto' ? (
+            <LineChart data={paretoData} margin={CHART_MARGIN}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="customerPercent"
+                type="number"
+                domain={[0, 100]}
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => `${value}%`}
+              />
+              <YAxis
+                domain={[0, 1]}
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatPercentage}
+              />
+              <Tooltip
+                formatter={(value: number) => [formatPercentage(value), 'Share of MRR']}
+                labelFormatter={(label) => `Top ${label}% of customers`}
+              />
+              <ReferenceLine y={0.8} stroke="#6b7280" strokeDasharray="3 3" />
+              <ReferenceLine x={20} stroke="#6b7280" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="mrrShare" stroke="#8b5cf6" strokeWidth={3} dot={false} />
+            </LineChart>
+          ) : view === 'hhi' ? (
+            <LineChart data={chartData} margin={CHART_MARGIN}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="monthFormatted" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+              <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+              <Tooltip formatter={(value: number) => [value.toLocaleString(), 'HHI']} />
+              <ReferenceLine y={HHI_MODERATE} stroke="#f59e0b" strokeDasharray="3 3" />
+              <ReferenceLine y={HHI_HIGH} stroke="#ef4444" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="herfindahlIndex" stroke="#6366f1" strokeWidth={3} dot={false} activeDot={{ r: 6 }} />
+            </LineChart>
+          ) : (
+            <LineChart data={chartData} margin={CHART_MARGIN}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="monthFormatted" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 1]} tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={formatPercentage} />
+              <Tooltip formatter={(value: number, name: string) => [formatPercentage(value), name]} />
+              <Legend />
+              {SHARE_LINES.map(line => (
+                <Line
+                  key={line.key}
+                  type="monotone"
+                  dataKey={line.key}
+                  name={line.label}
+                  stroke={line.color}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-gray-600 flex items-center gap-1">
+        <PieChart className="h-3 w-3" />
+        {view === 'hhi'
+          ? 'Herfindahl index = Σ (customer share of MRR × 100)². Above 2,500 is highly concentrated.'
+          : view === 'pareto'
+            ? `Cumulative share of ${formatMonth(latest.month)} MRR held by the largest customers.`
+            : 'Share of monthly MRR held by the largest paying customers.'}
+      </p>
+    </div>
+  )
+}
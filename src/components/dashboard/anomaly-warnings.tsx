@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { Anomaly, AnomalyMetric } from '@/types'
+
+interface AnomalyWarningsProps {
+  anomalies: Anomaly[]
+  currency?: string
+}
+
+// Warnings listed before "Show all"
+const COLLAPSED_COUNT = 5
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  newMRR: 'New MRR',
+  churnedMRR: 'Churned MRR',
+  netRevenueRetention: 'NRR'
+}
+
+export function AnomalyWarnings({ anomalies, currency = 'USD' }: AnomalyWarningsProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (anomalies.length === 0) return null
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  const formatChange = (change: number) => `${change > 0 ? '+' : ''}${(change * 100).toFixed(0)}%`
+
+  const describe = (anomaly: Anomaly) => {
+    switch (anomaly.type) {
+      case 'metricOutlier': {
+        const metric = anomaly.metric!
+        const formatValue = metric === 'netRevenueRetention'
+          ? (value: number) => `${(value * 100).toFixed(1)}%`
+          : formatCurrency
+        return `${METRIC_LABELS[metric]} of ${formatValue(anomaly.value)} is far from the usual ${formatValue(anomaly.expected)} (robust z-score ${anomaly.score.toFixed(1)})`
+      }
+      case 'customerSwing':
+        return `${anomaly.customerName} went from ${formatCurrency(anomaly.expected)} to ${formatCurrency(anomaly.value)} MRR (${formatChange(anomaly.score)})`
+      case 'customerCountDrop':
+        return `Customer count fell from ${anomaly.expected} to ${anomaly.value} (${formatChange(anomaly.score)})`
+    }
+  }
+
+  // Critical flags first, then the most recent months
+  const ordered = [...anomalies].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) || b.month.localeCompare(a.month)
+  )
+  const visible = expanded ? ordered : ordered.slice(0, COLLAPSED_COUNT)
+  const criticalCount = anomalies.filter(anomaly => anomaly.severity === 'critical').length
+
+  return (
+    <Alert className="border-amber-200 bg-amber-50 text-amber-900">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {anomalies.length} unusual change{anomalies.length === 1 ? '' : 's'} in the uploaded data
+        {criticalCount > 0 && ` (${criticalCount} critical)`}
+      </AlertTitle>
+      <AlertDescription className="text-amber-900/90">
+        <p>Check these for data errors before relying on the metrics. Real changes are worth an annotation.</p>
+        <ul className="mt-2 space-y-1">
+          {visible.map((anomaly, i) => (
+            <li key={`${anomaly.type}-${anomaly.month}-${anomaly.metric ?? anomaly.customerId ?? i}`} className="flex gap-2">
+              <span className={`font-medium ${anomaly.severity === 'critical' ? 'text-red-700' : ''}`}>
+                {formatMonth(anomaly.month)}
+              </span>
+              <span>{describe(anomaly)}</span>
+            </li>
+          ))}
+        </ul>
+        {anomalies.length > COLLAPSED_COUNT && (
+          <Button
+            variant="link"
+            size="sm"
+            className="px-0 text-amber-900"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? 'Show fewer' : `Show all ${anomalies.length}`}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
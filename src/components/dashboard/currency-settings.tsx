@@ -0,0 +1,172 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, Coins, Upload } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { parseFxRateFile } from '@/lib/fx-parser'
+import { SUPPORTED_CURRENCIES } from '@/lib/constants'
+import { FxConversion, FxRate } from '@/types'
+
+interface CurrencySettingsProps {
+  reportingCurrency: string
+  fxConversion: FxConversion
+  rates: FxRate[]
+  // Billing currencies found in the uploaded data
+  currencies: string[]
+  missingCurrencies: string[]
+  onSettingsChange: (reportingCurrency: string, fxConversion: FxConversion) => void
+  onRatesImport: (rates: FxRate[]) => void
+}
+
+export function CurrencySettings({
+  reportingCurrency,
+  fxConversion,
+  rates,
+  currencies,
+  missingCurrencies,
+  onSettingsChange,
+  onRatesImport
+}: CurrencySettingsProps) {
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      onRatesImport(await parseFxRateFile(file))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read FX rate file')
+    }
+  }
+
+  // Months covered per currency in the loaded table
+  const coverage = Array.from(new Set(rates.map(rate => rate.currency))).sort().map(currency => {
+    const months = rates.filter(rate => rate.currency === currency).map(rate => rate.month).sort()
+    return { currency, count: months.length, first: months[0], last: months[months.length - 1] }
+  })
+
+  // Keep the current choice selectable even if it is not in the default list
+  const reportingOptions = Array.from(new Set([...SUPPORTED_CURRENCIES, reportingCurrency]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5 text-blue-600" />
+              Currency &amp; FX Rates
+            </CardTitle>
+            <CardDescription>
+              MRR billed in other currencies is converted into the reporting currency before metrics are calculated.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={reportingCurrency}
+              onValueChange={(value) => onSettingsChange(value, fxConversion)}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reportingOptions.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={fxConversion}
+              onValueChange={(value) => onSettingsChange(reportingCurrency, value as FxConversion)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="average">Monthly average</SelectItem>
+                <SelectItem value="monthEnd">Month-end rate</SelectItem>
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+              Import FX Rates
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {missingCurrencies.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              No FX rate for {missingCurrencies.join(', ')}. Customers billed in {missingCurrencies.length > 1 ? 'these currencies' : 'this currency'} are
+              left out of the metrics until rates are imported.
+            </AlertDescription>
+          </Alert>
+        )}
+        <p className="text-xs text-gray-600">
+          Import a CSV or Excel file with <code>month</code>, <code>currency</code>, <code>average_rate</code> and
+          optional <code>month_end_rate</code> columns. Rates are the value of one unit of the currency in USD; months
+          without a rate use the closest earlier month.
+        </p>
+        <p className="text-sm text-gray-600">
+          Billing currencies in your data: {currencies.length > 0 ? currencies.join(', ') : reportingCurrency}
+        </p>
+        {coverage.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 font-medium text-gray-700">Currency</th>
+                <th className="text-left py-2 px-2 font-medium text-gray-700">Coverage</th>
+                <th className="text-right py-2 px-2 font-medium text-gray-700">Months</th>
+              </tr>
+            </thead>
+            <tbody>
+              {coverage.map(row => (
+                <tr key={row.currency} className="border-b border-gray-100">
+                  <td className="py-2 px-2 text-gray-900">{row.currency}</td>
+                  <td className="py-2 px-2 text-gray-600">{formatMonth(row.first)} – {formatMonth(row.last)}</td>
+                  <td className="py-2 px-2 text-right font-mono">{row.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
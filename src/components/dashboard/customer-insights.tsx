@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { DollarSign } from 'lucide-react'
+import { CustomerValueMetrics } from '@/types'
+
+interface CustomerInsightsProps {
+  data: CustomerValueMetrics[]
+  grossMarginPercent: number | null
+  onGrossMarginChange: (grossMarginPercent: number | null) => void
+}
+
+type InsightView = 'arpa' | 'ltv'
+
+const GROSS_MARGIN_OPTIONS = [50, 60, 70, 75, 80, 85, 90]
+const NOT_ADJUSTED = 'none'
+
+export function CustomerInsights({ data, grossMarginPercent, onGrossMarginChange }: CustomerInsightsProps) {
+  const [view, setView] = useState<InsightView>('arpa')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 1000000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+        Upload customer-level MRR data to see ARPA, lifetime and LTV.
+      </div>
+    )
+  }
+
+  const latest = data[data.length - 1]
+  const chartData = data
+    .filter(item => view === 'arpa' || item.ltv !== null)
+    .map(item => ({
+      monthFormatted: formatMonth(item.month),
+      value: view === 'arpa' ? item.arpa : item.ltv as number
+    }))
+
+  const tiles = [
+    {
+      label: 'ARPA',
+      value: formatCurrency(latest.arpa),
+      detail: 'MRR per active customer'
+    },
+    {
+      label: 'Avg. Lifetime',
+      value: latest.lifetimeMonths !== null ? `${latest.lifetimeMonths.toFixed(1)} mo` : '—',
+      detail: latest.monthlyLogoChurn !== null
+        ? `${(latest.monthlyLogoChurn * 100).toFixed(1)}% monthly logo churn (TTM)`
+        : 'Needs two months of data'
+    },
+    {
+      label: grossMarginPercent === null ? 'LTV' : 'LTV (GM-adjusted)',
+      value: latest.ltv !== null ? formatCurrency(latest.ltv) : '—',
+      detail: latest.ltv !== null ? 'ARPA × margin × lifetime' : 'No logo churn observed yet'
+    },
+    {
+      label: 'LTV:CAC',
+      value: latest.ltvToCac !== null ? `${latest.ltvToCac.toFixed(1)}x` : '—',
+      detail: latest.ltvToCac !== null ? 'Target: 3x or better' : 'Add S&M spend on the dashboard'
+    }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={view} onValueChange={(value) => setView(value as InsightView)}>
+          <TabsList>
+            <TabsTrigger value="arpa">ARPA</TabsTrigger>
+            <TabsTrigger value="ltv">LTV</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          Gross margin
+          <Select
+            value={grossMarginPercent === null ? NOT_ADJUSTED : String(grossMarginPercent)}
+            onValueChange={(value) => onGrossMarginChange(value === NOT_ADJUSTED ? null : parseInt(value, 10))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_ADJUSTED}>Not adjusted</SelectItem>
+              {GROSS_MARGIN_OPTIONS.map(percent => (
+                <SelectItem key={percent} value={String(percent)}>{percent}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="rounded-lg border border-gray-100 p-4">
+            <div className="text-xs text-gray-600">{tile.label}</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{tile.value}</div>
+            <div className="text-xs text-gray-500 mt-1">{tile.detail}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Trend Chart */}
+      <div className="h-64">
+        {chartData.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500">
+            LTV appears once logo churn has been observed.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={CHART_MARGIN}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="monthFormatted"
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatCurrency}
+              />
+              <Tooltip
+                formatter={(value: number) => [formatCurrency(value), view === 'arpa' ? 'ARPA' : 'LTV']}
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                }}
+              />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={view === 'arpa' ? '#10b981' : '#3b82f6'}
+                strokeWidth={3}
+                dot={false}
+                activeDot={{ r: 6 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-600 flex items-center gap-1">
+        <DollarSign className="h-3 w-3" />
+        Lifetime = 1 ÷ monthly logo churn over the trailing 12 months. LTV:CAC uses CAC from prior-quarter S&amp;M spend.
+      </p>
+    </div>
+  )
+}
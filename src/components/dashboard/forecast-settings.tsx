@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LineChart as LineChartIcon, RotateCcw } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { ForecastDrivers, ForecastMethod, ForecastPoint, ForecastScenario, ScenarioDrivers, TrendFit } from '@/types'
+
+interface ForecastSettingsProps {
+  method: ForecastMethod
+  horizonMonths: number
+  trend: TrendFit | null
+  scenarios: ScenarioDrivers | null
+  forecast: ForecastPoint[]
+  onMethodChange: (method: ForecastMethod) => void
+  onHorizonChange: (horizonMonths: number) => void
+  onScenariosChange: (scenarios: ScenarioDrivers) => void
+  onReset: () => void
+}
+
+const HORIZON_OPTIONS = [12, 18, 24]
+const SCENARIOS: ForecastScenario[] = ['bear', 'base', 'bull']
+const SCENARIO_LABELS: Record<ForecastScenario, string> = { bear: 'Bear', base: 'Base', bull: 'Bull' }
+
+// Rates are edited as monthly percentages, new MRR in dollars
+const DRIVER_FIELDS: { key: keyof ForecastDrivers; label: string; isRate: boolean }[] = [
+  { key: 'newMRR', label: 'New MRR / month ($)', isRate: false },
+  { key: 'expansionRate', label: 'Expansion (% of MRR / month)', isRate: true },
+  { key: 'churnRate', label: 'Churn + contraction (% of MRR / month)', isRate: true }
+]
+
+// Keeps in-progress input (e.g. "1.") when it already matches the stored value
+function toDrafts(scenarios: ScenarioDrivers | null, current: Record<string, string> = {}): Record<string, string> {
+  if (!scenarios) return {}
+  const drafts: Record<string, string> = {}
+  for (const scenario of SCENARIOS) {
+    for (const field of DRIVER_FIELDS) {
+      const key = `${scenario}.${field.key}`
+      const value = field.isRate
+        ? Math.round(scenarios[scenario][field.key] * 1000000) / 10000
+        : scenarios[scenario][field.key]
+      drafts[key] = current[key] !== undefined && parseFloat(current[key]) === value ? current[key] : String(value)
+    }
+  }
+  return drafts
+}
+
+export function ForecastSettings({
+  method,
+  horizonMonths,
+  trend,
+  scenarios,
+  forecast,
+  onMethodChange,
+  onHorizonChange,
+  onScenariosChange,
+  onReset
+}: ForecastSettingsProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>(() => toDrafts(scenarios))
+
+  useEffect(() => {
+    setDrafts(current => toDrafts(scenarios, current))
+  }, [scenarios])
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 1000000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  const updateDriver = (scenario: ForecastScenario, field: typeof DRIVER_FIELDS[number], value: string) => {
+    setDrafts(current => ({ ...current, [`${scenario}.${field.key}`]: value }))
+
+    // Only valid numbers reach the forecast; the draft keeps partial input
+    const parsed = parseFloat(value)
+    if (!scenarios || isNaN(parsed) || parsed < 0) return
+
+    onScenariosChange({
+      ...scenarios,
+      [scenario]: {
+        ...scenarios[scenario],
+        [field.key]: field.isRate ? parsed / 100 : parsed
+      }
+    })
+  }
+
+  const endPoint = forecast[forecast.length - 1]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <LineChartIcon className="h-5 w-5 text-purple-600" />
+              MRR Forecast
+            </CardTitle>
+            <CardDescription>
+              Project MRR and ARR from historical trend or from new, expansion and churn drivers.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            Horizon
+            <Select value={String(horizonMonths)} onValueChange={(value) => onHorizonChange(parseInt(value, 10))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HORIZON_OPTIONS.map(months => (
+                  <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs value={method} onValueChange={(value) => onMethodChange(value as ForecastMethod)}>
+          <TabsList>
+            <TabsTrigger value="trend">Trend Fit</TabsTrigger>
+            <TabsTrigger value="driver">Driver-Based</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {/* Projected ARR at the end of the horizon */}
+        {endPoint ? (
+          <div className="grid grid-cols-3 gap-4">
+            {SCENARIOS.map(scenario => (
+              <div key={scenario} className="rounded-lg border border-gray-100 p-4">
+                <div className="text-xs text-gray-600">{SCENARIO_LABELS[scenario]} ARR</div>
+                <div className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(endPoint[scenario] * 12)}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatCurrency(endPoint[scenario])} MRR by {formatMonth(endPoint.month)}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            {method === 'trend'
+              ? 'The trend fit needs at least three months of MRR.'
+              : 'The driver-based forecast needs at least two months of MRR.'}
+          </p>
+        )}
+
+        {method === 'trend' ? (
+          trend && (
+            <p className="text-sm text-gray-600">
+              MRR grew {formatPercentage(trend.monthlyGrowthRate)} per month over the last {trend.monthsUsed} months
+              (log-linear fit). Bull and bear cases add and subtract the {formatPercentage(trend.volatility)} standard
+              deviation of month-over-month growth.
+            </p>
+          )
+        ) : (
+          scenarios && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  Next MRR = MRR × (1 + expansion − churn) + new MRR. Base drivers default to the last six months.
+                </p>
+                <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={onReset}>
+                  <RotateCcw className="h-4 w-4" />
+                  Reset to History
+                </Button>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 font-medium text-gray-700">Driver</th>
+                    {SCENARIOS.map(scenario => (
+                      <th key={scenario} className="text-right py-2 px-2 font-medium text-gray-700">
+                        {SCENARIO_LABELS[scenario]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {DRIVER_FIELDS.map(field => (
+                    <tr key={field.key} className="border-b border-gray-100">
+                      <td className="py-1.5 px-2 text-gray-900">{field.label}</td>
+                      {SCENARIOS.map(scenario => (
+                        <td key={scenario} className="py-1.5 px-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            step={field.isRate ? 0.1 : 100}
+                            inputMode="decimal"
+                            className="h-8 text-right font-mono ml-auto max-w-32"
+                            value={drafts[`${scenario}.${field.key}`] ?? ''}
+                            onChange={(event) => updateDriver(scenario, field, event.target.value)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PauseCircle } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { GracePeriodAdjustment } from '@/types'
+
+interface GracePeriodSettingsProps {
+  graceMonths: number
+  adjustments: GracePeriodAdjustment[]
+  onChange: (graceMonths: number) => void
+}
+
+const GRACE_PERIOD_OPTIONS = [0, 1, 2, 3, 6]
+
+export function GracePeriodSettings({ graceMonths, adjustments, onChange }: GracePeriodSettingsProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  const formatGap = (adjustment: GracePeriodAdjustment) => {
+    return adjustment.gapStart === adjustment.gapEnd
+      ? formatMonth(adjustment.gapStart)
+      : `${formatMonth(adjustment.gapStart)} – ${formatMonth(adjustment.gapEnd)}`
+  }
+
+  const affectedCustomers = new Set(adjustments.map(a => a.customerId)).size
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <PauseCircle className="h-5 w-5 text-blue-600" />
+              Churn Grace Period
+            </CardTitle>
+            <CardDescription>
+              Short gaps in a customer&apos;s MRR are treated as a pause instead of churn followed by a new customer.
+            </CardDescription>
+          </div>
+          <Select
+            value={String(graceMonths)}
+            onValueChange={(value) => onChange(parseInt(value, 10))}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRACE_PERIOD_OPTIONS.map(months => (
+                <SelectItem key={months} value={String(months)}>
+                  {months === 0 ? 'No grace period' : `${months} month${months > 1 ? 's' : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {graceMonths === 0 ? (
+          <p className="text-sm text-gray-600">
+            Every missing month counts as churn. Pick a grace period to bridge short gaps.
+          </p>
+        ) : adjustments.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No customer gaps of {graceMonths} month{graceMonths > 1 ? 's' : ''} or less were found.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              <Badge variant="secondary" className="mr-2">{affectedCustomers}</Badge>
+              customer{affectedCustomers > 1 ? 's' : ''} affected, {adjustments.length} gap{adjustments.length > 1 ? 's' : ''} bridged
+            </p>
+            <div className="max-h-56 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 font-medium text-gray-700">Customer</th>
+                    <th className="text-left py-2 px-2 font-medium text-gray-700">Paused</th>
+                    <th className="text-right py-2 px-2 font-medium text-gray-700">Months</th>
+                    <th className="text-right py-2 px-2 font-medium text-gray-700">MRR Before Pause</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {adjustments.map(adjustment => (
+                    <tr
+                      key={`${adjustment.customerId}-${adjustment.gapStart}`}
+                      className="border-b border-gray-100"
+                    >
+                      <td className="py-2 px-2 text-gray-900">{adjustment.customerName}</td>
+                      <td className="py-2 px-2 text-gray-600">{formatGap(adjustment)}</td>
+                      <td className="py-2 px-2 text-right font-mono">{adjustment.gapMonths}</td>
+                      <td className="py-2 px-2 text-right font-mono">{formatCurrency(adjustment.pausedMRR)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,7 +13,8 @@ interface ModernKPICardsProps {
     customerCount: number
     nrr: number
     grr: number
-    churnRate: number
+    // null when the source did not report churned customers
+    churnRate: number | null
   }
   previousMetrics?: {
     mrr: number
@@ -43,6 +44,8 @@ export function ModernKPICards({ metrics, previousMetrics }: ModernKPICardsProps
   const mrrChange = calculateChange(metrics.mrr, previousMetrics?.mrr)
   const customerChange = calculateChange(metrics.customerCount, previousMetrics?.customerCount)
 
+  const churnRate = metrics.churnRate
+
   const cards = [
     {
       title: 'Monthly Recurring Revenue',
@@ -95,13 +98,13 @@ export function ModernKPICards({ metrics, previousMetrics }: ModernKPICardsProps
     },
     {
       title: 'Customer Churn Rate',
-      value: formatPercentage(metrics.churnRate),
+      value: churnRate !== null ? formatPercentage(churnRate) : '—',
       icon: TrendingDown,
-      color: metrics.churnRate <= 0.05 ? 'green' : 'red',
-      bgColor: metrics.churnRate <= 0.05 ? 'bg-green-50' : 'bg-red-50',
-      iconColor: metrics.churnRate <= 0.05 ? 'text-green-600' : 'text-red-600',
-      description: 'Monthly churn rate',
-      badge: metrics.churnRate <= 0.03 ? 'Excellent' : metrics.churnRate <= 0.05 ? 'Good' : 'High'
+      color: churnRate === null || churnRate <= 0.05 ? 'green' : 'red',
+      bgColor: churnRate === null || churnRate <= 0.05 ? 'bg-green-50' : 'bg-red-50',
+      iconColor: churnRate === null || churnRate <= 0.05 ? 'text-green-600' : 'text-red-600',
+      description: churnRate !== null ? 'Monthly churn rate' : 'Churned customers not reported',
+      badge: churnRate === null ? undefined : churnRate <= 0.03 ? 'Excellent' : churnRate <= 0.05 ? 'Good' : 'High'
     },
   ]
 
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { LineChart, Line, ResponsiveContainer, YAxis } from 'recharts'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { PortfolioCalculator } from '@/lib/calculations/portfolio'
+import { PortfolioCompany, PortfolioSortKey } from '@/types'
+
+interface PortfolioTableProps {
+  companies: PortfolioCompany[]
+  // Companies counted in a different currency are marked in the table
+  portfolioCurrency: string
+}
+
+const COLUMNS: { key: PortfolioSortKey; label: string }[] = [
+  { key: 'name', label: 'Company' },
+  { key: 'arr', label: 'ARR' },
+  { key: 'netNewARR', label: 'Net New ARR' },
+  { key: 'arrGrowthYoY', label: 'Growth YoY' },
+  { key: 'nrr', label: 'NRR (TTM)' },
+  { key: 'netBurn', label: 'Net Burn' },
+  { key: 'burnMultiple', label: 'Burn Multiple' }
+]
+
+const formatPercentage = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`
+
+export function PortfolioTable({ companies, portfolioCurrency }: PortfolioTableProps) {
+  const [sortKey, setSortKey] = useState<PortfolioSortKey>('arr')
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc')
+
+  const formatCurrency = (value: number | null, currency: string) => {
+    if (value === null) return '—'
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: Math.abs(value) >= 100000 ? 'compact' : 'standard'
+    }).format(value)
+  }
+
+  const handleSort = (key: PortfolioSortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortKey(key)
+      setDirection(key === 'name' ? 'asc' : 'desc')
+    }
+  }
+
+  if (companies.length === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-gray-500">
+        No companies yet. Create a company and upload its data to build the portfolio view.
+      </div>
+    )
+  }
+
+  const sorted = PortfolioCalculator.sort(companies, sortKey, direction, portfolioCurrency)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="text-left py-2 px-2 font-medium text-gray-700">#</th>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                className={`py-2 px-2 font-medium text-gray-700 ${column.key === 'name' ? 'text-left' : 'text-right'}`}
+              >
+                <button
+                  className="inline-flex items-center gap-1 hover:text-gray-900"
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  {sortKey === column.key && (direction === 'asc'
+                    ? <ArrowUp className="h-3 w-3" />
+                    : <ArrowDown className="h-3 w-3" />)}
+                </button>
+              </th>
+            ))}
+            <th className="text-right py-2 px-2 font-medium text-gray-700">ARR, last 12 months</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((company, index) => (
+            <tr key={company.companyId} className="border-b border-gray-100">
+              <td className="py-2 px-2 text-gray-500">{index + 1}</td>
+              <td className="py-2 px-2 text-gray-900 font-medium">
+                {company.name}
+                {company.currency !== portfolioCurrency && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">{company.currency}, no FX rate, not in totals</span>
+                )}
+                {company.convertedFrom && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">converted from {company.convertedFrom}</span>
+                )}
+                {company.missingFxCurrencies.length > 0 && (
+                  <span className="ml-2 text-xs font-normal text-amber-600">
+                    excludes {company.missingFxCurrencies.join(', ')} customers (no FX rate)
+                  </span>
+                )}
+              </td>
+              <td className="py-2 px-2 text-right font-mono">{formatCurrency(company.arr, company.currency)}</td>
+              <td className={`py-2 px-2 text-right font-mono ${company.netNewARR < 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(company.netNewARR, company.currency)}
+              </td>
+              <td className="py-2 px-2 text-right font-mono">{formatPercentage(company.arrGrowthYoY)}</td>
+              <td className="py-2 px-2 text-right font-mono">
+                {formatPercentage(company.nrr)}
+                {company.nrrBasis === 'month' && (
+                  <span className="block text-xs font-sans text-gray-500">latest month</span>
+                )}
+              </td>
+              <td className="py-2 px-2 text-right font-mono">{formatCurrency(company.netBurn, company.currency)}</td>
+              <td className="py-2 px-2 text-right font-mono">
+                {company.burnMultiple === null ? '—' : `${company.burnMultiple.toFixed(2)}x`}
+              </td>
+              <td className="py-2 px-2">
+                {company.arrHistory.length > 1 ? (
+                  <div className="h-8 w-28 ml-auto">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={company.arrHistory}>
+                        <YAxis hide domain={['dataMin', 'dataMax']} />
+                        <Line
+                          type="monotone"
+                          dataKey="arr"
+                          stroke={company.arrHistory[company.arrHistory.length - 1].arr >= company.arrHistory[0].arr ? '#10b981' : '#ef4444'}
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <div className="text-right text-xs text-gray-400">No history</div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
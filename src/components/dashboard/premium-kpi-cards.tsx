@@ -1,10 +1,16 @@
 // Premium KPI Cards - Lovable-inspired design with gradients and animations
 'use client'
 
-import { Card, CardContent } from '@/components/ui/card'
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { TrendingUp, TrendingDown, DollarSign, Users, Target, Activity, BarChart3, Zap } from 'lucide-react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { format, parseISO } from 'date-fns'
+import { TrendingUp, TrendingDown, DollarSign, Users, Target, Activity, BarChart3, Zap, Gauge, Rocket, Percent } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { BenchmarkComparison, BenchmarkMetric, MonthlyMetrics, RetentionWindow, TrailingRetention } from '@/types'
 
 interface PremiumKPICardsProps {
   metrics: {
@@ -13,14 +19,97 @@ interface PremiumKPICardsProps {
     customerCount: number
     nrr: number
     grr: number
-    churnRate: number
+    // null when the source did not report churned customers
+    churnRate: number | null
+    netNewARR?: number
+    quickRatio?: number | null
+    arrGrowthQoQ?: number | null
+    arrGrowthYoY?: number | null
+    cmgr?: number | null
+    ruleOf40?: number | null
   }
   previousMetrics?: {
     mrr: number
     customerCount: number
   }
+  trailingRetention?: TrailingRetention
+  // Monthly history for the growth efficiency chart
+  series?: MonthlyMetrics[]
+  profitMarginPercent?: number | null
+  onProfitMarginChange?: (profitMarginPercent: number | null) => void
+  // ISO 4217 code the values are expressed in
+  currency?: string
+  // Peer percentiles for the benchmarked cards
+  benchmarks?: BenchmarkComparison | null
 }
 
+type GrowthView = 'quickRatio' | 'netNewARR' | 'arrGrowthYoY' | 'arrGrowthQoQ' | 'cmgr' | 'ruleOf40'
+
+interface GrowthViewConfig {
+  label: string
+  color: string
+  benchmark?: number
+  formula: string
+  format: (value: number, currency: string) => string
+}
+
+const formatCompactCurrency = (value: number, currency: string = 'USD') => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+    notation: Math.abs(value) >= 100000 ? 'compact' : 'standard'
+  }).format(value)
+}
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const GROWTH_VIEWS: Record<GrowthView, GrowthViewConfig> = {
+  quickRatio: {
+    label: 'Quick Ratio',
+    color: '#10b981',
+    benchmark: 4,
+    formula: '(New + Reactivation + Expansion MRR) ÷ (Contraction + Churned MRR)',
+    format: (value) => `${value.toFixed(1)}x`
+  },
+  netNewARR: {
+    label: 'Net New ARR',
+    color: '#3b82f6',
+    formula: '(MRR this month − MRR last month) × 12',
+    format: formatCompactCurrency
+  },
+  arrGrowthYoY: {
+    label: 'ARR Growth YoY',
+    color: '#8b5cf6',
+    formula: 'ARR ÷ ARR 12 months earlier − 1',
+    format: formatRate
+  },
+  arrGrowthQoQ: {
+    label: 'ARR Growth QoQ',
+    color: '#6366f1',
+    formula: 'ARR ÷ ARR 3 months earlier − 1',
+    format: formatRate
+  },
+  cmgr: {
+    label: 'CMGR',
+    color: '#f59e0b',
+    formula: '(MRR ÷ MRR n months earlier)^(1/n) − 1, over up to 12 months',
+    format: formatRate
+  },
+  ruleOf40: {
+    label: 'Rule of 40',
+    color: '#ef4444',
+    benchmark: 0.4,
+    formula: 'ARR growth YoY + profit margin',
+    format: formatRate
+  }
+}
+
+// Profit margin choices for the Rule of 40; negative while burning cash
+const PROFIT_MARGIN_OPTIONS = [-60, -40, -30, -20, -10, 0, 10, 20, 30]
+const NO_MARGIN = 'none'
+
 interface KPICardProps {
   title: string;
   value: string;
@@ -29,6 +118,8 @@ interface KPICardProps {
   trendValue?: string;
   icon: React.ComponentType<{ className?: string }>;
   badge?: string;
+  // Peer rank line, e.g. "P62 vs Series A peers"
+  peerRank?: string;
   className?: string;
 }
 
@@ -40,6 +131,7 @@ function PremiumKPICard({
   trendValue, 
   icon: Icon, 
   badge,
+  peerRank,
   className 
 }: KPICardProps) {
   const variantStyles = {
@@ -146,17 +238,35 @@ function PremiumKPICard({
               )}
             </p>
           )}
+
+          {peerRank && (
+            <p className={cn(
+              "text-xs font-medium",
+              isGradient ? "text-white/80" : "text-gray-700"
+            )}>
+              {peerRank}
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
   );
 }
 
-export function PremiumKPICards({ metrics, previousMetrics }: PremiumKPICardsProps) {
+export function PremiumKPICards({
+  metrics,
+  previousMetrics,
+  trailingRetention,
+  series = [],
+  profitMarginPercent = null,
+  onProfitMarginChange,
+  currency = 'USD',
+  benchmarks = null
+}: PremiumKPICardsProps) {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -181,13 +291,43 @@ export function PremiumKPICards({ metrics, previousMetrics }: PremiumKPICardsPro
     return 'Needs Attention'
   }
 
+  // Shorter windows shown alongside the annual figure, e.g. "3M 101.2% • 6M 103.4%"
+  const formatShortWindows = (pick: (window: RetentionWindow) => number) => {
+    const parts = [
+      trailingRetention?.threeMonth && `3M ${formatPercentage(pick(trailingRetention.threeMonth))}`,
+      trailingRetention?.sixMonth && `6M ${formatPercentage(pick(trailingRetention.sixMonth))}`,
+    ].filter(Boolean)
+    return parts.length > 0 ? parts.join(' • ') : 'Less than 3 months of history'
+  }
+
+  const annual = trailingRetention?.twelveMonth
+
   const getChurnBadge = (value: number) => {
     if (value <= 0.03) return 'Excellent'
     if (value <= 0.05) return 'Good'
     return 'High'
   }
 
+  const getQuickRatioBadge = (value: number) => {
+    if (value >= 4) return 'Excellent'
+    if (value >= 2) return 'Good'
+    return 'Low'
+  }
+
+  const formatOptionalRate = (value?: number | null) => {
+    return value === undefined || value === null ? '—' : formatPercentage(value)
+  }
+
+  const quickRatio = metrics.quickRatio ?? null
+
+  const peerRank = (metric: BenchmarkMetric) => {
+    const result = benchmarks?.results.find(r => r.metric === metric)
+    return result ? `P${result.percentile} vs ${benchmarks!.stage} peers` : undefined
+  }
+  const ruleOf40 = metrics.ruleOf40 ?? null
+
   return (
+    <div className="space-y-6">
     <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
       {/* Primary Revenue Metrics - Gradient Cards */}
       <PremiumKPICard
@@ -238,12 +378,240 @@ export function PremiumKPICards({ metrics, previousMetrics }: PremiumKPICardsPro
 
       <PremiumKPICard
         title="Customer Churn Rate"
-        value={formatPercentage(metrics.churnRate)}
-        subtitle="Monthly churn rate"
-        variant={metrics.churnRate <= 0.05 ? "retention" : "danger"}
+        value={formatOptionalRate(metrics.churnRate)}
+        subtitle={metrics.churnRate !== null ? 'Monthly churn rate' : 'Churned customers not reported'}
+        variant={metrics.churnRate === null || metrics.churnRate <= 0.05 ? "retention" : "danger"}
         icon={TrendingDown}
-        badge={getChurnBadge(metrics.churnRate)}
+        badge={metrics.churnRate !== null ? getChurnBadge(metrics.churnRate) : undefined}
+      />
+
+      {/* Trailing-twelve-month retention - cohort of customers active a year ago */}
+      <PremiumKPICard
+        title="Annual Net Revenue Retention"
+        value={annual ? formatPercentage(annual.nrr) : '—'}
+        subtitle={formatShortWindows(window => window.nrr)}
+        variant={!annual ? "warning" : annual.nrr >= 1.1 ? "retention" : annual.nrr >= 1 ? "warning" : "danger"}
+        icon={TrendingUp}
+        badge={annual ? getRetentionBadge(annual.nrr, 1) : 'TTM'}
+        peerRank={peerRank('netRevenueRetention')}
+      />
+
+      <PremiumKPICard
+        title="Annual Gross Revenue Retention"
+        value={annual ? formatPercentage(annual.grr) : '—'}
+        subtitle={formatShortWindows(window => window.grr)}
+        variant={!annual || annual.grr >= 0.9 ? "retention" : "warning"}
+        icon={Activity}
+        badge={annual ? getRetentionBadge(annual.grr, 0.9) : 'TTM'}
+        peerRank={peerRank('grossRevenueRetention')}
+      />
+
+      <PremiumKPICard
+        title="Annual Logo Retention"
+        value={annual ? formatPercentage(annual.logoRetention) : '—'}
+        subtitle={formatShortWindows(window => window.logoRetention)}
+        variant={!annual || annual.logoRetention >= 0.8 ? "retention" : "danger"}
+        icon={Users}
+        badge="TTM"
+        peerRank={peerRank('logoChurn')}
+      />
+
+      {/* Growth efficiency - investor-facing growth quality metrics */}
+      <PremiumKPICard
+        title="SaaS Quick Ratio"
+        value={quickRatio !== null ? `${quickRatio.toFixed(1)}x` : '—'}
+        subtitle={quickRatio !== null ? 'MRR gained per $1 of MRR lost' : 'No contraction or churn this month'}
+        variant={quickRatio === null || quickRatio >= 4 ? "retention" : quickRatio >= 2 ? "warning" : "danger"}
+        icon={Gauge}
+        badge={quickRatio !== null ? getQuickRatioBadge(quickRatio) : undefined}
+        peerRank={peerRank('quickRatio')}
+      />
+
+      <PremiumKPICard
+        title="Net New ARR"
+        value={formatCompactCurrency(metrics.netNewARR ?? 0, currency)}
+        subtitle="Change in ARR this month"
+        variant={(metrics.netNewARR ?? 0) >= 0 ? "retention" : "danger"}
+        icon={BarChart3}
+      />
+
+      <PremiumKPICard
+        title="ARR Growth (YoY)"
+        value={formatOptionalRate(metrics.arrGrowthYoY)}
+        subtitle={metrics.arrGrowthQoQ != null
+          ? `QoQ ${formatPercentage(metrics.arrGrowthQoQ)}`
+          : 'Needs 3 months of history for QoQ'}
+        variant={metrics.arrGrowthYoY == null || metrics.arrGrowthYoY >= 0 ? "retention" : "danger"}
+        icon={Rocket}
+        badge={metrics.arrGrowthYoY == null ? 'Needs 12 months' : undefined}
+        peerRank={peerRank('arrGrowthYoY')}
+      />
+
+      <PremiumKPICard
+        title="ARR Growth (QoQ)"
+        value={formatOptionalRate(metrics.arrGrowthQoQ)}
+        subtitle="vs. ARR three months ago"
+        variant={metrics.arrGrowthQoQ == null || metrics.arrGrowthQoQ >= 0 ? "retention" : "danger"}
+        icon={TrendingUp}
+      />
+
+      <PremiumKPICard
+        title="Compound Monthly Growth"
+        value={formatOptionalRate(metrics.cmgr)}
+        subtitle="CMGR over the trailing 12 months"
+        variant={metrics.cmgr == null || metrics.cmgr >= 0 ? "retention" : "danger"}
+        icon={Zap}
+        badge="CMGR"
+      />
+
+      <PremiumKPICard
+        title="Rule of 40"
+        value={ruleOf40 !== null ? formatPercentage(ruleOf40) : '—'}
+        subtitle={ruleOf40 !== null
+          ? `YoY growth + ${profitMarginPercent}% profit margin`
+          : profitMarginPercent === null
+            ? 'Set a profit margin below'
+            : 'Needs 12 months of history'}
+        variant={ruleOf40 === null ? "warning" : ruleOf40 >= 0.4 ? "retention" : "danger"}
+        icon={Percent}
+        badge={ruleOf40 !== null ? (ruleOf40 >= 0.4 ? 'Passing' : 'Below 40%') : undefined}
       />
     </div>
+
+    {series.length > 0 && (
+      <GrowthEfficiencyChart
+        series={series}
+        profitMarginPercent={profitMarginPercent}
+        onProfitMarginChange={onProfitMarginChange}
+        currency={currency}
+      />
+    )}
+    </div>
+  )
+}
+
+interface GrowthEfficiencyChartProps {
+  series: MonthlyMetrics[]
+  profitMarginPercent: number | null
+  onProfitMarginChange?: (profitMarginPercent: number | null) => void
+  currency: string
+}
+
+function GrowthEfficiencyChart({ series, profitMarginPercent, onProfitMarginChange, currency }: GrowthEfficiencyChartProps) {
+  const [view, setView] = useState<GrowthView>('quickRatio')
+  const CHART_MARGIN = { top: 16, right: 16, bottom: 16, left: 8 };
+  const config = GROWTH_VIEWS[view]
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month.slice(0, 7)}-01`), 'MMM yy')
+    } catch {
+      return month
+    }
+  }
+
+  const chartData = series
+    .filter(item => item[view] !== null)
+    .map(item => ({
+      monthFormatted: formatMonth(item.month),
+      value: item[view] as number
+    }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5 text-green-600" />
+              Growth Efficiency
+            </CardTitle>
+            <CardDescription>
+              Quick Ratio, net new ARR, ARR growth, CMGR and Rule of 40 over time
+            </CardDescription>
+          </div>
+          {onProfitMarginChange && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              Profit margin
+              <Select
+                value={profitMarginPercent === null ? NO_MARGIN : String(profitMarginPercent)}
+                onValueChange={(value) => onProfitMarginChange(value === NO_MARGIN ? null : parseInt(value, 10))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MARGIN}>Not set</SelectItem>
+                  {PROFIT_MARGIN_OPTIONS.map(percent => (
+                    <SelectItem key={percent} value={String(percent)}>{percent}%</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={view} onValueChange={(value) => setView(value as GrowthView)} className="mb-4">
+          <TabsList>
+            {(Object.keys(GROWTH_VIEWS) as GrowthView[]).map(key => (
+              <TabsTrigger key={key} value={key}>{GROWTH_VIEWS[key].label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="h-64">
+          {chartData.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-center text-sm text-gray-500 px-6">
+              {view === 'ruleOf40' && profitMarginPercent === null
+                ? 'Set a profit margin to calculate the Rule of 40.'
+                : `Not enough history yet to calculate ${config.label}.`}
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis
+                  dataKey="monthFormatted"
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: number) => config.format(value, currency)}
+                />
+                <Tooltip
+                  formatter={(value: number) => [config.format(value, currency), config.label]}
+                  contentStyle={{
+                    backgroundColor: 'white',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                  }}
+                />
+                {config.benchmark !== undefined && (
+                  <ReferenceLine y={config.benchmark} stroke="#6b7280" strokeDasharray="3 3" />
+                )}
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  stroke={config.color}
+                  strokeWidth={3}
+                  dot={false}
+                  activeDot={{ r: 6 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="mt-4 text-xs text-gray-600">
+          <strong>{config.label}</strong> = {config.formula}
+        </div>
+      </CardContent>
+    </Card>
   )
 }
@@ -0,0 +1,101 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { History } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { RestatedField, Restatement } from '@/types'
+
+interface RestatementDiffProps {
+  restatements: Restatement[]
+  currency?: string
+}
+
+const FIELD_LABELS: Record<RestatedField, string> = {
+  totalMRR: 'MRR',
+  customerCount: 'Customers',
+  newMRR: 'New MRR',
+  expansionMRR: 'Expansion MRR',
+  contractionMRR: 'Contraction MRR',
+  churnedMRR: 'Churned MRR'
+}
+
+export function RestatementDiff({ restatements, currency = 'USD' }: RestatementDiffProps) {
+  const formatValue = (field: RestatedField, value: number) => {
+    if (field === 'customerCount') return value.toLocaleString('en-US')
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const formatChange = (field: RestatedField, change: number) => {
+    return `${change > 0 ? '+' : change < 0 ? '−' : ''}${formatValue(field, Math.abs(change))}`
+  }
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  // Newest upload first, then month order within it
+  const sorted = [...restatements].sort((a, b) =>
+    b.uploadedAt.localeCompare(a.uploadedAt) || a.month.localeCompare(b.month)
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-600" />
+          Restatements
+        </CardTitle>
+        <CardDescription>
+          Months whose reported figures changed when a later file was uploaded
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <div className="h-24 flex items-center justify-center text-sm text-gray-500">
+            No restatements. Every upload matched the figures reported before it.
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-2 font-medium text-gray-700">Month</th>
+                  <th className="text-left py-2 px-2 font-medium text-gray-700">Restated by</th>
+                  <th className="text-left py-2 px-2 font-medium text-gray-700">Metric</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-700">Reported</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-700">Restated</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-700">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.flatMap(restatement => restatement.changes.map((change, index) => (
+                  <tr key={`${restatement.uploadId}-${restatement.month}-${change.field}`} className="border-b border-gray-100">
+                    <td className="py-1.5 px-2 text-gray-900">{index === 0 ? formatMonth(restatement.month) : ''}</td>
+                    <td className="py-1.5 px-2 text-gray-600">
+                      {index === 0 && `${restatement.fileName} · ${format(parseISO(restatement.uploadedAt), 'MMM d, yyyy')}`}
+                    </td>
+                    <td className="py-1.5 px-2 text-gray-700">{FIELD_LABELS[change.field]}</td>
+                    <td className="py-1.5 px-2 text-right font-mono">{formatValue(change.field, change.previous)}</td>
+                    <td className="py-1.5 px-2 text-right font-mono">{formatValue(change.field, change.restated)}</td>
+                    <td className={`py-1.5 px-2 text-right font-mono ${change.change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatChange(change.field, change.change)}
+                    </td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { SEGMENT_DIMENSIONS } from '@/lib/constants'
+import { SegmentDimension, SegmentFilter as SegmentFilterValue } from '@/types'
+
+interface SegmentFilterProps {
+  // Segment values per dimension present in the data
+  values: Partial<Record<SegmentDimension, string[]>>
+  value: SegmentFilterValue | null
+  onChange: (value: SegmentFilterValue | null) => void
+}
+
+const ALL_CUSTOMERS = 'all'
+const SEPARATOR = '::'
+
+export function SegmentFilter({ values, value, onChange }: SegmentFilterProps) {
+  const dimensions = SEGMENT_DIMENSIONS.filter(dimension => (values[dimension.key] || []).length > 0)
+
+  if (dimensions.length === 0) return null
+
+  const handleChange = (selected: string) => {
+    if (selected === ALL_CUSTOMERS) {
+      onChange(null)
+      return
+    }
+    const [dimension, ...rest] = selected.split(SEPARATOR)
+    onChange({ dimension: dimension as SegmentDimension, value: rest.join(SEPARATOR) })
+  }
+
+  return (
+    <Select
+      value={value ? `${value.dimension}${SEPARATOR}${value.value}` : ALL_CUSTOMERS}
+      onValueChange={handleChange}
+    >
+      <SelectTrigger className="w-48 h-9">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_CUSTOMERS}>All customers</SelectItem>
+        {dimensions.map(dimension => (
+          <SelectGroup key={dimension.key}>
+            <SelectLabel>{dimension.label}</SelectLabel>
+            {(values[dimension.key] || []).map(segment => (
+              <SelectItem key={segment} value={`${dimension.key}${SEPARATOR}${segment}`}>
+                {segment}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Megaphone, Save, Upload } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { parseSpendFile } from '@/lib/spend-parser'
+import { SpendMonth } from '@/types'
+
+interface SpendSettingsProps {
+  months: string[]
+  spend: SpendMonth[]
+  onSave: (spend: SpendMonth[]) => void
+}
+
+interface SpendDraft {
+  salesMarketingSpend: string
+  netBurn: string
+}
+
+const EMPTY_DRAFT: SpendDraft = { salesMarketingSpend: '', netBurn: '' }
+
+function toDrafts(spend: SpendMonth[]): Record<string, SpendDraft> {
+  return Object.fromEntries(spend.map(s => [s.month, {
+    salesMarketingSpend: String(s.salesMarketingSpend),
+    netBurn: s.netBurn === undefined ? '' : String(s.netBurn)
+  }]))
+}
+
+export function SpendSettings({ months, spend, onSave }: SpendSettingsProps) {
+  const [drafts, setDrafts] = useState<Record<string, SpendDraft>>(() => toDrafts(spend))
+  const [error, setError] = useState<string | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setDrafts(toDrafts(spend))
+    setIsDirty(false)
+  }, [spend])
+
+  const formatMonth = (month: string) => {
+    try {
+      return format(parseISO(`${month}-01`), 'MMM yyyy')
+    } catch {
+      return month
+    }
+  }
+
+  const updateDraft = (month: string, field: keyof SpendDraft, value: string) => {
+    setDrafts(current => ({
+      ...current,
+      [month]: { ...(current[month] || EMPTY_DRAFT), [field]: value }
+    }))
+    setIsDirty(true)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = await parseSpendFile(file)
+      setDrafts(current => ({ ...current, ...toDrafts(imported) }))
+      setIsDirty(true)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read spend file')
+    }
+  }
+
+  const handleSave = () => {
+    const entries: SpendMonth[] = []
+
+    for (const [month, draft] of Object.entries(drafts)) {
+      if (draft.salesMarketingSpend.trim() === '') continue
+
+      const salesMarketingSpend = Number(draft.salesMarketingSpend)
+      const netBurn = draft.netBurn.trim() === '' ? undefined : Number(draft.netBurn)
+
+      if (isNaN(salesMarketingSpend) || salesMarketingSpend < 0) {
+        setError(`${formatMonth(month)}: S&M spend must be a non-negative number`)
+        return
+      }
+      if (netBurn !== undefined && isNaN(netBurn)) {
+        setError(`${formatMonth(month)}: net burn must be a number`)
+        return
+      }
+
+      entries.push({ month, salesMarketingSpend, ...(netBurn !== undefined ? { netBurn } : {}) })
+    }
+
+    setError(null)
+    onSave(entries)
+  }
+
+  // Show every data month, plus imported months outside the MRR range
+  const allMonths = Array.from(new Set([...months, ...Object.keys(drafts)])).sort()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5 text-blue-600" />
+              Sales &amp; Marketing Spend
+            </CardTitle>
+            <CardDescription>
+              Monthly S&amp;M spend drives Magic Number, CAC and CAC payback. Add net burn for the burn multiple.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+              Import File
+            </Button>
+            <Button
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={handleSave}
+              disabled={!isDirty}
+            >
+              <Save className="h-4 w-4" />
+              Save Spend
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <p className="text-xs text-gray-600">
+          Import a CSV or Excel file with <code>month</code>, <code>sm_spend</code> and optional <code>net_burn</code> columns, or enter values below.
+        </p>
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 font-medium text-gray-700">Month</th>
+                <th className="text-right py-2 px-2 font-medium text-gray-700">S&amp;M Spend</th>
+                <th className="text-right py-2 px-2 font-medium text-gray-700">Net Burn</th>
+              </tr>
+            </thead>
+            <tbody>
+              {allMonths.map(month => (
+                <tr key={month} className="border-b border-gray-100">
+                  <td className="py-1.5 px-2 text-gray-900">{formatMonth(month)}</td>
+                  <td className="py-1.5 px-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      inputMode="decimal"
+                      className="h-8 text-right font-mono ml-auto max-w-36"
+                      value={drafts[month]?.salesMarketingSpend ?? ''}
+                      onChange={(event) => updateDraft(month, 'salesMarketingSpend', event.target.value)}
+                    />
+                  </td>
+                  <td className="py-1.5 px-2">
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      className="h-8 text-right font-mono ml-auto max-w-36"
+                      value={drafts[month]?.netBurn ?? ''}
+                      onChange={(event) => updateDraft(month, 'netBurn', event.target.value)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,8 +1,12 @@
 'use client'
 
+import { Fragment } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { format, parseISO } from 'date-fns'
+import { ComparisonCalculator } from '@/lib/calculations/comparison'
+import { formatComparisonPeriod } from '@/components/charts/comparison-lines'
+import { ComparisonView, EfficiencyMetrics, TrailingRetention } from '@/types'
 
 interface SummaryKPITableProps {
   data: Array<{
@@ -15,14 +19,25 @@ interface SummaryKPITableProps {
     expansionMRR: number
     contractionMRR: number
     churnedMRR: number
+    trailingRetention?: TrailingRetention
   }>
+  // Magic Number is only shown for months with prior-quarter S&M spend
+  efficiency?: EfficiencyMetrics[]
+  // ISO 4217 code the values are expressed in
+  currency?: string
+  // Lines compared companies up period by period instead of listing one company's months
+  comparison?: ComparisonView
 }
 
-export function SummaryKPITable({ data }: SummaryKPITableProps) {
+export function SummaryKPITable({ data, efficiency = [], currency = 'USD', comparison }: SummaryKPITableProps) {
+  if (comparison) {
+    return <ComparisonKPITable comparison={comparison} />
+  }
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
       notation: value >= 1000000 ? 'compact' : 'standard',
@@ -34,6 +49,14 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
     return `${(value * 100).toFixed(1)}%`
   }
 
+  const formatOptionalPercent = (value?: number) => {
+    return value === undefined ? '—' : formatPercent(value)
+  }
+
+  const formatMagicNumber = (value: number | null) => {
+    return value === null ? '—' : value.toFixed(2)
+  }
+
   const formatMonth = (month: string) => {
     try {
       return format(parseISO(`${month}-01`), 'MMM yyyy')
@@ -42,21 +65,18 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
     }
   }
 
+  const magicNumbers = new Map(efficiency.map(e => [e.month, e.magicNumber]))
+
   // Calculate additional metrics
   const tableData = data.map((item, index) => {
     const previousItem = index > 0 ? data[index - 1] : null
     const yoyGrowth = previousItem ? ((item.arr - previousItem.arr) / previousItem.arr) * 100 : 0
-    
-    // Calculate Magic Number
-    const netNewMRR = item.newMRR + item.expansionMRR
-    const lostMRR = item.churnedMRR + item.contractionMRR
-    const magicNumber = lostMRR > 0 ? netNewMRR / lostMRR : netNewMRR > 0 ? 5 : 0
 
     return {
       ...item,
       monthFormatted: formatMonth(item.month),
       yoyGrowth,
-      magicNumber: Math.round(magicNumber * 100) / 100
+      magicNumber: magicNumbers.get(item.month) ?? null
     }
   })
 
@@ -92,8 +112,10 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
               <tr className="border-b border-gray-200">
                 <th className="text-left py-3 px-2 font-medium text-gray-700">Month</th>
                 <th className="text-right py-3 px-2 font-medium text-gray-700">ARR</th>
+                <th className="text-right py-3 px-2 font-medium text-gray-700">NDR (MoM)</th>
                 <th className="text-right py-3 px-2 font-medium text-gray-700">NDR (TTM)</th>
-                <th className="text-right py-3 px-2 font-medium text-gray-700">GRR</th>
+                <th className="text-right py-3 px-2 font-medium text-gray-700">GRR (TTM)</th>
+                <th className="text-right py-3 px-2 font-medium text-gray-700">Logo Ret. (TTM)</th>
                 <th className="text-right py-3 px-2 font-medium text-gray-700">Customers</th>
                 <th className="text-right py-3 px-2 font-medium text-gray-700">Magic #</th>
                 <th className="text-right py-3 px-2 font-medium text-gray-700">Growth</th>
@@ -122,14 +144,27 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
                       {getNRRBadge(row.netRevenueRetention)}
                     </div>
                   </td>
+                  <td className="py-3 px-2 text-right">
+                    {row.trailingRetention?.twelveMonth ? (
+                      <div className="flex items-center justify-end gap-2">
+                        {formatPercent(row.trailingRetention.twelveMonth.nrr)}
+                        {getNRRBadge(row.trailingRetention.twelveMonth.nrr)}
+                      </div>
+                    ) : (
+                      <span className="font-mono text-gray-400">—</span>
+                    )}
+                  </td>
                   <td className="py-3 px-2 text-right font-mono">
-                    {formatPercent(row.grossRevenueRetention)}
+                    {formatOptionalPercent(row.trailingRetention?.twelveMonth?.grr)}
+                  </td>
+                  <td className="py-3 px-2 text-right font-mono">
+                    {formatOptionalPercent(row.trailingRetention?.twelveMonth?.logoRetention)}
                   </td>
                   <td className="py-3 px-2 text-right font-mono">
                     {row.customerCount}
                   </td>
                   <td className="py-3 px-2 text-right font-mono">
-                    {row.magicNumber.toFixed(1)}
+                    {formatMagicNumber(row.magicNumber)}
                   </td>
                   <td className="py-3 px-2 text-right">
                     <div className="flex items-center justify-end gap-2">
@@ -147,13 +182,13 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
         <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t border-gray-200">
           <div className="text-center">
             <div className="text-lg font-bold text-gray-900">
-              {formatPercent(recentData[recentData.length - 1]?.netRevenueRetention || 0)}
+              {formatOptionalPercent(recentData[recentData.length - 1]?.trailingRetention?.twelveMonth?.nrr)}
             </div>
-            <div className="text-xs text-gray-600">Current NDR</div>
+            <div className="text-xs text-gray-600">Current NDR (TTM)</div>
           </div>
           <div className="text-center">
             <div className="text-lg font-bold text-gray-900">
-              {recentData[recentData.length - 1]?.magicNumber.toFixed(1) || '0.0'}
+              {formatMagicNumber(recentData[recentData.length - 1]?.magicNumber ?? null)}
             </div>
             <div className="text-xs text-gray-600">Current Magic #</div>
           </div>
@@ -174,3 +209,98 @@ export function SummaryKPITable({ data }: SummaryKPITableProps) {
     </Card>
   )
 }
+
+function ComparisonKPITable({ comparison }: { comparison: ComparisonView }) {
+  const { companies, options } = comparison
+  const arr = ComparisonCalculator.overlay(companies, metric => metric.arr, options)
+  // Retention is already a ratio, so it is never indexed
+  const nrr = ComparisonCalculator.overlay(
+    companies,
+    metric => metric.trailingRetention?.twelveMonth?.nrr ?? null,
+    { ...options, indexed: false }
+  )
+  const nrrByPeriod = new Map(nrr.rows.map(row => [row.period, row.values]))
+  const shown = companies.filter(company => !arr.excludedCompanyIds.includes(company.companyId))
+
+  // Show the last 12 aligned periods
+  const recentRows = arr.rows.slice(-12)
+
+  const formatARR = (value: number | null, companyCurrency: string) => {
+    if (value === null) return '—'
+    if (options.indexed) return value.toFixed(1)
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: companyCurrency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      notation: value >= 1000000 ? 'compact' : 'standard',
+      compactDisplay: 'short'
+    }).format(value)
+  }
+
+  const formatNRR = (value: number | null | undefined) => {
+    return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Summary KPI</CardTitle>
+        <CardDescription>
+          {options.indexed ? 'ARR indexed to 100' : 'ARR'} and NDR (TTM) per company
+          {options.alignment === 'milestone' ? ', aligned on months since $1M ARR' : ', by calendar month'} - last 12 periods
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-2 font-medium text-gray-700">
+                  {options.alignment === 'milestone' ? 'Period' : 'Month'}
+                </th>
+                {shown.map(company => (
+                  <th key={company.companyId} colSpan={2} className="text-right py-3 px-2 font-medium text-gray-700">
+                    {company.name}
+                  </th>
+                ))}
+              </tr>
+              <tr className="border-b border-gray-200">
+                <th />
+                {shown.map(company => (
+                  <Fragment key={company.companyId}>
+                    <th className="text-right py-2 px-2 text-xs font-medium text-gray-500">
+                      {options.indexed ? 'ARR index' : 'ARR'}
+                    </th>
+                    <th className="text-right py-2 px-2 text-xs font-medium text-gray-500">
+                      NDR (TTM)
+                    </th>
+                  </Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {recentRows.map(row => (
+                <tr key={row.period} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-2 font-medium text-gray-900">
+                    {formatComparisonPeriod(row.period)}
+                  </td>
+                  {shown.map(company => (
+                    <Fragment key={company.companyId}>
+                      <td className="py-3 px-2 text-right font-mono">
+                        {formatARR(row.values[company.companyId], company.currency)}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono">
+                        {formatNRR(nrrByPeriod.get(row.period)?.[company.companyId])}
+                      </td>
+                    </Fragment>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MessageSquarePlus, Search, Trash2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { ANNOTATION_TYPES } from '@/lib/constants'
+import { Annotation, AnnotationType, MonthExplanation, MovementExplanation } from '@/types'
+
+interface WhatChangedProps {
+  months: string[]
+  month: string
+  explanation: MonthExplanation | null
+  // Annotations for every month; only the selected month's are listed
+  annotations: Annotation[]
+  currency?: string
+  onMonthChange: (month: string) => void
+  onAddAnnotation: (annotation: Pick<Annotation, 'month' | 'type' | 'title' | 'description'>) => void
+  onDeleteAnnotation: (id: string) => void
+}
+
+const MOVEMENTS: Record<MovementExplanation['type'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'text-green-600' },
+  reactivation: { label: 'Reactivation', className: 'text-violet-600' },
+  expansion: { label: 'Expansion', className: 'text-blue-600' },
+  contraction: { label: 'Contraction', className: 'text-orange-600' },
+  churn: { label: 'Churn', className: 'text-red-600' }
+}
+
+export function WhatChanged({
+  months,
+  month,
+  explanation,
+  annotations,
+  currency = 'USD',
+  onMonthChange,
+  onAddAnnotation,
+  onDeleteAnnotation
+}: WhatChangedProps) {
+  const [type, setType] = useState<AnnotationType>('note')
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+      signDisplay: 'exceptZero'
+    }).format(value)
+  }
+
+  const formatMonth = (value: string) => {
+    try {
+      return format(parseISO(`${value}-01`), 'MMM yyyy')
+    } catch {
+      return value
+    }
+  }
+
+  const handleAdd = () => {
+    if (!title.trim()) return
+    onAddAnnotation({
+      month,
+      type,
+      title: title.trim(),
+      ...(description.trim() ? { description: description.trim() } : {})
+    })
+    setTitle('')
+    setDescription('')
+  }
+
+  const monthAnnotations = annotations.filter(annotation => annotation.month === month)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Search className="h-5 w-5 text-blue-600" />
+              What Changed
+            </CardTitle>
+            <CardDescription>
+              The customers behind each month&apos;s MRR movements, and notes on what happened.
+            </CardDescription>
+          </div>
+          <Select value={month} onValueChange={onMonthChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...months].reverse().map(value => (
+                <SelectItem key={value} value={value}>{formatMonth(value)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!explanation || explanation.movements.length === 0 ? (
+          <p className="text-sm text-gray-500">No MRR movements in {formatMonth(month)}.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-700">
+              MRR changed by <strong>{formatCurrency(explanation.netChange)}</strong> in {formatMonth(month)}.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+              {explanation.movements.map(movement => (
+                <div key={movement.type} className="rounded-lg border border-gray-100 p-4">
+                  <div className="text-xs text-gray-600">{MOVEMENTS[movement.type].label}</div>
+                  <div className={`text-xl font-bold mt-1 ${MOVEMENTS[movement.type].className}`}>
+                    {formatCurrency(movement.type === 'contraction' || movement.type === 'churn' ? -movement.total : movement.total)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {movement.customerCount} customer{movement.customerCount === 1 ? '' : 's'}
+                  </div>
+                  <ul className="mt-3 space-y-1 text-xs">
+                    {movement.topCustomers.map(customer => (
+                      <li key={customer.customerId} className="flex justify-between gap-2">
+                        <span className="truncate text-gray-900">{customer.customerName}</span>
+                        <span className="font-mono text-gray-600">{(customer.share * 100).toFixed(0)}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* Annotations */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900">Notes for {formatMonth(month)}</h4>
+          {monthAnnotations.map(annotation => (
+            <div key={annotation.id} className="flex items-start justify-between gap-4 rounded-lg border border-gray-100 p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    style={{ borderColor: ANNOTATION_TYPES[annotation.type].color, color: ANNOTATION_TYPES[annotation.type].color }}
+                  >
+                    {ANNOTATION_TYPES[annotation.type].label}
+                  </Badge>
+                  <span className="text-sm font-medium text-gray-900">{annotation.title}</span>
+                </div>
+                {annotation.description && (
+                  <p className="text-xs text-gray-600">{annotation.description}</p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-red-600"
+                onClick={() => onDeleteAnnotation(annotation.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as AnnotationType)}>
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ANNOTATION_TYPES) as AnnotationType[]).map(key => (
+                  <SelectItem key={key} value={key}>{ANNOTATION_TYPES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="What happened?"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && handleAdd()}
+            />
+            <Input
+              placeholder="Details (optional)"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && handleAdd()}
+            />
+            <Button className="flex items-center gap-2" onClick={handleAdd} disabled={!title.trim()}>
+              <MessageSquarePlus className="h-4 w-4" />
+              Add Note
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
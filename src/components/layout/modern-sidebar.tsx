@@ -23,7 +23,9 @@ import {
   Activity,
   Database,
   Star,
-  Zap
+  Zap,
+  Briefcase,
+  GitCompare
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -51,6 +53,18 @@ export function ModernSidebar({ className }: ModernSidebarProps) {
       current: pathname === '/analytics',
       badge: 'New'
     },
+    {
+      name: 'Portfolio',
+      href: '/portfolio',
+      icon: Briefcase,
+      current: pathname === '/portfolio',
+    },
+    {
+      name: 'Compare',
+      href: '/compare',
+      icon: GitCompare,
+      current: pathname === '/compare',
+    },
   ]
 
   const dashboards = [
@@ -0,0 +1,328 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, Columns3 } from 'lucide-react'
+import { applyColumnMapping, sourceOf } from '@/lib/file-parser'
+import { ColumnMapping, DataLayout, IgnoredRowReason, MappingDetection, SheetData, ValueUnit } from '@/types'
+
+// Name and source system to save the confirmed mapping under
+export interface TemplateDetails {
+  name: string
+  sourceSystem: string | null
+}
+
+interface ColumnMappingWizardProps {
+  fileName: string
+  sheet: SheetData
+  detection: MappingDetection
+  // Rows above the header; changing it re-reads the file
+  headerRow: number
+  onHeaderRowChange: (headerRow: number) => void
+  // Called once the mapping applies cleanly to the preview; template details are null unless the user named a template
+  onConfirm: (mapping: ColumnMapping, template: TemplateDetails | null) => void
+  onCancel: () => void
+}
+
+// Rows shown in the preview grid
+const PREVIEW_ROWS = 8
+// Select value for "no ID column"
+const GENERATED_ID = 'generated'
+
+const IGNORED_REASON_LABELS: Record<IgnoredRowReason, string> = {
+  title: 'Above the header',
+  total: 'Total or subtotal',
+  footnote: 'Footnote',
+  repeatedHeader: 'Repeated header'
+}
+
+const VALUE_UNIT_LABELS: Record<ValueUnit, string> = {
+  units: 'As entered',
+  thousands: 'Thousands',
+  millions: 'Millions'
+}
+
+export function ColumnMappingWizard({
+  fileName,
+  sheet,
+  detection,
+  headerRow,
+  onHeaderRowChange,
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(detection.mapping)
+  const [error, setError] = useState<string | null>(null)
+  const [templateName, setTemplateName] = useState('')
+  const [sourceSystem, setSourceSystem] = useState('')
+  const [showIgnored, setShowIgnored] = useState(false)
+  const ignoredRows = sheet.ignoredRows ?? []
+  const isStacked = (sheet.sheetNames?.length ?? 0) > 1
+
+  const update = (changes: Partial<ColumnMapping>) => {
+    setMapping(current => ({ ...current, ...changes }))
+    setError(null)
+  }
+
+  const toggleMonthColumn = (header: string) => {
+    update({
+      monthColumns: mapping.monthColumns.includes(header)
+        ? mapping.monthColumns.filter(column => column !== header)
+        : sheet.headers.filter(column => column === header || mapping.monthColumns.includes(column))
+    })
+  }
+
+  const handleApply = () => {
+    try {
+      const template = templateName.trim()
+        ? { name: templateName.trim(), sourceSystem: sourceSystem.trim() || null }
+        : null
+      // The sheet may be the first rows of a large file; the whole file is parsed after this check
+      applyColumnMapping(sheet, mapping)
+      onConfirm(mapping, template)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the column mapping')
+    }
+  }
+
+  // Role of each column under the current mapping, shown in the grid header
+  const roleOf = (header: string): string | null => {
+    if (header === mapping.customerNameColumn) return 'Customer'
+    if (header === mapping.customerIdColumn) return 'Customer ID'
+    if (mapping.layout === 'long') {
+      if (header === mapping.monthColumn) return 'Month'
+      if (header === mapping.valueColumn) return 'MRR'
+      return null
+    }
+    return mapping.monthColumns.includes(header) ? 'Month' : null
+  }
+
+  const renderColumnSelect = (value: string | null, onChange: (value: string) => void, allowNone = false) => (
+    <Select value={value ?? GENERATED_ID} onValueChange={onChange}>
+      <SelectTrigger className="w-44 h-9">
+        <SelectValue placeholder="Choose column" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNone && <SelectItem value={GENERATED_ID}>Generate from name</SelectItem>}
+        {sheet.headers.map(header => (
+          <SelectItem key={header} value={header}>{header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Confirm Column Mapping
+        </CardTitle>
+        <CardDescription>
+          {detection.confidence > 0
+            ? `${fileName} looks like ${detection.mapping.layout} format (${Math.round(detection.confidence * 100)}% confidence). Check the columns below, then apply.`
+            : `The layout of ${fileName} was not recognised. Map the columns below, then apply.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {detection.warnings.length > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{detection.warnings.join('. ')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Mapping controls */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Layout</div>
+            <Tabs value={mapping.layout} onValueChange={(value) => update({ layout: value as DataLayout })}>
+              <TabsList>
+                <TabsTrigger value="long">Long</TabsTrigger>
+                <TabsTrigger value="wide">Wide</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Customer name</div>
+            {renderColumnSelect(mapping.customerNameColumn, value => update({ customerNameColumn: value }))}
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Customer ID</div>
+            {renderColumnSelect(
+              mapping.customerIdColumn,
+              value => update({ customerIdColumn: value === GENERATED_ID ? null : value }),
+              true
+            )}
+          </div>
+          {mapping.layout === 'long' && (
+            <>
+              <div className="space-y-1">
+                <div className="text-xs text-gray-600">Month</div>
+                {renderColumnSelect(mapping.monthColumn, value => update({ monthColumn: value }))}
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-gray-600">MRR</div>
+                {renderColumnSelect(mapping.valueColumn, value => update({ valueColumn: value }))}
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Values in</div>
+            <Select
+              value={mapping.valueUnit ?? 'units'}
+              onValueChange={(value) => update({ valueUnit: value as ValueUnit })}
+            >
+              <SelectTrigger className="w-36 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VALUE_UNIT_LABELS) as ValueUnit[]).map(unit => (
+                  <SelectItem key={unit} value={unit}>{VALUE_UNIT_LABELS[unit]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Month format</div>
+            <Input
+              className="w-32 h-9"
+              placeholder="Automatic"
+              value={mapping.monthHeaderFormat ?? ''}
+              onChange={(e) => update({ monthHeaderFormat: e.target.value.trim() || null })}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-gray-600">Rows above header</div>
+            <Input
+              type="number"
+              min={0}
+              className="w-24 h-9"
+              value={headerRow}
+              onChange={(e) => onHeaderRowChange(Math.max(0, parseInt(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+
+        {mapping.layout === 'wide' && (
+          <p className="text-xs text-gray-600">
+            {mapping.monthColumns.length} month columns selected. Click a column header to add or remove it.
+          </p>
+        )}
+
+        {/* Preview grid */}
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="text-right py-2 px-2 font-normal text-xs text-gray-400 whitespace-nowrap align-top">
+                  Row
+                </th>
+                {sheet.headers.map(header => {
+                  const role = roleOf(header)
+                  const isClickable = mapping.layout === 'wide' && role !== 'Customer' && role !== 'Customer ID'
+                  return (
+                    <th
+                      key={header}
+                      className={`text-left py-2 px-2 font-medium text-gray-700 whitespace-nowrap ${isClickable ? 'cursor-pointer hover:bg-gray-100' : ''}`}
+                      onClick={isClickable ? () => toggleMonthColumn(header) : undefined}
+                    >
+                      <div>{header}</div>
+                      <div className="h-5 mt-1">
+                        {role && <Badge variant="secondary" className="text-xs">{role}</Badge>}
+                      </div>
+                    </th>
+                  )
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <tr key={index} className="border-b border-gray-100">
+                  <td className="py-1.5 px-2 text-right text-xs text-gray-400 whitespace-nowrap">
+                    {isStacked && sourceOf(row).sheetName ? `${sourceOf(row).sheetName} · ` : ''}
+                    {sourceOf(row).rowNumber ?? ''}
+                  </td>
+                  {sheet.headers.map(header => (
+                    <td
+                      key={header}
+                      className={`py-1.5 px-2 whitespace-nowrap ${roleOf(header) ? 'text-gray-900' : 'text-gray-400'}`}
+                    >
+                      {String(row[header] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500">
+          Showing {Math.min(PREVIEW_ROWS, sheet.rows.length)} of {sheet.rows.length} rows
+          {sheet.truncated ? ' read for the preview; the rest of the file is parsed when you apply' : ''}. Unmapped columns are greyed out;
+          currency, product, quantity and segment columns are still picked up by name.
+        </p>
+
+        {/* Rows outside the data block */}
+        {ignoredRows.length > 0 && (
+          <div className="text-xs text-gray-600 space-y-1">
+            <button type="button" className="underline" onClick={() => setShowIgnored(!showIgnored)}>
+              {showIgnored ? 'Hide' : 'Show'} {ignoredRows.length} ignored {ignoredRows.length === 1 ? 'row' : 'rows'}
+            </button>
+            {showIgnored && (
+              <ul className="max-h-40 overflow-y-auto rounded border border-gray-200 divide-y divide-gray-100">
+                {ignoredRows.map(row => (
+                  <li key={`${row.sheetName ?? ''}-${row.rowNumber}`} className="flex gap-3 px-2 py-1">
+                    <span className="w-24 shrink-0 text-gray-500">
+                      {isStacked && row.sheetName ? `${row.sheetName} · ` : ''}Row {row.rowNumber}
+                    </span>
+                    <span className="w-32 shrink-0">{IGNORED_REASON_LABELS[row.reason]}</span>
+                    <span className="truncate text-gray-400">{row.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          {/* Optional template for files with the same layout */}
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <div className="text-xs text-gray-600">Save as template</div>
+              <Input
+                className="w-48 h-9"
+                placeholder="Template name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+              />
+            </div>
+            <Input
+              className="w-40 h-9"
+              placeholder="Source system"
+              value={sourceSystem}
+              onChange={(e) => setSourceSystem(e.target.value)}
+              disabled={!templateName.trim()}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={handleApply}>Apply Mapping</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,26 +1,68 @@
 'use client'
 
-import { useState, useRef } from 'react'
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2 } from 'lucide-react'
+import { useEffect, useState, useRef } from 'react'
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, Trash2, Loader2 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { parseSpreadsheet } from '@/lib/file-parser'
-import { CustomerMonth } from '@/types'
-import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE } from '@/lib/constants'
+import { format } from 'date-fns'
+import {
+  detectColumnMapping,
+  mappingForTemplate,
+  templateHeaders
+} from '@/lib/file-parser'
+import { isContractExport, parseContractFile } from '@/lib/contract-parser'
+import { inspectInWorker, parseInWorker, previewInWorker } from '@/lib/worker-parse'
+import { ContractScheduler } from '@/lib/calculations/contracts'
+import { DataStore } from '@/lib/data-store'
+import {
+  ColumnMapping,
+  Contract,
+  CustomerMonth,
+  ImportTemplate,
+  MappingDetection,
+  ParseProgress,
+  SheetData,
+  SheetReadOptions,
+  SheetSummary
+} from '@/types'
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE, PREVIEW_ROWS } from '@/lib/constants'
+import { ColumnMappingWizard, TemplateDetails } from './column-mapping-wizard'
+import { SheetPicker } from './sheet-picker'
 
 interface FileUploaderProps {
-  onUploadComplete: (data: CustomerMonth[]) => void
+  // Contracts are empty unless the file was a contract export; templateName is set when a saved template was used
+  onUploadComplete: (data: CustomerMonth[], contracts: Contract[], fileName: string, templateName?: string) => void
   isLoading?: boolean
 }
 
+// A previewed file waiting for the user to confirm its column mapping
+interface PendingFile {
+  file: File
+  sheet: SheetData
+  detection: MappingDetection
+  headerRow: number
+}
+
 export function FileUploader({ onUploadComplete, isLoading = false }: FileUploaderProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [dragActive, setDragActive] = useState(false)
+  const [pending, setPending] = useState<PendingFile | null>(null)
+  // A workbook with several sheets waiting for the user to choose which to import
+  const [picking, setPicking] = useState<{ file: File; sheets: SheetSummary[] } | null>(null)
+  const [templates, setTemplates] = useState<ImportTemplate[]>([])
+  // The whole-file parse running in a Web Worker; progress is null until the first report
+  const [parsing, setParsing] = useState<{ fileName: string; progress: ParseProgress | null } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
+  useEffect(() => {
+    setTemplates(DataStore.getImportTemplates())
+    return () => abortRef.current?.abort()
+  }, [])
+
   const handleFile = async (file: File) => {
     setError(null)
     setSuccess(null)
@@ -35,16 +77,43 @@ export function FileUploader({ onUploadComplete, isLoading = false }: FileUpload
 
     // Validate file size
     if (file.size > MAX_FILE_SIZE) {
-      setError('File size must be less than 10MB')
+      setError(`File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`)
       return
     }
 
     setIsUploading(true)
 
     try {
-      const data = await parseSpreadsheet(file)
-      setSuccess(`Successfully parsed ${data.length} records from ${file.name}`)
-      onUploadComplete(data)
+      // One worker reads the start of the file for the preview, template match and sheet list
+      const { preview, match, sheets } = await inspectInWorker(file, templates)
+      
+      // Contract exports become straight-line MRR through the current month
+      const contracts = isContractExport(preview.rows) ? await parseContractFile(file) : null
+      if (contracts) {
+        const data = ContractScheduler.toCustomerMonths(contracts, format(new Date(), 'yyyy-MM'))
+        setSuccess(`Successfully parsed ${contracts.length} contracts into ${data.length} records from ${file.name}`)
+        onUploadComplete(data, contracts, file.name)
+        return
+      }
+
+      // Files laid out like a saved template skip detection and the wizard
+      if (match) {
+        const { template } = match
+        await parseFile(
+          file,
+          mappingForTemplate(template, match.sheet),
+          { sheetNames: template.sheetNames, headerRow: template.headerRow },
+          template.name
+        )
+        return
+      }
+
+      if (sheets.length > 1) {
+        setPicking({ file, sheets })
+        return
+      }
+
+      await openMappingWizard(file, [])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process file')
     } finally {
@@ -52,6 +121,50 @@ export function FileUploader({ onUploadComplete, isLoading = false }: FileUpload
     }
   }
 
+  /**
+   * Parse the whole file in a Web Worker and hand the records on. Canceling
+   * returns to the previous step without a message; other failures throw.
+   */
+  const parseFile = async (file: File, mapping: ColumnMapping, options: SheetReadOptions, templateName?: string) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setParsing({ fileName: file.name, progress: null })
+
+    try {
+      const result = await parseInWorker(file, mapping, options, {
+        onProgress: progress => setParsing({ fileName: file.name, progress }),
+        signal: controller.signal
+      })
+      const summary = `${result.data.length.toLocaleString()} records from ${result.rowsRead.toLocaleString()} rows of ${file.name}`
+      setSuccess(templateName ? `Applied template "${templateName}" to ${summary}` : `Successfully parsed ${summary}`)
+      onUploadComplete(result.data, [], file.name, templateName)
+      return true
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return false
+      throw err
+    } finally {
+      abortRef.current = null
+      setParsing(null)
+    }
+  }
+
+  const openMappingWizard = async (file: File, sheetNames: string[]) => {
+    const sheet = await previewInWorker(file, { sheetNames, maxRows: PREVIEW_ROWS })
+    setPending({ file, sheet, detection: detectColumnMapping(sheet), headerRow: sheet.headerRow ?? 0 })
+  }
+
+  const handleSheetsChosen = async (sheetNames: string[]) => {
+    if (!picking) return
+    setError(null)
+
+    try {
+      await openMappingWizard(picking.file, sheetNames)
+      setPicking(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the selected sheets')
+    }
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setDragActive(false)
@@ -77,8 +190,128 @@ export function FileUploader({ onUploadComplete, isLoading = false }: FileUpload
     }
   }
 
+  const handleHeaderRowChange = async (headerRow: number) => {
+    if (!pending) return
+    setError(null)
+
+    try {
+      const sheet = await previewInWorker(pending.file, { sheetNames: pending.sheet.sheetNames, headerRow, maxRows: PREVIEW_ROWS })
+      setPending({ ...pending, sheet, detection: detectColumnMapping(sheet), headerRow })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file from that row')
+    }
+  }
+
+  const handleMappingConfirmed = async (mapping: ColumnMapping, details: TemplateDetails | null) => {
+    if (!pending) return
+    setError(null)
+
+    try {
+      const options = { sheetNames: pending.sheet.sheetNames, headerRow: pending.headerRow }
+      if (!await parseFile(pending.file, mapping, options, details?.name)) return
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to parse file')
+      return
+    }
+
+    // Saved only once the whole file has parsed with the mapping
+    if (details) {
+      DataStore.saveImportTemplate({
+        id: crypto.randomUUID(),
+        name: details.name,
+        sourceSystem: details.sourceSystem,
+        sheetNames: pending.sheet.sheetNames ?? [],
+        headerRow: pending.headerRow,
+        headers: templateHeaders(pending.sheet, mapping),
+        mapping,
+        createdAt: new Date().toISOString()
+      })
+      setTemplates(DataStore.getImportTemplates())
+    }
+
+    setPending(null)
+  }
+
+  const handleDeleteTemplate = (id: string) => {
+    DataStore.deleteImportTemplate(id)
+    setTemplates(DataStore.getImportTemplates())
+  }
+
   const disabled = isUploading || isLoading
 
+  if (parsing) {
+    const percent = Math.round((parsing.progress?.fraction ?? 0) * 100)
+    return (
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Parsing {parsing.fileName}
+          </CardTitle>
+          <CardDescription>
+            Large files are parsed in the background; the page stays usable while this runs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {parsing.progress
+                ? `${percent}% · ${parsing.progress.rowsRead.toLocaleString()} rows read`
+                : 'Reading file...'}
+            </p>
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (picking) {
+    return (
+      <div className="space-y-4">
+        <SheetPicker
+          fileName={picking.file.name}
+          sheets={picking.sheets}
+          onConfirm={handleSheetsChosen}
+          onCancel={() => setPicking(null)}
+        />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    )
+  }
+
+  if (pending) {
+    return (
+      <div className="space-y-4">
+        {/* Remounted per header row so the mapping restarts from the new detection */}
+        <ColumnMappingWizard
+          key={pending.headerRow}
+          fileName={pending.file.name}
+          sheet={pending.sheet}
+          detection={pending.detection}
+          headerRow={pending.headerRow}
+          onHeaderRowChange={handleHeaderRowChange}
+          onConfirm={handleMappingConfirmed}
+          onCancel={() => setPending(null)}
+        />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    )
+  }
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -132,13 +365,45 @@ export function FileUploader({ onUploadComplete, isLoading = false }: FileUpload
           </Button>
         </div>
 
+        {/* Saved templates, applied automatically to files with the same headers */}
+        {templates.length > 0 && (
+          <div className="text-sm space-y-2">
+            <p className="font-medium text-gray-600">Import templates:</p>
+            <ul className="space-y-1">
+              {templates.map(template => (
+                <li key={template.id} className="flex items-center justify-between rounded border border-gray-200 px-3 py-1.5 text-xs">
+                  <span>
+                    <span className="font-medium text-gray-900">{template.name}</span>
+                    <span className="text-gray-500">
+                      {template.sourceSystem ? ` · ${template.sourceSystem}` : ''}
+                      {` · ${template.mapping.layout} format`}
+                      {template.sheetNames.length > 0 ? ` · ${template.sheetNames.join(', ')}` : ''}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => handleDeleteTemplate(template.id)}
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* File format help */}
         <div className="text-sm text-gray-600 space-y-2">
           <p className="font-medium">Supported formats:</p>
           <ul className="list-disc list-inside space-y-1 text-xs">
             <li><strong>Long format:</strong> customerId, customerName, month, mrr columns</li>
             <li><strong>Wide format:</strong> Customer names + month columns (Jan/23, Feb/23, etc.)</li>
+            <li><strong>Contracts:</strong> customer, start_date, end_date, tcv and billing_frequency columns</li>
             <li><strong>Month formats:</strong> YYYY-MM, MM/YYYY, Jan/23, Jan-2023, etc.</li>
+            <li><strong>Workbooks:</strong> Choose the sheet to import, or combine several (e.g. one per year)</li>
             <li><strong>Empty cells:</strong> Automatically handled (represents churn)</li>
             <li><strong>Values:</strong> Numeric only (no currency symbols)</li>
           </ul>
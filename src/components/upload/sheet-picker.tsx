@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, Circle, Sheet } from 'lucide-react'
+import { bestSheet } from '@/lib/file-parser'
+import { SheetSummary } from '@/types'
+
+interface SheetPickerProps {
+  fileName: string
+  sheets: SheetSummary[]
+  // Selected sheets in workbook order; several are stacked into one dataset
+  onConfirm: (sheetNames: string[]) => void
+  onCancel: () => void
+}
+
+// Columns shown in each sheet's preview
+const PREVIEW_COLUMNS = 6
+
+export function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+  const [selected, setSelected] = useState<string[]>(() => [(bestSheet(sheets) ?? sheets[0]).name])
+
+  const toggle = (name: string) => {
+    setSelected(current => current.includes(name)
+      ? current.filter(sheet => sheet !== name)
+      : sheets.map(sheet => sheet.name).filter(sheet => sheet === name || current.includes(sheet))
+    )
+  }
+
+  const confidenceLabel = (sheet: SheetSummary) => {
+    if (sheet.rowCount < 2) return 'Empty'
+    if (sheet.confidence === 0) return 'Not recognised'
+    return `${sheet.layout} · ${Math.round(sheet.confidence * 100)}%`
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sheet className="h-5 w-5" />
+          Choose Sheets
+        </CardTitle>
+        <CardDescription>
+          {fileName} has {sheets.length} sheets. Pick the one with customer MRR, or several with the same
+          layout (such as one per year) to combine them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sheets.map(sheet => {
+          const isSelected = selected.includes(sheet.name)
+          return (
+            <div
+              key={sheet.name}
+              className={`rounded-lg border p-3 cursor-pointer transition-colors ${
+                isSelected ? 'border-primary bg-primary/5' : 'border-gray-200 hover:border-gray-300'
+              }`}
+              onClick={() => toggle(sheet.name)}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  {isSelected
+                    ? <CheckCircle2 className="h-4 w-4 text-primary" />
+                    : <Circle className="h-4 w-4 text-gray-400" />}
+                  <span className="font-medium text-gray-900">{sheet.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {sheet.rowCount} rows × {sheet.columnCount} columns
+                  </span>
+                </div>
+                <Badge variant={sheet.confidence > 0 ? 'secondary' : 'outline'} className="text-xs">
+                  {confidenceLabel(sheet)}
+                </Badge>
+              </div>
+              {sheet.preview.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {sheet.preview.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-b border-gray-100 last:border-0">
+                          {Array.from({ length: Math.min(PREVIEW_COLUMNS, sheet.columnCount) }, (_, index) => (
+                            <td key={index} className="py-1 px-2 text-gray-600 whitespace-nowrap max-w-32 truncate">
+                              {String(row?.[index] ?? '')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            {selected.length > 1
+              ? `${selected.length} sheets will be combined; each uses the same header row.`
+              : 'Click a sheet to add or remove it.'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={() => onConfirm(selected)} disabled={selected.length === 0}>
+              Continue
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
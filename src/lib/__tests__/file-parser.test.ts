@@ -0,0 +1,301 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  applyColumnMapping,
+  bestSheet,
+  columnMappingErrors,
+  createStreamingParser,
+  detectColumnMapping,
+  inspectUpload,
+  listSheets,
+  mappingForTemplate,
+  matchesTemplate,
+  readSheet,
+  streamSpreadsheet,
+  templateHeaders
+} from '@/lib/file-parser'
+import { ColumnMapping, ImportTemplate, ParseProgress, SheetData } from '@/types'
+
+const wide: SheetData = {
+  headers: ['Account', 'Jan/24', 'Feb/24', 'Mar/24', 'Notes'],
+  rows: [
+    { Account: 'Total MRR', 'Jan/24': 300, 'Feb/24': 300, 'Mar/24': 350 },
+    { Account: 'Acme', 'Jan/24': 100, 'Feb/24': 100, 'Mar/24': 150, Notes: 'upsold' },
+    { Account: 'Beta', 'Jan/24': 200, 'Feb/24': 200, 'Mar/24': 200 }
+  ]
+}
+
+describe('column mapping', () => {
+  it('detects a wide layout and skips total rows when applied', () => {
+    const detection = detectColumnMapping(wide)
+
+    expect(detection.mapping).toMatchObject({
+      layout: 'wide',
+      customerNameColumn: 'Account',
+      customerIdColumn: null,
+      monthColumns: ['Jan/24', 'Feb/24', 'Mar/24']
+    })
+
+    const rows = applyColumnMapping(wide, detection.mapping)
+    expect(rows).toHaveLength(6)
+    expect(rows.find(row => row.customerName === 'Acme' && row.month === '2024-03')?.mrr).toBe(150)
+  })
+
+  it('uses a corrected long mapping with generated IDs and rejects non-month columns', () => {
+    const long: SheetData = {
+      headers: ['Client', 'Period', 'Amount'],
+      rows: [
+        { Client: 'Acme', Period: '2024-01', Amount: '100' },
+        { Client: 'Acme', Period: '2024-02', Amount: '120' }
+      ]
+    }
+    expect(detectColumnMapping(long).confidence).toBe(0)
+
+    const rows = applyColumnMapping(long, {
+      layout: 'long',
+      customerNameColumn: 'Client',
+      customerIdColumn: null,
+      monthColumn: 'Period',
+      valueColumn: 'Amount',
+      monthColumns: []
+    })
+    expect(rows.map(row => [row.customerId, row.month, row.mrr])).toEqual([['acme', '2024-01', 100], ['acme', '2024-02', 120]])
+
+    expect(() => applyColumnMapping(wide, { ...detectColumnMapping(wide).mapping, monthColumns: ['Jan/24', 'Notes'] }))
+      .toThrow('Not recognised as months: Notes')
+  })
+
+  it('rejects mappings without a layout or with non-string column names', () => {
+    expect(columnMappingErrors(detectColumnMapping(wide).mapping)).toEqual([])
+    expect(columnMappingErrors([])).toEqual(['Mapping must be an object'])
+    expect(columnMappingErrors({ layout: 'tall', customerNameColumn: 'Account' })).toEqual(['Mapping layout must be long or wide'])
+    expect(columnMappingErrors({ layout: 'long', customerNameColumn: 7, monthColumn: 'Month', valueColumn: null })).toEqual([
+      'Mapping needs a customer name column',
+      'Long layout needs a month column and an MRR column'
+    ])
+    expect(columnMappingErrors({ layout: 'wide', customerNameColumn: 'Account', monthColumns: ['Jan/24', 3], valueUnit: 'billions' })).toEqual([
+      'Month columns must be a list of column names',
+      'Value unit must be one of: units, thousands, millions'
+    ])
+  })
+
+  it('matches a saved template when a month column is added and applies its unit and month format', () => {
+    const saved: SheetData = {
+      headers: ['Account', 'Region', 'Jan 24', 'Feb 24'],
+      rows: [{ Account: 'Acme', Region: 'EMEA', 'Jan 24': 1.5, 'Feb 24': 2 }]
+    }
+    const mapping = {
+      layout: 'wide' as const,
+      customerNameColumn: 'Account',
+      customerIdColumn: null,
+      monthColumn: null,
+      valueColumn: null,
+      monthColumns: ['Jan 24', 'Feb 24'],
+      monthHeaderFormat: 'MMM yy',
+      valueUnit: 'thousands' as const
+    }
+    const template: ImportTemplate = {
+      id: 't1',
+      name: 'Board pack',
+      sourceSystem: null,
+      sheetNames: [],
+      headerRow: 0,
+      headers: templateHeaders(saved, mapping),
+      mapping,
+      createdAt: '2024-03-01T00:00:00Z'
+    }
+    expect(template.headers).toEqual(['Account', 'Region'])
+
+    const next: SheetData = {
+      headers: ['account', 'Region', 'Jan 24', 'Feb 24', 'Mar 24'],
+      rows: [{ account: 'Acme', Region: 'EMEA', 'Jan 24': 1.5, 'Feb 24': 2, 'Mar 24': 2.5 }]
+    }
+    expect(matchesTemplate(template, { ...next, headers: [...next.headers, 'Notes'] })).toBe(false)
+    expect(matchesTemplate(template, next)).toBe(true)
+
+    const nextMapping = mappingForTemplate(template, next)
+    expect(nextMapping.monthColumns).toEqual(['Jan 24', 'Feb 24', 'Mar 24'])
+    expect(applyColumnMapping(next, nextMapping).map(row => [row.month, row.mrr])).toEqual([
+      ['2024-01', 1500], ['2024-02', 2000], ['2024-03', 2500]
+    ])
+  })
+})
+
+describe('workbooks', () => {
+  const workbookFile = (sheets: [string, unknown[][]][]) => {
+    const workbook = XLSX.utils.book_new()
+    for (const [name, rows] of sheets) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name)
+    }
+    return new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], 'board-pack.xlsx')
+  }
+
+  it('scores every sheet and stacks the chosen ones with one ID per customer', async () => {
+    const file = workbookFile([
+      ['Summary', [['ARR', 'Growth'], [1200000, '40%']]],
+      ['2023', [['Customer', 'Nov 2023', 'Dec 2023', 'Oct 2023'], ['Acme', 100, 100, 100], ['Acme', 50, 50, 50]]],
+      ['2024', [['Customer', 'Jan 2024', 'Feb 2024', 'Mar 2024'], ['Acme', 120, 120, 120], ['Beta', 80, 80, 80]]],
+      ['Notes', [['Figures exclude services']]]
+    ])
+
+    const sheets = await listSheets(file)
+    expect(sheets.map(sheet => [sheet.name, sheet.layout])).toEqual([
+      ['Summary', null], ['2023', 'wide'], ['2024', 'wide'], ['Notes', null]
+    ])
+    expect(bestSheet(sheets)?.name).toBe('2023')
+
+    const sheet = await readSheet(file, { sheetNames: ['2023', '2024'] })
+    expect(sheet.sheetNames).toEqual(['2023', '2024'])
+    const rows = applyColumnMapping(sheet, detectColumnMapping(sheet).mapping)
+    const idsIn = (month: string) => rows.filter(row => row.month === month).map(row => row.customerId).sort()
+    // The second Acme row of 2023 is a different customer; Acme in 2024 is the first one
+    expect(idsIn('2023-12')).toEqual(['acme', 'acme_1'])
+    expect(idsIn('2024-01')).toEqual(['acme', 'beta'])
+
+    await expect(readSheet(file, { sheetNames: ['2025'] })).rejects.toThrow('Sheet not found: 2025')
+  })
+
+  it('inspects an upload for its preview, matching template and sheets', async () => {
+    const file = workbookFile([
+      ['Summary', [['ARR', 'Growth'], [1200000, '40%']]],
+      ['MRR', [['Customer', 'Jan 2024', 'Feb 2024'], ['Acme', 100, 120]]]
+    ])
+    const sheet = await readSheet(file, { sheetNames: ['MRR'] })
+    const mapping = detectColumnMapping(sheet).mapping
+    const template: ImportTemplate = {
+      id: 't1',
+      name: 'Board pack',
+      sourceSystem: null,
+      sheetNames: ['MRR'],
+      headerRow: 0,
+      headers: templateHeaders(sheet, mapping),
+      mapping,
+      createdAt: '2024-03-01T00:00:00.000Z'
+    }
+
+    const inspection = await inspectUpload(file, [template])
+    expect(inspection.preview.headers).toEqual(['ARR', 'Growth'])
+    expect(inspection.match?.template.id).toBe('t1')
+    expect(inspection.match?.sheet.rows).toHaveLength(1)
+    expect(inspection.sheets.map(summary => summary.name)).toEqual(['Summary', 'MRR'])
+  })
+
+  it('reads Excel date cells in a long-format month column', async () => {
+    const file = workbookFile([['MRR', [
+      ['Customer', 'Month', 'MRR'],
+      ['Acme', new Date(2024, 0, 1), 100],
+      ['Acme', new Date(2024, 1, 1), 120],
+      ['Beta', new Date(2024, 2, 1), 80]
+    ]]])
+
+    const sheet = await readSheet(file)
+    // Stored as serial day numbers, not dates
+    expect(sheet.rows[0].Month).toBe(45292)
+
+    const detection = detectColumnMapping(sheet)
+    expect(detection.mapping).toMatchObject({ layout: 'long', monthColumn: 'Month', valueColumn: 'MRR' })
+    const rows = applyColumnMapping(sheet, detection.mapping)
+    expect(rows.map(row => `${row.customerName}:${row.month}:${row.mrr}`)).toEqual(['Acme:2024-01:100', 'Acme:2024-02:120', 'Beta:2024-03:80'])
+
+    const streamed = await streamSpreadsheet(file, detection.mapping, {}, () => {})
+    expect(streamed.data.map(row => row.month).sort()).toEqual(['2024-01', '2024-02', '2024-03'])
+  })
+})
+
+describe('data region', () => {
+  it('finds the header below titles and reports skipped rows with file row numbers', async () => {
+    const csv = [
+      'Acme Holdings - MRR by customer',
+      'Prepared 2024-04-02,',
+      '',
+      'Customer,Jan 2024,Feb 2024,Mar 2024',
+      'Acme,100,100,120',
+      'Beta,50,,60',
+      'Subtotal,150,100,180',
+      'Customer,Jan 2024,Feb 2024,Mar 2024',
+      'Gamma,10,10,10',
+      'Total,160,110,190',
+      '',
+      '* Excludes professional services'
+    ].join('\n')
+    const file = new File([csv], 'mrr.csv')
+
+    const sheet = await readSheet(file)
+    expect(sheet.headerRow).toBe(3)
+    expect(sheet.rows.map(row => row.Customer)).toEqual(['Acme', 'Beta', 'Gamma'])
+    expect(sheet.ignoredRows?.map(row => [row.rowNumber, row.reason])).toEqual([
+      [1, 'title'], [2, 'title'], [7, 'total'], [8, 'repeatedHeader'], [10, 'total'], [12, 'footnote']
+    ])
+
+    const explicit = await readSheet(file, { headerRow: 0 })
+    expect(explicit.headers[0]).toBe('Acme Holdings - MRR by customer')
+  })
+
+  it('names the file row of a month it cannot read', async () => {
+    const file = new File(['customerId,customerName,month,mrr\nc1,Acme,2024-01,100\n\nc1,Acme,someday,100'], 'mrr.csv')
+    const sheet = await readSheet(file)
+    expect(() => applyColumnMapping(sheet, detectColumnMapping(sheet).mapping)).toThrow(/^Row 4: Invalid month format: someday/)
+  })
+})
+
+describe('large files', () => {
+  const longMapping: ColumnMapping = {
+    layout: 'long',
+    customerNameColumn: 'customerName',
+    customerIdColumn: 'customerId',
+    monthColumn: 'month',
+    valueColumn: 'mrr',
+    monthColumns: []
+  }
+
+  it('streams rows into combined records and reports ignored rows like a full read', () => {
+    const parser = createStreamingParser(longMapping)
+    const rows = [
+      ['MRR export'],
+      ['customerId', 'customerName', 'month', 'product', 'mrr'],
+      ['c1', 'Acme', '2024-01', 'Core', 100],
+      ['c1', 'Acme', '2024-01', 'Core', 50],
+      ['c1', 'Acme', '2024-01', 'Add-on', 20],
+      ['c2', 'Beta', '2024-01', 'Core', 0],
+      ['Total', '', '', '', 170],
+      ['Figures in USD']
+    ]
+    rows.forEach(parser.push)
+
+    const result = parser.finish()
+    expect(result.rowsRead).toBe(8)
+    expect(result.data.map(row => [row.customerId, row.product, row.mrr])).toEqual([
+      ['c1', 'Core', 150], ['c1', 'Add-on', 20], ['c2', 'Core', 0]
+    ])
+    expect(result.ignoredRows.map(row => [row.rowNumber, row.reason])).toEqual([[1, 'title'], [7, 'total'], [8, 'footnote']])
+  })
+
+  it('stops once an upload has more months than the limit', () => {
+    const months = Array.from({ length: 361 }, (_, index) =>
+      `${1990 + Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`
+    )
+    const sheet: SheetData = {
+      headers: ['customerId', 'customerName', 'month', 'mrr'],
+      rows: months.map(month => ({ customerId: 'c1', customerName: 'Acme', month, mrr: 100 }))
+    }
+    expect(() => applyColumnMapping(sheet, longMapping)).toThrow('More than 360 months in one upload')
+    expect(applyColumnMapping({ ...sheet, rows: sheet.rows.slice(1) }, longMapping)).toHaveLength(360)
+  })
+
+  it('previews the first rows and parses whole workbooks with progress', async () => {
+    const csv = ['customerId,customerName,month,mrr', ...Array.from({ length: 20 }, (_, index) => `c${index},Customer ${index},2024-01,10`)]
+    const preview = await readSheet(new File([csv.join('\n')], 'mrr.csv'), { maxRows: 11 })
+    expect(preview.rows).toHaveLength(10)
+    expect(preview.truncated).toBe(true)
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(csv.map(line => line.split(','))), 'Data')
+    const file = new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], 'mrr.xlsx')
+    expect((await readSheet(file, { maxRows: 11 })).truncated).toBe(true)
+
+    const progress: ParseProgress[] = []
+    const result = await streamSpreadsheet(file, longMapping, {}, update => progress.push(update))
+    expect(result.data).toHaveLength(20)
+    expect(progress.at(-1)).toEqual({ rowsRead: 21, fraction: 1 })
+  })
+})
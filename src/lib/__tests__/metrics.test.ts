@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import { calculateUploadMetrics, toMonthlyMetricRows, toMonthlyTotals } from '@/lib/metrics'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { parseSpreadsheet } from '@/lib/file-parser'
+import { DEFAULT_COMPANY_SETTINGS } from '@/lib/constants'
+import { FxRate, MonthlyTotals } from '@/types'
+
+// Two customers billed in USD and one in EUR
+function mixedCurrencyFile(): File {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['customer_id', 'customer_name', 'month', 'mrr', 'currency'],
+    ['c1', 'Acme', '2024-01', 100, 'USD'],
+    ['c2', 'Beta', '2024-01', 200, 'USD'],
+    ['c3', 'Café', '2024-01', 1000, 'EUR'],
+    ['c1', 'Acme', '2024-02', 100, 'USD'],
+    ['c2', 'Beta', '2024-02', 200, 'USD'],
+    ['c3', 'Café', '2024-02', 1200, 'EUR']
+  ]), 'MRR')
+  return new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], 'mrr.xlsx')
+}
+
+const eurRates: FxRate[] = [
+  { month: '2024-01', currency: 'EUR', average: 1.1, monthEnd: 1.1 },
+  { month: '2024-02', currency: 'EUR', average: 1.2, monthEnd: 1.2 }
+]
+
+describe('calculateUploadMetrics', () => {
+  it('converts a mixed-currency upload into the reporting currency', async () => {
+    const rows = await parseSpreadsheet(mixedCurrencyFile())
+    const upload = calculateUploadMetrics(rows, eurRates, DEFAULT_COMPANY_SETTINGS)
+
+    expect(upload.missingCurrencies).toEqual([])
+    // €1,000 at 1.1 and €1,200 at 1.2
+    expect(upload.metrics.map(metric => metric.totalMRR)).toEqual([1400, 1740])
+    expect(upload.metrics[1].expansionMRR).toBe(340)
+    expect(upload.ledger.find(movement => movement.customerId === 'c3' && movement.month === '2024-02'))
+      .toMatchObject({ previousMRR: 1100, currentMRR: 1440 })
+  })
+
+  it('reports billing currencies without an FX rate', async () => {
+    const upload = calculateUploadMetrics(await parseSpreadsheet(mixedCurrencyFile()), [], DEFAULT_COMPANY_SETTINGS)
+
+    expect(upload.missingCurrencies).toEqual(['EUR'])
+  })
+
+  it('measures a partial re-upload against the stored months before it', () => {
+    const row = (customerId: string, month: string, mrr: number) => ({ customerId, customerName: customerId, month, mrr })
+    const history = [
+      row('c1', '2024-01', 100), row('c2', '2024-01', 200),
+      row('c1', '2024-02', 100), row('c2', '2024-02', 200)
+    ]
+    // February restated with c1's expansion, March reported for the first time
+    const upload = calculateUploadMetrics(
+      [row('c1', '2024-02', 150), row('c2', '2024-02', 200), row('c1', '2024-03', 150)],
+      [],
+      DEFAULT_COMPANY_SETTINGS,
+      history
+    )
+
+    expect(upload.metrics.map(metric => metric.month)).toEqual(['2024-02', '2024-03'])
+    expect(upload.metrics[0]).toMatchObject({ totalMRR: 350, newMRR: 0, expansionMRR: 50 })
+    expect(upload.metrics[1]).toMatchObject({ totalMRR: 150, newMRR: 0, churnedMRR: 200 })
+    expect(upload.ledger.every(movement => movement.month !== '2024-01')).toBe(true)
+  })
+})
+
+describe('monthly_metrics round trip', () => {
+  // A totals-only CSV without a churned_customers column
+  const totals: MonthlyTotals[] = [
+    { month: '2024-01', totalMRR: 1000, customerCount: 10 },
+    { month: '2024-02', totalMRR: 1100, customerCount: 11, newMRR: 150, churnedMRR: 50 }
+  ]
+
+  it('keeps logo churn unknown after saving and reloading totals without churned customers', () => {
+    const saved = toMonthlyMetricRows(SaaSMetricsCalculator.calculateFromMonthlyTotals(totals, DEFAULT_COMPANY_SETTINGS))
+    expect(saved.map(row => row.churned_customers)).toEqual([null, null])
+
+    // Stored and read back as JSON, as the database does
+    const reloaded = toMonthlyTotals(JSON.parse(JSON.stringify(saved)))
+    const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(reloaded, DEFAULT_COMPANY_SETTINGS)
+
+    expect(metrics.map(metric => metric.logoChurnRate)).toEqual([null, null])
+  })
+
+  it('keeps reported churned customer counts', () => {
+    const withChurn = totals.map(row => ({ ...row, churnedCustomers: 1 }))
+    const saved = toMonthlyMetricRows(SaaSMetricsCalculator.calculateFromMonthlyTotals(withChurn, DEFAULT_COMPANY_SETTINGS))
+    const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(toMonthlyTotals(saved), DEFAULT_COMPANY_SETTINGS)
+
+    expect(metrics[1].logoChurnRate).toBeCloseTo(0.1)
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { parseAmount } from '@/lib/parse-helpers'
+import { parseSpendRows } from '@/lib/spend-parser'
+import { parseFxRateRows } from '@/lib/fx-parser'
+import { parseContractRows } from '@/lib/contract-parser'
+
+describe('parseAmount', () => {
+  it('reads formatted amounts and rejects cells without a number', () => {
+    expect(parseAmount('$1,250.50')).toBe(1250.5)
+    expect(parseAmount('(300)')).toBe(-300)
+    expect(parseAmount(0)).toBe(0)
+    expect(parseAmount('0')).toBe(0)
+
+    for (const text of ['n/a', 'TBD', '-', '  ', '$']) {
+      expect(parseAmount(text)).toBeNull()
+    }
+  })
+
+  it('fails import rows whose amount is not a number instead of reading zero', () => {
+    expect(() => parseSpendRows([{ month: '2024-01', sm_spend: 'TBD' }]))
+      .toThrow('Row 2: S&M spend must be a non-negative number')
+    expect(() => parseFxRateRows([{ month: '2024-01', currency: 'EUR', rate: 'n/a' }]))
+      .toThrow('Row 2: FX rate must be a positive number')
+    expect(() => parseContractRows([{ customer: 'Acme', start_date: '2024-01-01', end_date: '2024-12-31', tcv: 'n/a' }]))
+      .toThrow('Row 2: TCV must be a non-negative number')
+  })
+})
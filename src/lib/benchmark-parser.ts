@@ -0,0 +1,132 @@
+import { BenchmarkBand, BenchmarkMetric, BenchmarkPercentiles } from '@/types'
+import { findColumn, parseAmount, readFileRows } from './parse-helpers'
+
+// Accepted header spellings, compared after lowercasing and stripping non-letters
+const STAGE_HEADERS = ['stage', 'band', 'arrband', 'peergroup']
+const MIN_ARR_HEADERS = ['arrmin', 'minarr', 'arrfrom', 'from']
+const MAX_ARR_HEADERS = ['arrmax', 'maxarr', 'arrto', 'to']
+const METRIC_HEADERS = ['metric', 'kpi']
+const PERCENTILE_KEYS = ['p25', 'p50', 'p75'] as const
+
+// Metric names accepted in benchmark files, after lowercasing and stripping non-letters
+const METRIC_NAMES: Record<string, BenchmarkMetric> = {
+  growth: 'arrGrowthYoY',
+  arrgrowth: 'arrGrowthYoY',
+  arrgrowthyoy: 'arrGrowthYoY',
+  nrr: 'netRevenueRetention',
+  netrevenueretention: 'netRevenueRetention',
+  grr: 'grossRevenueRetention',
+  grossrevenueretention: 'grossRevenueRetention',
+  churn: 'logoChurn',
+  logochurn: 'logoChurn',
+  quickratio: 'quickRatio'
+}
+
+/**
+ * Parse a benchmark dataset: JSON (an array of bands, or { bands: [...] })
+ * or a CSV/Excel file with one row per stage and metric.
+ */
+export async function parseBenchmarkFile(file: File): Promise<BenchmarkBand[]> {
+  if (file.name.toLowerCase().endsWith('.json')) {
+    let json: unknown
+    try {
+      json = JSON.parse(await file.text())
+    } catch {
+      throw new Error('Benchmark file is not valid JSON')
+    }
+    const bands = Array.isArray(json) ? json : (json as { bands?: unknown })?.bands
+    if (!Array.isArray(bands)) {
+      throw new Error('Benchmark JSON must be an array of bands or an object with a "bands" array')
+    }
+    return validateBands(bands as BenchmarkBand[])
+  }
+
+  return parseBenchmarkRows(await readFileRows(file))
+}
+
+/**
+ * Convert rows of stage, arr_min, arr_max, metric, p25, p50, p75 into bands.
+ * Rates are fractions (1.1) or percentages with a % sign (110%).
+ */
+export function parseBenchmarkRows(rows: Record<string, unknown>[]): BenchmarkBand[] {
+  if (rows.length === 0) {
+    throw new Error('No rows found in benchmark file')
+  }
+
+  const headers = Object.keys(rows[0])
+  const stageColumn = findColumn(headers, STAGE_HEADERS)
+  const minColumn = findColumn(headers, MIN_ARR_HEADERS)
+  const maxColumn = findColumn(headers, MAX_ARR_HEADERS)
+  const metricColumn = findColumn(headers, METRIC_HEADERS)
+  // Percentile headers keep their digits, so they are matched separately
+  const percentileColumns = PERCENTILE_KEYS.map(key =>
+    headers.find(header => header.toLowerCase().replace(/[^a-z0-9]/g, '') === key)
+  )
+
+  if (!stageColumn || !minColumn || !metricColumn || percentileColumns.some(column => !column)) {
+    throw new Error('Benchmark file needs "stage", "arr_min", "metric", "p25", "p50" and "p75" columns')
+  }
+
+  const bands = new Map<string, BenchmarkBand>()
+
+  rows.forEach((row, index) => {
+    const stage = String(row[stageColumn] ?? '').trim()
+    if (!stage) {
+      throw new Error(`Row ${index + 2}: stage is required`)
+    }
+
+    const metricName = String(row[metricColumn] ?? '').toLowerCase().replace(/[^a-z]/g, '')
+    const metric = METRIC_NAMES[metricName]
+    if (!metric) {
+      throw new Error(`Row ${index + 2}: unknown metric "${String(row[metricColumn])}"`)
+    }
+
+    const minARR = parseAmount(row[minColumn])
+    const maxARR = maxColumn ? parseAmount(row[maxColumn]) : null
+    if (minARR === null || minARR < 0) {
+      throw new Error(`Row ${index + 2}: arr_min must be a non-negative number`)
+    }
+
+    const [p25, p50, p75] = percentileColumns.map(column => parsePercentile(row[column!]))
+    if (p25 === null || p50 === null || p75 === null) {
+      throw new Error(`Row ${index + 2}: p25, p50 and p75 must be numbers`)
+    }
+
+    const band = bands.get(stage) ?? { stage, minARR, maxARR, metrics: {} }
+    band.metrics[metric] = { p25, p50, p75 }
+    bands.set(stage, band)
+  })
+
+  return validateBands(Array.from(bands.values()))
+}
+
+function parsePercentile(value: unknown): number | null {
+  const amount = parseAmount(value)
+  if (amount === null) return null
+  return typeof value === 'string' && value.includes('%') ? amount / 100 : amount
+}
+
+// Checks that apply to both formats; bands are returned sorted by ARR
+function validateBands(bands: BenchmarkBand[]): BenchmarkBand[] {
+  if (bands.length === 0) {
+    throw new Error('Benchmark file contains no bands')
+  }
+
+  bands.forEach(band => {
+    if (!band.stage || typeof band.minARR !== 'number' || !band.metrics) {
+      throw new Error('Each benchmark band needs a stage, minARR and metrics')
+    }
+    for (const [metric, percentiles] of Object.entries(band.metrics) as [BenchmarkMetric, BenchmarkPercentiles][]) {
+      if (!Object.values(METRIC_NAMES).includes(metric)) {
+        throw new Error(`${band.stage}: unknown metric "${metric}"`)
+      }
+      if (!(percentiles.p25 <= percentiles.p50 && percentiles.p50 <= percentiles.p75)) {
+        throw new Error(`${band.stage} ${metric}: percentiles must satisfy p25 ≤ p50 ≤ p75`)
+      }
+    }
+  })
+
+  return [...bands]
+    .map(band => ({ ...band, maxARR: band.maxARR ?? null }))
+    .sort((a, b) => a.minARR - b.minARR)
+}
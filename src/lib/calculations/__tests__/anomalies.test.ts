@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { AnomalyDetector } from '@/lib/calculations/anomalies'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { MonthlyTotals, MRRMovement } from '@/types'
+
+// Steady 100-110 of new MRR a month, with a 1,000 spike in July
+// and a customer count that drops by a fifth in September
+const newMRR = [0, 100, 110, 100, 105, 95, 1000, 100, 105]
+const customers = [10, 11, 12, 13, 14, 15, 16, 17, 13]
+
+const totals: MonthlyTotals[] = newMRR.map((mrr, i) => ({
+  month: `2024-0${i + 1}`,
+  totalMRR: 1000 + newMRR.slice(0, i + 1).reduce((sum, value) => sum + value, 0),
+  customerCount: customers[i],
+  newMRR: mrr
+}))
+
+describe('AnomalyDetector', () => {
+  it('flags outlier months and customer count drops', () => {
+    const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(totals)
+    const anomalies = AnomalyDetector.detect(metrics)
+
+    const outliers = anomalies.filter(a => a.type === 'metricOutlier' && a.metric === 'newMRR')
+    expect(outliers.map(a => [a.month, a.severity, a.expected])).toEqual([['2024-07', 'critical', 102.5]])
+
+    const drops = anomalies.filter(a => a.type === 'customerCountDrop')
+    expect(drops).toEqual([
+      { month: '2024-09', type: 'customerCountDrop', severity: 'critical', value: 13, expected: 17, score: -0.2353 }
+    ])
+  })
+
+  it('flags single customers whose MRR moves by more than the threshold', () => {
+    const movement = (customerId: string, previousMRR: number, currentMRR: number): MRRMovement => ({
+      month: '2024-05',
+      customerId,
+      customerName: customerId,
+      type: currentMRR > previousMRR ? 'expansion' : 'contraction',
+      previousMRR,
+      currentMRR,
+      change: currentMRR - previousMRR
+    })
+    const ledger = [movement('acme', 100, 140), movement('beta', 200, 80), movement('core', 100, 300)]
+
+    const swings = AnomalyDetector.detect([], ledger, { customerChange: 0.5 })
+
+    expect(swings.map(a => [a.customerId, a.severity, a.score])).toEqual([
+      ['beta', 'warning', -0.6],
+      ['core', 'critical', 2]
+    ])
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { BenchmarkCalculator } from '@/lib/calculations/benchmarks'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { parseBenchmarkRows } from '@/lib/benchmark-parser'
+import { BenchmarkBand, CustomerMonth } from '@/types'
+
+const bands: BenchmarkBand[] = [
+  {
+    stage: 'Seed',
+    minARR: 0,
+    maxARR: 1000000,
+    metrics: {
+      netRevenueRetention: { p25: 0.9, p50: 1.0, p75: 1.1 },
+      logoChurn: { p25: 0.1, p50: 0.2, p75: 0.3 },
+      quickRatio: { p25: 1, p50: 2, p75: 4 }
+    }
+  },
+  { stage: 'Series A', minARR: 1000000, maxARR: null, metrics: {} }
+]
+
+describe('BenchmarkCalculator', () => {
+  it('interpolates percentiles and inverts lower-is-better metrics', () => {
+    const nrr = bands[0].metrics.netRevenueRetention!
+
+    expect(BenchmarkCalculator.percentile(1.0, nrr)).toBe(50)
+    expect(BenchmarkCalculator.percentile(1.05, nrr)).toBe(63)
+    expect(BenchmarkCalculator.percentile(0.8, nrr)).toBe(1)
+    expect(BenchmarkCalculator.percentile(2, nrr)).toBe(99)
+    // 10% churn is the peer P25, which beats three quarters of peers
+    expect(BenchmarkCalculator.percentile(0.1, bands[0].metrics.logoChurn!, true)).toBe(75)
+  })
+
+  it('ranks a company against the band matching its ARR', () => {
+    // Two customers for 13 months; one halves in the final month
+    const data: CustomerMonth[] = Array.from({ length: 13 }, (_, i) => {
+      const month = `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`
+      return [
+        { customerId: 'a', customerName: 'A', month, mrr: 1000 },
+        { customerId: 'b', customerName: 'B', month, mrr: i === 12 ? 500 : 1000 }
+      ]
+    }).flat()
+    const metrics = SaaSMetricsCalculator.calculateMetrics(data)
+    const comparison = BenchmarkCalculator.compare(metrics[metrics.length - 1], bands)
+
+    expect(comparison?.stage).toBe('Seed')
+    expect(comparison?.results.map(r => [r.metric, r.value, r.percentile])).toEqual([
+      ['netRevenueRetention', 0.75, 1],
+      ['logoChurn', 0, 99],
+      // Nothing was gained against $500 lost
+      ['quickRatio', 0, 1]
+    ])
+    expect(BenchmarkCalculator.findBand(bands, 2500000)?.stage).toBe('Series A')
+  })
+
+  it('parses one row per stage and metric, with percentages', () => {
+    const parsed = parseBenchmarkRows([
+      { Stage: 'Series A', 'ARR Min': '1,000,000', 'ARR Max': '5000000', Metric: 'NRR', P25: '95%', P50: '104%', P75: '115%' },
+      { Stage: 'Seed', 'ARR Min': 0, 'ARR Max': 1000000, Metric: 'Quick Ratio', P25: 1.5, P50: 2.5, P75: 4 }
+    ])
+
+    expect(parsed).toEqual([
+      { stage: 'Seed', minARR: 0, maxARR: 1000000, metrics: { quickRatio: { p25: 1.5, p50: 2.5, p75: 4 } } },
+      { stage: 'Series A', minARR: 1000000, maxARR: 5000000, metrics: { netRevenueRetention: { p25: 0.95, p50: 1.04, p75: 1.15 } } }
+    ])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { CohortAnalyzer } from '@/lib/calculations/cohorts'
+import { customerMonths } from './fixtures'
+
+describe('CohortAnalyzer', () => {
+  it('assigns customers to the cohort of their first paying month', () => {
+    const { cohorts, maxPeriods } = CohortAnalyzer.calculateCohorts(customerMonths)
+
+    // Acme, Beta, Core and Echo start in January, Delta in March
+    expect(cohorts.map(row => [row.cohort, row.initialCustomers, row.initialMRR])).toEqual([
+      ['2024-01', 4, 650],
+      ['2024-03', 1, 100]
+    ])
+    expect(maxPeriods).toBe(5)
+    expect(cohorts[1].logoRetention).toEqual([1, 1, 1])
+  })
+
+  it('keeps a reactivated customer in its original cohort', () => {
+    const [january] = CohortAnalyzer.calculateCohorts(customerMonths).cohorts
+
+    // Echo leaves in February, Beta is away in March and back in April, Core leaves in May
+    expect(january.logoRetention).toEqual([1, 0.75, 0.5, 0.75, 0.5])
+  })
+
+  it('reports revenue cells as a share of the cohort\'s starting MRR', () => {
+    const [january] = CohortAnalyzer.calculateCohorts(customerMonths).cohorts
+
+    // $650 → $550 → $400 → $600 → $350
+    expect(january.revenueRetention).toEqual([1, 0.8462, 0.6154, 0.9231, 0.5385])
+  })
+
+  it('counts expansion above the starting MRR and ignores months without MRR', () => {
+    const { cohorts } = CohortAnalyzer.calculateCohorts([
+      { customerId: 'a', customerName: 'A', month: '2024-01', mrr: 0 },
+      { customerId: 'a', customerName: 'A', month: '2024-02', mrr: 100 },
+      { customerId: 'a', customerName: 'A', month: '2024-03', mrr: 250 }
+    ])
+
+    expect(cohorts).toEqual([
+      { cohort: '2024-02', initialCustomers: 1, initialMRR: 100, logoRetention: [1, 1], revenueRetention: [1, 2.5] }
+    ])
+  })
+
+  it('returns an empty matrix without paying customers', () => {
+    expect(CohortAnalyzer.calculateCohorts([])).toEqual({ cohorts: [], maxPeriods: 0 })
+  })
+})
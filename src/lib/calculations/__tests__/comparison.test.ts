@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { ComparisonCalculator } from '@/lib/calculations/comparison'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { ComparedCompany } from '@/types'
+
+// MRR by month starting in the given month, 10 customers throughout
+function company(companyId: string, start: string, mrr: number[]): ComparedCompany {
+  const [year, month] = start.split('-').map(Number)
+  const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(mrr.map((totalMRR, i) => {
+    const index = year * 12 + month - 1 + i
+    return {
+      month: `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`,
+      totalMRR,
+      customerCount: 10
+    }
+  }))
+  return { companyId, name: companyId, currency: 'USD', metrics }
+}
+
+describe('ComparisonCalculator', () => {
+  // $1M ARR is ~$83.3k MRR: "early" crosses it in its third month, "late" in its second
+  const early = company('early', '2022-01', [60000, 75000, 90000, 100000])
+  const late = company('late', '2023-06', [80000, 85000, 95000])
+
+  it('aligns companies on months since $1M ARR', () => {
+    const { rows, excludedCompanyIds } = ComparisonCalculator.overlay(
+      [early, late, company('small', '2023-01', [1000, 2000])],
+      metric => metric.totalMRR,
+      { alignment: 'milestone', indexed: false }
+    )
+
+    expect(ComparisonCalculator.milestoneMonth(early.metrics)).toBe('2022-03')
+    expect(excludedCompanyIds).toEqual(['small'])
+    expect(rows.map(row => row.period)).toEqual([-2, -1, 0, 1])
+    expect(rows[2].values).toEqual({ early: 90000, late: 85000 })
+    expect(rows[0].values).toEqual({ early: 60000, late: null })
+  })
+
+  it('indexes calendar series to 100 at the first shared month', () => {
+    const overlapping = company('overlapping', '2022-02', [50000, 55000, 60000])
+    const { rows } = ComparisonCalculator.overlay(
+      [early, overlapping],
+      metric => metric.totalMRR,
+      { alignment: 'calendar', indexed: true }
+    )
+
+    expect(rows.map(row => row.period)).toEqual(['2022-01', '2022-02', '2022-03', '2022-04'])
+    expect(rows[1].values).toEqual({ early: 100, overlapping: 100 })
+    expect(rows[3].values).toEqual({ early: 133.3, overlapping: 120 })
+  })
+})
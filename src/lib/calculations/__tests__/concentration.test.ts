@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { RevenueConcentrationCalculator } from '@/lib/calculations/concentration'
+import { customerMonths } from './fixtures'
+
+describe('RevenueConcentrationCalculator', () => {
+  it('measures top-customer share and the Herfindahl index', () => {
+    const january = RevenueConcentrationCalculator.calculate(customerMonths)[0]
+
+    // Core holds $300 of $650; Herfindahl = 46.15² + 30.77² + 15.38² + 7.69²
+    expect(january.customerCount).toBe(4)
+    expect(january.top1Share).toBe(0.4615)
+    expect(january.top10Share).toBe(1)
+    expect(january.top20PercentShare).toBe(0.4615)
+    expect(january.herfindahlIndex).toBe(3373)
+  })
+
+  it('buckets customers and MRR into bands', () => {
+    const [month] = RevenueConcentrationCalculator.calculate([
+      { customerId: 'a', customerName: 'A', month: '2024-01', mrr: 500 },
+      { customerId: 'b', customerName: 'B', month: '2024-01', mrr: 1000 },
+      { customerId: 'c', customerName: 'C', month: '2024-01', mrr: 4000 },
+      { customerId: 'd', customerName: 'D', month: '2024-01', mrr: 25000 },
+      { customerId: 'e', customerName: 'E', month: '2024-01', mrr: 0 },
+    ])
+
+    expect(month.bands).toEqual([
+      { label: '<$1k', customers: 1, mrr: 500 },
+      { label: '$1–5k', customers: 2, mrr: 5000 },
+      { label: '$5–20k', customers: 0, mrr: 0 },
+      { label: '>$20k', customers: 1, mrr: 25000 },
+    ])
+  })
+
+  it('builds a Pareto curve for the latest month', () => {
+    const curve = RevenueConcentrationCalculator.paretoCurve(customerMonths)
+
+    // May: Beta $200, Acme $150, Delta $100
+    expect(curve).toEqual([
+      { customerShare: 0, mrrShare: 0 },
+      { customerShare: 0.3333, mrrShare: 0.4444 },
+      { customerShare: 0.6667, mrrShare: 0.7778 },
+      { customerShare: 1, mrrShare: 1 },
+    ])
+  })
+})
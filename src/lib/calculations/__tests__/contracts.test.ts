@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { ContractScheduler } from '@/lib/calculations/contracts'
+import { Contract } from '@/types'
+
+const contracts: Contract[] = [
+  {
+    contractId: 'c-1',
+    customerId: 'acme',
+    customerName: 'Acme',
+    startDate: '2024-01-01',
+    endDate: '2024-12-31',
+    tcv: 12000,
+    billingFrequency: 'annual'
+  },
+  {
+    contractId: 'c-2',
+    customerId: 'beta',
+    customerName: 'Beta',
+    startDate: '2024-03-15',
+    endDate: '2024-09-14',
+    tcv: 6000,
+    billingFrequency: 'quarterly'
+  }
+]
+
+describe('ContractScheduler', () => {
+  it('counts whole months of service, rounding partial months', () => {
+    expect(ContractScheduler.termMonths(contracts[0])).toBe(12)
+    expect(ContractScheduler.termMonths(contracts[1])).toBe(6)
+    expect(ContractScheduler.termMonths({ ...contracts[0], startDate: '2024-01-15', endDate: '2025-01-14' })).toBe(12)
+  })
+
+  it('turns contracts into straight-line MRR up to the cut-off month', () => {
+    expect(ContractScheduler.toCustomerMonths(contracts, '2024-03')).toEqual([
+      { customerId: 'acme', customerName: 'Acme', month: '2024-01', mrr: 1000 },
+      { customerId: 'acme', customerName: 'Acme', month: '2024-02', mrr: 1000 },
+      { customerId: 'acme', customerName: 'Acme', month: '2024-03', mrr: 1000 },
+      { customerId: 'beta', customerName: 'Beta', month: '2024-03', mrr: 1000 }
+    ])
+  })
+
+  it('schedules bookings, billings, deferred revenue and RPO', () => {
+    expect(ContractScheduler.schedule(contracts, '2024-04')).toEqual([
+      { month: '2024-01', bookings: 12000, billings: 12000, revenue: 1000, deferredRevenue: 11000, rpo: 11000 },
+      { month: '2024-02', bookings: 0, billings: 0, revenue: 1000, deferredRevenue: 10000, rpo: 10000 },
+      // Beta is booked in full but billed one quarter at a time
+      { month: '2024-03', bookings: 6000, billings: 3000, revenue: 2000, deferredRevenue: 11000, rpo: 14000 },
+      { month: '2024-04', bookings: 0, billings: 0, revenue: 2000, deferredRevenue: 9000, rpo: 12000 }
+    ])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { CurrencyConverter } from '@/lib/calculations/currency'
+import { CustomerMonth, FxRate } from '@/types'
+
+const rates: FxRate[] = [
+  { month: '2024-01', currency: 'EUR', average: 1.1, monthEnd: 1.08 },
+  { month: '2024-02', currency: 'EUR', average: 1.2, monthEnd: 1.25 },
+  { month: '2024-01', currency: 'GBP', average: 1.25, monthEnd: 1.27 },
+]
+
+const data: CustomerMonth[] = [
+  { customerId: 'a', customerName: 'A', month: '2024-01', mrr: 100 },
+  { customerId: 'b', customerName: 'B', month: '2024-01', mrr: 100, currency: 'EUR' },
+  { customerId: 'b', customerName: 'B', month: '2024-03', mrr: 100, currency: 'EUR' },
+  { customerId: 'c', customerName: 'C', month: '2024-01', mrr: 100, currency: 'JPY' },
+]
+
+describe('CurrencyConverter', () => {
+  it('converts at the monthly average and carries the last rate forward', () => {
+    const { data: converted, missingCurrencies } = CurrencyConverter.convert(data, rates, 'USD')
+
+    expect(converted.map(row => row.mrr)).toEqual([100, 110, 120])
+    expect(converted.every(row => row.currency === 'USD')).toBe(true)
+    // JPY has no rates, so its customers are left out
+    expect(missingCurrencies).toEqual(['JPY'])
+  })
+
+  it('uses month-end rates and crosses through USD', () => {
+    const rows: CustomerMonth[] = [
+      { customerId: 'a', customerName: 'A', month: '2024-01', mrr: 100, currency: 'USD' },
+      { customerId: 'b', customerName: 'B', month: '2024-01', mrr: 100, currency: 'EUR' },
+    ]
+    const { data: converted } = CurrencyConverter.convert(rows, rates, 'GBP', 'monthEnd')
+
+    // USD 100 / 1.27 and EUR 100 × 1.08 / 1.27
+    expect(converted.map(row => row.mrr)).toEqual([78.74, 85.04])
+  })
+
+  it('lists billing currencies with the reporting currency first', () => {
+    expect(CurrencyConverter.currencies(data, 'USD')).toEqual(['USD', 'EUR', 'JPY'])
+    expect(CurrencyConverter.filterByCurrency(data, 'EUR', 'USD')).toHaveLength(2)
+  })
+
+  it('keeps stamped rows in their upload currency after the reporting currency changes', () => {
+    const stamped = CurrencyConverter.stamp(data, 'USD')
+
+    expect(stamped.map(row => row.currency)).toEqual(['USD', 'EUR', 'EUR', 'JPY'])
+    // Reporting in EUR, customer A's $100 converts instead of being read as €100
+    const { data: converted } = CurrencyConverter.convert(stamped.slice(0, 2), rates, 'EUR')
+    expect(converted.map(row => row.mrr)).toEqual([90.91, 100])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { EfficiencyCalculator } from '@/lib/calculations/efficiency'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { SpendMonth } from '@/types'
+
+// MRR grows every month with two new customers a month
+const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+  { month: '2024-01', totalMRR: 1000, customerCount: 10, newCustomers: 10, newMRR: 1000 },
+  { month: '2024-02', totalMRR: 1100, customerCount: 12, newCustomers: 2, newMRR: 100 },
+  { month: '2024-03', totalMRR: 1200, customerCount: 14, newCustomers: 2, newMRR: 100 },
+  { month: '2024-04', totalMRR: 1300, customerCount: 16, newCustomers: 2, newMRR: 100 },
+  { month: '2024-05', totalMRR: 1450, customerCount: 18, newCustomers: 2, newMRR: 150 },
+  { month: '2024-06', totalMRR: 1600, customerCount: 20, newCustomers: 2, newMRR: 150 },
+  { month: '2024-07', totalMRR: 1800, customerCount: 22, newCustomers: 2, newMRR: 200 },
+])
+
+const spend: SpendMonth[] = [
+  { month: '2024-01', salesMarketingSpend: 1000 },
+  { month: '2024-02', salesMarketingSpend: 1000 },
+  { month: '2024-03', salesMarketingSpend: 1000 },
+  { month: '2024-04', salesMarketingSpend: 0, netBurn: 2000 },
+  { month: '2024-05', salesMarketingSpend: 0, netBurn: 2000 },
+  { month: '2024-06', salesMarketingSpend: 0, netBurn: 2000 },
+]
+
+describe('EfficiencyCalculator', () => {
+  const efficiency = EfficiencyCalculator.calculate(metrics, spend)
+  const june = efficiency.find(e => e.month === '2024-06')!
+
+  it('uses the previous quarter of spend for Magic Number, CAC and payback', () => {
+    expect(june.laggedSpend).toBe(3000)
+    expect(june.netNewARR).toBe(4800)
+    expect(june.magicNumber).toBe(1.6)
+    expect(june.cac).toBe(500)
+    expect(june.cacPaybackMonths).toBe(7.5)
+  })
+
+  it('uses same-quarter net burn for the burn multiple', () => {
+    expect(june.burnMultiple).toBe(1.25)
+  })
+
+  it('leaves ratios empty when a quarter of spend or burn is incomplete', () => {
+    const may = efficiency.find(e => e.month === '2024-05')!
+    const july = efficiency.find(e => e.month === '2024-07')!
+
+    expect(may.laggedSpend).toBeNull()
+    expect(may.magicNumber).toBeNull()
+    expect(july.laggedSpend).toBe(2000)
+    expect(july.burnMultiple).toBeNull()
+  })
+
+  it('matches months stored as dates', () => {
+    const stored = metrics.map(m => ({ ...m, month: `${m.month}-01` }))
+    const result = EfficiencyCalculator.calculate(stored, spend)
+
+    expect(result.find(e => e.month === '2024-06-01')?.magicNumber).toBe(1.6)
+  })
+})
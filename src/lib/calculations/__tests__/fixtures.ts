@@ -0,0 +1,106 @@
+import { CustomerMonth } from '@/types'
+
+// Five months, five customers, one of each movement type:
+// - Acme expands in March
+// - Beta churns in March and reactivates in April
+// - Core contracts in February and churns in May
+// - Delta is new in March
+// - Echo churns in February
+export const customerMonths: CustomerMonth[] = [
+  { customerId: 'acme', customerName: 'Acme', month: '2024-01', mrr: 100 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-02', mrr: 100 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-03', mrr: 150 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-04', mrr: 150 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-05', mrr: 150 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-01', mrr: 200 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-02', mrr: 200 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-04', mrr: 200 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-05', mrr: 200 },
+  { customerId: 'core', customerName: 'Core', month: '2024-01', mrr: 300 },
+  { customerId: 'core', customerName: 'Core', month: '2024-02', mrr: 250 },
+  { customerId: 'core', customerName: 'Core', month: '2024-03', mrr: 250 },
+  { customerId: 'core', customerName: 'Core', month: '2024-04', mrr: 250 },
+  { customerId: 'delta', customerName: 'Delta', month: '2024-03', mrr: 100 },
+  { customerId: 'delta', customerName: 'Delta', month: '2024-04', mrr: 100 },
+  { customerId: 'delta', customerName: 'Delta', month: '2024-05', mrr: 100 },
+  { customerId: 'echo', customerName: 'Echo', month: '2024-01', mrr: 50 },
+]
+
+// Hand-calculated expectations for the fixture above
+export const expectedMetrics = [
+  {
+    month: '2024-01',
+    totalMRR: 650,
+    customerCount: 4,
+    newCustomers: 4,
+    newMRR: 650,
+    reactivationMRR: 0,
+    expansionMRR: 0,
+    contractionMRR: 0,
+    churnedMRR: 0,
+    churnedCustomers: 0,
+    grossRevenueRetention: 0,
+    netRevenueRetention: 0,
+    logoChurnRate: 0,
+  },
+  {
+    month: '2024-02',
+    totalMRR: 550,
+    customerCount: 3,
+    newCustomers: 0,
+    newMRR: 0,
+    reactivationMRR: 0,
+    expansionMRR: 0,
+    contractionMRR: 50,
+    churnedMRR: 50,
+    churnedCustomers: 1,
+    grossRevenueRetention: 0.8462,
+    netRevenueRetention: 0.8462,
+    logoChurnRate: 0.25,
+  },
+  {
+    month: '2024-03',
+    totalMRR: 500,
+    customerCount: 3,
+    newCustomers: 1,
+    newMRR: 100,
+    reactivationMRR: 0,
+    expansionMRR: 50,
+    contractionMRR: 0,
+    churnedMRR: 200,
+    churnedCustomers: 1,
+    grossRevenueRetention: 0.6364,
+    netRevenueRetention: 0.7273,
+    logoChurnRate: 0.3333,
+  },
+  {
+    month: '2024-04',
+    totalMRR: 700,
+    customerCount: 4,
+    newCustomers: 0,
+    newMRR: 0,
+    reactivationMRR: 200,
+    expansionMRR: 0,
+    contractionMRR: 0,
+    churnedMRR: 0,
+    churnedCustomers: 0,
+    grossRevenueRetention: 1,
+    netRevenueRetention: 1,
+    logoChurnRate: 0,
+  },
+  {
+    month: '2024-05',
+    totalMRR: 450,
+    customerCount: 3,
+    newCustomers: 0,
+    newMRR: 0,
+    reactivationMRR: 0,
+    expansionMRR: 0,
+    contractionMRR: 0,
+    churnedMRR: 250,
+    churnedCustomers: 1,
+    grossRevenueRetention: 0.6429,
+    netRevenueRetention: 0.6429,
+    logoChurnRate: 0.25,
+  },
+]
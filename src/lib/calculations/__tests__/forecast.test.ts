@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { ForecastCalculator } from '@/lib/calculations/forecast'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+
+// MRR compounds at exactly 10% a month
+const steady = SaaSMetricsCalculator.calculateFromMonthlyTotals(
+  Array.from({ length: 6 }, (_, i) => ({
+    month: `2024-0${i + 1}`,
+    totalMRR: 1000 * Math.pow(1.1, i),
+  }))
+)
+
+// $100 new MRR, 2% expansion and 5% churn + contraction each month
+const drivers = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+  { month: '2024-01', totalMRR: 1000 },
+  { month: '2024-02', totalMRR: 1070, newMRR: 100, expansionMRR: 20, churnedMRR: 50 },
+  { month: '2024-03', totalMRR: 1134.9, newMRR: 100, expansionMRR: 21.4, contractionMRR: 20, churnedMRR: 33.5 },
+])
+
+describe('ForecastCalculator', () => {
+  it('fits compound growth to historical MRR', () => {
+    const fit = ForecastCalculator.fitTrend(steady)!
+
+    expect(fit.monthlyGrowthRate).toBe(0.1)
+    expect(fit.volatility).toBe(0)
+    expect(fit.monthsUsed).toBe(6)
+  })
+
+  it('projects the trend from the latest month', () => {
+    const forecast = ForecastCalculator.trendForecast(steady, 12)
+
+    expect(forecast).toHaveLength(12)
+    expect(forecast[0].month).toBe('2024-07')
+    expect(forecast[0].base).toBeCloseTo(1000 * Math.pow(1.1, 6), 1)
+    expect(forecast[11].month).toBe('2025-06')
+  })
+
+  it('estimates drivers from recent movements', () => {
+    expect(ForecastCalculator.estimateDrivers(drivers)).toEqual({
+      newMRR: 100,
+      expansionRate: 0.02,
+      churnRate: 0.05,
+    })
+  })
+
+  it('rolls MRR forward under each scenario', () => {
+    const scenarios = ForecastCalculator.scenariosFromDrivers({ newMRR: 100, expansionRate: 0.02, churnRate: 0.05 })
+    const [first] = ForecastCalculator.driverForecast(drivers, scenarios, 1)
+
+    expect(scenarios.bull).toEqual({ newMRR: 125, expansionRate: 0.025, churnRate: 0.0375 })
+    // 1,134.90 × (1 + 0.02 − 0.05) + 100
+    expect(first.base).toBe(1200.85)
+    expect(first.bear).toBeLessThan(first.base)
+    expect(first.bull).toBeGreaterThan(first.base)
+  })
+
+  it('needs enough history', () => {
+    expect(ForecastCalculator.fitTrend(steady.slice(0, 2))).toBeNull()
+    expect(ForecastCalculator.estimateDrivers(steady.slice(0, 1))).toBeNull()
+    expect(ForecastCalculator.trendForecast([], 12)).toEqual([])
+  })
+})
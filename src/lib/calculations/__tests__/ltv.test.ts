@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { LifetimeValueCalculator } from '@/lib/calculations/ltv'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { EfficiencyMetrics } from '@/types'
+import { customerMonths } from './fixtures'
+
+const metrics = SaaSMetricsCalculator.calculateMetrics(customerMonths)
+
+describe('LifetimeValueCalculator', () => {
+  it('pools trailing logo churn into a lifetime and LTV', () => {
+    const may = LifetimeValueCalculator.calculate(metrics).find(m => m.month === '2024-05')!
+
+    // 3 churned customers out of 4 + 3 + 3 + 4 starting customers
+    expect(may.arpa).toBe(150)
+    expect(may.monthlyLogoChurn).toBe(0.2143)
+    expect(may.lifetimeMonths).toBe(4.7)
+    expect(may.ltv).toBe(700)
+    expect(may.ltvToCac).toBeNull()
+  })
+
+  it('applies gross margin and CAC when available', () => {
+    const efficiency: EfficiencyMetrics[] = [{
+      month: '2024-05',
+      laggedSpend: 600,
+      netNewARR: null,
+      magicNumber: null,
+      cac: 200,
+      cacPaybackMonths: null,
+      burnMultiple: null
+    }]
+    const may = LifetimeValueCalculator.calculate(metrics, efficiency, 80).find(m => m.month === '2024-05')!
+
+    expect(may.ltv).toBe(560)
+    expect(may.ltvToCac).toBe(2.8)
+  })
+
+  it('has no lifetime before any churn is observed', () => {
+    const january = LifetimeValueCalculator.calculate(metrics)[0]
+
+    expect(january.arpa).toBe(162.5)
+    expect(january.lifetimeMonths).toBeNull()
+    expect(january.ltv).toBeNull()
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { calculateMetrics, calculateMetricsSeries, toMonthlyMetricRows } from '@/lib/metrics'
+import { customerMonths, expectedMetrics } from './fixtures'
+
+describe('SaaSMetricsCalculator', () => {
+  describe('customer-level input', () => {
+    it('matches the hand-calculated fixture', () => {
+      const metrics = SaaSMetricsCalculator.calculateMetrics(customerMonths)
+
+      expect(metrics).toHaveLength(expectedMetrics.length)
+      metrics.forEach((metric, i) => {
+        expect(metric).toMatchObject(expectedMetrics[i])
+      })
+    })
+
+    it('keeps the movement ledger in sync with the monthly totals', () => {
+      const ledger = SaaSMetricsCalculator.buildMovementLedger(customerMonths)
+
+      expect(ledger.find(m => m.customerId === 'beta' && m.month === '2024-04')?.type).toBe('reactivation')
+      expect(ledger.find(m => m.customerId === 'delta' && m.month === '2024-03')?.type).toBe('new')
+      expect(ledger.find(m => m.customerId === 'core' && m.month === '2024-05')?.type).toBe('churn')
+    })
+
+    it('bridges gaps within the churn grace period', () => {
+      const metrics = SaaSMetricsCalculator.calculateMetrics(customerMonths, { churnGracePeriodMonths: 1 })
+      const march = metrics.find(m => m.month === '2024-03')!
+      const april = metrics.find(m => m.month === '2024-04')!
+
+      // Beta is paused in March: retained, but its unbilled MRR is not revenue
+      expect(march.churnedMRR).toBe(0)
+      expect(march.churnedCustomers).toBe(0)
+      expect(march.customerCount).toBe(4)
+      expect(march.totalMRR).toBe(500)
+      expect(march.contractionMRR).toBe(200)
+      expect(march.netRevenueRetention).toBe(0.7273)
+      expect(april.reactivationMRR).toBe(0)
+      expect(april.expansionMRR).toBe(200)
+      expect(april.customerCount).toBe(4)
+      expect(april.logoChurnRate).toBe(0)
+    })
+  })
+
+  describe('pre-aggregated input', () => {
+    it('returns the same metrics as customer-level input', () => {
+      const fromCustomers = SaaSMetricsCalculator.calculateMetrics(customerMonths)
+      const fromTotals = SaaSMetricsCalculator.calculateFromMonthlyTotals(fromCustomers)
+
+      fromTotals.forEach((metric, i) => {
+        expect({ ...metric, trailingRetention: fromCustomers[i].trailingRetention }).toEqual(fromCustomers[i])
+      })
+    })
+
+    it('does not estimate churned customers when the source omits them', () => {
+      const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+        { month: '2024-01', totalMRR: 1000, customerCount: 10 },
+        { month: '2024-02', totalMRR: 900, customerCount: 9, churnedMRR: 100 },
+      ])
+
+      expect(metrics[1].grossRevenueRetention).toBe(0.9)
+      expect(metrics[1].logoChurnRate).toBeNull()
+    })
+
+    it('sorts months before using the previous row as the starting base', () => {
+      const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+        { month: '2024-02', totalMRR: 1100, expansionMRR: 100 },
+        { month: '2024-01', totalMRR: 1000 },
+      ])
+
+      expect(metrics.map(m => m.month)).toEqual(['2024-01', '2024-02'])
+      expect(metrics[1].netRevenueRetention).toBe(1.1)
+    })
+  })
+
+  describe('growth metrics', () => {
+    // 13 months of steady growth: $1,000 → $2,200 MRR
+    const totals = Array.from({ length: 13 }, (_, i) => ({
+      month: `${i < 12 ? 2023 : 2024}-${String((i % 12) + 1).padStart(2, '0')}`,
+      totalMRR: 1000 + 100 * i,
+    }))
+
+    it('calculates Quick Ratio and net new ARR from the month\'s movements', () => {
+      const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+        { month: '2024-01', totalMRR: 1000 },
+        { month: '2024-02', totalMRR: 1300, newMRR: 300, expansionMRR: 100, contractionMRR: 50, churnedMRR: 50 },
+      ])
+
+      expect(metrics[0].quickRatio).toBeNull()
+      expect(metrics[1].quickRatio).toBe(4)
+      expect(metrics[1].netNewARR).toBe(3600)
+    })
+
+    it('compares ARR with 3 and 12 calendar months earlier', () => {
+      const latest = SaaSMetricsCalculator.calculateFromMonthlyTotals(totals).at(-1)!
+
+      expect(latest.arrGrowthYoY).toBe(1.2)
+      expect(latest.arrGrowthQoQ).toBe(0.1579)
+      expect(latest.cmgr).toBe(0.0679)
+    })
+
+    it('needs a full year of history and a profit margin for the Rule of 40', () => {
+      const withoutMargin = SaaSMetricsCalculator.calculateFromMonthlyTotals(totals)
+      const withMargin = SaaSMetricsCalculator.calculateFromMonthlyTotals(totals, { profitMarginPercent: -20 })
+
+      expect(withoutMargin.at(-1)!.ruleOf40).toBeNull()
+      expect(withMargin[11].ruleOf40).toBeNull()
+      expect(withMargin.at(-1)!.ruleOf40).toBe(1)
+    })
+
+    it('leaves growth rates empty across gaps in the data', () => {
+      const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+        { month: '2024-01', totalMRR: 1000 },
+        { month: '2024-05', totalMRR: 1200 },
+      ])
+
+      expect(metrics[1].arrGrowthQoQ).toBeNull()
+      expect(metrics[1].cmgr).toBeCloseTo(0.0466, 4)
+    })
+  })
+})
+
+describe('lib/metrics (API)', () => {
+  const rows = toMonthlyMetricRows(SaaSMetricsCalculator.calculateMetrics(customerMonths))
+
+  it('agrees with the dashboard calculation for every month', () => {
+    const series = calculateMetricsSeries(rows)
+
+    series.forEach((metric, i) => {
+      const expected = expectedMetrics[i]
+      expect(metric.month).toBe(expected.month)
+      expect(metric.mrr).toBe(expected.totalMRR)
+      expect(metric.customerCount).toBe(expected.customerCount)
+      expect(metric.nrr).toBe(expected.netRevenueRetention)
+      expect(metric.grr).toBe(expected.grossRevenueRetention)
+      expect(metric.churnRate).toBe(expected.logoChurnRate)
+    })
+  })
+
+  it('reports the latest month', () => {
+    const latest = calculateMetrics(rows)
+
+    expect(latest.mrr).toBe(450)
+    expect(latest.arr).toBe(5400)
+    expect(latest.churnedMrr).toBe(250)
+    expect(latest.mom).toBeCloseTo(-35.71, 2)
+  })
+
+  it('returns empty metrics without data', () => {
+    expect(calculateMetrics([]).mrr).toBe(0)
+    expect(calculateMetricsSeries([])).toEqual([])
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { MovementExplainer } from '@/lib/calculations/movement-explainer'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { MRRMovement } from '@/types'
+import { customerMonths } from './fixtures'
+
+describe('MovementExplainer', () => {
+  it('names the customer behind each movement type', () => {
+    const ledger = SaaSMetricsCalculator.buildMovementLedger(customerMonths)
+
+    // March: Delta is new, Acme expands, Beta churns
+    expect(MovementExplainer.explain(ledger, '2024-03')).toEqual({
+      month: '2024-03',
+      netChange: -50,
+      movements: [
+        { type: 'new', total: 100, customerCount: 1, topCustomers: [{ customerId: 'delta', customerName: 'Delta', change: 100, share: 1 }] },
+        { type: 'expansion', total: 50, customerCount: 1, topCustomers: [{ customerId: 'acme', customerName: 'Acme', change: 50, share: 1 }] },
+        { type: 'churn', total: 200, customerCount: 1, topCustomers: [{ customerId: 'beta', customerName: 'Beta', change: -200, share: 1 }] },
+      ]
+    })
+  })
+
+  it('keeps the largest customers first and counts the rest', () => {
+    const churn = (customerId: string, change: number): MRRMovement => ({
+      month: '2024-06', customerId, customerName: customerId, type: 'churn', previousMRR: -change, currentMRR: 0, change
+    })
+    const ledger = [churn('a', -100), churn('b', -400), churn('c', -300), churn('d', -200)]
+
+    const [movement] = MovementExplainer.explain(ledger, '2024-06', 2).movements
+
+    expect(movement.total).toBe(1000)
+    expect(movement.customerCount).toBe(4)
+    expect(movement.topCustomers.map(c => [c.customerId, c.share])).toEqual([['b', 0.4], ['c', 0.3]])
+  })
+})
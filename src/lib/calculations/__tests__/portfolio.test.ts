@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { PortfolioCalculator, PortfolioInput } from '@/lib/calculations/portfolio'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { EfficiencyCalculator } from '@/lib/calculations/efficiency'
+import { SpendMonth } from '@/types'
+
+// A company growing its MRR by a fixed amount each month for 13 months
+function company(companyId: string, startMRR: number, step: number, spend: SpendMonth[] = [], currency = 'USD'): PortfolioInput {
+  const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(
+    Array.from({ length: 13 }, (_, i) => ({
+      month: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+      totalMRR: startMRR + step * i,
+      customerCount: 10
+    }))
+  )
+  return { companyId, name: companyId.toUpperCase(), currency, metrics, efficiency: EfficiencyCalculator.calculate(metrics, spend), spend }
+}
+
+describe('PortfolioCalculator', () => {
+  it('totals ARR and weights growth by ARR', () => {
+    const euro = { ...company('euro', 5000, 0, [], 'EUR'), fxRates: [{ month: '2023-01', currency: 'EUR', average: 1.1, monthEnd: 1.1 }] }
+    const summary = PortfolioCalculator.summarize([
+      // ARR 12k → 24k (+100%) and 120k → 132k (+10%)
+      company('small', 1000, 1000 / 12),
+      company('large', 10000, 1000 / 12, [{ month: '2024-01', salesMarketingSpend: 0, netBurn: 5000 }]),
+      // ARR €60k flat, $66k at 1.1
+      euro
+    ], 'USD')
+
+    expect(summary.companies.map(c => c.companyId)).toEqual(['large', 'euro', 'small'])
+    expect(summary.companies[1]).toMatchObject({ currency: 'USD', convertedFrom: 'EUR', arr: 66000 })
+    expect(summary.companies[1].arrHistory.every(point => point.arr === 66000)).toBe(true)
+    expect(summary.totalARR).toBe(222000)
+    expect(summary.totalNetBurn).toBe(5000)
+    // (24k × 100% + 132k × 10% + 66k × 0%) ÷ 222k
+    expect(summary.weightedGrowthYoY).toBe(0.1676)
+    expect(summary.weightedNRR).toBeNull()
+    expect(summary.excludedCompanyIds).toEqual([])
+    expect(summary.nrrExcludedCompanyIds).toEqual(['small', 'large', 'euro'])
+    expect(summary.companies[0].arrHistory).toHaveLength(12)
+  })
+
+  it('leaves companies without an FX rate out of the totals and ranks them after the portfolio currency', () => {
+    const summary = PortfolioCalculator.summarize([
+      company('small', 1000, 0),
+      // ¥1.2M ARR is larger than $12k but cannot be compared with it
+      company('yen', 100000, 0, [], 'JPY')
+    ], 'USD')
+
+    expect(summary.totalARR).toBe(12000)
+    expect(summary.excludedCompanyIds).toEqual(['yen'])
+    expect(summary.companies.map(c => c.companyId)).toEqual(['small', 'yen'])
+    expect(PortfolioCalculator.sort(summary.companies, 'arr', 'asc', 'USD').map(c => c.companyId)).toEqual(['small', 'yen'])
+    expect(summary.companies[1]).toMatchObject({ currency: 'JPY', arr: 1200000 })
+    expect(summary.companies[1].convertedFrom).toBeUndefined()
+  })
+
+  it('falls back to the latest month\'s NRR for a totals-only company and leaves it out of the weighted NRR', () => {
+    // One customer growing from $1,000 to $1,100 MRR over 13 months
+    const customerRows = Array.from({ length: 13 }, (_, i) => ({
+      customerId: 'c1',
+      customerName: 'Acme',
+      month: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+      mrr: i === 12 ? 1100 : 1000
+    }))
+    const customerMetrics = SaaSMetricsCalculator.calculateMetrics(customerRows)
+    const detailed: PortfolioInput = {
+      companyId: 'detailed', name: 'Detailed', currency: 'USD', metrics: customerMetrics, efficiency: [], spend: []
+    }
+    // Totals only, with 2% expansion in the latest month
+    const totalsMetrics = SaaSMetricsCalculator.calculateFromMonthlyTotals([
+      { month: '2024-01', totalMRR: 1000, customerCount: 10 },
+      { month: '2024-02', totalMRR: 1020, customerCount: 10, expansionMRR: 20 }
+    ])
+    const totals: PortfolioInput = {
+      companyId: 'totals', name: 'Totals', currency: 'USD', metrics: totalsMetrics, efficiency: [], spend: []
+    }
+
+    const summary = PortfolioCalculator.summarize([detailed, totals], 'USD')
+
+    expect(summary.companies.find(c => c.companyId === 'detailed')).toMatchObject({ nrr: 1.1, nrrBasis: 'ttm' })
+    expect(summary.companies.find(c => c.companyId === 'totals')).toMatchObject({ nrr: 1.02, nrrBasis: 'month' })
+    expect(summary.weightedNRR).toBe(1.1)
+    expect(summary.nrrExcludedCompanyIds).toEqual(['totals'])
+  })
+
+  it('sorts with missing values last in either direction', () => {
+    const companies = PortfolioCalculator.summarize([company('a', 1000, 10), company('b', 2000, 10)], 'USD').companies
+    const withGap = [{ ...companies[0], burnMultiple: null }, { ...companies[1], burnMultiple: 1.5 }]
+
+    expect(PortfolioCalculator.sort(withGap, 'burnMultiple', 'asc').map(c => c.burnMultiple)).toEqual([1.5, null])
+    expect(PortfolioCalculator.sort(withGap, 'name').map(c => c.name)).toEqual(['A', 'B'])
+  })
+})
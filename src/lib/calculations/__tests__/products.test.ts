@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { ProductCalculator, UNSPECIFIED_PRODUCT } from '@/lib/calculations/products'
+import { CustomerMonth } from '@/types'
+
+// Acme adds Analytics in February and Core seats in March; Beta gets a price rise,
+// then drops Analytics in March while keeping Core
+const lines: CustomerMonth[] = [
+  { customerId: 'acme', customerName: 'Acme', month: '2024-01', mrr: 100, product: 'Core', quantity: 10 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-02', mrr: 100, product: 'Core', quantity: 10 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-02', mrr: 50, product: 'Analytics' },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-03', mrr: 150, product: 'Core', quantity: 12 },
+  { customerId: 'acme', customerName: 'Acme', month: '2024-03', mrr: 50, product: 'Analytics' },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-01', mrr: 200, product: 'Core', quantity: 20 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-01', mrr: 40, product: 'Analytics' },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-02', mrr: 220, product: 'Core', quantity: 20 },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-02', mrr: 40, product: 'Analytics' },
+  { customerId: 'beta', customerName: 'Beta', month: '2024-03', mrr: 220, product: 'Core', quantity: 20 },
+  { customerId: 'cara', customerName: 'Cara', month: '2024-03', mrr: 80 },
+]
+
+describe('ProductCalculator', () => {
+  it('splits expansion into cross-sell, up-sell and price increases', () => {
+    expect(ProductCalculator.expansionBreakdown(lines)).toEqual([
+      // Acme adds Analytics; Beta pays 10% more for the same 20 seats
+      { month: '2024-02', crossSellMRR: 50, upsellMRR: 0, priceIncreaseMRR: 20 },
+      // Acme: 2 more seats at $10 = $20 up-sell, the other $30 is price
+      { month: '2024-03', crossSellMRR: 0, upsellMRR: 20, priceIncreaseMRR: 30 },
+    ])
+  })
+
+  it('reports metrics per product, with dropped products as churn', () => {
+    const byProduct = ProductCalculator.calculateByProduct(lines)
+
+    expect(Object.keys(byProduct)).toEqual(['Analytics', 'Core', UNSPECIFIED_PRODUCT])
+
+    const analyticsMarch = byProduct.Analytics[2]
+    expect(analyticsMarch.totalMRR).toBe(50)
+    expect(analyticsMarch.churnedMRR).toBe(40)
+    expect(analyticsMarch.netRevenueRetention).toBe(0.5556)
+
+    // Beta still pays for Core, so it is not churn there
+    expect(byProduct.Core[2].churnedCustomers).toBe(0)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { RestatementCalculator } from '@/lib/calculations/restatements'
+import { CustomerVersion, MetricVersion } from '@/types'
+
+const january: MetricVersion = {
+  uploadId: 'jan',
+  fileName: 'mrr-jan.xlsx',
+  uploadedAt: '2024-02-03T09:00:00.000Z',
+  months: [
+    { month: '2023-12', totalMRR: 10000, customerCount: 20 },
+    { month: '2024-01', totalMRR: 11000, customerCount: 21 }
+  ]
+}
+
+// Restates January and adds February
+const february: MetricVersion = {
+  uploadId: 'feb',
+  fileName: 'mrr-feb.xlsx',
+  uploadedAt: '2024-03-02T09:00:00.000Z',
+  months: [
+    { month: '2023-12', totalMRR: 10000, customerCount: 20 },
+    { month: '2024-01', totalMRR: 10500, customerCount: 21 },
+    { month: '2024-02', totalMRR: 12000, customerCount: 23 }
+  ]
+}
+
+describe('RestatementCalculator', () => {
+  it('returns each month as reported on the as-of date', () => {
+    expect(RestatementCalculator.asOf([february, january], '2024-02-03').map(m => m.totalMRR)).toEqual([10000, 11000])
+    expect(RestatementCalculator.asOf([february, january], '2024-03-31').map(m => m.totalMRR)).toEqual([10000, 10500, 12000])
+    expect(RestatementCalculator.asOf([january], '2024-01-31')).toEqual([])
+  })
+
+  it('lists only months whose figures changed, with the upload that changed them', () => {
+    const restatements = RestatementCalculator.diff([february, january])
+
+    expect(restatements).toHaveLength(1)
+    expect(restatements[0]).toMatchObject({
+      month: '2024-01',
+      uploadId: 'feb',
+      fileName: 'mrr-feb.xlsx',
+      previousUploadId: 'jan',
+      changes: [{ field: 'totalMRR', previous: 11000, restated: 10500, change: -500 }]
+    })
+  })
+
+  it('rebuilds customer rows as reported on the as-of date, month by month', () => {
+    const row = (customerId: string, month: string, mrr: number) => ({ customerId, customerName: customerId, month, mrr })
+    const versions: CustomerVersion[] = [
+      // Restates January without b, adds February
+      { uploadId: 'feb', uploadedAt: '2024-03-02T09:00:00.000Z', rows: [row('a', '2024-01', 120), row('a', '2024-02', 130)] },
+      { uploadId: 'jan', uploadedAt: '2024-02-03T09:00:00.000Z', rows: [row('a', '2023-12', 100), row('a', '2024-01', 100), row('b', '2024-01', 50)] }
+    ]
+
+    expect(RestatementCalculator.customerMonthsAsOf(versions, '2024-02-03').map(r => `${r.customerId}:${r.month}:${r.mrr}`))
+      .toEqual(['a:2023-12:100', 'a:2024-01:100', 'b:2024-01:50'])
+    // December keeps January's upload; January is replaced whole, so b drops out
+    expect(RestatementCalculator.customerMonthsAsOf(versions, '2024-03-02').map(r => `${r.customerId}:${r.month}:${r.mrr}`))
+      .toEqual(['a:2023-12:100', 'a:2024-01:120', 'a:2024-02:130'])
+    expect(RestatementCalculator.customerMonthsAsOf(versions, '2024-01-31')).toEqual([])
+  })
+})
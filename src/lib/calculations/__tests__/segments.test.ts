@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { SegmentCalculator } from '@/lib/calculations/segments'
+import { CustomerMonth } from '@/types'
+import { customerMonths } from './fixtures'
+
+// Acme upgrades from Pro to Enterprise in March; Delta has no plan
+const PLANS: Record<string, string | undefined> = { beta: 'Pro', core: 'Enterprise', echo: 'Pro' }
+
+const withPlans: CustomerMonth[] = customerMonths.map(row => {
+  const plan = row.customerId === 'acme'
+    ? (row.month < '2024-03' ? 'Pro' : 'Enterprise')
+    : PLANS[row.customerId]
+  return plan ? { ...row, attributes: { plan } } : row
+})
+
+describe('SegmentCalculator', () => {
+  it('assigns each customer to their latest segment value', () => {
+    expect(SegmentCalculator.dimensions(withPlans)).toEqual(['plan'])
+    expect(SegmentCalculator.values(withPlans, 'plan')).toEqual(['Enterprise', 'Pro', 'Unassigned'])
+
+    const enterprise = SaaSMetricsCalculator.calculateMetrics(
+      SegmentCalculator.filter(withPlans, { dimension: 'plan', value: 'Enterprise' })
+    )
+
+    // The upgrade shows as expansion inside Enterprise, not churn from Pro
+    expect(enterprise[0].totalMRR).toBe(400)
+    expect(enterprise[2].expansionMRR).toBe(50)
+    expect(enterprise[2].newMRR).toBe(0)
+  })
+
+  it('calculates metrics per segment that add up to the total', () => {
+    const bySegment = SegmentCalculator.calculateBySegment(withPlans, 'plan')
+    const total = SaaSMetricsCalculator.calculateMetrics(withPlans)
+
+    const januaryMRR = Object.values(bySegment)
+      .map(metrics => metrics.find(m => m.month === '2024-01')?.totalMRR ?? 0)
+      .reduce((sum, mrr) => sum + mrr, 0)
+
+    expect(Object.keys(bySegment)).toEqual(['Enterprise', 'Pro', 'Unassigned'])
+    expect(januaryMRR).toBe(total[0].totalMRR)
+  })
+})
@@ -0,0 +1,130 @@
+import { Anomaly, AnomalyMetric, AnomalyThresholds, MonthlyMetrics, MRRMovement } from '@/types'
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  zScore: 3.5,
+  customerChange: 0.5,
+  customerCountDrop: 0.1
+}
+
+const OUTLIER_METRICS: AnomalyMetric[] = ['newMRR', 'churnedMRR', 'netRevenueRetention']
+
+// Months of movement history needed before a month can be called an outlier
+const MIN_HISTORY_MONTHS = 6
+
+// Scale factors that make MAD and mean absolute deviation comparable to a standard deviation
+const MAD_SCALE = 0.6745
+const MEAN_AD_SCALE = 1.2533
+
+export class AnomalyDetector {
+  /**
+   * Flag unusual months and customer changes after an upload:
+   * - months whose new MRR, churned MRR or NRR has a robust z-score above the threshold,
+   *   measured against the median and MAD of every month with a prior month
+   * - single customers whose MRR expands or contracts by more than the threshold
+   * - month-over-month drops in customer count larger than the threshold
+   * A flag is critical once it reaches twice its threshold. The ledger is optional,
+   * since aggregated uploads have no customer-level rows.
+   */
+  static detect(
+    metrics: MonthlyMetrics[],
+    ledger: MRRMovement[] = [],
+    thresholds: Partial<AnomalyThresholds> = {}
+  ): Anomaly[] {
+    const limits = { ...DEFAULT_ANOMALY_THRESHOLDS, ...thresholds }
+    const sorted = [...metrics].sort((a, b) => a.month.localeCompare(b.month))
+
+    return [
+      ...this.metricOutliers(sorted, limits.zScore),
+      ...this.customerSwings(ledger, limits.customerChange),
+      ...this.customerCountDrops(sorted, limits.customerCountDrop)
+    ].sort((a, b) => a.month.localeCompare(b.month))
+  }
+
+  private static metricOutliers(sorted: MonthlyMetrics[], limit: number): Anomaly[] {
+    // The first month has no starting base, so its movements are not comparable
+    const history = sorted.slice(1)
+    if (history.length < MIN_HISTORY_MONTHS) return []
+
+    return OUTLIER_METRICS.flatMap(metric => {
+      const values = history.map(m => m[metric])
+      const median = this.median(values)
+      const spread = this.robustSpread(values, median)
+      if (spread === 0) return []
+
+      return history.flatMap(m => {
+        const score = (m[metric] - median) / spread
+        if (Math.abs(score) < limit) return []
+
+        return [{
+          month: m.month,
+          type: 'metricOutlier' as const,
+          severity: this.severity(Math.abs(score), limit),
+          metric,
+          value: m[metric],
+          expected: Math.round(median * 10000) / 10000,
+          score: Math.round(score * 100) / 100
+        }]
+      })
+    })
+  }
+
+  private static customerSwings(ledger: MRRMovement[], limit: number): Anomaly[] {
+    return ledger
+      .filter(movement => movement.type === 'expansion' || movement.type === 'contraction')
+      .flatMap(movement => {
+        const change = movement.change / movement.previousMRR
+        if (Math.abs(change) < limit) return []
+
+        return [{
+          month: movement.month,
+          type: 'customerSwing' as const,
+          severity: this.severity(Math.abs(change), limit),
+          customerId: movement.customerId,
+          customerName: movement.customerName,
+          value: movement.currentMRR,
+          expected: movement.previousMRR,
+          score: Math.round(change * 10000) / 10000
+        }]
+      })
+  }
+
+  private static customerCountDrops(sorted: MonthlyMetrics[], limit: number): Anomaly[] {
+    return sorted.flatMap((m, i) => {
+      const previous = i > 0 ? sorted[i - 1].customerCount : 0
+      if (previous === 0) return []
+
+      const drop = (previous - m.customerCount) / previous
+      if (drop < limit) return []
+
+      return [{
+        month: m.month,
+        type: 'customerCountDrop' as const,
+        severity: this.severity(drop, limit),
+        value: m.customerCount,
+        expected: previous,
+        score: Math.round(-drop * 10000) / 10000
+      }]
+    })
+  }
+
+  private static severity(magnitude: number, limit: number): Anomaly['severity'] {
+    return magnitude >= limit * 2 ? 'critical' : 'warning'
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+  }
+
+  // MAD scaled to a standard deviation; falls back to the mean absolute
+  // deviation when more than half the months share the median value
+  private static robustSpread(values: number[], median: number): number {
+    const deviations = values.map(value => Math.abs(value - median))
+    const mad = this.median(deviations)
+    if (mad > 0) return mad / MAD_SCALE
+
+    const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length
+    return meanDeviation * MEAN_AD_SCALE
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  BenchmarkBand,
+  BenchmarkComparison,
+  BenchmarkMetric,
+  BenchmarkPercentiles,
+  BenchmarkResult,
+  MonthlyMetrics
+} from '@/types'
+
+// Metrics where a lower value ranks higher among peers
+const LOWER_IS_BETTER: BenchmarkMetric[] = ['logoChurn']
+
+export class BenchmarkCalculator {
+  /**
+   * Compare one month's metrics with the peer band matching its ARR.
+   * Retention and churn use the trailing-twelve-month windows, so aggregated
+   * uploads (which have no customer-level history) are only ranked on growth
+   * and Quick Ratio. Returns null when no band covers the ARR.
+   */
+  static compare(metric: MonthlyMetrics, bands: BenchmarkBand[]): BenchmarkComparison | null {
+    const band = this.findBand(bands, metric.arr)
+    if (!band) return null
+
+    const values = this.companyValues(metric)
+    const results: BenchmarkResult[] = []
+
+    for (const [key, percentiles] of Object.entries(band.metrics) as [BenchmarkMetric, BenchmarkPercentiles][]) {
+      const value = values[key]
+      if (value === null) continue
+
+      results.push({
+        metric: key,
+        value,
+        percentiles,
+        percentile: this.percentile(value, percentiles, LOWER_IS_BETTER.includes(key))
+      })
+    }
+
+    return { stage: band.stage, results }
+  }
+
+  // Band whose [minARR, maxARR) range contains the ARR
+  static findBand(bands: BenchmarkBand[], arr: number): BenchmarkBand | null {
+    return bands.find(band => arr >= band.minARR && (band.maxARR === null || arr < band.maxARR)) ?? null
+  }
+
+  /**
+   * Peer rank from P25/P50/P75, interpolating linearly between them and
+   * extrapolating with the nearest segment's slope outside; clamped to 1-99.
+   */
+  static percentile(value: number, percentiles: BenchmarkPercentiles, lowerIsBetter: boolean = false): number {
+    const { p25, p50, p75 } = percentiles
+
+    const interpolate = (lower: number, upper: number, lowerRank: number) => {
+      if (upper > lower) return lowerRank + (25 * (value - lower)) / (upper - lower)
+      return value >= upper ? lowerRank + 25 : lowerRank
+    }
+
+    const rank = value < p50 ? interpolate(p25, p50, 25) : interpolate(p50, p75, 50)
+    const clamped = Math.min(99, Math.max(1, Math.round(rank)))
+    return lowerIsBetter ? 100 - clamped : clamped
+  }
+
+  private static companyValues(metric: MonthlyMetrics): Record<BenchmarkMetric, number | null> {
+    const annual = metric.trailingRetention?.twelveMonth ?? null
+
+    return {
+      arrGrowthYoY: metric.arrGrowthYoY,
+      netRevenueRetention: annual ? annual.nrr : null,
+      grossRevenueRetention: annual ? annual.grr : null,
+      logoChurn: annual ? Math.round((1 - annual.logoRetention) * 10000) / 10000 : null,
+      quickRatio: metric.quickRatio
+    }
+  }
+}
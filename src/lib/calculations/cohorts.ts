@@ -0,0 +1,90 @@
+import { CustomerMonth, CohortMatrix, CohortRow } from '@/types'
+import { addMonths, monthsBetween } from './month-math'
+
+export class CohortAnalyzer {
+  /**
+   * Build logo and revenue retention matrices (cohort × months since start).
+   * Customers are assigned to the cohort of their first month with MRR > 0.
+   */
+  static calculateCohorts(data: CustomerMonth[]): CohortMatrix {
+    const customerMRR = this.groupByCustomer(data)
+    if (customerMRR.size === 0) {
+      return { cohorts: [], maxPeriods: 0 }
+    }
+
+    const allMonths = data.filter(d => d.mrr > 0).map(d => d.month).sort()
+    const lastMonth = allMonths[allMonths.length - 1]
+
+    // Assign customers to their first paying month
+    const cohortMembers = new Map<string, string[]>()
+    for (const [customerId, months] of customerMRR) {
+      const firstMonth = Array.from(months.keys()).sort()[0]
+      if (!cohortMembers.has(firstMonth)) {
+        cohortMembers.set(firstMonth, [])
+      }
+      cohortMembers.get(firstMonth)!.push(customerId)
+    }
+
+    const cohorts: CohortRow[] = []
+    let maxPeriods = 0
+
+    for (const cohort of Array.from(cohortMembers.keys()).sort()) {
+      const members = cohortMembers.get(cohort)!
+      const periods = monthsBetween(cohort, lastMonth) + 1
+      maxPeriods = Math.max(maxPeriods, periods)
+
+      const initialMRR = members.reduce(
+        (sum, customerId) => sum + (customerMRR.get(customerId)!.get(cohort) || 0),
+        0
+      )
+
+      const logoRetention: number[] = []
+      const revenueRetention: number[] = []
+
+      for (let period = 0; period < periods; period++) {
+        let activeCustomers = 0
+        let periodMRR = 0
+
+        for (const customerId of members) {
+          const mrr = customerMRR.get(customerId)!.get(addMonths(cohort, period)) || 0
+          if (mrr > 0) {
+            activeCustomers++
+            periodMRR += mrr
+          }
+        }
+
+        logoRetention.push(Math.round((activeCustomers / members.length) * 10000) / 10000)
+        revenueRetention.push(
+          initialMRR > 0 ? Math.round((periodMRR / initialMRR) * 10000) / 10000 : 0
+        )
+      }
+
+      cohorts.push({
+        cohort,
+        initialCustomers: members.length,
+        initialMRR: Math.round(initialMRR * 100) / 100,
+        logoRetention,
+        revenueRetention
+      })
+    }
+
+    return { cohorts, maxPeriods }
+  }
+
+  // Map of customerId -> (month -> MRR), keeping only paying months
+  private static groupByCustomer(data: CustomerMonth[]): Map<string, Map<string, number>> {
+    const grouped = new Map<string, Map<string, number>>()
+
+    for (const item of data) {
+      if (item.mrr <= 0) continue
+
+      if (!grouped.has(item.customerId)) {
+        grouped.set(item.customerId, new Map())
+      }
+      const months = grouped.get(item.customerId)!
+      months.set(item.month, (months.get(item.month) || 0) + item.mrr)
+    }
+
+    return grouped
+  }
+}
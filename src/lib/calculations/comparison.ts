@@ -0,0 +1,89 @@
+import { ComparedCompany, ComparisonOptions, ComparisonRow, MonthlyMetrics } from '@/types'
+import { monthsBetween } from './month-math'
+
+// ARR a company must reach before milestone alignment can place it
+export const MILESTONE_ARR = 1000000
+
+export interface ComparisonOverlay {
+  rows: ComparisonRow[]
+  // Companies that never reached the milestone, or have no positive base value to index from
+  excludedCompanyIds: string[]
+}
+
+export class ComparisonCalculator {
+  /**
+   * First month in which ARR reached the milestone, or null if it never did
+   */
+  static milestoneMonth(metrics: MonthlyMetrics[], milestoneARR: number = MILESTONE_ARR): string | null {
+    const sorted = [...metrics].sort((a, b) => a.month.localeCompare(b.month))
+    return sorted.find(m => m.arr >= milestoneARR)?.month ?? null
+  }
+
+  /**
+   * One metric per company on a shared x-axis. Calendar alignment keys rows by
+   * month; milestone alignment keys them by months since the company reached
+   * the milestone (negative before it). Indexed series are rebased to 100 at
+   * the milestone, or at the first calendar month every company has data for.
+   */
+  static overlay(
+    companies: ComparedCompany[],
+    pick: (metric: MonthlyMetrics) => number | null,
+    options: ComparisonOptions,
+    milestoneARR: number = MILESTONE_ARR
+  ): ComparisonOverlay {
+    const excludedCompanyIds: string[] = []
+    const series = new Map<string, Map<string | number, number | null>>()
+
+    for (const company of companies) {
+      const anchor = options.alignment === 'milestone'
+        ? this.milestoneMonth(company.metrics, milestoneARR)
+        : null
+      if (options.alignment === 'milestone' && anchor === null) {
+        excludedCompanyIds.push(company.companyId)
+        continue
+      }
+
+      series.set(company.companyId, new Map(company.metrics.map(metric => [
+        anchor === null ? metric.month : monthsBetween(anchor, metric.month),
+        pick(metric)
+      ])))
+    }
+
+    if (options.indexed) {
+      const basePeriod = options.alignment === 'milestone' ? 0 : this.firstSharedMonth(series)
+
+      for (const [companyId, values] of Array.from(series)) {
+        const base = basePeriod === null ? null : values.get(basePeriod) ?? null
+        if (base === null || base <= 0) {
+          series.delete(companyId)
+          excludedCompanyIds.push(companyId)
+          continue
+        }
+        values.forEach((value, period) => {
+          values.set(period, value === null ? null : Math.round((value / base) * 1000) / 10)
+        })
+      }
+    }
+
+    const periods = Array.from(new Set(Array.from(series.values()).flatMap(values => Array.from(values.keys()))))
+      .sort((a, b) => typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b)))
+
+    return {
+      rows: periods.map(period => ({
+        period,
+        values: Object.fromEntries(Array.from(series, ([companyId, values]) => [companyId, values.get(period) ?? null]))
+      })),
+      excludedCompanyIds
+    }
+  }
+
+  // Latest first month across companies, i.e. the first month they all have data for
+  private static firstSharedMonth(series: Map<string, Map<string | number, number | null>>): string | null {
+    let shared: string | null = null
+    series.forEach(values => {
+      const first = Array.from(values.keys()).map(String).sort()[0]
+      if (first !== undefined && (shared === null || first > shared)) shared = first
+    })
+    return shared
+  }
+}
@@ -0,0 +1,116 @@
+import { ConcentrationMetrics, CustomerMonth, MRRBand, MRRBandSummary, ParetoPoint } from '@/types'
+
+// Customer-size buckets used for the MRR band distribution
+export const MRR_BANDS: MRRBand[] = [
+  { label: '<$1k', min: 0, max: 1000 },
+  { label: '$1–5k', min: 1000, max: 5000 },
+  { label: '$5–20k', min: 5000, max: 20000 },
+  { label: '>$20k', min: 20000, max: null }
+]
+
+// Most points returned for a Pareto curve; larger customer bases are sampled
+const MAX_PARETO_POINTS = 100
+
+export class RevenueConcentrationCalculator {
+  /**
+   * Top-customer MRR share, Herfindahl index and MRR band buckets for each month.
+   * Only customers with MRR > 0 in a month are counted for that month.
+   */
+  static calculate(data: CustomerMonth[], bands: MRRBand[] = MRR_BANDS): ConcentrationMetrics[] {
+    const byMonth = this.groupByMonth(data)
+
+    return Array.from(byMonth.keys()).sort().map(month => {
+      const mrrs = this.sortedMRR(byMonth.get(month)!)
+      const totalMRR = mrrs.reduce((sum, mrr) => sum + mrr, 0)
+
+      const shareOfTop = (count: number) => {
+        if (totalMRR === 0) return 0
+        const top = mrrs.slice(0, count).reduce((sum, mrr) => sum + mrr, 0)
+        return Math.round((top / totalMRR) * 10000) / 10000
+      }
+
+      const herfindahlIndex = totalMRR > 0
+        ? mrrs.reduce((sum, mrr) => sum + Math.pow((mrr / totalMRR) * 100, 2), 0)
+        : 0
+
+      return {
+        month,
+        totalMRR,
+        customerCount: mrrs.length,
+        top1Share: shareOfTop(1),
+        top10Share: shareOfTop(10),
+        top20PercentShare: shareOfTop(Math.ceil(mrrs.length * 0.2)),
+        herfindahlIndex: Math.round(herfindahlIndex),
+        bands: this.bucketByBand(mrrs, bands)
+      }
+    })
+  }
+
+  /**
+   * Cumulative share of MRR held by the largest customers in one month
+   * (the latest month when none is given). Starts at (0, 0) and ends at (1, 1).
+   */
+  static paretoCurve(data: CustomerMonth[], month?: string): ParetoPoint[] {
+    const byMonth = this.groupByMonth(data)
+    const targetMonth = month ?? Array.from(byMonth.keys()).sort().pop()
+    const mrrs = targetMonth ? this.sortedMRR(byMonth.get(targetMonth) || new Map()) : []
+    const totalMRR = mrrs.reduce((sum, mrr) => sum + mrr, 0)
+
+    if (totalMRR === 0) return []
+
+    const cumulative: number[] = []
+    mrrs.reduce((sum, mrr) => {
+      cumulative.push(sum + mrr)
+      return sum + mrr
+    }, 0)
+
+    // Sample evenly spaced customer counts so large bases stay chartable
+    const steps = Math.min(mrrs.length, MAX_PARETO_POINTS)
+    const points: ParetoPoint[] = [{ customerShare: 0, mrrShare: 0 }]
+
+    for (let step = 1; step <= steps; step++) {
+      const customers = Math.round((step / steps) * mrrs.length)
+      points.push({
+        customerShare: Math.round((customers / mrrs.length) * 10000) / 10000,
+        mrrShare: Math.round((cumulative[customers - 1] / totalMRR) * 10000) / 10000
+      })
+    }
+
+    return points
+  }
+
+  private static bucketByBand(mrrs: number[], bands: MRRBand[]): MRRBandSummary[] {
+    const summaries = bands.map(band => ({ label: band.label, customers: 0, mrr: 0 }))
+
+    for (const mrr of mrrs) {
+      const index = bands.findIndex(band => mrr >= band.min && (band.max === null || mrr < band.max))
+      if (index === -1) continue
+      summaries[index].customers++
+      summaries[index].mrr += mrr
+    }
+
+    return summaries
+  }
+
+  // Paying customers' MRR, largest first
+  private static sortedMRR(customers: Map<string, number>): number[] {
+    return Array.from(customers.values())
+      .filter(mrr => mrr > 0)
+      .sort((a, b) => b - a)
+  }
+
+  // month -> customerId -> MRR (rows for the same customer and month are summed)
+  private static groupByMonth(data: CustomerMonth[]): Map<string, Map<string, number>> {
+    const grouped = new Map<string, Map<string, number>>()
+
+    for (const row of data) {
+      if (!grouped.has(row.month)) {
+        grouped.set(row.month, new Map())
+      }
+      const customers = grouped.get(row.month)!
+      customers.set(row.customerId, (customers.get(row.customerId) || 0) + row.mrr)
+    }
+
+    return grouped
+  }
+}
@@ -0,0 +1,131 @@
+import { BillingFrequency, Contract, ContractRevenueMetrics, CustomerMonth } from '@/types'
+import { addMonths, monthsBetween } from './month-math'
+
+// Months covered by each invoice; upfront contracts are billed once for the whole term
+const BILLING_PERIOD_MONTHS: Record<Exclude<BillingFrequency, 'upfront'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+}
+
+// Recognized revenue and billings of one contract in one month
+interface ContractMonth {
+  month: string
+  revenue: number
+  billing: number
+}
+
+export class ContractScheduler {
+  /**
+   * Whole months of service from the start date through the end date.
+   * Partial months round to the nearest month, so 15 Jan – 14 Jan is 12 months.
+   */
+  static termMonths(contract: Contract): number {
+    const [startYear, startMonth, startDay] = contract.startDate.split('-').map(Number)
+    const [endYear, endMonth, endDay] = contract.endDate.split('-').map(Number)
+
+    // Measure to the day after the end date, which the contract no longer covers
+    const after = new Date(Date.UTC(endYear, endMonth - 1, endDay + 1))
+    const months = (after.getUTCFullYear() - startYear) * 12
+      + (after.getUTCMonth() + 1 - startMonth)
+      + (after.getUTCDate() - startDay) / 30
+
+    return Math.max(1, Math.round(months))
+  }
+
+  /**
+   * Straight-line MRR per contract and month, up to and including `throughMonth`.
+   * Customers with several overlapping contracts get one row per contract.
+   */
+  static toCustomerMonths(contracts: Contract[], throughMonth: string): CustomerMonth[] {
+    const rows: CustomerMonth[] = []
+
+    for (const contract of contracts) {
+      for (const { month, revenue } of this.contractMonths(contract)) {
+        if (month > throughMonth) break
+        rows.push({
+          customerId: contract.customerId,
+          customerName: contract.customerName,
+          month,
+          mrr: Math.round(revenue * 100) / 100,
+          ...(contract.product ? { product: contract.product } : {})
+        })
+      }
+    }
+
+    return rows
+  }
+
+  /**
+   * Bookings, billings and recognized revenue per month, with deferred revenue
+   * and RPO at each month end, from the first contract start to `throughMonth`.
+   * A contract is booked in its start month.
+   */
+  static schedule(contracts: Contract[], throughMonth: string): ContractRevenueMetrics[] {
+    if (contracts.length === 0) return []
+
+    const firstMonth = contracts.map(c => c.startDate.slice(0, 7)).sort()[0]
+    const monthCount = monthsBetween(firstMonth, throughMonth) + 1
+    if (monthCount <= 0) return []
+
+    const schedules = contracts.map(contract => ({
+      contract,
+      startMonth: contract.startDate.slice(0, 7),
+      byMonth: new Map(this.contractMonths(contract).map(entry => [entry.month, entry])),
+      billed: 0,
+      recognized: 0
+    }))
+
+    const series: ContractRevenueMetrics[] = []
+
+    for (let i = 0; i < monthCount; i++) {
+      const month = addMonths(firstMonth, i)
+      const totals = { bookings: 0, billings: 0, revenue: 0, deferredRevenue: 0, rpo: 0 }
+
+      for (const schedule of schedules) {
+        if (schedule.startMonth > month) continue
+        if (schedule.startMonth === month) totals.bookings += schedule.contract.tcv
+
+        const entry = schedule.byMonth.get(month)
+        if (entry) {
+          schedule.billed += entry.billing
+          schedule.recognized += entry.revenue
+          totals.billings += entry.billing
+          totals.revenue += entry.revenue
+        }
+
+        // Revenue recognized ahead of billing is unbilled receivable, not negative deferred
+        totals.deferredRevenue += Math.max(0, schedule.billed - schedule.recognized)
+        totals.rpo += Math.max(0, schedule.contract.tcv - schedule.recognized)
+      }
+
+      series.push({
+        month,
+        bookings: Math.round(totals.bookings * 100) / 100,
+        billings: Math.round(totals.billings * 100) / 100,
+        revenue: Math.round(totals.revenue * 100) / 100,
+        deferredRevenue: Math.round(totals.deferredRevenue * 100) / 100,
+        rpo: Math.round(totals.rpo * 100) / 100
+      })
+    }
+
+    return series
+  }
+
+  // Straight-line revenue each month of the term, billed in advance per period
+  private static contractMonths(contract: Contract): ContractMonth[] {
+    const term = this.termMonths(contract)
+    const monthlyRevenue = contract.tcv / term
+    const period = contract.billingFrequency === 'upfront'
+      ? term
+      : BILLING_PERIOD_MONTHS[contract.billingFrequency]
+    const startMonth = contract.startDate.slice(0, 7)
+
+    return Array.from({ length: term }, (_, offset) => ({
+      month: addMonths(startMonth, offset),
+      revenue: monthlyRevenue,
+      // The last invoice only covers the months left in the term
+      billing: offset % period === 0 ? monthlyRevenue * Math.min(period, term - offset) : 0
+    }))
+  }
+}
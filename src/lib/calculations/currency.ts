@@ -0,0 +1,129 @@
+import { CustomerMonth, FxConversion, FxRate } from '@/types'
+
+// Rates are quoted as the value of one unit of a currency in this currency
+export const FX_BASE_CURRENCY = 'USD'
+
+export interface CurrencyConversion {
+  data: CustomerMonth[]
+  // Currencies without any FX rate; their rows are left out of the converted data,
+  // so callers must report them rather than show the partial totals as complete
+  missingCurrencies: string[]
+}
+
+export class CurrencyConverter {
+  /**
+   * Convert every row into the reporting currency.
+   * Rows without a currency (stored before uploads were stamped) are taken to be
+   * in the reporting currency. Months without a rate use the nearest earlier
+   * month, then the nearest later one.
+   */
+  static convert(
+    data: CustomerMonth[],
+    rates: FxRate[],
+    reportingCurrency: string,
+    basis: FxConversion = 'average'
+  ): CurrencyConversion {
+    const ratesByCurrency = this.groupRates(rates)
+    const converted: CustomerMonth[] = []
+    const missing = new Set<string>()
+
+    for (const row of data) {
+      const currency = row.currency || reportingCurrency
+      if (currency === reportingCurrency) {
+        converted.push({ ...row, currency: reportingCurrency })
+        continue
+      }
+
+      const fromRate = this.rateFor(ratesByCurrency, currency, row.month, basis)
+      const toRate = this.rateFor(ratesByCurrency, reportingCurrency, row.month, basis)
+      if (fromRate === null || toRate === null) {
+        missing.add(fromRate === null ? currency : reportingCurrency)
+        continue
+      }
+
+      converted.push({
+        ...row,
+        mrr: Math.round((row.mrr * fromRate / toRate) * 100) / 100,
+        currency: reportingCurrency
+      })
+    }
+
+    return { data: converted, missingCurrencies: Array.from(missing).sort() }
+  }
+
+  // Label rows that carry no billing currency, so a later reporting-currency switch cannot relabel them
+  static stamp(data: CustomerMonth[], currency: string): CustomerMonth[] {
+    return data.map(row => row.currency ? row : { ...row, currency })
+  }
+
+  // One amount in another currency for a month; null without a rate for either currency
+  static convertAmount(
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    month: string,
+    rates: FxRate[],
+    basis: FxConversion = 'average'
+  ): number | null {
+    if (fromCurrency === toCurrency) return amount
+
+    const ratesByCurrency = this.groupRates(rates)
+    const fromRate = this.rateFor(ratesByCurrency, fromCurrency, month.slice(0, 7), basis)
+    const toRate = this.rateFor(ratesByCurrency, toCurrency, month.slice(0, 7), basis)
+    if (fromRate === null || toRate === null) return null
+
+    return Math.round((amount * fromRate / toRate) * 100) / 100
+  }
+
+  // Rows billed in one currency, in that currency (unconverted)
+  static filterByCurrency(data: CustomerMonth[], currency: string, reportingCurrency: string): CustomerMonth[] {
+    return data.filter(row => (row.currency || reportingCurrency) === currency)
+  }
+
+  // Distinct billing currencies in the data, reporting currency first
+  static currencies(data: CustomerMonth[], reportingCurrency: string): string[] {
+    const found = new Set(data.map(row => row.currency || reportingCurrency))
+    return Array.from(found).sort((a, b) =>
+      a === reportingCurrency ? -1 : b === reportingCurrency ? 1 : a.localeCompare(b)
+    )
+  }
+
+  private static rateFor(
+    ratesByCurrency: Map<string, FxRate[]>,
+    currency: string,
+    month: string,
+    basis: FxConversion
+  ): number | null {
+    if (currency === FX_BASE_CURRENCY) return 1
+
+    const rates = ratesByCurrency.get(currency)
+    if (!rates || rates.length === 0) return null
+
+    // Latest rate at or before the month, else the earliest available
+    let match = rates[0]
+    for (const rate of rates) {
+      if (rate.month > month) break
+      match = rate
+    }
+
+    return basis === 'monthEnd' ? match.monthEnd : match.average
+  }
+
+  // currency -> rates sorted by month
+  private static groupRates(rates: FxRate[]): Map<string, FxRate[]> {
+    const grouped = new Map<string, FxRate[]>()
+
+    for (const rate of rates) {
+      if (!grouped.has(rate.currency)) {
+        grouped.set(rate.currency, [])
+      }
+      grouped.get(rate.currency)!.push(rate)
+    }
+
+    for (const list of grouped.values()) {
+      list.sort((a, b) => a.month.localeCompare(b.month))
+    }
+
+    return grouped
+  }
+}
@@ -0,0 +1,101 @@
+import { EfficiencyMetrics, MonthlyMetrics, SpendMonth } from '@/types'
+import { addMonths } from './month-math'
+
+const QUARTER_MONTHS = 3
+
+export class EfficiencyCalculator {
+  /**
+   * Magic Number, CAC, CAC payback and burn multiple for the quarter ending in each month.
+   * Spend-based ratios use the previous quarter's S&M spend, since spend takes
+   * roughly a quarter to turn into closed revenue.
+   */
+  static calculate(metrics: MonthlyMetrics[], spend: SpendMonth[]): EfficiencyMetrics[] {
+    // Key by YYYY-MM so stored dates (YYYY-MM-01) line up with calendar math
+    const metricsByMonth = new Map(metrics.map(m => [m.month.slice(0, 7), m]))
+    const spendByMonth = new Map(spend.map(s => [s.month.slice(0, 7), s]))
+
+    return [...metrics]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map(metric => ({
+        ...this.calculateMonth(metric.month.slice(0, 7), metricsByMonth, spendByMonth),
+        month: metric.month
+      }))
+  }
+
+  /**
+   * True when at least one month has spend recorded
+   */
+  static hasSpend(spend: SpendMonth[]): boolean {
+    return spend.some(s => s.salesMarketingSpend > 0)
+  }
+
+  private static calculateMonth(
+    month: string,
+    metricsByMonth: Map<string, MonthlyMetrics>,
+    spendByMonth: Map<string, SpendMonth>
+  ): EfficiencyMetrics {
+    const quarterMonths = this.quarterEnding(month)
+    const laggedMonths = this.quarterEnding(addMonths(month, -QUARTER_MONTHS))
+
+    const startMetrics = metricsByMonth.get(addMonths(month, -QUARTER_MONTHS))
+    const endMetrics = metricsByMonth.get(month)!
+    const quarterMetrics = quarterMonths.map(m => metricsByMonth.get(m))
+
+    const netNewARR = startMetrics
+      ? Math.round((endMetrics.arr - startMetrics.arr) * 100) / 100
+      : null
+
+    // Only use the lagged quarter when all three months have spend recorded
+    const laggedSpendMonths = laggedMonths.map(m => spendByMonth.get(m))
+    const laggedSpend = laggedSpendMonths.every(s => s !== undefined)
+      ? laggedSpendMonths.reduce((sum, s) => sum + s!.salesMarketingSpend, 0)
+      : null
+
+    let magicNumber: number | null = null
+    let cac: number | null = null
+    let cacPaybackMonths: number | null = null
+
+    if (laggedSpend !== null && laggedSpend > 0 && quarterMetrics.every(m => m !== undefined)) {
+      const newCustomers = quarterMetrics.reduce((sum, m) => sum + m!.newCustomers, 0)
+      const grossNewMRR = quarterMetrics.reduce((sum, m) => sum + m!.newMRR + m!.expansionMRR, 0)
+
+      if (netNewARR !== null) {
+        magicNumber = this.round(netNewARR / laggedSpend)
+      }
+      if (newCustomers > 0) {
+        cac = Math.round((laggedSpend / newCustomers) * 100) / 100
+      }
+      // Months of new and expansion MRR needed to earn back the spend
+      if (grossNewMRR > 0) {
+        cacPaybackMonths = Math.round((laggedSpend / grossNewMRR) * 10) / 10
+      }
+    }
+
+    // Burn multiple uses same-quarter burn; undefined when ARR did not grow
+    const burnMonths = quarterMonths.map(m => spendByMonth.get(m)?.netBurn)
+    let burnMultiple: number | null = null
+    if (netNewARR !== null && netNewARR > 0 && burnMonths.every(b => b !== undefined)) {
+      const netBurn = burnMonths.reduce((sum: number, b) => sum + b!, 0)
+      burnMultiple = this.round(netBurn / netNewARR)
+    }
+
+    return {
+      month,
+      laggedSpend,
+      netNewARR,
+      magicNumber,
+      cac,
+      cacPaybackMonths,
+      burnMultiple
+    }
+  }
+
+  // The three calendar months ending with `month`, oldest first
+  private static quarterEnding(month: string): string[] {
+    return Array.from({ length: QUARTER_MONTHS }, (_, i) => addMonths(month, i - QUARTER_MONTHS + 1))
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
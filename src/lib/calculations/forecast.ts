@@ -0,0 +1,179 @@
+import { ForecastDrivers, ForecastPoint, MonthlyMetrics, ScenarioDrivers, TrendFit } from '@/types'
+import { addMonths, toMonthIndex } from './month-math'
+
+// Months of history used to fit the trend and estimate drivers
+const TREND_LOOKBACK_MONTHS = 12
+const DRIVER_LOOKBACK_MONTHS = 6
+
+// Bull and bear cases scale the base drivers by these factors
+const SCENARIO_FACTORS = {
+  bull: { growth: 1.25, churn: 0.75 },
+  bear: { growth: 0.75, churn: 1.25 }
+}
+
+export class ForecastCalculator {
+  /**
+   * Fit compound monthly growth to the trailing 12 months of MRR
+   * (least squares on log MRR). Needs at least 3 months with MRR > 0.
+   */
+  static fitTrend(metrics: MonthlyMetrics[], lookbackMonths: number = TREND_LOOKBACK_MONTHS): TrendFit | null {
+    const history = this.sorted(metrics)
+      .filter(m => m.totalMRR > 0)
+      .slice(-lookbackMonths)
+
+    if (history.length < 3) return null
+
+    // Calendar month index as x so gaps in the data are weighted correctly
+    const xs = history.map(m => toMonthIndex(m.month.slice(0, 7)))
+    const ys = history.map(m => Math.log(m.totalMRR))
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+
+    let covariance = 0
+    let variance = 0
+    xs.forEach((x, i) => {
+      covariance += (x - meanX) * (ys[i] - meanY)
+      variance += (x - meanX) ** 2
+    })
+    const slope = variance > 0 ? covariance / variance : 0
+
+    // Spread of consecutive month-over-month growth rates
+    const growthRates: number[] = []
+    for (let i = 1; i < history.length; i++) {
+      if (xs[i] - xs[i - 1] === 1) {
+        growthRates.push(history[i].totalMRR / history[i - 1].totalMRR - 1)
+      }
+    }
+    const meanGrowth = growthRates.reduce((sum, g) => sum + g, 0) / (growthRates.length || 1)
+    const volatility = growthRates.length > 1
+      ? Math.sqrt(growthRates.reduce((sum, g) => sum + (g - meanGrowth) ** 2, 0) / (growthRates.length - 1))
+      : 0
+
+    return {
+      monthlyGrowthRate: Math.round((Math.exp(slope) - 1) * 10000) / 10000,
+      volatility: Math.round(volatility * 10000) / 10000,
+      monthsUsed: history.length
+    }
+  }
+
+  /**
+   * Extend the latest MRR at the fitted growth rate; bull and bear grow
+   * one volatility above and below it
+   */
+  static trendForecast(metrics: MonthlyMetrics[], horizonMonths: number): ForecastPoint[] {
+    const fit = this.fitTrend(metrics)
+    const latest = this.sorted(metrics).pop()
+    if (!fit || !latest) return []
+
+    const rates = {
+      bear: Math.max(fit.monthlyGrowthRate - fit.volatility, -1),
+      base: fit.monthlyGrowthRate,
+      bull: fit.monthlyGrowthRate + fit.volatility
+    }
+
+    return this.project(latest, horizonMonths, {
+      bear: mrr => mrr * (1 + rates.bear),
+      base: mrr => mrr * (1 + rates.base),
+      bull: mrr => mrr * (1 + rates.bull)
+    })
+  }
+
+  /**
+   * Trailing averages of the forecast drivers over the last 6 months.
+   * Rates are pooled: total movement ÷ total starting MRR.
+   */
+  static estimateDrivers(
+    metrics: MonthlyMetrics[],
+    lookbackMonths: number = DRIVER_LOOKBACK_MONTHS
+  ): ForecastDrivers | null {
+    const sorted = this.sorted(metrics)
+    // The first month has no starting MRR, so it cannot inform the rates
+    const start = Math.max(1, sorted.length - lookbackMonths)
+    const months = sorted.length - start
+    if (months <= 0) return null
+
+    let added = 0
+    let expansion = 0
+    let lost = 0
+    let startingMRR = 0
+
+    for (let i = start; i < sorted.length; i++) {
+      added += sorted[i].newMRR + sorted[i].reactivationMRR
+      expansion += sorted[i].expansionMRR
+      lost += sorted[i].contractionMRR + sorted[i].churnedMRR
+      startingMRR += sorted[i - 1].totalMRR
+    }
+
+    return {
+      newMRR: Math.round((added / months) * 100) / 100,
+      expansionRate: startingMRR > 0 ? Math.round((expansion / startingMRR) * 10000) / 10000 : 0,
+      churnRate: startingMRR > 0 ? Math.round((lost / startingMRR) * 10000) / 10000 : 0
+    }
+  }
+
+  // Default bull and bear cases around the base drivers
+  static scenariosFromDrivers(base: ForecastDrivers): ScenarioDrivers {
+    const scale = (drivers: ForecastDrivers, factors: { growth: number; churn: number }) => ({
+      newMRR: Math.round(drivers.newMRR * factors.growth * 100) / 100,
+      expansionRate: Math.round(drivers.expansionRate * factors.growth * 10000) / 10000,
+      churnRate: Math.round(drivers.churnRate * factors.churn * 10000) / 10000
+    })
+
+    return {
+      bear: scale(base, SCENARIO_FACTORS.bear),
+      base: { ...base },
+      bull: scale(base, SCENARIO_FACTORS.bull)
+    }
+  }
+
+  /**
+   * Roll MRR forward month by month:
+   * next MRR = MRR × (1 + expansion rate − churn rate) + new MRR
+   */
+  static driverForecast(
+    metrics: MonthlyMetrics[],
+    scenarios: ScenarioDrivers,
+    horizonMonths: number
+  ): ForecastPoint[] {
+    const latest = this.sorted(metrics).pop()
+    if (!latest) return []
+
+    const step = (drivers: ForecastDrivers) => (mrr: number) =>
+      Math.max(mrr * (1 + drivers.expansionRate - drivers.churnRate) + drivers.newMRR, 0)
+
+    return this.project(latest, horizonMonths, {
+      bear: step(scenarios.bear),
+      base: step(scenarios.base),
+      bull: step(scenarios.bull)
+    })
+  }
+
+  private static project(
+    latest: MonthlyMetrics,
+    horizonMonths: number,
+    steps: Record<keyof ScenarioDrivers, (mrr: number) => number>
+  ): ForecastPoint[] {
+    const points: ForecastPoint[] = []
+    const current = { bear: latest.totalMRR, base: latest.totalMRR, bull: latest.totalMRR }
+    const startMonth = latest.month.slice(0, 7)
+
+    for (let i = 1; i <= horizonMonths; i++) {
+      current.bear = steps.bear(current.bear)
+      current.base = steps.base(current.base)
+      current.bull = steps.bull(current.bull)
+
+      points.push({
+        month: addMonths(startMonth, i),
+        bear: Math.round(current.bear * 100) / 100,
+        base: Math.round(current.base * 100) / 100,
+        bull: Math.round(current.bull * 100) / 100
+      })
+    }
+
+    return points
+  }
+
+  private static sorted(metrics: MonthlyMetrics[]): MonthlyMetrics[] {
+    return [...metrics].sort((a, b) => a.month.localeCompare(b.month))
+  }
+}
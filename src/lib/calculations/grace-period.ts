@@ -0,0 +1,68 @@
+import { CustomerMonth, GracePeriodAdjustment } from '@/types'
+
+export class GracePeriodAdjuster {
+  /**
+   * Bridge short gaps in a customer's MRR history so they count as a pause, not churn.
+   * A gap of up to `graceMonths` months between two paying months is filled with paused
+   * rows: zero MRR, so no unbilled revenue is added, but the customer stays retained.
+   * Gaps at the end of the dataset are left as churn.
+   */
+  static apply(
+    data: CustomerMonth[],
+    graceMonths: number
+  ): { data: CustomerMonth[]; adjustments: GracePeriodAdjustment[] } {
+    if (graceMonths <= 0 || data.length === 0) {
+      return { data, adjustments: [] }
+    }
+
+    // Gaps are measured against the months present in the dataset, like the calculator
+    const months = Array.from(new Set(data.map(d => d.month))).sort()
+    const monthPosition = new Map(months.map((month, index) => [month, index]))
+
+    const payingMonths = new Map<string, { name: string; mrr: Map<string, number> }>()
+    for (const item of data) {
+      if (item.mrr <= 0) continue
+      if (!payingMonths.has(item.customerId)) {
+        payingMonths.set(item.customerId, { name: item.customerName, mrr: new Map() })
+      }
+      const customer = payingMonths.get(item.customerId)!
+      customer.mrr.set(item.month, (customer.mrr.get(item.month) || 0) + item.mrr)
+    }
+
+    const bridged: CustomerMonth[] = []
+    const adjustments: GracePeriodAdjustment[] = []
+
+    for (const [customerId, customer] of payingMonths) {
+      const positions = Array.from(customer.mrr.keys())
+        .map(month => monthPosition.get(month)!)
+        .sort((a, b) => a - b)
+
+      for (let i = 1; i < positions.length; i++) {
+        const gapMonths = positions[i] - positions[i - 1] - 1
+        if (gapMonths === 0 || gapMonths > graceMonths) continue
+
+        const lastMRR = customer.mrr.get(months[positions[i - 1]])!
+        for (let position = positions[i - 1] + 1; position < positions[i]; position++) {
+          bridged.push({
+            customerId,
+            customerName: customer.name,
+            month: months[position],
+            mrr: 0,
+            paused: true
+          })
+        }
+
+        adjustments.push({
+          customerId,
+          customerName: customer.name,
+          gapStart: months[positions[i - 1] + 1],
+          gapEnd: months[positions[i] - 1],
+          gapMonths,
+          pausedMRR: Math.round(lastMRR * 100) / 100
+        })
+      }
+    }
+
+    return { data: bridged.length > 0 ? [...data, ...bridged] : data, adjustments }
+  }
+}
@@ -0,0 +1,59 @@
+import { CustomerValueMetrics, EfficiencyMetrics, MonthlyMetrics } from '@/types'
+
+// Months of logo churn history averaged for the lifetime estimate
+const CHURN_WINDOW_MONTHS = 12
+
+export class LifetimeValueCalculator {
+  /**
+   * ARPA, average customer lifetime and LTV for each month.
+   * Lifetime is 1 / monthly logo churn, where churn is pooled over the trailing
+   * 12 months (churned customers ÷ customers at the start of each month).
+   */
+  static calculate(
+    metrics: MonthlyMetrics[],
+    efficiency: EfficiencyMetrics[] = [],
+    grossMarginPercent: number | null = null
+  ): CustomerValueMetrics[] {
+    const sorted = [...metrics].sort((a, b) => a.month.localeCompare(b.month))
+    const cacByMonth = new Map(efficiency.map(e => [e.month, e.cac]))
+    const margin = grossMarginPercent === null ? 1 : grossMarginPercent / 100
+
+    return sorted.map((metric, i) => {
+      const arpa = metric.customerCount > 0 ? metric.totalMRR / metric.customerCount : 0
+      const monthlyLogoChurn = this.trailingLogoChurn(sorted, i)
+
+      const lifetimeMonths = monthlyLogoChurn !== null && monthlyLogoChurn > 0
+        ? 1 / monthlyLogoChurn
+        : null
+      const ltv = lifetimeMonths !== null ? arpa * margin * lifetimeMonths : null
+
+      const cac = cacByMonth.get(metric.month) ?? null
+      const ltvToCac = ltv !== null && cac !== null && cac > 0 ? ltv / cac : null
+
+      return {
+        month: metric.month,
+        arpa: Math.round(arpa * 100) / 100,
+        monthlyLogoChurn: monthlyLogoChurn !== null ? Math.round(monthlyLogoChurn * 10000) / 10000 : null,
+        lifetimeMonths: lifetimeMonths !== null ? Math.round(lifetimeMonths * 10) / 10 : null,
+        ltv: ltv !== null ? Math.round(ltv * 100) / 100 : null,
+        ltvToCac: ltvToCac !== null ? Math.round(ltvToCac * 100) / 100 : null
+      }
+    })
+  }
+
+  // Churned customers ÷ starting customers, pooled over the trailing window
+  private static trailingLogoChurn(sorted: MonthlyMetrics[], index: number): number | null {
+    let churned = 0
+    let starting = 0
+
+    for (let i = Math.max(1, index - CHURN_WINDOW_MONTHS + 1); i <= index; i++) {
+      // An unreported month leaves the window's churn unknown
+      const monthChurned = sorted[i].churnedCustomers
+      if (monthChurned === null) return null
+      churned += monthChurned
+      starting += sorted[i - 1].customerCount
+    }
+
+    return starting > 0 ? churned / starting : null
+  }
+}
@@ -1,111 +1,375 @@
-export interface CustomerMonth {
-  customerId: string
-  customerName: string
-  month: string
-  mrr: number
-}
+import {
+  CompanySettings,
+  CustomerMonth,
+  MonthlyMetrics,
+  MonthlyTotals,
+  MRRMovement,
+  MRRMovementType,
+  RetentionWindow,
+  TrailingRetention
+} from '@/types'
+import { GracePeriodAdjuster } from './grace-period'
+import { addMonths, monthsBetween } from './month-math'
 
-export interface MonthlyMetrics {
-  month: string
+// Starting base and movements for one month; both input shapes reduce to this
+interface MonthSummary {
   totalMRR: number
-  arr: number
+  previousTotalMRR: number
   customerCount: number
+  previousCustomerCount: number
+  newCustomers: number
+  // null when pre-aggregated input has no churned customer count
+  churnedCustomers: number | null
   newMRR: number
+  reactivationMRR: number
   expansionMRR: number
   contractionMRR: number
   churnedMRR: number
-  grossRevenueRetention: number
-  netRevenueRetention: number
-  logoChurnRate: number
 }
 
+// Monthly metrics before the growth fields that need other months
+type MonthSnapshot = Omit<MonthlyMetrics, 'arrGrowthQoQ' | 'arrGrowthYoY' | 'cmgr' | 'ruleOf40'>
+
+// Longest lookback used for CMGR
+const CMGR_WINDOW_MONTHS = 12
+
 export class SaaSMetricsCalculator {
   /**
-   * Calculate all metrics for a given dataset
+   * Calculate all metrics from customer-level MRR data
+   */
+  static calculateMetrics(
+    data: CustomerMonth[],
+    settings: Partial<CompanySettings> = {}
+  ): MonthlyMetrics[] {
+    const adjusted = this.applySettings(data, settings)
+    const ledger = this.buildLedger(adjusted)
+    const months = Array.from(new Set(adjusted.map(d => d.month))).sort()
+    
+    // Group movements by month
+    const movementsByMonth = new Map<string, MRRMovement[]>()
+    for (const movement of ledger) {
+      if (!movementsByMonth.has(movement.month)) {
+        movementsByMonth.set(movement.month, [])
+      }
+      movementsByMonth.get(movement.month)!.push(movement)
+    }
+    
+    const monthlyData = this.groupByMonth(adjusted)
+    const pausedByMonth = this.groupPausedByMonth(adjusted)
+    
+    const snapshots = months.map(month => ({
+      ...this.summarizeMonth(month, this.summarizeMovements(movementsByMonth.get(month) || [])),
+      trailingRetention: this.calculateTrailingRetention(monthlyData, pausedByMonth, month)
+    }))
+    
+    return this.addGrowthMetrics(snapshots, settings)
+  }
+
+  /**
+   * Calculate the same metrics from pre-aggregated monthly totals.
+   * The starting base of each month is the previous row's MRR and customer count;
+   * trailing retention needs customer-level data and is left out.
+   */
+  static calculateFromMonthlyTotals(
+    data: MonthlyTotals[],
+    settings: Partial<CompanySettings> = {}
+  ): MonthlyMetrics[] {
+    const sorted = [...data].sort((a, b) => a.month.localeCompare(b.month))
+    
+    const snapshots = sorted.map((row, i) => {
+      const previous = i > 0 ? sorted[i - 1] : null
+      
+      return this.summarizeMonth(row.month, {
+        totalMRR: row.totalMRR,
+        previousTotalMRR: previous?.totalMRR || 0,
+        customerCount: row.customerCount || 0,
+        previousCustomerCount: previous?.customerCount || 0,
+        newCustomers: row.newCustomers || 0,
+        churnedCustomers: row.churnedCustomers ?? null,
+        newMRR: row.newMRR || 0,
+        reactivationMRR: row.reactivationMRR || 0,
+        expansionMRR: row.expansionMRR || 0,
+        contractionMRR: row.contractionMRR || 0,
+        churnedMRR: row.churnedMRR || 0
+      })
+    })
+    
+    return this.addGrowthMetrics(snapshots, settings)
+  }
+
+  /**
+   * ARR growth QoQ/YoY, CMGR and Rule of 40, which compare each month with earlier ones.
+   * Earlier months are found by calendar offset, so gaps in the data yield null.
+   */
+  private static addGrowthMetrics(
+    snapshots: MonthSnapshot[],
+    settings: Partial<CompanySettings>
+  ): MonthlyMetrics[] {
+    // Key by YYYY-MM so stored dates (YYYY-MM-01) line up with calendar math
+    const byMonth = new Map(snapshots.map(s => [s.month.slice(0, 7), s]))
+    const firstMonth = snapshots[0]?.month.slice(0, 7)
+    const profitMargin = settings.profitMarginPercent ?? null
+    
+    const growthSince = (month: string, monthsBack: number, current: number) => {
+      const earlier = byMonth.get(addMonths(month, -monthsBack))
+      return earlier && earlier.arr > 0 ? current / earlier.arr - 1 : null
+    }
+    
+    return snapshots.map(snapshot => {
+      const month = snapshot.month.slice(0, 7)
+      const arrGrowthQoQ = growthSince(month, 3, snapshot.arr)
+      const arrGrowthYoY = growthSince(month, 12, snapshot.arr)
+      
+      // Compound growth over up to 12 months of history
+      const cmgrMonths = Math.min(CMGR_WINDOW_MONTHS, monthsBetween(firstMonth, month))
+      const cmgrStart = cmgrMonths > 0 ? byMonth.get(addMonths(month, -cmgrMonths)) : undefined
+      const cmgr = cmgrStart && cmgrStart.totalMRR > 0 && snapshot.totalMRR > 0
+        ? Math.pow(snapshot.totalMRR / cmgrStart.totalMRR, 1 / cmgrMonths) - 1
+        : null
+      
+      const ruleOf40 = arrGrowthYoY !== null && profitMargin !== null
+        ? arrGrowthYoY + profitMargin / 100
+        : null
+      
+      return {
+        ...snapshot,
+        arrGrowthQoQ: this.roundRate(arrGrowthQoQ),
+        arrGrowthYoY: this.roundRate(arrGrowthYoY),
+        cmgr: this.roundRate(cmgr),
+        ruleOf40: this.roundRate(ruleOf40)
+      }
+    })
+  }
+
+  private static roundRate(value: number | null): number | null {
+    return value === null ? null : Math.round(value * 10000) / 10000
+  }
+
+  /**
+   * Trailing 3/6/12-month retention for the customers active at each window start
+   */
+  private static calculateTrailingRetention(
+    monthlyData: Map<string, Map<string, number>>,
+    pausedByMonth: Map<string, Set<string>>,
+    month: string
+  ): TrailingRetention {
+    return {
+      threeMonth: this.calculateRetentionWindow(monthlyData, pausedByMonth, month, 3),
+      sixMonth: this.calculateRetentionWindow(monthlyData, pausedByMonth, month, 6),
+      twelveMonth: this.calculateRetentionWindow(monthlyData, pausedByMonth, month, 12)
+    }
+  }
+
+  private static calculateRetentionWindow(
+    monthlyData: Map<string, Map<string, number>>,
+    pausedByMonth: Map<string, Set<string>>,
+    month: string,
+    windowMonths: number
+  ): RetentionWindow | null {
+    const startMonth = addMonths(month, -windowMonths)
+    const startCustomers = monthlyData.get(startMonth)
+    const endCustomers = monthlyData.get(month)
+    const pausedAtEnd = pausedByMonth.get(month)
+    
+    // Not enough history, or nobody paying at the window start
+    if (!startCustomers || !endCustomers || startCustomers.size === 0) return null
+    
+    let startMRR = 0
+    let endMRR = 0
+    let grossRetainedMRR = 0
+    let retainedCustomers = 0
+    
+    for (const [customerId, mrrAtStart] of startCustomers) {
+      const mrrAtEnd = endCustomers.get(customerId) || 0
+      startMRR += mrrAtStart
+      endMRR += mrrAtEnd
+      grossRetainedMRR += Math.min(mrrAtStart, mrrAtEnd)
+      if (mrrAtEnd > 0 || pausedAtEnd?.has(customerId)) retainedCustomers++
+    }
+    
+    return {
+      startMonth,
+      nrr: Math.round((endMRR / startMRR) * 10000) / 10000,
+      grr: Math.round((grossRetainedMRR / startMRR) * 10000) / 10000,
+      logoRetention: Math.round((retainedCustomers / startCustomers.size) * 10000) / 10000
+    }
+  }
+
+  /**
+   * Build the per-customer, per-month MRR movement ledger.
+   * A customer returning after a month without MRR is a reactivation, not new.
+   * A customer paused within the grace period contracts to zero and expands back on resuming.
    */
-  static calculateMetrics(data: CustomerMonth[]): MonthlyMetrics[] {
-    // Group data by month
+  static buildMovementLedger(
+    data: CustomerMonth[],
+    settings: Partial<CompanySettings> = {}
+  ): MRRMovement[] {
+    return this.buildLedger(this.applySettings(data, settings))
+  }
+
+  // Apply company settings (currently the churn grace period) to the raw data
+  private static applySettings(
+    data: CustomerMonth[],
+    settings: Partial<CompanySettings>
+  ): CustomerMonth[] {
+    return GracePeriodAdjuster.apply(data, settings.churnGracePeriodMonths || 0).data
+  }
+
+  private static buildLedger(data: CustomerMonth[]): MRRMovement[] {
     const monthlyData = this.groupByMonth(data)
+    const pausedByMonth = this.groupPausedByMonth(data)
     const months = Array.from(monthlyData.keys()).sort()
-    const results: MonthlyMetrics[] = []
+    const customerNames = new Map(data.map(d => [d.customerId, d.customerName]))
+    const everActive = new Set<string>()
+    const ledger: MRRMovement[] = []
     
     for (let i = 0; i < months.length; i++) {
       const currentMonth = months[i]
-      const previousMonth = i > 0 ? months[i - 1] : null
+      const currentMap = monthlyData.get(currentMonth)!
+      const previousMap = i > 0 ? monthlyData.get(months[i - 1])! : new Map<string, number>()
+      const currentPaused = pausedByMonth.get(currentMonth) ?? new Set<string>()
+      const previousPaused = (i > 0 && pausedByMonth.get(months[i - 1])) || new Set<string>()
       
-      const currentCustomers = monthlyData.get(currentMonth) || []
-      const previousCustomers = previousMonth ? monthlyData.get(previousMonth) || [] : []
+      const customerIds = Array.from(new Set([
+        ...previousMap.keys(),
+        ...currentMap.keys(),
+        ...previousPaused,
+        ...currentPaused
+      ])).sort()
       
-      const metrics = this.calculateMonthMetrics(
-        currentMonth,
-        currentCustomers,
-        previousCustomers
-      )
+      for (const customerId of customerIds) {
+        const previousMRR = previousMap.get(customerId) || 0
+        const currentMRR = currentMap.get(customerId) || 0
+        const type = currentPaused.has(customerId)
+          ? (previousMRR > 0 ? 'contraction' : 'flat')
+          : previousPaused.has(customerId)
+            ? 'expansion'
+            : this.classifyMovement(previousMRR, currentMRR, everActive.has(customerId))
+        
+        ledger.push({
+          month: currentMonth,
+          customerId,
+          customerName: customerNames.get(customerId) || customerId,
+          type,
+          previousMRR,
+          currentMRR,
+          change: Math.round((currentMRR - previousMRR) * 100) / 100
+        })
+      }
       
-      results.push(metrics)
+      for (const customerId of currentMap.keys()) {
+        everActive.add(customerId)
+      }
+    }
+    
+    return ledger
+  }
+
+  private static classifyMovement(
+    previousMRR: number,
+    currentMRR: number,
+    wasActiveBefore: boolean
+  ): MRRMovementType {
+    if (previousMRR === 0) {
+      return wasActiveBefore ? 'reactivation' : 'new'
+    }
+    if (currentMRR === 0) return 'churn'
+    if (currentMRR > previousMRR) return 'expansion'
+    if (currentMRR < previousMRR) return 'contraction'
+    return 'flat'
+  }
+
+  // Map of month -> customers paused within the churn grace period
+  private static groupPausedByMonth(data: CustomerMonth[]): Map<string, Set<string>> {
+    const paused = new Map<string, Set<string>>()
+    
+    for (const item of data) {
+      if (!item.paused) continue
+      if (!paused.has(item.month)) {
+        paused.set(item.month, new Set())
+      }
+      paused.get(item.month)!.add(item.customerId)
     }
     
-    return results
+    return paused
   }
 
-  private static groupByMonth(data: CustomerMonth[]): Map<string, CustomerMonth[]> {
-    const grouped = new Map<string, CustomerMonth[]>()
+  // Map of month -> (customerId -> MRR), keeping only customers with MRR > 0
+  private static groupByMonth(data: CustomerMonth[]): Map<string, Map<string, number>> {
+    const grouped = new Map<string, Map<string, number>>()
     
     for (const item of data) {
       if (!grouped.has(item.month)) {
-        grouped.set(item.month, [])
+        grouped.set(item.month, new Map())
       }
-      grouped.get(item.month)!.push(item)
+      if (item.mrr <= 0) continue
+      
+      const customers = grouped.get(item.month)!
+      customers.set(item.customerId, (customers.get(item.customerId) || 0) + item.mrr)
     }
     
     return grouped
   }
 
-  private static calculateMonthMetrics(
-    month: string,
-    current: CustomerMonth[],
-    previous: CustomerMonth[]
-  ): MonthlyMetrics {
-    // Create maps for easy lookup
-    const currentMap = new Map(current.map(c => [c.customerId, c.mrr]))
-    const previousMap = new Map(previous.map(c => [c.customerId, c.mrr]))
-    
-    let newMRR = 0
-    let expansionMRR = 0
-    let contractionMRR = 0
-    let churnedMRR = 0
-    // let retainedMRR = 0 // Commented out as it's calculated but not used in final metrics
-    
-    // Calculate new and expansion/contraction
-    for (const [customerId, currentMrr] of currentMap) {
-      const previousMrr = previousMap.get(customerId) || 0
-      
-      if (previousMrr === 0) {
-        // New customer
-        newMRR += currentMrr
-      } else {
-        // Existing customer
-        // retainedMRR += Math.min(currentMrr, previousMrr) // Commented out as not used in final metrics
-        if (currentMrr > previousMrr) {
-          expansionMRR += currentMrr - previousMrr
-        } else if (currentMrr < previousMrr) {
-          contractionMRR += previousMrr - currentMrr
-        }
-      }
+  private static summarizeMovements(movements: MRRMovement[]): MonthSummary {
+    const totals: Record<MRRMovementType, number> = {
+      new: 0,
+      reactivation: 0,
+      expansion: 0,
+      contraction: 0,
+      churn: 0,
+      flat: 0
+    }
+    const summary = {
+      totalMRR: 0,
+      previousTotalMRR: 0,
+      customerCount: 0,
+      previousCustomerCount: 0,
+      newCustomers: 0,
+      churnedCustomers: 0
     }
     
-    // Calculate churned
-    for (const [customerId, previousMrr] of previousMap) {
-      if (!currentMap.has(customerId)) {
-        churnedMRR += previousMrr
+    for (const movement of movements) {
+      summary.totalMRR += movement.currentMRR
+      summary.previousTotalMRR += movement.previousMRR
+      // Zero MRR outside churn (or before new/reactivation) is a paused customer, still counted
+      if (movement.currentMRR > 0 || movement.type !== 'churn') summary.customerCount++
+      if (movement.previousMRR > 0 || (movement.type !== 'new' && movement.type !== 'reactivation')) {
+        summary.previousCustomerCount++
       }
+      if (movement.type === 'new') summary.newCustomers++
+      if (movement.type === 'churn') summary.churnedCustomers++
+      
+      totals[movement.type] += Math.abs(movement.change)
     }
     
-    // Calculate totals
-    const totalMRR = Array.from(currentMap.values()).reduce((sum, mrr) => sum + mrr, 0)
-    const previousTotalMRR = Array.from(previousMap.values()).reduce((sum, mrr) => sum + mrr, 0)
+    return {
+      ...summary,
+      newMRR: totals.new,
+      reactivationMRR: totals.reactivation,
+      expansionMRR: totals.expansion,
+      contractionMRR: totals.contraction,
+      churnedMRR: totals.churn
+    }
+  }
+
+  // The single place where metric definitions live
+  private static summarizeMonth(month: string, summary: MonthSummary): MonthSnapshot {
+    const {
+      totalMRR,
+      previousTotalMRR,
+      customerCount,
+      previousCustomerCount,
+      newCustomers,
+      churnedCustomers,
+      newMRR,
+      reactivationMRR,
+      expansionMRR,
+      contractionMRR,
+      churnedMRR
+    } = summary
     
-    // Calculate retention rates
+    // Calculate retention rates (reactivated revenue is not part of the starting base)
     const grossRevenueRetention = previousTotalMRR > 0
       ? (previousTotalMRR - churnedMRR - contractionMRR) / previousTotalMRR
       : 0
@@ -114,27 +378,33 @@ export class SaaSMetricsCalculator {
       ? (previousTotalMRR - churnedMRR - contractionMRR + expansionMRR) / previousTotalMRR
       : 0
     
-    // Calculate logo churn
-    const previousCustomerCount = previousMap.size
-    const churnedCustomers = Array.from(previousMap.keys())
-      .filter(id => !currentMap.has(id)).length
+    // Calculate logo churn; unknown without a churned customer count
+    const logoChurnRate = churnedCustomers === null
+      ? null
+      : previousCustomerCount > 0 ? churnedCustomers / previousCustomerCount : 0
     
-    const logoChurnRate = previousCustomerCount > 0
-      ? churnedCustomers / previousCustomerCount
-      : 0
+    // Quick Ratio: MRR gained per dollar of MRR lost
+    const gainedMRR = newMRR + reactivationMRR + expansionMRR
+    const lostMRR = contractionMRR + churnedMRR
+    const quickRatio = lostMRR > 0 ? gainedMRR / lostMRR : null
     
     return {
       month,
       totalMRR: Math.round(totalMRR * 100) / 100,
       arr: Math.round(totalMRR * 12 * 100) / 100,
-      customerCount: currentMap.size,
+      customerCount,
+      newCustomers,
       newMRR: Math.round(newMRR * 100) / 100,
+      reactivationMRR: Math.round(reactivationMRR * 100) / 100,
       expansionMRR: Math.round(expansionMRR * 100) / 100,
       contractionMRR: Math.round(contractionMRR * 100) / 100,
       churnedMRR: Math.round(churnedMRR * 100) / 100,
+      churnedCustomers,
       grossRevenueRetention: Math.round(grossRevenueRetention * 10000) / 10000,
       netRevenueRetention: Math.round(netRevenueRetention * 10000) / 10000,
-      logoChurnRate: Math.round(logoChurnRate * 10000) / 10000
+      logoChurnRate: logoChurnRate !== null ? Math.round(logoChurnRate * 10000) / 10000 : null,
+      netNewARR: Math.round((totalMRR - previousTotalMRR) * 12 * 100) / 100,
+      quickRatio: quickRatio !== null ? Math.round(quickRatio * 100) / 100 : null
     }
   }
 }
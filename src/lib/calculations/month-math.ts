@@ -0,0 +1,32 @@
+// Calendar arithmetic on YYYY-MM month keys
+
+/**
+ * Convert a YYYY-MM month into a sequential month index (year * 12 + month)
+ */
+export function toMonthIndex(month: string): number {
+  const [year, monthNumber] = month.split('-').map(part => parseInt(part, 10))
+  return year * 12 + (monthNumber - 1)
+}
+
+/**
+ * Convert a sequential month index back into a YYYY-MM month
+ */
+export function fromMonthIndex(index: number): string {
+  const year = Math.floor(index / 12)
+  const monthNumber = (index % 12) + 1
+  return `${year}-${monthNumber.toString().padStart(2, '0')}`
+}
+
+/**
+ * Number of calendar months from `start` to `end` (negative if end is earlier)
+ */
+export function monthsBetween(start: string, end: string): number {
+  return toMonthIndex(end) - toMonthIndex(start)
+}
+
+/**
+ * Shift a YYYY-MM month by the given number of calendar months
+ */
+export function addMonths(month: string, count: number): string {
+  return fromMonthIndex(toMonthIndex(month) + count)
+}
@@ -0,0 +1,46 @@
+import { MonthExplanation, MovementExplanation, MRRMovement } from '@/types'
+
+// Movement types in the order they are explained
+const EXPLAINED_TYPES: MovementExplanation['type'][] = ['new', 'reactivation', 'expansion', 'contraction', 'churn']
+
+// Customers named per movement type
+const TOP_CUSTOMERS = 3
+
+export class MovementExplainer {
+  /**
+   * Name the customers behind each movement type in a month, largest first.
+   * Works on the movement ledger, so totals match the reported metrics.
+   */
+  static explain(ledger: MRRMovement[], month: string, limit: number = TOP_CUSTOMERS): MonthExplanation {
+    const monthMovements = ledger.filter(movement => movement.month === month)
+
+    const movements = EXPLAINED_TYPES
+      .map(type => {
+        const ofType = monthMovements
+          .filter(movement => movement.type === type)
+          .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+        const total = ofType.reduce((sum, movement) => sum + Math.abs(movement.change), 0)
+
+        return {
+          type,
+          total: Math.round(total * 100) / 100,
+          customerCount: ofType.length,
+          topCustomers: ofType.slice(0, limit).map(movement => ({
+            customerId: movement.customerId,
+            customerName: movement.customerName,
+            change: movement.change,
+            share: total > 0 ? Math.round((Math.abs(movement.change) / total) * 10000) / 10000 : 0
+          }))
+        }
+      })
+      .filter(explanation => explanation.customerCount > 0)
+
+    const netChange = monthMovements.reduce((sum, movement) => sum + movement.change, 0)
+
+    return {
+      month,
+      netChange: Math.round(netChange * 100) / 100,
+      movements
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  EfficiencyMetrics,
+  FxConversion,
+  FxRate,
+  MonthlyMetrics,
+  PortfolioCompany,
+  PortfolioSortKey,
+  PortfolioSummary,
+  SpendMonth
+} from '@/types'
+import { CurrencyConverter } from './currency'
+
+// Everything the roll-up needs for one company, already calculated
+export interface PortfolioInput {
+  companyId: string
+  name: string
+  currency: string
+  metrics: MonthlyMetrics[]
+  efficiency: EfficiencyMetrics[]
+  spend: SpendMonth[]
+  // The company's FX table, used to convert into the portfolio currency
+  fxRates?: FxRate[]
+  fxConversion?: FxConversion
+  // Billing currencies the company's metrics had to leave out for lack of an FX rate
+  missingFxCurrencies?: string[]
+}
+
+// Months of ARR kept for each company's sparkline
+const SPARKLINE_MONTHS = 12
+
+// Sort keys holding amounts, which only compare within one currency
+const AMOUNT_KEYS: PortfolioSortKey[] = ['arr', 'netNewARR', 'netBurn']
+
+export class PortfolioCalculator {
+  /**
+   * Latest metrics per company plus portfolio totals and ARR-weighted averages.
+   * Amounts are converted into the portfolio currency with each company's FX rates;
+   * companies that cannot be converted are listed in their own currency, outside the totals.
+   */
+  static summarize(inputs: PortfolioInput[], currency: string): PortfolioSummary {
+    const companies = inputs.map(input => this.convertSnapshot(this.companySnapshot(input), input, currency))
+    const included = companies.filter(company => company.currency === currency)
+
+    return {
+      currency,
+      companies: this.sort(companies, 'arr', undefined, currency),
+      totalARR: this.sum(included.map(company => company.arr)),
+      totalNetNewARR: this.sum(included.map(company => company.netNewARR)),
+      totalNetBurn: this.sum(included.map(company => company.netBurn ?? 0)),
+      weightedGrowthYoY: this.weightedAverage(included, company => company.arrGrowthYoY),
+      // Monthly NRR is not comparable with trailing-twelve-month NRR, so it stays out of the average
+      weightedNRR: this.weightedAverage(included, company => company.nrrBasis === 'ttm' ? company.nrr : null),
+      weightedBurnMultiple: this.weightedAverage(included, company => company.burnMultiple),
+      excludedCompanyIds: companies
+        .filter(company => company.currency !== currency)
+        .map(company => company.companyId),
+      nrrExcludedCompanyIds: included
+        .filter(company => company.nrrBasis !== 'ttm')
+        .map(company => company.companyId)
+    }
+  }
+
+  /**
+   * Sorted copy; names ascend by default, numbers descend, missing values go last.
+   * Amounts are ranked within each currency, the portfolio currency first.
+   */
+  static sort(
+    companies: PortfolioCompany[],
+    key: PortfolioSortKey,
+    direction: 'asc' | 'desc' = key === 'name' ? 'asc' : 'desc',
+    currency?: string
+  ): PortfolioCompany[] {
+    const sign = direction === 'asc' ? 1 : -1
+    const currencyRank = (company: PortfolioCompany) => company.currency === currency ? '' : company.currency
+
+    return [...companies].sort((a, b) => {
+      if (AMOUNT_KEYS.includes(key) && a.currency !== b.currency) {
+        return currencyRank(a).localeCompare(currencyRank(b))
+      }
+
+      const left = a[key]
+      const right = b[key]
+      if (left === null) return right === null ? 0 : 1
+      if (right === null) return -1
+      if (typeof left === 'string' || typeof right === 'string') {
+        return sign * String(left).localeCompare(String(right))
+      }
+      return sign * (left - right)
+    })
+  }
+
+  private static companySnapshot(input: PortfolioInput): PortfolioCompany {
+    const sorted = [...input.metrics].sort((a, b) => a.month.localeCompare(b.month))
+    const latest = sorted.length > 0 ? sorted[sorted.length - 1] : null
+
+    // Latest quarter with a burn multiple, and the latest month with net burn
+    const burnMultiple = [...input.efficiency]
+      .sort((a, b) => b.month.localeCompare(a.month))
+      .find(e => e.burnMultiple !== null)?.burnMultiple ?? null
+    const netBurn = [...input.spend]
+      .sort((a, b) => b.month.localeCompare(a.month))
+      .find(s => s.netBurn !== undefined)?.netBurn ?? null
+
+    // Companies that uploaded only monthly totals have no trailing retention
+    const trailingNRR = latest?.trailingRetention?.twelveMonth?.nrr ?? null
+    const nrr = trailingNRR ?? latest?.netRevenueRetention ?? null
+
+    return {
+      companyId: input.companyId,
+      name: input.name,
+      currency: input.currency,
+      latestMonth: latest?.month ?? null,
+      arr: latest?.arr ?? 0,
+      netNewARR: latest?.netNewARR ?? 0,
+      arrGrowthYoY: latest?.arrGrowthYoY ?? null,
+      nrr,
+      nrrBasis: trailingNRR !== null ? 'ttm' : nrr !== null ? 'month' : null,
+      netBurn,
+      burnMultiple,
+      arrHistory: sorted.slice(-SPARKLINE_MONTHS).map(m => ({ month: m.month, arr: m.arr })),
+      missingFxCurrencies: input.missingFxCurrencies ?? []
+    }
+  }
+
+  // Amounts in the portfolio currency at each month's rate; unchanged when a rate is missing
+  private static convertSnapshot(company: PortfolioCompany, input: PortfolioInput, currency: string): PortfolioCompany {
+    if (company.currency === currency) return company
+
+    const rates = input.fxRates ?? []
+    const month = company.latestMonth ?? ''
+    const convert = (amount: number, at = month) =>
+      CurrencyConverter.convertAmount(amount, company.currency, currency, at, rates, input.fxConversion)
+
+    const arr = convert(company.arr)
+    const netNewARR = convert(company.netNewARR)
+    const netBurn = company.netBurn !== null ? convert(company.netBurn) : null
+    const arrHistory = company.arrHistory.map(point => ({ month: point.month, arr: convert(point.arr, point.month) }))
+    if (arr === null || netNewARR === null || (company.netBurn !== null && netBurn === null)
+      || arrHistory.some(point => point.arr === null)) {
+      return company
+    }
+
+    return {
+      ...company,
+      currency,
+      convertedFrom: company.currency,
+      arr,
+      netNewARR,
+      netBurn,
+      arrHistory: arrHistory.map(point => ({ month: point.month, arr: point.arr! }))
+    }
+  }
+
+  private static weightedAverage(
+    companies: PortfolioCompany[],
+    pick: (company: PortfolioCompany) => number | null
+  ): number | null {
+    let weighted = 0
+    let weight = 0
+
+    for (const company of companies) {
+      const value = pick(company)
+      if (value === null || company.arr <= 0) continue
+      weighted += value * company.arr
+      weight += company.arr
+    }
+
+    return weight > 0 ? Math.round((weighted / weight) * 10000) / 10000 : null
+  }
+
+  private static sum(values: number[]): number {
+    return Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100
+  }
+}
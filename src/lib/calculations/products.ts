@@ -0,0 +1,118 @@
+import { CompanySettings, CustomerMonth, ExpansionBreakdown, MonthlyMetrics } from '@/types'
+import { SaaSMetricsCalculator } from './metrics'
+
+// Product for rows uploaded without a product column
+export const UNSPECIFIED_PRODUCT = 'Unspecified'
+
+interface ProductLine {
+  mrr: number
+  quantity: number | null
+}
+
+export class ProductCalculator {
+  // Distinct products in the data, Unspecified last
+  static products(data: CustomerMonth[]): string[] {
+    const products = new Set(data.map(row => row.product || UNSPECIFIED_PRODUCT))
+    return Array.from(products).sort((a, b) =>
+      a === UNSPECIFIED_PRODUCT ? 1 : b === UNSPECIFIED_PRODUCT ? -1 : a.localeCompare(b)
+    )
+  }
+
+  /**
+   * Every monthly metric per product. A customer dropping a product counts as
+   * churn for that product even if they keep paying for others.
+   */
+  static calculateByProduct(
+    data: CustomerMonth[],
+    settings: Partial<CompanySettings> = {}
+  ): Record<string, MonthlyMetrics[]> {
+    const byProduct: Record<string, MonthlyMetrics[]> = {}
+
+    for (const product of this.products(data)) {
+      byProduct[product] = SaaSMetricsCalculator.calculateMetrics(
+        data.filter(row => (row.product || UNSPECIFIED_PRODUCT) === product),
+        settings
+      )
+    }
+
+    return byProduct
+  }
+
+  /**
+   * Split expansion into cross-sell, up-sell and price increases, line by line.
+   * Only customers paying in the previous month are counted; new and
+   * reactivated customers are not expansion.
+   */
+  static expansionBreakdown(data: CustomerMonth[]): ExpansionBreakdown[] {
+    const byMonth = this.groupLines(data)
+    const months = Array.from(byMonth.keys()).sort()
+
+    return months.slice(1).map((month, i) => {
+      const previous = byMonth.get(months[i])!
+      const current = byMonth.get(month)!
+      const totals = { crossSellMRR: 0, upsellMRR: 0, priceIncreaseMRR: 0 }
+
+      for (const [customerId, lines] of current) {
+        const previousLines = previous.get(customerId)
+        if (!previousLines) continue
+
+        for (const [product, line] of lines) {
+          const before = previousLines.get(product)
+          if (!before) {
+            totals.crossSellMRR += line.mrr
+            continue
+          }
+
+          const increase = line.mrr - before.mrr
+          if (increase <= 0) continue
+
+          // Extra units at last month's unit price are up-sell; the rest is price
+          const upsell = line.quantity !== null && before.quantity !== null && before.quantity > 0
+            ? Math.min(increase, Math.max(0, line.quantity - before.quantity) * (before.mrr / before.quantity))
+            : increase
+          totals.upsellMRR += upsell
+          totals.priceIncreaseMRR += increase - upsell
+        }
+      }
+
+      return {
+        month,
+        crossSellMRR: Math.round(totals.crossSellMRR * 100) / 100,
+        upsellMRR: Math.round(totals.upsellMRR * 100) / 100,
+        priceIncreaseMRR: Math.round(totals.priceIncreaseMRR * 100) / 100
+      }
+    })
+  }
+
+  // month -> customerId -> product -> line, keeping only lines with MRR > 0
+  private static groupLines(data: CustomerMonth[]): Map<string, Map<string, Map<string, ProductLine>>> {
+    const grouped = new Map<string, Map<string, Map<string, ProductLine>>>()
+
+    for (const row of data) {
+      if (!grouped.has(row.month)) {
+        grouped.set(row.month, new Map())
+      }
+      if (row.mrr <= 0) continue
+
+      const customers = grouped.get(row.month)!
+      if (!customers.has(row.customerId)) {
+        customers.set(row.customerId, new Map())
+      }
+
+      const lines = customers.get(row.customerId)!
+      const product = row.product || UNSPECIFIED_PRODUCT
+      const existing = lines.get(product)
+      const quantity = row.quantity ?? null
+
+      // Repeated rows for the same product are summed
+      lines.set(product, existing
+        ? {
+            mrr: existing.mrr + row.mrr,
+            quantity: existing.quantity !== null && quantity !== null ? existing.quantity + quantity : null
+          }
+        : { mrr: row.mrr, quantity })
+    }
+
+    return grouped
+  }
+}
@@ -0,0 +1,99 @@
+import { CustomerMonth, CustomerVersion, MetricVersion, MonthlyTotals, RestatedField, Restatement } from '@/types'
+
+// Fields compared between uploads, in display order
+export const RESTATED_FIELDS: RestatedField[] = [
+  'totalMRR',
+  'customerCount',
+  'newMRR',
+  'expansionMRR',
+  'contractionMRR',
+  'churnedMRR'
+]
+
+// Differences smaller than this are rounding, not restatements
+const TOLERANCE = 0.005
+
+export class RestatementCalculator {
+  /**
+   * Monthly totals as they were reported on the given date (YYYY-MM-DD):
+   * each month comes from the latest upload made on or before that day.
+   */
+  static asOf(versions: MetricVersion[], asOf: string): MonthlyTotals[] {
+    const byMonth = new Map<string, MonthlyTotals>()
+
+    for (const version of this.chronological(versions)) {
+      if (version.uploadedAt.slice(0, 10) > asOf) break
+      version.months.forEach(month => byMonth.set(month.month, month))
+    }
+
+    return Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month))
+  }
+
+  /**
+   * Customer rows as they were reported on the given date (YYYY-MM-DD):
+   * each month's rows come from the latest upload on or before that day that reported the month.
+   */
+  static customerMonthsAsOf(versions: CustomerVersion[], asOf: string): CustomerMonth[] {
+    const byMonth = new Map<string, CustomerMonth[]>()
+
+    for (const version of this.chronological(versions)) {
+      if (version.uploadedAt.slice(0, 10) > asOf) break
+
+      const reported = new Map<string, CustomerMonth[]>()
+      for (const row of version.rows) {
+        if (!reported.has(row.month)) {
+          reported.set(row.month, [])
+        }
+        reported.get(row.month)!.push(row)
+      }
+      reported.forEach((rows, month) => byMonth.set(month, rows))
+    }
+
+    return Array.from(byMonth.keys()).sort().flatMap(month => byMonth.get(month)!)
+  }
+
+  /**
+   * Every month an upload reported differently from the upload before it,
+   * oldest upload first. Months reported for the first time are not restatements.
+   */
+  static diff(versions: MetricVersion[]): Restatement[] {
+    const reported = new Map<string, { uploadId: string; totals: MonthlyTotals }>()
+    const restatements: Restatement[] = []
+
+    for (const version of this.chronological(versions)) {
+      const sortedMonths = [...version.months].sort((a, b) => a.month.localeCompare(b.month))
+
+      for (const totals of sortedMonths) {
+        const previous = reported.get(totals.month)
+        reported.set(totals.month, { uploadId: version.uploadId, totals })
+        if (!previous) continue
+
+        const changes = RESTATED_FIELDS
+          .map(field => ({
+            field,
+            previous: previous.totals[field] ?? 0,
+            restated: totals[field] ?? 0
+          }))
+          .filter(value => Math.abs(value.restated - value.previous) >= TOLERANCE)
+          .map(value => ({ ...value, change: Math.round((value.restated - value.previous) * 100) / 100 }))
+
+        if (changes.length > 0) {
+          restatements.push({
+            month: totals.month,
+            uploadId: version.uploadId,
+            fileName: version.fileName,
+            uploadedAt: version.uploadedAt,
+            previousUploadId: previous.uploadId,
+            changes
+          })
+        }
+      }
+    }
+
+    return restatements
+  }
+
+  private static chronological<T extends { uploadedAt: string }>(versions: T[]): T[] {
+    return [...versions].sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt))
+  }
+}
@@ -0,0 +1,76 @@
+import { CompanySettings, CustomerMonth, MonthlyMetrics, SegmentDimension, SegmentFilter } from '@/types'
+import { SaaSMetricsCalculator } from './metrics'
+
+// Segment value for customers that never had the attribute
+export const UNASSIGNED_SEGMENT = 'Unassigned'
+
+export class SegmentCalculator {
+  /**
+   * Segment value per customer for one dimension.
+   * Each customer belongs to a single segment, taken from their latest row that
+   * has the attribute, so a plan change does not show up as churn in one plan
+   * and new MRR in another.
+   */
+  static assignments(data: CustomerMonth[], dimension: SegmentDimension): Map<string, string> {
+    const latest = new Map<string, { month: string; value: string }>()
+
+    for (const row of data) {
+      const value = row.attributes?.[dimension]
+      if (!value) continue
+
+      const current = latest.get(row.customerId)
+      if (!current || row.month >= current.month) {
+        latest.set(row.customerId, { month: row.month, value })
+      }
+    }
+
+    const assigned = new Map<string, string>()
+    for (const row of data) {
+      assigned.set(row.customerId, latest.get(row.customerId)?.value ?? UNASSIGNED_SEGMENT)
+    }
+    return assigned
+  }
+
+  // Dimensions with at least one value in the data
+  static dimensions(data: CustomerMonth[]): SegmentDimension[] {
+    const found = new Set<SegmentDimension>()
+    for (const row of data) {
+      for (const [dimension, value] of Object.entries(row.attributes || {})) {
+        if (value) found.add(dimension as SegmentDimension)
+      }
+    }
+    return Array.from(found)
+  }
+
+  // Distinct segment values for a dimension, Unassigned last
+  static values(data: CustomerMonth[], dimension: SegmentDimension): string[] {
+    const values = new Set(this.assignments(data, dimension).values())
+    return Array.from(values).sort((a, b) =>
+      a === UNASSIGNED_SEGMENT ? 1 : b === UNASSIGNED_SEGMENT ? -1 : a.localeCompare(b)
+    )
+  }
+
+  // All rows of the customers assigned to one segment value
+  static filter(data: CustomerMonth[], filter: SegmentFilter): CustomerMonth[] {
+    const assigned = this.assignments(data, filter.dimension)
+    return data.filter(row => assigned.get(row.customerId) === filter.value)
+  }
+
+  // Every monthly metric, calculated separately for each segment value
+  static calculateBySegment(
+    data: CustomerMonth[],
+    dimension: SegmentDimension,
+    settings: Partial<CompanySettings> = {}
+  ): Record<string, MonthlyMetrics[]> {
+    const bySegment: Record<string, MonthlyMetrics[]> = {}
+
+    for (const value of this.values(data, dimension)) {
+      bySegment[value] = SaaSMetricsCalculator.calculateMetrics(
+        this.filter(data, { dimension, value }),
+        settings
+      )
+    }
+
+    return bySegment
+  }
+}
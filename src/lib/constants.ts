@@ -1,3 +1,6 @@
+import { AnnotationType, BenchmarkBand, BenchmarkMetric, CompanySettings, SegmentDimension } from '@/types'
+import { DEFAULT_ANOMALY_THRESHOLDS } from '@/lib/calculations/anomalies'
+
 export const APP_NAME = 'SaaSGrid'
 export const APP_DESCRIPTION = 'SaaS metrics tracking for VC portfolio companies'
 
@@ -7,11 +10,15 @@ export const ROUTES = {
   DASHBOARD: '/dashboard',
   UPLOAD: '/upload',
   ANALYTICS: '/analytics',
+  PORTFOLIO: '/portfolio',
+  COMPARE: '/compare',
   AUTH_CALLBACK: '/auth/callback',
 } as const
 
 export const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100MB for enterprise datasets
 export const ALLOWED_FILE_TYPES = ['.xlsx', '.xls', '.csv']
+// Rows read to detect a file's layout before the full parse in a Web Worker
+export const PREVIEW_ROWS = 500
 
 // Enterprise scaling constants
 export const PERFORMANCE_THRESHOLDS = {
@@ -21,6 +28,99 @@ export const PERFORMANCE_THRESHOLDS = {
   MAX_MONTHS: 360, // 30 years of data
 } as const
 
+// Applied when a company has not configured its own calculation settings
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  churnGracePeriodMonths: 0,
+  grossMarginPercent: null,
+  profitMarginPercent: null,
+  reportingCurrency: 'USD',
+  fxConversion: 'average',
+  customerChangeThreshold: DEFAULT_ANOMALY_THRESHOLDS.customerChange,
+}
+
+// Offered as reporting currencies; uploaded data may use any ISO 4217 code
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'SEK', 'JPY']
+
+// Customer attributes that metrics can be sliced by, in display order
+export const SEGMENT_DIMENSIONS: { key: SegmentDimension; label: string }[] = [
+  { key: 'plan', label: 'Plan' },
+  { key: 'segment', label: 'Segment' },
+  { key: 'region', label: 'Region' },
+  { key: 'salesOwner', label: 'Sales Owner' },
+]
+
+// Annotation categories with their chart marker colors
+export const ANNOTATION_TYPES: Record<AnnotationType, { label: string; color: string }> = {
+  priceChange: { label: 'Price change', color: '#8b5cf6' },
+  bigDeal: { label: 'Big deal', color: '#10b981' },
+  dataCorrection: { label: 'Data correction', color: '#f59e0b' },
+  note: { label: 'Note', color: '#6b7280' },
+}
+
+// Benchmarked metrics in radar chart order
+export const BENCHMARK_METRICS: { key: BenchmarkMetric; label: string; isRate: boolean }[] = [
+  { key: 'arrGrowthYoY', label: 'ARR Growth', isRate: true },
+  { key: 'netRevenueRetention', label: 'NRR', isRate: true },
+  { key: 'grossRevenueRetention', label: 'GRR', isRate: true },
+  { key: 'logoChurn', label: 'Logo Churn', isRate: true },
+  { key: 'quickRatio', label: 'Quick Ratio', isRate: false },
+]
+
+// Illustrative peer percentiles used until a fund loads its own benchmark dataset
+export const DEFAULT_BENCHMARKS: BenchmarkBand[] = [
+  {
+    stage: 'Seed',
+    minARR: 0,
+    maxARR: 1000000,
+    metrics: {
+      arrGrowthYoY: { p25: 0.8, p50: 1.5, p75: 2.5 },
+      netRevenueRetention: { p25: 0.9, p50: 1.0, p75: 1.1 },
+      grossRevenueRetention: { p25: 0.75, p50: 0.83, p75: 0.9 },
+      logoChurn: { p25: 0.15, p50: 0.25, p75: 0.35 },
+      quickRatio: { p25: 1.5, p50: 2.5, p75: 4 },
+    },
+  },
+  {
+    stage: 'Series A',
+    minARR: 1000000,
+    maxARR: 5000000,
+    metrics: {
+      arrGrowthYoY: { p25: 0.6, p50: 1.0, p75: 1.6 },
+      netRevenueRetention: { p25: 0.95, p50: 1.04, p75: 1.15 },
+      grossRevenueRetention: { p25: 0.8, p50: 0.86, p75: 0.92 },
+      logoChurn: { p25: 0.1, p50: 0.18, p75: 0.28 },
+      quickRatio: { p25: 1.5, p50: 2.3, p75: 3.5 },
+    },
+  },
+  {
+    stage: 'Series B',
+    minARR: 5000000,
+    maxARR: 20000000,
+    metrics: {
+      arrGrowthYoY: { p25: 0.4, p50: 0.65, p75: 1.0 },
+      netRevenueRetention: { p25: 1.0, p50: 1.08, p75: 1.2 },
+      grossRevenueRetention: { p25: 0.84, p50: 0.89, p75: 0.94 },
+      logoChurn: { p25: 0.08, p50: 0.14, p75: 0.22 },
+      quickRatio: { p25: 1.3, p50: 2, p75: 3 },
+    },
+  },
+  {
+    stage: 'Growth',
+    minARR: 20000000,
+    maxARR: null,
+    metrics: {
+      arrGrowthYoY: { p25: 0.25, p50: 0.4, p75: 0.6 },
+      netRevenueRetention: { p25: 1.02, p50: 1.1, p75: 1.2 },
+      grossRevenueRetention: { p25: 0.87, p50: 0.91, p75: 0.95 },
+      logoChurn: { p25: 0.06, p50: 0.1, p75: 0.16 },
+      quickRatio: { p25: 1.2, p50: 1.8, p75: 2.6 },
+    },
+  },
+]
+
+// Longest gap (in months) the churn grace period may bridge
+export const MAX_CHURN_GRACE_PERIOD_MONTHS = 12
+
 export const DATE_FORMAT = 'yyyy-MM-dd'
 export const DISPLAY_DATE_FORMAT = 'MMM yyyy'
 
@@ -31,3 +131,6 @@ export const COLORS = {
   error: '#ef4444',
   info: '#6366f1',
 } as const
+
+// Line colours for companies overlaid in the compare view, in selection order
+export const COMPARISON_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#0891b2']
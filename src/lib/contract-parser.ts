@@ -0,0 +1,122 @@
+import { BillingFrequency, Contract } from '@/types'
+import { findColumn, normalizeDate, parseAmount, readFileRows } from './parse-helpers'
+
+// Accepted header spellings, compared after lowercasing and stripping non-letters
+const CONTRACT_ID_HEADERS = ['contractid', 'contractnumber', 'contractno', 'contract']
+const CUSTOMER_ID_HEADERS = ['customerid', 'accountid', 'clientid']
+const CUSTOMER_NAME_HEADERS = ['customername', 'customer', 'accountname', 'account', 'clientname', 'client', 'company', 'name']
+const START_HEADERS = ['startdate', 'start', 'contractstart', 'contractstartdate', 'servicestart', 'servicestartdate']
+const END_HEADERS = ['enddate', 'end', 'contractend', 'contractenddate', 'serviceend', 'serviceenddate']
+const TCV_HEADERS = ['tcv', 'totalcontractvalue', 'contractvalue', 'value', 'amount']
+const BILLING_HEADERS = ['billingfrequency', 'billing', 'frequency', 'billingterms', 'invoicefrequency', 'billingcycle']
+const PRODUCT_HEADERS = ['product', 'productname', 'sku', 'plan']
+
+// Used when the export has no billing frequency column or the cell is blank
+const DEFAULT_BILLING_FREQUENCY: BillingFrequency = 'annual'
+
+/**
+ * Parse a contract export (CSV or Excel) with one row per contract.
+ * Returns null when the file does not have start date, end date and TCV
+ * columns, so callers can fall back to the monthly MRR formats.
+ */
+export async function parseContractFile(file: File): Promise<Contract[] | null> {
+  const rows = await readFileRows(file)
+  return isContractExport(rows) ? parseContractRows(rows) : null
+}
+
+export function isContractExport(rows: Record<string, unknown>[]): boolean {
+  if (rows.length === 0) return false
+
+  const headers = Object.keys(rows[0])
+  return Boolean(
+    findColumn(headers, START_HEADERS) &&
+    findColumn(headers, END_HEADERS) &&
+    findColumn(headers, TCV_HEADERS)
+  )
+}
+
+/**
+ * Convert raw contract rows into Contract records
+ */
+export function parseContractRows(rows: Record<string, unknown>[]): Contract[] {
+  if (rows.length === 0) {
+    throw new Error('No rows found in contract file')
+  }
+
+  const headers = Object.keys(rows[0])
+  const contractIdColumn = findColumn(headers, CONTRACT_ID_HEADERS)
+  const customerIdColumn = findColumn(headers, CUSTOMER_ID_HEADERS)
+  const customerNameColumn = findColumn(headers, CUSTOMER_NAME_HEADERS)
+  const startColumn = findColumn(headers, START_HEADERS)
+  const endColumn = findColumn(headers, END_HEADERS)
+  const tcvColumn = findColumn(headers, TCV_HEADERS)
+  const billingColumn = findColumn(headers, BILLING_HEADERS)
+  const productColumn = findColumn(headers, PRODUCT_HEADERS)
+
+  if (!customerNameColumn || !startColumn || !endColumn || !tcvColumn) {
+    throw new Error('Contract file needs "customer", "start_date", "end_date" and "tcv" columns')
+  }
+
+  const contracts: Contract[] = []
+
+  rows.forEach((row, index) => {
+    const line = index + 2
+    const customerName = String(row[customerNameColumn] ?? '').trim()
+    if (!customerName) return
+
+    const startDate = normalizeDate(row[startColumn])
+    const endDate = normalizeDate(row[endColumn], true)
+    if (!startDate || !endDate) {
+      throw new Error(`Row ${line}: invalid start or end date`)
+    }
+    if (endDate < startDate) {
+      throw new Error(`Row ${line}: end date is before start date`)
+    }
+
+    const tcv = parseAmount(row[tcvColumn])
+    if (tcv === null || tcv < 0) {
+      throw new Error(`Row ${line}: TCV must be a non-negative number`)
+    }
+
+    const billingFrequency = billingColumn
+      ? parseBillingFrequency(row[billingColumn])
+      : DEFAULT_BILLING_FREQUENCY
+    if (!billingFrequency) {
+      throw new Error(`Row ${line}: billing frequency must be monthly, quarterly, annual or upfront`)
+    }
+
+    const customerId = customerIdColumn && String(row[customerIdColumn] ?? '').trim()
+      ? String(row[customerIdColumn]).trim()
+      : customerName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+    const product = productColumn ? String(row[productColumn] ?? '').trim() : ''
+
+    contracts.push({
+      contractId: contractIdColumn && String(row[contractIdColumn] ?? '').trim()
+        ? String(row[contractIdColumn]).trim()
+        : `${customerId}-${line}`,
+      customerId,
+      customerName,
+      startDate,
+      endDate,
+      tcv,
+      billingFrequency,
+      ...(product ? { product } : {})
+    })
+  })
+
+  if (contracts.length === 0) {
+    throw new Error('No contracts found in file')
+  }
+
+  return contracts
+}
+
+function parseBillingFrequency(value: unknown): BillingFrequency | null {
+  const text = String(value ?? '').trim().toLowerCase()
+  if (!text) return DEFAULT_BILLING_FREQUENCY
+  if (/month/.test(text)) return 'monthly'
+  if (/quarter|qtr/.test(text)) return 'quarterly'
+  if (/annual|year/.test(text)) return 'annual'
+  if (/upfront|up-front|one[- ]?time|prepaid|full/.test(text)) return 'upfront'
+  return null
+}
@@ -39,7 +39,7 @@ export function validateCsv(
 ): ValidationResult {
   const {
     requiredColumns = ['month', 'mrr'],
-    optionalColumns = ['customers', 'new_mrr', 'expansion_mrr', 'contraction_mrr', 'churned_mrr'],
+    optionalColumns = ['customers', 'new_customers', 'churned_customers', 'new_mrr', 'reactivation_mrr', 'expansion_mrr', 'contraction_mrr', 'churned_mrr', 'sm_spend', 'net_burn'],
     allowExtraColumns = true
   } = options;
 
@@ -189,7 +189,7 @@ export function validateCsv(
     }
 
     // Validate optional numeric fields
-    const numericFields = ['customers', 'new_mrr', 'expansion_mrr', 'contraction_mrr', 'churned_mrr'];
+    const numericFields = ['customers', 'new_customers', 'churned_customers', 'new_mrr', 'reactivation_mrr', 'expansion_mrr', 'contraction_mrr', 'churned_mrr', 'sm_spend'];
     for (const field of numericFields) {
       if (row[field] !== undefined && row[field] !== null && row[field] !== '') {
         const value = Number(row[field]);
@@ -213,6 +213,21 @@ export function validateCsv(
       }
     }
 
+    // Net burn may be negative (cash-flow positive months)
+    if (row.net_burn !== undefined && row.net_burn !== null && row.net_burn !== '') {
+      const value = Number(row.net_burn);
+      if (isNaN(value)) {
+        rowErrors.push({
+          row: rowNumber,
+          column: 'net_burn',
+          message: 'net_burn must be a valid number',
+          severity: 'error'
+        });
+      } else {
+        processedRow.net_burn = value;
+      }
+    }
+
     // Validate customers specifically
     if (row.customers !== undefined && row.customers !== null && row.customers !== '') {
       const customerCount = Number(row.customers);
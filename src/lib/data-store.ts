@@ -1,22 +1,95 @@
-import { CustomerMonth, MonthlyMetrics } from '@/types'
+import {
+  Annotation,
+  Anomaly,
+  BenchmarkBand,
+  BenchmarkComparison,
+  CompanySettings,
+  ConcentrationMetrics,
+  Contract,
+  ContractRevenueMetrics,
+  CustomerMonth,
+  CustomerVersion,
+  CustomerValueMetrics,
+  EfficiencyMetrics,
+  ExpansionBreakdown,
+  FxRate,
+  GracePeriodAdjustment,
+  ImportTemplate,
+  MetricVersion,
+  MonthExplanation,
+  MonthlyMetrics,
+  MonthlyTotals,
+  MRRMovement,
+  ParetoPoint,
+  Restatement,
+  SegmentDimension,
+  SegmentFilter,
+  SpendMonth
+} from '@/types'
 import { SaaSMetricsCalculator } from '@/lib/calculations/metrics'
+import { GracePeriodAdjuster } from '@/lib/calculations/grace-period'
+import { EfficiencyCalculator } from '@/lib/calculations/efficiency'
+import { LifetimeValueCalculator } from '@/lib/calculations/ltv'
+import { RevenueConcentrationCalculator } from '@/lib/calculations/concentration'
+import { CurrencyConverter } from '@/lib/calculations/currency'
+import { SegmentCalculator } from '@/lib/calculations/segments'
+import { ProductCalculator } from '@/lib/calculations/products'
+import { ContractScheduler } from '@/lib/calculations/contracts'
+import { MovementExplainer } from '@/lib/calculations/movement-explainer'
+import { AnomalyDetector } from '@/lib/calculations/anomalies'
+import { BenchmarkCalculator } from '@/lib/calculations/benchmarks'
+import { RestatementCalculator } from '@/lib/calculations/restatements'
+import { DEFAULT_BENCHMARKS, DEFAULT_COMPANY_SETTINGS } from '@/lib/constants'
 
 const DATA_KEY = 'saasgrid_customer_data'
 const METRICS_KEY = 'saasgrid_metrics_data'
+const SETTINGS_KEY = 'saasgrid_company_settings'
+const SPEND_KEY = 'saasgrid_spend_data'
+const FX_RATES_KEY = 'saasgrid_fx_rates'
+const CONTRACTS_KEY = 'saasgrid_contracts'
+const ANNOTATIONS_KEY = 'saasgrid_annotations'
+const ANOMALIES_KEY = 'saasgrid_anomalies'
+const BENCHMARKS_KEY = 'saasgrid_benchmarks'
+const VERSIONS_KEY = 'saasgrid_metric_versions'
+const CUSTOMER_VERSIONS_KEY = 'saasgrid_customer_versions'
+const TEMPLATES_KEY = 'saasgrid_import_templates'
 
 export class DataStore {
-  // Save customer data to localStorage
-  static saveCustomerData(data: CustomerMonth[]): void {
+  // Save an uploaded file's customer data, with its anomaly flags and a metric version
+  static saveCustomerData(data: CustomerMonth[], fileName: string, templateName?: string): void {
     if (typeof window === 'undefined') return
     
     try {
-      localStorage.setItem(DATA_KEY, JSON.stringify(data))
+      // Rows without a currency column are billed in the reporting currency at the time of upload
+      const settings = this.getSettings()
+      const stamped = CurrencyConverter.stamp(data, settings.reportingCurrency)
+      localStorage.setItem(DATA_KEY, JSON.stringify(stamped))
       
-      // Calculate and save metrics
-      const metrics = SaaSMetricsCalculator.calculateMetrics(data)
-      localStorage.setItem(METRICS_KEY, JSON.stringify(metrics))
+      const { metrics, converted } = this.storeMetrics(stamped, settings)
       
-      console.log('📊 Data saved:', { customers: data.length, metrics: metrics.length })
+      // Anomaly flags belong to the upload, so settings and FX changes leave them alone
+      const anomalies = AnomalyDetector.detect(
+        metrics,
+        SaaSMetricsCalculator.buildMovementLedger(converted, settings),
+        { customerChange: settings.customerChangeThreshold }
+      )
+      localStorage.setItem(ANOMALIES_KEY, JSON.stringify(anomalies))
+      
+      // Each upload's totals are kept as a version so later restatements stay visible
+      const version: MetricVersion = {
+        uploadId: crypto.randomUUID(),
+        fileName,
+        uploadedAt: new Date().toISOString(),
+        ...(templateName ? { templateName } : {}),
+        months: metrics.map(metric => this.toTotals(metric))
+      }
+      localStorage.setItem(VERSIONS_KEY, JSON.stringify([...this.getMetricVersions(), version]))
+      
+      // ...and its customer rows, so past views recalculate with the current settings like the API does
+      const customerVersion: CustomerVersion = { uploadId: version.uploadId, uploadedAt: version.uploadedAt, rows: stamped }
+      localStorage.setItem(CUSTOMER_VERSIONS_KEY, JSON.stringify([...this.getCustomerVersions(), customerVersion]))
+      
+      console.log('📊 Data saved:', { customers: stamped.length, metrics: metrics.length, anomalies: anomalies.length })
     } catch (error) {
       console.error('Failed to save data:', error)
     }
@@ -35,6 +108,62 @@ export class DataStore {
     }
   }
 
+  // Monthly totals recorded by every upload, oldest first
+  static getMetricVersions(): MetricVersion[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(VERSIONS_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load metric versions:', error)
+      return []
+    }
+  }
+
+  // Customer rows recorded by every upload, oldest first
+  static getCustomerVersions(): CustomerVersion[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(CUSTOMER_VERSIONS_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load customer versions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Metrics as reported on the given date (YYYY-MM-DD), recalculated from that date's customer rows
+   * with the current settings and FX rates, as /api/metrics does. Uploads saved before customer rows
+   * were versioned only have their totals to replay.
+   */
+  static getMetricsAsOf(asOf: string): MonthlyMetrics[] {
+    const settings = this.getSettings()
+    const rows = RestatementCalculator.customerMonthsAsOf(this.getCustomerVersions(), asOf)
+    
+    if (rows.length === 0) {
+      return SaaSMetricsCalculator.calculateFromMonthlyTotals(
+        RestatementCalculator.asOf(this.getMetricVersions(), asOf),
+        settings
+      )
+    }
+    
+    const converted = CurrencyConverter.convert(
+      rows,
+      this.getFxRates(),
+      settings.reportingCurrency,
+      settings.fxConversion
+    ).data
+    return SaaSMetricsCalculator.calculateMetrics(converted, settings)
+  }
+
+  // Months whose figures changed in a later upload
+  static getRestatements(): Restatement[] {
+    return RestatementCalculator.diff(this.getMetricVersions())
+  }
+
   // Load calculated metrics from localStorage
   static getMetrics(): MonthlyMetrics[] {
     if (typeof window === 'undefined') return []
@@ -48,6 +177,361 @@ export class DataStore {
     }
   }
 
+  // Customer data converted into the reporting currency
+  static getReportingData(): CustomerMonth[] {
+    const settings = this.getSettings()
+    return CurrencyConverter.convert(
+      this.getCustomerData(),
+      this.getFxRates(),
+      settings.reportingCurrency,
+      settings.fxConversion
+    ).data
+  }
+
+  // Billing currencies that have no FX rate and are left out of the metrics
+  static getMissingFxCurrencies(): string[] {
+    const settings = this.getSettings()
+    return CurrencyConverter.convert(
+      this.getCustomerData(),
+      this.getFxRates(),
+      settings.reportingCurrency,
+      settings.fxConversion
+    ).missingCurrencies
+  }
+
+  // Distinct billing currencies in the uploaded data
+  static getCurrencies(): string[] {
+    return CurrencyConverter.currencies(this.getCustomerData(), this.getSettings().reportingCurrency)
+  }
+
+  // Metrics for the customers billed in one currency, in that currency
+  static getMetricsInCurrency(currency: string, segment: SegmentFilter | null = null): MonthlyMetrics[] {
+    const settings = this.getSettings()
+    const rows = CurrencyConverter.filterByCurrency(this.getCustomerData(), currency, settings.reportingCurrency)
+    return SaaSMetricsCalculator.calculateMetrics(segment ? SegmentCalculator.filter(rows, segment) : rows, settings)
+  }
+
+  // Metrics for the customers in one segment, in the reporting currency
+  static getSegmentMetrics(segment: SegmentFilter): MonthlyMetrics[] {
+    return SaaSMetricsCalculator.calculateMetrics(
+      SegmentCalculator.filter(this.getReportingData(), segment),
+      this.getSettings()
+    )
+  }
+
+  // Attributes present in the uploaded data (plan, segment, region, sales owner)
+  static getSegmentDimensions(): SegmentDimension[] {
+    return SegmentCalculator.dimensions(this.getCustomerData())
+  }
+
+  static getSegmentValues(dimension: SegmentDimension): string[] {
+    return SegmentCalculator.values(this.getCustomerData(), dimension)
+  }
+
+  // Build the per-customer movement ledger behind the stored metrics
+  static getMovementLedger(segment: SegmentFilter | null = null): MRRMovement[] {
+    const data = this.getReportingData()
+    return SaaSMetricsCalculator.buildMovementLedger(
+      segment ? SegmentCalculator.filter(data, segment) : data,
+      this.getSettings()
+    )
+  }
+
+  // Top customers behind each movement type in one month
+  static getMonthExplanation(month: string, segment: SegmentFilter | null = null): MonthExplanation {
+    return MovementExplainer.explain(this.getMovementLedger(segment), month)
+  }
+
+  // Month annotations, oldest month first
+  static getAnnotations(): Annotation[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(ANNOTATIONS_KEY)
+      const annotations: Annotation[] = data ? JSON.parse(data) : []
+      return annotations.sort((a, b) => a.month.localeCompare(b.month) || a.createdAt.localeCompare(b.createdAt))
+    } catch (error) {
+      console.error('Failed to load annotations:', error)
+      return []
+    }
+  }
+
+  // Add an annotation, or replace the one with the same id
+  static saveAnnotation(annotation: Annotation): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      const others = this.getAnnotations().filter(a => a.id !== annotation.id)
+      localStorage.setItem(ANNOTATIONS_KEY, JSON.stringify([...others, annotation]))
+    } catch (error) {
+      console.error('Failed to save annotation:', error)
+    }
+  }
+
+  static deleteAnnotation(id: string): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      const remaining = this.getAnnotations().filter(a => a.id !== id)
+      localStorage.setItem(ANNOTATIONS_KEY, JSON.stringify(remaining))
+    } catch (error) {
+      console.error('Failed to delete annotation:', error)
+    }
+  }
+
+  // Anomalies flagged when the current data was uploaded
+  static getAnomalies(): Anomaly[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(ANOMALIES_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load anomalies:', error)
+      return []
+    }
+  }
+
+  // Saved import templates, newest first
+  static getImportTemplates(): ImportTemplate[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(TEMPLATES_KEY)
+      const templates: ImportTemplate[] = data ? JSON.parse(data) : []
+      return templates.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    } catch (error) {
+      console.error('Failed to load import templates:', error)
+      return []
+    }
+  }
+
+  // Add a template; one with the same name replaces the old one
+  static saveImportTemplate(template: ImportTemplate): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      const others = this.getImportTemplates().filter(t => t.id !== template.id && t.name !== template.name)
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify([template, ...others]))
+    } catch (error) {
+      console.error('Failed to save import template:', error)
+    }
+  }
+
+  static deleteImportTemplate(id: string): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      const remaining = this.getImportTemplates().filter(t => t.id !== id)
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(remaining))
+    } catch (error) {
+      console.error('Failed to delete import template:', error)
+    }
+  }
+
+  // Loaded peer benchmark dataset, or the built-in one
+  static getBenchmarks(): BenchmarkBand[] {
+    if (typeof window === 'undefined') return DEFAULT_BENCHMARKS
+    
+    try {
+      const data = localStorage.getItem(BENCHMARKS_KEY)
+      return data ? JSON.parse(data) : DEFAULT_BENCHMARKS
+    } catch (error) {
+      console.error('Failed to load benchmarks:', error)
+      return DEFAULT_BENCHMARKS
+    }
+  }
+
+  static hasCustomBenchmarks(): boolean {
+    if (typeof window === 'undefined') return false
+    return localStorage.getItem(BENCHMARKS_KEY) !== null
+  }
+
+  // Store a benchmark dataset; an empty list restores the built-in one
+  static saveBenchmarks(bands: BenchmarkBand[]): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      if (bands.length === 0) {
+        localStorage.removeItem(BENCHMARKS_KEY)
+      } else {
+        localStorage.setItem(BENCHMARKS_KEY, JSON.stringify(bands))
+      }
+    } catch (error) {
+      console.error('Failed to save benchmarks:', error)
+    }
+  }
+
+  // Latest month ranked against the peer band matching its ARR
+  static getBenchmarkComparison(): BenchmarkComparison | null {
+    const metrics = this.getMetrics()
+    if (metrics.length === 0) return null
+    return BenchmarkCalculator.compare(metrics[metrics.length - 1], this.getBenchmarks())
+  }
+
+  // Load company settings from localStorage
+  static getSettings(): CompanySettings {
+    if (typeof window === 'undefined') return DEFAULT_COMPANY_SETTINGS
+    
+    try {
+      const data = localStorage.getItem(SETTINGS_KEY)
+      return data ? { ...DEFAULT_COMPANY_SETTINGS, ...JSON.parse(data) } : DEFAULT_COMPANY_SETTINGS
+    } catch (error) {
+      console.error('Failed to load settings:', error)
+      return DEFAULT_COMPANY_SETTINGS
+    }
+  }
+
+  // Save company settings and recalculate metrics with them
+  static saveSettings(settings: CompanySettings): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      // Rows saved before currencies were stamped are in the old reporting currency; label them first
+      const data = CurrencyConverter.stamp(this.getCustomerData(), this.getSettings().reportingCurrency)
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+      
+      // Not an upload, so no anomaly flags or metric version are recorded
+      if (data.length > 0) {
+        localStorage.setItem(DATA_KEY, JSON.stringify(data))
+        this.storeMetrics(data, settings)
+      }
+    } catch (error) {
+      console.error('Failed to save settings:', error)
+    }
+  }
+
+  // Customers whose gaps were bridged by the churn grace period
+  static getGracePeriodAdjustments(): GracePeriodAdjustment[] {
+    return GracePeriodAdjuster.apply(
+      this.getReportingData(),
+      this.getSettings().churnGracePeriodMonths
+    ).adjustments
+  }
+
+  // Load sales & marketing spend from localStorage
+  static getSpend(): SpendMonth[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(SPEND_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load spend data:', error)
+      return []
+    }
+  }
+
+  // Save sales & marketing spend, one entry per month
+  static saveSpend(spend: SpendMonth[]): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      const sorted = [...spend].sort((a, b) => a.month.localeCompare(b.month))
+      localStorage.setItem(SPEND_KEY, JSON.stringify(sorted))
+    } catch (error) {
+      console.error('Failed to save spend data:', error)
+    }
+  }
+
+  // Load the FX rate table from localStorage
+  static getFxRates(): FxRate[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(FX_RATES_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load FX rates:', error)
+      return []
+    }
+  }
+
+  // Replace the FX rate table and recalculate metrics with it
+  static saveFxRates(rates: FxRate[]): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      localStorage.setItem(FX_RATES_KEY, JSON.stringify(rates))
+      
+      const data = this.getCustomerData()
+      if (data.length > 0) {
+        this.storeMetrics(data, this.getSettings())
+      }
+    } catch (error) {
+      console.error('Failed to save FX rates:', error)
+    }
+  }
+
+  // Magic Number, CAC, payback and burn multiple from stored metrics and spend
+  static getEfficiencyMetrics(): EfficiencyMetrics[] {
+    return EfficiencyCalculator.calculate(this.getMetrics(), this.getSpend())
+  }
+
+  // ARPA, lifetime, LTV and LTV:CAC from stored metrics, spend and margin setting
+  static getCustomerValueMetrics(): CustomerValueMetrics[] {
+    return LifetimeValueCalculator.calculate(
+      this.getMetrics(),
+      this.getEfficiencyMetrics(),
+      this.getSettings().grossMarginPercent
+    )
+  }
+
+  // Top-customer share, Herfindahl index and MRR bands per month
+  static getConcentrationMetrics(): ConcentrationMetrics[] {
+    return RevenueConcentrationCalculator.calculate(this.getReportingData())
+  }
+
+  // Cumulative MRR share by customer rank for the latest month
+  static getParetoCurve(): ParetoPoint[] {
+    return RevenueConcentrationCalculator.paretoCurve(this.getReportingData())
+  }
+
+  // MRR, NRR, churn and every other metric per product line
+  static getProductMetrics(): Record<string, MonthlyMetrics[]> {
+    return ProductCalculator.calculateByProduct(this.getReportingData(), this.getSettings())
+  }
+
+  // Cross-sell, up-sell and price-increase expansion per month
+  static getExpansionBreakdown(): ExpansionBreakdown[] {
+    return ProductCalculator.expansionBreakdown(this.getReportingData())
+  }
+
+  // Contracts behind the customer data, when it was uploaded as a contract export
+  static getContracts(): Contract[] {
+    if (typeof window === 'undefined') return []
+    
+    try {
+      const data = localStorage.getItem(CONTRACTS_KEY)
+      return data ? JSON.parse(data) : []
+    } catch (error) {
+      console.error('Failed to load contracts:', error)
+      return []
+    }
+  }
+
+  // An empty list clears contracts left over from an earlier contract upload
+  static saveContracts(contracts: Contract[]): void {
+    if (typeof window === 'undefined') return
+    
+    try {
+      if (contracts.length === 0) {
+        localStorage.removeItem(CONTRACTS_KEY)
+      } else {
+        localStorage.setItem(CONTRACTS_KEY, JSON.stringify(contracts))
+      }
+    } catch (error) {
+      console.error('Failed to save contracts:', error)
+    }
+  }
+
+  // Bookings, billings, revenue, deferred revenue and RPO through the latest data month
+  static getContractRevenue(): ContractRevenueMetrics[] {
+    const months = this.getCustomerData().map(d => d.month).sort()
+    if (months.length === 0) return []
+    return ContractScheduler.schedule(this.getContracts(), months[months.length - 1])
+  }
+
   // Check if we have any data
   static hasData(): boolean {
     if (typeof window === 'undefined') return false
@@ -63,6 +547,12 @@ export class DataStore {
     try {
       localStorage.removeItem(DATA_KEY)
       localStorage.removeItem(METRICS_KEY)
+      localStorage.removeItem(SPEND_KEY)
+      localStorage.removeItem(CONTRACTS_KEY)
+      localStorage.removeItem(ANOMALIES_KEY)
+      localStorage.removeItem(VERSIONS_KEY)
+      localStorage.removeItem(CUSTOMER_VERSIONS_KEY)
+      // FX rates and benchmarks are reference data; annotations and import templates are user-written; all survive a data reset
       console.log('📊 Data cleared')
     } catch (error) {
       console.error('Failed to clear data:', error)
@@ -82,7 +572,7 @@ export class DataStore {
     const uniqueCustomers = new Set(data.map(d => d.customerId)).size
     const months = data.map(d => d.month).sort()
     const dateRange = `${months[0]} - ${months[months.length - 1]}`
-    const totalMRR = data.reduce((sum, d) => sum + d.mrr, 0)
+    const totalMRR = this.getReportingData().reduce((sum, d) => sum + d.mrr, 0)
 
     return {
       totalRecords: data.length,
@@ -91,4 +581,37 @@ export class DataStore {
       totalMRR
     }
   }
+
+  // Calculate and save metrics in the reporting currency; returns the converted rows behind them
+  private static storeMetrics(
+    data: CustomerMonth[],
+    settings: CompanySettings
+  ): { metrics: MonthlyMetrics[]; converted: CustomerMonth[] } {
+    const converted = CurrencyConverter.convert(
+      data,
+      this.getFxRates(),
+      settings.reportingCurrency,
+      settings.fxConversion
+    ).data
+    const metrics = SaaSMetricsCalculator.calculateMetrics(converted, settings)
+    localStorage.setItem(METRICS_KEY, JSON.stringify(metrics))
+    
+    return { metrics, converted }
+  }
+
+  // The movement totals a metric version keeps for one month
+  private static toTotals(metric: MonthlyMetrics): MonthlyTotals {
+    return {
+      month: metric.month,
+      totalMRR: metric.totalMRR,
+      customerCount: metric.customerCount,
+      newCustomers: metric.newCustomers,
+      newMRR: metric.newMRR,
+      reactivationMRR: metric.reactivationMRR,
+      expansionMRR: metric.expansionMRR,
+      contractionMRR: metric.contractionMRR,
+      churnedMRR: metric.churnedMRR,
+      churnedCustomers: metric.churnedCustomers
+    }
+  }
 }
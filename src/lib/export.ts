@@ -0,0 +1,36 @@
+import Papa from 'papaparse'
+import { MRRMovement } from '@/types'
+
+/**
+ * Serialize the MRR movement ledger to CSV for auditing
+ */
+export function movementLedgerToCsv(ledger: MRRMovement[]): string {
+  return Papa.unparse(
+    ledger.map(movement => ({
+      month: movement.month,
+      customer_id: movement.customerId,
+      customer_name: movement.customerName,
+      movement: movement.type,
+      previous_mrr: movement.previousMRR,
+      current_mrr: movement.currentMRR,
+      change: movement.change,
+    }))
+  )
+}
+
+/**
+ * Trigger a browser download for CSV content
+ */
+export function downloadCsv(fileName: string, csv: string): void {
+  if (typeof window === 'undefined') return
+
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -1,7 +1,68 @@
 import * as XLSX from 'xlsx'
 import Papa from 'papaparse'
-import { CustomerMonth } from '@/types'
+import { format, isValid, parse } from 'date-fns'
+import {
+  ColumnMapping,
+  CustomerAttributes,
+  CustomerMonth,
+  IgnoredRow,
+  IgnoredRowReason,
+  ImportTemplate,
+  MappingDetection,
+  ParseProgress,
+  SegmentDimension,
+  SheetData,
+  SheetReadOptions,
+  SheetSummary,
+  StreamingParseResult,
+  UploadInspection,
+  ValueUnit
+} from '@/types'
 import { DebugHelper } from './debug-helper'
+import { PERFORMANCE_THRESHOLDS, PREVIEW_ROWS } from './constants'
+import { normalizeCurrency } from './parse-helpers'
+
+// Optional billing currency column (ISO 4217 code per row)
+const CURRENCY_COLUMNS = ['currency', 'Currency', 'CURRENCY', 'currency_code', 'Currency Code']
+
+function readCurrency(row: Record<string, unknown>): string | undefined {
+  const column = CURRENCY_COLUMNS.find(name => row[name] !== undefined)
+  return column ? normalizeCurrency(row[column]) : undefined
+}
+
+// Optional product line and quantity columns; several rows per customer-month are allowed
+const PRODUCT_COLUMNS = ['product', 'Product', 'PRODUCT', 'product_name', 'Product Name', 'line_item', 'Line Item', 'sku', 'SKU']
+const QUANTITY_COLUMNS = ['quantity', 'Quantity', 'QUANTITY', 'qty', 'Qty', 'seats', 'Seats', 'units', 'Units']
+
+function readProduct(row: Record<string, unknown>): string | undefined {
+  const column = PRODUCT_COLUMNS.find(name => !isEmpty(row[name]))
+  return column ? String(row[column]).trim() : undefined
+}
+
+function readQuantity(row: Record<string, unknown>): number | undefined {
+  const column = QUANTITY_COLUMNS.find(name => !isEmpty(row[name]))
+  const quantity = column ? parseFloat(String(row[column])) : NaN
+  return isNaN(quantity) || quantity < 0 ? undefined : quantity
+}
+
+// Optional descriptive columns kept as customer attributes for segmentation
+const ATTRIBUTE_COLUMNS: Record<SegmentDimension, string[]> = {
+  plan: ['plan', 'Plan', 'PLAN', 'plan_name', 'Plan Name', 'tier', 'Tier'],
+  segment: ['segment', 'Segment', 'SEGMENT', 'customer_segment', 'Customer Segment'],
+  region: ['region', 'Region', 'REGION', 'geo', 'Geo', 'country', 'Country'],
+  salesOwner: ['salesOwner', 'sales_owner', 'Sales Owner', 'owner', 'Owner', 'account_owner', 'Account Owner'],
+}
+
+function readAttributes(row: Record<string, unknown>): CustomerAttributes | undefined {
+  const attributes: CustomerAttributes = {}
+
+  for (const [dimension, columns] of Object.entries(ATTRIBUTE_COLUMNS) as [SegmentDimension, string[]][]) {
+    const column = columns.find(name => !isEmpty(row[name]))
+    if (column) attributes[dimension] = String(row[column]).trim()
+  }
+
+  return Object.keys(attributes).length > 0 ? attributes : undefined
+}
 
 // Format detection result interface
 interface FormatDetectionResult {
@@ -98,16 +159,6 @@ function detectDataFormat(headers: string[]): FormatDetectionResult {
     }
   }
   
-  // TEMPORARY: Super aggressive fallback for testing
-  if (result.format === 'unknown' && cleanHeaders.length >= 10) {
-    console.log('🔍 DEBUG: TEMP - Forcing wide format for file with many columns')
-    result.format = 'wide'
-    result.confidence = 0.5
-    result.monthColumns = cleanHeaders.slice(1) // All columns except first as months
-    result.customerColumns = [cleanHeaders[0]] // First column as customer
-    result.warnings.push('Forced wide format detection for testing')
-  }
-  
   console.log('🔍 DEBUG: Final detection result:', result)
   return result
 }
@@ -132,18 +183,19 @@ function findCustomerColumns(headers: string[]): string[] {
   return matchingColumns
 }
 
+// Header shapes recognised as months
+const MONTH_HEADER_PATTERNS = [
+  /^\d{4}-\d{1,2}$/,                    // 2023-01, 2023-1
+  /^\d{1,2}\/\d{2,4}$/,                 // 1/23, 01/2023
+  /^[A-Za-z]{3}\/\d{2,4}$/,             // Jan/23, Jan/2023
+  /^[A-Za-z]{3}-\d{2,4}$/,              // Jan-23, Jan-2023
+  /^[A-Za-z]{3}\s+\d{2,4}$/,            // Jan 2023
+  /^[A-Za-z]{3,9}\s+\d{4}$/,            // January 2023
+  /^Q[1-4]\s+\d{4}$/,                   // Q1 2023
+]
+
 // Find month-related columns with pattern matching
 function findMonthColumns(headers: string[]): string[] {
-  const monthPatterns = [
-    /^\d{4}-\d{1,2}$/,                    // 2023-01, 2023-1
-    /^\d{1,2}\/\d{2,4}$/,                 // 1/23, 01/2023
-    /^[A-Za-z]{3}\/\d{2,4}$/,             // Jan/23, Jan/2023
-    /^[A-Za-z]{3}-\d{2,4}$/,              // Jan-23, Jan-2023
-    /^[A-Za-z]{3}\s+\d{2,4}$/,            // Jan 2023
-    /^[A-Za-z]{3,9}\s+\d{4}$/,            // January 2023
-    /^Q[1-4]\s+\d{4}$/,                   // Q1 2023
-  ]
-  
   const monthColumns: string[] = []
   
   // First, check for Excel serial numbers (NEW FIX)
@@ -178,7 +230,7 @@ function findMonthColumns(headers: string[]): string[] {
     // Skip empty headers
     if (!cleaned) continue
     
-    const isMonth = monthPatterns.some(pattern => pattern.test(cleaned))
+    const isMonth = MONTH_HEADER_PATTERNS.some(pattern => pattern.test(cleaned))
     
     if (isMonth) {
       try {
@@ -212,12 +264,12 @@ function convertExcelSerial(serialStr: string): string {
     throw new Error(`Invalid Excel serial number: ${serialStr}`)
   }
   
-  // Excel epoch starts at December 30, 1899
-  const excelEpoch = new Date(1899, 11, 30)
-  const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000)
+  // Excel epoch starts at December 30, 1899; UTC so daylight saving cannot shift the 1st into the month before
+  const excelEpoch = Date.UTC(1899, 11, 30)
+  const date = new Date(excelEpoch + serial * 24 * 60 * 60 * 1000)
   
-  const year = date.getFullYear()
-  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const year = date.getUTCFullYear()
+  const month = (date.getUTCMonth() + 1).toString().padStart(2, '0')
   
   console.log(`🔍 DEBUG: Converted Excel serial ${serial} to ${year}-${month}`)
   return `${year}-${month}`
@@ -343,308 +395,918 @@ function normalizeYear(year: string): string {
   throw new Error(`Invalid year format: ${year}`)
 }
 
-export async function parseSpreadsheet(file: File): Promise<CustomerMonth[]> {
-  console.log('🔍 DEBUG: Starting parseSpreadsheet with file:', file.name, 'size:', file.size)
+// Long-format column names recognised without user input
+const LONG_ID_COLUMNS = ['customerId', 'Customer ID', 'customer_id', 'id']
+const LONG_NAME_COLUMNS = ['customerName', 'Customer Name', 'customer_name', 'name']
+const LONG_MONTH_COLUMNS = ['month', 'Month', 'date', 'Date']
+const LONG_VALUE_COLUMNS = ['mrr', 'MRR', 'revenue', 'Revenue']
+
+// Summary rows exported alongside customers, never customers themselves
+const TOTAL_ROW_PATTERN = /^(grand\s+|sub[\s-]?)?totals?\b/i
+
+// Notes under (or inside) a table: "* Excludes services", "Source: ERP", "(1) Restated"
+const FOOTNOTE_PATTERN = /^(\*|†|‡|notes?\b|source\b|\(\d+\)|\[\d+\])/i
+
+// Rows searched for the header; report titles and notes above a table are rarely longer
+const HEADER_SCAN_ROWS = 20
+
+// Row keys (never headers) recording which worksheet and file row a row came from
+const SOURCE_SHEET_KEY = '__sheet'
+const SOURCE_ROW_KEY = '__row'
+
+// Rows shown per sheet when listing a workbook
+const SHEET_PREVIEW_ROWS = 5
+
+// Bytes of a large CSV read for a preview; enough for PREVIEW_ROWS of a wide export
+const PREVIEW_BYTES = 2 * 1024 * 1024
+
+// CSV bytes parsed per chunk in a streamed parse, and workbook rows between progress reports
+const CSV_CHUNK_BYTES = 1024 * 1024
+const WORKBOOK_PROGRESS_ROWS = 5000
+
+// Multiplier turning a file's figures into currency units
+const VALUE_UNIT_MULTIPLIERS: Record<ValueUnit, number> = {
+  units: 1,
+  thousands: 1000,
+  millions: 1000000
+}
+
+// Month header or value read with the mapping's date-fns pattern, or recognised automatically
+function parseMappedMonth(value: unknown, mapping: ColumnMapping): string {
+  if (!mapping.monthHeaderFormat || typeof value !== 'string') {
+    return mapping.layout === 'wide' ? parseMonthHeader(String(value)) : formatMonth(value)
+  }
   
-  const extension = file.name.split('.').pop()?.toLowerCase()
-  console.log('🔍 DEBUG: File extension detected:', extension)
+  const date = parse(value.trim(), mapping.monthHeaderFormat, new Date(2000, 0, 1))
+  if (!isValid(date)) {
+    throw new Error(`"${value}" does not match month format ${mapping.monthHeaderFormat}`)
+  }
+  return format(date, 'yyyy-MM')
+}
+
+// Stricter than parsing alone, which accepts anything Date can read (e.g. "Region 2")
+function isMonthHeader(header: string, mapping: ColumnMapping): boolean {
+  const cleaned = header.trim()
+  const serial = parseInt(cleaned)
+  const looksLikeMonth = mapping.monthHeaderFormat
+    || MONTH_HEADER_PATTERNS.some(pattern => pattern.test(cleaned))
+    || (String(serial) === cleaned && serial >= 36526 && serial <= 47482)
+  if (!looksLikeMonth) return false
   
   try {
-    if (extension === 'csv') {
-      console.log('🔍 DEBUG: Routing to CSV parser')
-      return parseCSV(file)
-    } else if (extension === 'xlsx' || extension === 'xls') {
-      console.log('🔍 DEBUG: Routing to Excel parser')
-      return parseExcel(file)
-    } else {
-      throw new Error('Unsupported file format')
+    parseMappedMonth(cleaned, { ...mapping, layout: 'wide' })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Without named sheets, the best-scoring sheet of a workbook is used
+export async function parseSpreadsheet(file: File, options: SheetReadOptions = {}): Promise<CustomerMonth[]> {
+  const best = options.sheetNames?.length ? null : bestSheet(await listSheets(file))
+  const sheet = await readSheet(file, best ? { ...options, sheetNames: [best.name] } : options)
+  const detection = detectColumnMapping(sheet)
+  
+  if (detection.confidence === 0) {
+    throw new DataFormatError('Unable to detect data format', {
+      suggestions: [
+        'For long format: Include columns like customerId, customerName, month, mrr',
+        'For wide format: Include customer names and month headers like Jan/23, Feb/23'
+      ]
+    })
+  }
+  
+  const result = applyColumnMapping(sheet, detection.mapping)
+  
+  const validation = DebugHelper.validateSaaSData(result)
+  if (!validation.isValid) {
+    console.error('❌ Data validation failed:', validation.issues)
+    console.warn('💡 Recommendations:', validation.recommendations)
+  }
+  
+  return result
+}
+
+/**
+ * Read a CSV file, or Excel worksheets (the first unless named), into header-keyed rows.
+ * Several worksheets, such as one per year, are stacked under the union of their headers.
+ * With maxRows only the start of the file is read, so large files can be previewed.
+ */
+export async function readSheet(file: File, options: SheetReadOptions = {}): Promise<SheetData> {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  
+  if (extension === 'csv') {
+    const sliced = options.maxRows !== undefined && file.size > PREVIEW_BYTES
+    let text = sliced ? await file.slice(0, PREVIEW_BYTES).text() : await file.text()
+    // The slice can end mid-row; keep whole lines only
+    if (sliced) text = text.slice(0, text.lastIndexOf('\n') + 1)
+    
+    // Blank lines are kept so row numbers match the file
+    const results = Papa.parse<unknown[]>(text, { skipEmptyLines: false, preview: options.maxRows ?? 0 })
+    if (results.errors.length > 0) {
+      throw new Error(`CSV parsing errors: ${results.errors[0].message}`)
     }
-  } catch (error) {
-    console.error('🔍 DEBUG: Error in parseSpreadsheet:', error)
-    throw error
+    const sheet = toSheetData(results.data, options.headerRow)
+    return sliced || results.meta.truncated ? { ...sheet, truncated: true } : sheet
+  }
+  
+  if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = await readWorkbook(file, options.maxRows)
+    const sheetNames = chosenSheets(workbook, options)
+    const sheets = sheetNames.map(name => {
+      const rows = sheetRows(workbook, name)
+      DebugHelper.logExcelStructure(rows, `Raw Excel Data (${name})`)
+      try {
+        return toSheetData(rows, options.headerRow, name)
+      } catch (error) {
+        throw sheetNames.length > 1 && error instanceof Error ? new DataFormatError(`${name}: ${error.message}`) : error
+      }
+    })
+    const truncated = sheetNames.some(name => Boolean(workbook.Sheets[name]['!fullref']))
+    return { ...stackSheets(sheets, sheetNames), sheetNames, ...(truncated ? { truncated } : {}) }
   }
+  
+  throw new Error('Unsupported file format')
 }
 
-async function parseCSV(file: File): Promise<CustomerMonth[]> {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-      complete: (results) => {
-        if (results.errors.length > 0) {
-          reject(new Error(`CSV parsing errors: ${results.errors[0].message}`))
-        } else {
+/**
+ * Parse a whole file with a confirmed mapping, pushing rows through a streaming parser.
+ * CSV files are read in chunks, so only the current chunk and the combined records are
+ * held; workbooks have to be unzipped whole first. Meant to run inside a Web Worker.
+ */
+export async function streamSpreadsheet(
+  file: File,
+  mapping: ColumnMapping,
+  options: SheetReadOptions,
+  onProgress: (progress: ParseProgress) => void
+): Promise<StreamingParseResult> {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  const parser = createStreamingParser(mapping, options)
+  let rowsRead = 0
+  
+  if (extension === 'csv') {
+    await new Promise<void>((resolve, reject) => {
+      Papa.parse<unknown[], File>(file, {
+        skipEmptyLines: false,
+        chunkSize: CSV_CHUNK_BYTES,
+        chunk: (results, papa) => {
           try {
-            const transformed = transformData(results.data as Record<string, unknown>[])
-            resolve(transformed)
+            if (results.errors.length > 0) {
+              throw new Error(`CSV parsing errors: ${results.errors[0].message}`)
+            }
+            results.data.forEach(parser.push)
+            rowsRead += results.data.length
+            onProgress({ rowsRead, fraction: Math.min(1, results.meta.cursor / Math.max(1, file.size)) })
           } catch (error) {
+            papa.abort()
             reject(error)
           }
-        }
-      },
-      error: (error) => reject(error)
+        },
+        complete: () => resolve(),
+        error: error => reject(error)
+      })
     })
-  })
-}
-
-async function parseExcel(file: File): Promise<CustomerMonth[]> {
-  console.log('🔍 DEBUG: Starting Excel parsing for file:', file.name)
+    return parser.finish()
+  }
   
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
+  if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = await readWorkbook(file)
+    const sheetNames = chosenSheets(workbook, options)
+    const totalRows = sheetNames.reduce((sum, name) => sum + sheetRowCount(workbook, name), 0)
     
-    reader.onload = (e) => {
-      try {
-        console.log('🔍 DEBUG: FileReader loaded, processing Excel data')
-        const data = new Uint8Array(e.target?.result as ArrayBuffer)
-        const workbook = XLSX.read(data, { type: 'array' })
-        
-        console.log('🔍 DEBUG: Excel workbook loaded, sheets:', workbook.SheetNames)
-        
-        const sheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[sheetName]
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 })
-        
-        console.log('🔍 DEBUG: Excel sheet converted to JSON, rows:', jsonData.length)
-        
-        // Debug the raw Excel structure
-        DebugHelper.logExcelStructure(jsonData as unknown[][], 'Raw Excel Data')
-        
-        // Transform to expected format
-        const transformed = transformExcelData(jsonData as unknown[][])
-        
-        // Debug the final results
-        DebugHelper.logCustomerMonthData(transformed, 'Final Parsed Results')
-        
-        // Validate the data quality
-        const validation = DebugHelper.validateSaaSData(transformed)
-        if (!validation.isValid) {
-          console.error('❌ Data validation failed:', validation.issues)
-          console.warn('💡 Recommendations:', validation.recommendations)
+    for (const name of sheetNames) {
+      parser.startSheet(name)
+      for (const row of sheetRows(workbook, name)) {
+        parser.push(row ?? [])
+        if (++rowsRead % WORKBOOK_PROGRESS_ROWS === 0) {
+          onProgress({ rowsRead, fraction: rowsRead / Math.max(1, totalRows) })
         }
-        
-        resolve(transformed)
-      } catch (error) {
-        console.error('🔍 DEBUG: Error in Excel parsing:', error)
-        reject(error)
       }
     }
+    onProgress({ rowsRead, fraction: 1 })
+    return parser.finish()
+  }
+  
+  throw new Error('Unsupported file format')
+}
+
+// Every worksheet with a preview and how well its layout was recognised; empty for CSV files
+export async function listSheets(file: File): Promise<SheetSummary[]> {
+  if (!/\.(xlsx|xls)$/i.test(file.name)) return []
+  
+  const workbook = await readWorkbook(file, PREVIEW_ROWS)
+  return workbook.SheetNames.map(name => {
+    const rows = sheetRows(workbook, name)
+    let detection: MappingDetection | null = null
+    try {
+      detection = detectColumnMapping(toSheetData(rows))
+    } catch {
+      // Fewer than two rows: nothing to import from this sheet
+    }
     
-    reader.onerror = () => reject(new Error('Failed to read file'))
-    reader.readAsArrayBuffer(file)
+    return {
+      name,
+      rowCount: sheetRowCount(workbook, name),
+      columnCount: Math.max(0, ...rows.map(row => row?.length ?? 0)),
+      preview: rows.filter(row => nonEmptyCells(row).length > 0).slice(0, SHEET_PREVIEW_ROWS),
+      confidence: detection?.confidence ?? 0,
+      layout: detection && detection.confidence > 0 ? detection.mapping.layout : null
+    }
   })
 }
 
-// Main data transformation dispatcher with format detection
-function transformData(data: Record<string, unknown>[]): CustomerMonth[] {
-  console.log('🔍 DEBUG: transformData called with', data.length, 'rows')
+// Highest detection confidence, earliest sheet on ties; null when nothing was recognised
+export function bestSheet(sheets: SheetSummary[]): SheetSummary | null {
+  return sheets.reduce<SheetSummary | null>(
+    (best, sheet) => sheet.confidence > (best?.confidence ?? 0) ? sheet : best,
+    null
+  )
+}
+
+// Row-limited workbooks per file and row limit, so the reads behind one upload's previews unzip it once
+const previewWorkbooks = new WeakMap<File, Map<number, Promise<XLSX.WorkBook>>>()
+
+// Cells past maxRows are skipped while parsing, which keeps previews of large workbooks fast
+async function readWorkbook(file: File, maxRows?: number): Promise<XLSX.WorkBook> {
+  if (!maxRows) {
+    return XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' })
+  }
   
-  if (data.length === 0) {
-    throw new DataFormatError('No data to process', {
-      suggestions: ['Check that your file contains data rows below headers']
+  const byRows = previewWorkbooks.get(file) ?? new Map<number, Promise<XLSX.WorkBook>>()
+  previewWorkbooks.set(file, byRows)
+  if (!byRows.has(maxRows)) {
+    byRows.set(maxRows, file.arrayBuffer().then(buffer => XLSX.read(new Uint8Array(buffer), { type: 'array', sheetRows: maxRows })))
+  }
+  return byRows.get(maxRows)!
+}
+
+// File rows in the sheet, including any a row-limited read skipped (those leave a !fullref)
+function sheetRowCount(workbook: XLSX.WorkBook, name: string): number {
+  const sheet = workbook.Sheets[name]
+  const ref = sheet['!fullref'] ?? sheet['!ref']
+  return ref ? XLSX.utils.decode_range(ref).e.r + 1 : 0
+}
+
+// The named sheets, or the first one
+function chosenSheets(workbook: XLSX.WorkBook, options: SheetReadOptions): string[] {
+  const sheetNames = options.sheetNames?.length ? options.sheetNames : workbook.SheetNames.slice(0, 1)
+  const missing = sheetNames.filter(name => !workbook.Sheets[name])
+  if (missing.length > 0) {
+    throw new DataFormatError(`Sheet not found: ${missing.join(', ')}`, {
+      suggestions: [`Available sheets: ${workbook.SheetNames.join(', ')}`]
     })
   }
+  return sheetNames
+}
+
+// Starting at row 1 even when the used range starts lower, so indexes are file rows
+function sheetRows(workbook: XLSX.WorkBook, name: string): unknown[][] {
+  return XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: true, range: 0 })
+}
+
+// Union of the sheets' headers in first-seen order; rows remember their sheet when there are several
+function stackSheets(sheets: SheetData[], sheetNames: string[]): SheetData {
+  if (sheets.length === 1) return sheets[0]
+  
+  const headers = Array.from(new Set(sheets.flatMap(sheet => sheet.headers)))
+  const rows = sheets.flatMap((sheet, index) =>
+    sheet.rows.map(row => ({ ...row, [SOURCE_SHEET_KEY]: sheetNames[index] }))
+  )
+  return {
+    headers,
+    rows,
+    headerRow: sheets[0].headerRow,
+    ignoredRows: sheets.flatMap(sheet => sheet.ignoredRows ?? [])
+  }
+}
+
+// Where a row came from, for messages and previews
+export function sourceOf(row: Record<string, unknown>): { sheetName?: string; rowNumber?: number } {
+  return {
+    ...(typeof row[SOURCE_SHEET_KEY] === 'string' ? { sheetName: row[SOURCE_SHEET_KEY] as string } : {}),
+    ...(typeof row[SOURCE_ROW_KEY] === 'number' ? { rowNumber: row[SOURCE_ROW_KEY] as number } : {})
+  }
+}
+
+function describeSource(row: Record<string, unknown>): string {
+  const { sheetName, rowNumber } = sourceOf(row)
+  if (rowNumber === undefined) return ''
+  return sheetName ? `${sheetName} row ${rowNumber}: ` : `Row ${rowNumber}: `
+}
+
+/**
+ * Header-keyed rows from raw rows, indexed from file row 1. The header row is found
+ * unless given; titles above it, total rows, repeated headers and footnotes are left out
+ * and reported. Unnamed columns take the label above them (merged headers) or a placeholder.
+ */
+function toSheetData(data: unknown[][], headerRow?: number, sheetName?: string): SheetData {
+  const headerIndex = headerRow ?? detectHeaderRow(data)
+  if (data.length - headerIndex < 2) {
+    throw new DataFormatError('File must have at least a header row and one data row')
+  }
   
-  // Detect format from headers
-  const headers = Object.keys(data[0])
-  console.log('🔍 DEBUG: Headers from first row:', headers)
+  const ignoredRows: IgnoredRow[] = []
+  for (let index = 0; index < headerIndex; index++) {
+    if (nonEmptyCells(data[index]).length > 0) ignoredRows.push(ignoredRow(data[index], index, 'title', sheetName))
+  }
   
-  const detection = detectDataFormat(headers)
+  const headers = sheetHeaders(data[headerIndex], data[headerIndex - 1])
   
-  if (detection.format === 'unknown') {
-    throw new DataFormatError('Unable to detect data format', {
-      suggestions: [
-        'For long format: Include columns like customerId, customerName, month, mrr',
-        'For wide format: Include customer names and month headers like Jan/23, Feb/23'
-      ]
-    })
+  // The data block ends at the last row with two or more cells; single cells after it are notes
+  let lastDataIndex = headerIndex
+  for (let index = headerIndex + 1; index < data.length; index++) {
+    if (nonEmptyCells(data[index]).length >= 2) lastDataIndex = index
   }
   
-  if (detection.format === 'hybrid') {
-    throw new DataFormatError('Mixed data format detected', {
-      detectedFormat: 'hybrid',
-      suggestions: ['Use either long format OR wide format, not both in the same file']
-    })
+  const rows: Record<string, unknown>[] = []
+  for (let index = headerIndex + 1; index < data.length; index++) {
+    const row = data[index] ?? []
+    const reason = classifyRow(row, headers, index > lastDataIndex)
+    if (reason === 'blank') continue
+    
+    if (reason) {
+      ignoredRows.push(ignoredRow(row, index, reason, sheetName))
+    } else {
+      rows.push(toRecord(row, headers, index))
+    }
   }
   
-  // Route to appropriate transformer
-  if (detection.format === 'wide') {
-    return transformWideFormatData(data, detection)
-  } else {
-    return transformLongFormatData(data) // Renamed existing function
+  return { headers, rows, headerRow: headerIndex, ignoredRows }
+}
+
+// Unnamed columns take the label above them (merged headers) or a placeholder
+function sheetHeaders(headerCells: unknown[] | undefined, above: unknown[] = []): string[] {
+  return (headerCells ?? []).map((header, index) => {
+    const name = cellText(header)
+    if (name && name !== 'null') return name
+    if (!isEmpty(above[index])) return cellText(above[index])
+    return index === 0 ? 'Customer' : `Column_${index}`
+  })
+}
+
+// Why a row below the header is not data, or null when it is
+function classifyRow(row: unknown[], headers: string[], isAfterData: boolean): IgnoredRowReason | 'blank' | null {
+  const cells = nonEmptyCells(row)
+  if (cells.length === 0) return 'blank'
+  
+  const first = cellText(cells[0])
+  if (TOTAL_ROW_PATTERN.test(first)) return 'total'
+  if (headers.every((header, column) => cellText(row[column]) === header)) return 'repeatedHeader'
+  if (cells.length === 1 && (isAfterData || FOOTNOTE_PATTERN.test(first))) return 'footnote'
+  return null
+}
+
+function toRecord(row: unknown[], headers: string[], index: number): Record<string, unknown> {
+  return {
+    ...Object.fromEntries(headers.map((header, column) => [header, row[column]])),
+    [SOURCE_ROW_KEY]: index + 1
   }
 }
 
-// Original long format transformer (renamed for clarity)
-function transformLongFormatData(data: Record<string, unknown>[]): CustomerMonth[] {
-  const result: CustomerMonth[] = []
-  
-  for (const row of data) {
-    if (!row || typeof row !== 'object') continue
+function ignoredRow(row: unknown[] | undefined, index: number, reason: IgnoredRowReason, sheetName?: string): IgnoredRow {
+  return {
+    rowNumber: index + 1,
+    ...(sheetName ? { sheetName } : {}),
+    reason,
+    text: cellText(nonEmptyCells(row)[0])
+  }
+}
+
+function cellText(cell: unknown): string {
+  return String(cell ?? '').trim()
+}
+
+/**
+ * The row that best reads as column labels: at least two cells, most of them text or
+ * month headers, with a row below it. Ties go to the earlier row, as data follows headers.
+ */
+function detectHeaderRow(data: unknown[][]): number {
+  let best = 0
+  let bestScore = 0
+  
+  for (let index = 0; index < Math.min(HEADER_SCAN_ROWS, data.length - 1); index++) {
+    const cells = nonEmptyCells(data[index])
+    if (cells.length < 2) continue
     
-    // Try different possible column names for long format
-    const customerId = row['customerId'] || row['Customer ID'] || row['customer_id'] || row['id']
-    const customerName = row['customerName'] || row['Customer Name'] || row['customer_name'] || row['name']
-    const month = row['month'] || row['Month'] || row['date'] || row['Date']
-    const mrrValue = row['mrr'] || row['MRR'] || row['revenue'] || row['Revenue'] || '0'
-    const mrr = parseFloat(String(mrrValue))
+    const labels = cells.filter(cell => {
+      const text = String(cell).trim()
+      const serial = typeof cell === 'number' ? cell : NaN
+      return (typeof cell === 'string' && isNaN(Number(text)))
+        || MONTH_HEADER_PATTERNS.some(pattern => pattern.test(text))
+        || (Number.isInteger(serial) && serial >= 36526 && serial <= 47482)
+    }).length
     
-    if (customerId && customerName && month && !isNaN(mrr)) {
-      result.push({
-        customerId: String(customerId),
-        customerName: String(customerName),
-        month: formatMonth(month),
-        mrr: mrr
-      })
+    if (labels * 2 >= cells.length && labels > bestScore) {
+      best = index
+      bestScore = labels
     }
   }
   
-  if (result.length === 0) {
-    throw new DataFormatError('No valid data found in long format', {
-      suggestions: ['Ensure your file has columns: customerId, customerName, month, mrr']
-    })
+  return best
+}
+
+function nonEmptyCells(row: unknown[] | undefined): unknown[] {
+  return (row ?? []).filter(cell => !isEmpty(cell))
+}
+
+/**
+ * Best guess at the column mapping, shown to the user to confirm or correct.
+ * Confidence is 0 when neither layout was recognised.
+ */
+export function detectColumnMapping(sheet: SheetData): MappingDetection {
+  const detection = detectDataFormat(sheet.headers)
+  
+  if (detection.format === 'wide') {
+    const nameColumn = detection.customerColumns.find(column => !/id$/i.test(column)) ?? sheet.headers[0]
+    return {
+      mapping: {
+        layout: 'wide',
+        customerNameColumn: nameColumn,
+        customerIdColumn: detection.customerColumns.find(column => /id$/i.test(column)) ?? null,
+        monthColumn: null,
+        valueColumn: null,
+        monthColumns: sortMonthHeaders(detection.monthColumns)
+      },
+      confidence: detection.confidence,
+      warnings: detection.warnings
+    }
   }
   
-  return result
+  const find = (candidates: string[]) => candidates.find(name => sheet.headers.includes(name)) ?? null
+  const mapping: ColumnMapping = {
+    layout: 'long',
+    customerNameColumn: find(LONG_NAME_COLUMNS) ?? sheet.headers[0],
+    customerIdColumn: find(LONG_ID_COLUMNS),
+    monthColumn: find(LONG_MONTH_COLUMNS),
+    valueColumn: find(LONG_VALUE_COLUMNS),
+    monthColumns: []
+  }
+  const isComplete = detection.format === 'long' && mapping.monthColumn !== null && mapping.valueColumn !== null
+  
+  return {
+    mapping,
+    confidence: isComplete ? detection.confidence : 0,
+    warnings: isComplete ? detection.warnings : [...detection.warnings, 'Could not recognise the layout; please map the columns']
+  }
 }
 
-// Wide format transformer with enterprise-scale processing
-function transformWideFormatData(data: Record<string, unknown>[], detection: FormatDetectionResult): CustomerMonth[] {
-  // Estimate dataset size for monitoring (no artificial limits)
-  const estimatedRecords = data.length * detection.monthColumns.length
-  const estimatedMemoryMB = (estimatedRecords * 150) / (1024 * 1024)
+// Transform rows into customer-months using a confirmed mapping
+export function applyColumnMapping(sheet: SheetData, mapping: ColumnMapping): CustomerMonth[] {
+  checkMappedColumns(sheet.headers, mapping)
+  
+  const transform = createRowTransformer(mapping)
+  if (mapping.layout === 'wide') {
+    const records = sheet.rows.length * mapping.monthColumns.length
+    console.log(`📊 Processing ${sheet.rows.length} customers × ${mapping.monthColumns.length} months = ${records} records`)
+  }
   
-  console.log(`📊 Processing ${data.length} customers × ${detection.monthColumns.length} months = ${estimatedRecords} records (~${estimatedMemoryMB.toFixed(1)}MB)`)
+  const result = sheet.rows.flatMap(transform)
+  if (result.length === 0) throw noRecordsError(mapping)
   
-  // Enterprise-grade: Handle datasets of any size
-  // For very large datasets (>100K records), we could implement streaming in the future
-  if (estimatedRecords > 1000000) { // 1M record warning (not limit)
-    console.warn(`⚠️  Large dataset detected: ${estimatedRecords} records. Consider implementing streaming for optimal performance.`)
-  }
+  const checkLimits = createLimitCheck()
+  result.forEach(checkLimits)
   
-  // Sort month columns chronologically for consistent processing
-  const sortedMonthColumns = sortMonthHeaders(detection.monthColumns)
+  if (mapping.layout === 'wide') DebugHelper.logCustomerMonthData(result, 'Wide Format Results')
+  return result
+}
+
+export interface StreamingParser {
+  // Begin a worksheet; CSV rows can be pushed without one
+  startSheet: (sheetName?: string) => void
+  // The next file row, as raw cells
+  push: (row: unknown[]) => void
+  finish: () => StreamingParseResult
+}
+
+/**
+ * Applies a confirmed mapping to raw rows pushed one at a time, so large files never
+ * exist as header-keyed rows. Rows are read by toSheetData's rules, except that single-cell
+ * rows wait for the next multi-cell row to show whether they were data or footnotes.
+ * Records of the same customer, month, product and currency are summed as they arrive,
+ * and the dataset limits are checked as each new one appears.
+ */
+export function createStreamingParser(mapping: ColumnMapping, options: SheetReadOptions = {}): StreamingParser {
+  const transform = createRowTransformer(mapping)
+  const checkLimits = createLimitCheck()
+  const records = new Map<string, CustomerMonth>()
+  const ignoredRows: IgnoredRow[] = []
+  const allHeaders = new Set<string>()
+  const isStacked = (options.sheetNames?.length ?? 0) > 1
+  let rowsRead = 0
+  
+  // State of the current sheet
+  let started = false
+  let sheetName: string | undefined
+  let index = 0
+  let headRows: unknown[][] = [] // Rows up to the header, until it is found
+  let headerIndex = 0
+  let headers: string[] | null = null
+  let heldRows: { row: unknown[]; index: number }[] = []
+  let sheetIgnored: IgnoredRow[] = []
+  
+  const add = (record: CustomerMonth) => {
+    // Non-positive MRR stays apart, as the calculators skip those records
+    const key = [record.customerId, record.month, record.product ?? '', record.currency ?? '', record.mrr > 0].join('\u0000')
+    const existing = records.get(key)
+    if (!existing) {
+      checkLimits(record)
+      records.set(key, record)
+      return
+    }
+    existing.mrr += record.mrr
+    if (record.quantity !== undefined) existing.quantity = (existing.quantity ?? 0) + record.quantity
+  }
   
-  const result: CustomerMonth[] = []
-  const existingIds = new Set<string>() // Track IDs to prevent duplicates
+  const emit = (row: unknown[], rowIndex: number) => {
+    const record = toRecord(row, headers!, rowIndex)
+    if (isStacked && sheetName) record[SOURCE_SHEET_KEY] = sheetName
+    transform(record).forEach(add)
+  }
   
-  console.log(`🔍 DEBUG: Starting wide format processing with ${data.length} rows`)
-  console.log('🔍 DEBUG: Sorted month columns:', sortedMonthColumns)
+  const pushData = (row: unknown[], rowIndex: number) => {
+    const reason = classifyRow(row, headers!, false)
+    if (reason === 'blank') return
+    
+    if (reason) {
+      sheetIgnored.push(ignoredRow(row, rowIndex, reason, sheetName))
+    } else if (nonEmptyCells(row).length === 1) {
+      heldRows.push({ row, index: rowIndex })
+    } else {
+      // A multi-cell row puts the single cells before it inside the data block
+      heldRows.forEach(held => emit(held.row, held.index))
+      heldRows = []
+      emit(row, rowIndex)
+    }
+  }
   
-  // Process each customer row
-  for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-    const row = data[rowIndex]
-    if (!row || typeof row !== 'object') continue
+  const findHeader = () => {
+    headerIndex = options.headerRow ?? detectHeaderRow(headRows)
+    if (headRows.length - headerIndex < 1) return
     
-    console.log(`🔍 DEBUG: Processing row ${rowIndex + 1}:`, Object.keys(row).slice(0, 3), '...')
+    for (let rowIndex = 0; rowIndex < headerIndex; rowIndex++) {
+      if (nonEmptyCells(headRows[rowIndex]).length > 0) {
+        sheetIgnored.push(ignoredRow(headRows[rowIndex], rowIndex, 'title', sheetName))
+      }
+    }
+    headers = sheetHeaders(headRows[headerIndex], headRows[headerIndex - 1])
+    headers.forEach(header => allHeaders.add(header))
+    headRows.slice(headerIndex + 1).forEach((row, offset) => pushData(row, headerIndex + 1 + offset))
+    headRows = []
+  }
+  
+  const endSheet = () => {
+    if (!started) return
+    if (!headers) findHeader()
+    if (!headers || index - headerIndex < 2) {
+      const message = 'File must have at least a header row and one data row'
+      throw new DataFormatError(isStacked && sheetName ? `${sheetName}: ${message}` : message)
+    }
     
-    try {
-      // Extract customer information from first columns
-      const customerData = extractCustomerData(row, detection.customerColumns, existingIds)
+    heldRows.forEach(held => sheetIgnored.push(ignoredRow(held.row, held.index, 'footnote', sheetName)))
+    ignoredRows.push(...sheetIgnored.sort((a, b) => a.rowNumber - b.rowNumber))
+  }
+  
+  const startSheet = (name?: string) => {
+    endSheet()
+    started = true
+    sheetName = name
+    index = 0
+    headRows = []
+    headerIndex = 0
+    headers = null
+    heldRows = []
+    sheetIgnored = []
+  }
+  
+  return {
+    startSheet,
+    push: row => {
+      if (!started) startSheet()
+      rowsRead++
+      const rowIndex = index++
       
-      // Process each month column for this customer
-      for (const monthHeader of sortedMonthColumns) {
-        const mrrValue = row[monthHeader]
-        
-        // Skip empty cells (represents no revenue/churn)
-        if (isEmpty(mrrValue)) continue
-        
-        const mrr = parseFloat(String(mrrValue))
-        if (isNaN(mrr) || mrr < 0) { // Negative MRR doesn't make sense
-          console.log(`🔍 DEBUG: Skipping invalid MRR for ${customerData.name}, ${monthHeader}: ${mrrValue}`)
-          continue
-        }
-        
-        console.log(`🔍 DEBUG: Processing ${customerData.name}, ${monthHeader}: $${mrr}`)
-        
-        try {
-          const month = parseMonthHeader(monthHeader)
-          result.push({
-            customerId: customerData.id,
-            customerName: customerData.name,
-            month,
-            mrr
-          })
-        } catch (error) {
-          console.warn(`Skipping invalid month ${monthHeader} for ${customerData.name}: ${error}`)
-          
-          // TEMPORARY: For testing, try to force a month format
-          if (monthHeader.includes('/')) {
-            try {
-              const [monthPart, yearPart] = monthHeader.split('/')
-              if (monthPart && yearPart) {
-                const tempMonth = `20${yearPart}-${monthPart.padStart(2, '0')}`
-                console.log(`🔍 DEBUG: TEMP - Forcing month format: ${monthHeader} -> ${tempMonth}`)
-                result.push({
-                  customerId: customerData.id,
-                  customerName: customerData.name,
-                  month: tempMonth,
-                  mrr
-                })
-              }
-            } catch {
-              // Still skip if this fails
-            }
-          }
-        }
+      if (headers) {
+        pushData(row, rowIndex)
+        return
       }
-    } catch (error) {
-      console.warn(`Skipping row ${rowIndex + 1}: ${error}`)
+      
+      // The header is found once the rows it could be in (and one below) have arrived
+      headRows.push(row)
+      const rowsNeeded = options.headerRow !== undefined ? options.headerRow + 1 : HEADER_SCAN_ROWS + 1
+      if (headRows.length >= rowsNeeded) findHeader()
+    },
+    finish: () => {
+      endSheet()
+      started = false
+      checkMappedColumns(Array.from(allHeaders), mapping)
+      
+      const data = Array.from(records.values())
+      if (data.length === 0) throw noRecordsError(mapping)
+      return { data, ignoredRows, rowsRead }
     }
   }
+}
+
+function checkMappedColumns(headers: string[], mapping: ColumnMapping): void {
+  const missing = [
+    mapping.customerNameColumn,
+    mapping.customerIdColumn,
+    ...(mapping.layout === 'long' ? [mapping.monthColumn, mapping.valueColumn] : mapping.monthColumns)
+  ].filter((column): column is string => column !== null && !headers.includes(column))
+  
+  if (missing.length > 0) {
+    throw new DataFormatError(`Mapped columns not found in the file: ${missing.join(', ')}`)
+  }
+}
+
+/**
+ * Problems with a column mapping received from outside (form field or saved template),
+ * before it is applied to a file. Whether the columns exist is checked against the file.
+ */
+export function columnMappingErrors(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['Mapping must be an object']
+  
+  const mapping = value as Record<string, unknown>
+  const isColumn = (column: unknown) => typeof column === 'string' && column.trim() !== ''
+  const errors: string[] = []
+  
+  if (mapping.layout !== 'long' && mapping.layout !== 'wide') {
+    errors.push('Mapping layout must be long or wide')
+  }
+  if (!isColumn(mapping.customerNameColumn)) {
+    errors.push('Mapping needs a customer name column')
+  }
+  if (mapping.customerIdColumn != null && !isColumn(mapping.customerIdColumn)) {
+    errors.push('Customer ID column must be a column name or null')
+  }
+  if (mapping.layout === 'long' && (!isColumn(mapping.monthColumn) || !isColumn(mapping.valueColumn))) {
+    errors.push('Long layout needs a month column and an MRR column')
+  }
+  if (mapping.monthColumns !== undefined && (!Array.isArray(mapping.monthColumns) || !mapping.monthColumns.every(isColumn))) {
+    errors.push('Month columns must be a list of column names')
+  } else if (mapping.layout === 'wide' && !(Array.isArray(mapping.monthColumns) && mapping.monthColumns.length > 0)) {
+    errors.push('Wide layout needs at least one month column')
+  }
+  if (mapping.monthHeaderFormat != null && typeof mapping.monthHeaderFormat !== 'string') {
+    errors.push('Month format must be a date pattern or null')
+  }
+  const valueUnits = Object.keys(VALUE_UNIT_MULTIPLIERS)
+  if (mapping.valueUnit !== undefined && !valueUnits.includes(mapping.valueUnit as string)) {
+    errors.push(`Value unit must be one of: ${valueUnits.join(', ')}`)
+  }
   
-  if (result.length === 0) {
-    throw new DataFormatError('No valid customer-month records found in wide format', {
-      suggestions: [
-        'Check that month headers are valid dates',
-        'Ensure customer names are in the first column',
-        'Verify MRR values are numeric'
-      ]
-    })
+  return errors
+}
+
+// Headers that identify a file's layout; month columns come and go as months are added
+export function templateHeaders(sheet: SheetData, mapping: ColumnMapping): string[] {
+  if (mapping.layout === 'long') return sheet.headers
+  const keyColumns = [mapping.customerNameColumn, mapping.customerIdColumn]
+  return sheet.headers.filter(header =>
+    keyColumns.includes(header) || (!mapping.monthColumns.includes(header) && !isMonthHeader(header, mapping))
+  )
+}
+
+// Same identifying headers, ignoring case, order and surrounding whitespace
+export function matchesTemplate(template: ImportTemplate, sheet: SheetData): boolean {
+  const normalize = (headers: string[]) => headers.map(header => header.trim().toLowerCase()).sort().join('\u0000')
+  return normalize(templateHeaders(sheet, template.mapping)) === normalize(template.headers)
+}
+
+// The template's mapping on this file's header spelling, with the wide month columns taken from the file
+export function mappingForTemplate(template: ImportTemplate, sheet: SheetData): ColumnMapping {
+  const resolve = (column: string | null) => column === null
+    ? null
+    : sheet.headers.find(header => header.trim().toLowerCase() === column.trim().toLowerCase()) ?? column
+  const mapping: ColumnMapping = {
+    ...template.mapping,
+    customerNameColumn: resolve(template.mapping.customerNameColumn)!,
+    customerIdColumn: resolve(template.mapping.customerIdColumn),
+    monthColumn: resolve(template.mapping.monthColumn),
+    valueColumn: resolve(template.mapping.valueColumn)
   }
+  if (mapping.layout === 'long') return mapping
   
-  console.log(`🔍 DEBUG: Wide format processing complete:`)
-  console.log(`🔍 DEBUG: - Total records: ${result.length}`)
-  console.log(`🔍 DEBUG: - Unique customers: ${new Set(result.map(r => r.customerId)).size}`)
-  console.log(`🔍 DEBUG: - Date range: ${result.map(r => r.month).sort()[0]} to ${result.map(r => r.month).sort().slice(-1)[0]}`)
-  console.log(`🔍 DEBUG: - Sample records:`, result.slice(0, 5))
+  const keyColumns = [mapping.customerNameColumn, mapping.customerIdColumn]
+  return {
+    ...mapping,
+    monthColumns: sortMonthHeaders(
+      sheet.headers.filter(header => !keyColumns.includes(header) && isMonthHeader(header, mapping))
+    )
+  }
+}
+
+/**
+ * First saved template whose sheet, header row and headers match the file.
+ * Each distinct sheet/header row combination is read once.
+ */
+export async function findImportTemplate(
+  file: File,
+  templates: ImportTemplate[],
+  options: Pick<SheetReadOptions, 'maxRows'> = {}
+): Promise<{ template: ImportTemplate; sheet: SheetData } | null> {
+  const sheets = new Map<string, SheetData | null>()
+  
+  for (const template of templates) {
+    const key = `${template.sheetNames.join('\u0000')}:${template.headerRow}`
+    if (!sheets.has(key)) {
+      try {
+        sheets.set(key, await readSheet(file, { ...options, sheetNames: template.sheetNames, headerRow: template.headerRow }))
+      } catch {
+        sheets.set(key, null) // Missing sheet or too few rows: this template cannot apply
+      }
+    }
+    
+    const sheet = sheets.get(key)
+    if (sheet && matchesTemplate(template, sheet)) return { template, sheet }
+  }
   
-  return result
+  return null
 }
 
-// Extract customer data from row with ID generation
-function extractCustomerData(row: Record<string, unknown>, customerColumns: string[], existingIds: Set<string>): { id: string, name: string } {
-  // Find the customer column - should be "Customer" or first column
-  const customerColumnName = 'Customer' // We know this from header processing
-  const customerName = String(row[customerColumnName] || '').trim()
+/**
+ * The first sheet, a matching saved template and the worksheet list, from one
+ * row-limited read of the file. Meant to run inside a Web Worker.
+ */
+export async function inspectUpload(file: File, templates: ImportTemplate[]): Promise<UploadInspection> {
+  return {
+    preview: await readSheet(file, { maxRows: PREVIEW_ROWS }),
+    match: await findImportTemplate(file, templates, { maxRows: PREVIEW_ROWS }),
+    sheets: await listSheets(file)
+  }
+}
+
+function parseRowMonth(row: Record<string, unknown>, month: unknown, mapping: ColumnMapping): string {
+  try {
+    return parseMappedMonth(month, mapping)
+  } catch (error) {
+    throw new DataFormatError(`${describeSource(row)}${error instanceof Error ? error.message : 'Invalid month'}`)
+  }
+}
+
+/**
+ * Customer-months for one header-keyed row at a time. Generated IDs depend on the rows
+ * before, so each dataset uses one transformer and feeds it rows in file order.
+ */
+function createRowTransformer(mapping: ColumnMapping): (row: Record<string, unknown>) => CustomerMonth[] {
+  return mapping.layout === 'wide' ? wideRowTransformer(mapping) : longRowTransformer(mapping)
+}
+
+function longRowTransformer(mapping: ColumnMapping): (row: Record<string, unknown>) => CustomerMonth[] {
+  const { monthColumn, valueColumn } = mapping
+  if (!monthColumn || !valueColumn) {
+    throw new DataFormatError('Long format needs a month column and an MRR column')
+  }
   
-  console.log('🔍 DEBUG: Extracting customer from row:', { 
-    customerColumnName, 
-    customerName, 
-    customerValue: row[customerColumnName],
-    allKeys: Object.keys(row).slice(0, 5),
-    allValues: Object.values(row).slice(0, 5),
-    fullRow: row
-  })
+  const multiplier = VALUE_UNIT_MULTIPLIERS[mapping.valueUnit ?? 'units']
+  const existingIds = new Set<string>()
+  const generatedIds = new Map<string, string>() // One generated ID per customer name
   
-  if (!customerName || customerName === 'null' || customerName === 'undefined') {
-    console.error('🔍 DEBUG: Customer extraction failed - full row data:', row)
-    throw new Error(`Invalid customer name: "${customerName}" from column "${customerColumnName}"`)
+  return row => {
+    const customerName = String(row[mapping.customerNameColumn] ?? '').trim()
+    const month = row[monthColumn]
+    const mrr = parseFloat(String(row[valueColumn] ?? '0'))
+    if (!customerName || TOTAL_ROW_PATTERN.test(customerName) || isEmpty(month) || isNaN(mrr)) return []
+    
+    let customerId = mapping.customerIdColumn ? String(row[mapping.customerIdColumn] ?? '').trim() : ''
+    if (!customerId) {
+      customerId = generatedIds.get(customerName) ?? generateCustomerId(customerName, existingIds)
+      generatedIds.set(customerName, customerId)
+    }
+    
+    const currency = readCurrency(row)
+    const attributes = readAttributes(row)
+    const product = readProduct(row)
+    const quantity = readQuantity(row)
+    
+    return [{
+      customerId,
+      customerName,
+      month: parseRowMonth(row, month, mapping),
+      mrr: mrr * multiplier,
+      ...(currency ? { currency } : {}),
+      ...(attributes ? { attributes } : {}),
+      ...(product ? { product } : {}),
+      ...(quantity !== undefined ? { quantity } : {})
+    }]
+  }
+}
+
+function wideRowTransformer(mapping: ColumnMapping): (row: Record<string, unknown>) => CustomerMonth[] {
+  // Every mapped month header must parse, so nothing is silently dropped
+  const months = new Map<string, string>()
+  const invalid: string[] = []
+  for (const header of mapping.monthColumns) {
+    try {
+      months.set(header, parseMappedMonth(header, mapping))
+    } catch {
+      invalid.push(header)
+    }
   }
   
-  // Generate or extract customer ID
-  let customerId: string
-  const idColumn = customerColumns.find(col => /id$/i.test(col))
+  if (invalid.length > 0) {
+    throw new DataFormatError(`Not recognised as months: ${invalid.join(', ')}`, {
+      suggestions: [
+        mapping.monthHeaderFormat
+          ? `Check the month format (${mapping.monthHeaderFormat}), or unmap these columns`
+          : 'Use headers like 2024-01, Jan/24 or Jan 2024, or unmap these columns'
+      ]
+    })
+  }
   
-  if (idColumn && row[idColumn]) {
-    customerId = String(row[idColumn]).trim()
-  } else {
-    customerId = generateCustomerId(customerName, existingIds)
+  if (months.size === 0) {
+    throw new DataFormatError('Wide format needs at least one month column')
   }
   
-  console.log('🔍 DEBUG: Generated customer data:', { id: customerId, name: customerName })
-  return { id: customerId, name: customerName }
+  const multiplier = VALUE_UNIT_MULTIPLIERS[mapping.valueUnit ?? 'units']
+  const existingIds = new Set<string>() // Track IDs to prevent duplicates
+  const productCustomerIds = new Map<string, string>() // One ID per customer across product rows
+  // Repeated names within a sheet are different customers; the nth on each stacked sheet is the same one
+  const occurrences = new Map<string, number>()
+  const generatedIds = new Map<string, string>()
+  
+  return row => {
+    const customerName = String(row[mapping.customerNameColumn] ?? '').trim()
+    if (!customerName || TOTAL_ROW_PATTERN.test(customerName)) return []
+    
+    const sheetKey = `${row[SOURCE_SHEET_KEY] ?? ''}\u0000${customerName}`
+    const occurrence = occurrences.get(sheetKey) ?? 0
+    occurrences.set(sheetKey, occurrence + 1)
+    
+    const mappedId = mapping.customerIdColumn ? String(row[mapping.customerIdColumn] ?? '').trim() : ''
+    const nameKey = `${customerName}\u0000${occurrence}`
+    let customerId = mappedId || (generatedIds.get(nameKey) ?? generateCustomerId(customerName, existingIds))
+    if (!mappedId) generatedIds.set(nameKey, customerId)
+    const currency = readCurrency(row)
+    const attributes = readAttributes(row)
+    const product = readProduct(row)
+    
+    // Rows for further products of the same customer keep the first row's ID
+    if (product && !mappedId) {
+      customerId = productCustomerIds.get(customerName) ?? customerId
+      productCustomerIds.set(customerName, customerId)
+    }
+    
+    const result: CustomerMonth[] = []
+    for (const [header, month] of Array.from(months)) {
+      const mrrValue = row[header]
+      
+      // Skip empty cells (represents no revenue/churn)
+      if (isEmpty(mrrValue)) continue
+      
+      const mrr = parseFloat(String(mrrValue))
+      if (isNaN(mrr) || mrr < 0) continue // Negative MRR doesn't make sense
+      
+      result.push({
+        customerId,
+        customerName,
+        month,
+        mrr: mrr * multiplier,
+        ...(currency ? { currency } : {}),
+        ...(attributes ? { attributes } : {}),
+        ...(product ? { product } : {})
+      })
+    }
+    return result
+  }
+}
+
+function noRecordsError(mapping: ColumnMapping): DataFormatError {
+  return mapping.layout === 'wide'
+    ? new DataFormatError('No valid customer-month records found in wide format', {
+      suggestions: [
+        'Check the mapped customer name column',
+        'Verify MRR values are numeric'
+      ]
+    })
+    : new DataFormatError('No valid data found in long format', {
+      suggestions: ['Check the mapped customer, month and MRR columns']
+    })
+}
+
+/**
+ * Counts distinct customers and months as records arrive and throws once either passes
+ * PERFORMANCE_THRESHOLDS, so a streamed parse stops at the first record over the limit.
+ */
+function createLimitCheck(): (record: CustomerMonth) => void {
+  const customers = new Set<string>()
+  const months = new Set<string>()
+  
+  return record => {
+    customers.add(record.customerId)
+    months.add(record.month)
+    
+    if (customers.size > PERFORMANCE_THRESHOLDS.MAX_CUSTOMERS) {
+      throw new DataFormatError(`More than ${PERFORMANCE_THRESHOLDS.MAX_CUSTOMERS.toLocaleString()} customers in one upload`, {
+        suggestions: ['Split the file by segment or region and upload each part to its own company']
+      })
+    }
+    if (months.size > PERFORMANCE_THRESHOLDS.MAX_MONTHS) {
+      throw new DataFormatError(`More than ${PERFORMANCE_THRESHOLDS.MAX_MONTHS} months in one upload`, {
+        suggestions: ['Remove older months, or check that the month column is mapped correctly']
+      })
+    }
+  }
 }
 
 // Generate deterministic customer ID with duplicate handling
@@ -705,126 +1367,6 @@ function isEmpty(value: unknown): boolean {
   return false
 }
 
-// Excel data transformer with format detection
-function transformExcelData(data: unknown[][]): CustomerMonth[] {
-  if (data.length < 2) {
-    throw new DataFormatError('Excel file must have at least a header row and one data row')
-  }
-  
-  console.log('🔍 DEBUG: Excel data structure - total rows:', data.length)
-  console.log('🔍 DEBUG: First 3 rows:', data.slice(0, 3))
-  
-  // Handle Excel data structure - always start from row 1 (after headers)
-    const headerRow = data[0]
-    const dataStartIndex = 1
-  
-  console.log(`🔍 DEBUG: Will process ALL rows from ${dataStartIndex} to ${data.length - 1} (${data.length - dataStartIndex} total rows)`)
-  
-  // Convert Excel data to object format for consistent processing
-  const rawHeaders = headerRow.map(h => String(h === null ? '' : h).trim())
-  console.log('🔍 DEBUG: Raw Excel headers:', rawHeaders)
-  
-  // Handle empty/null headers by giving them placeholder names
-  const headers = rawHeaders.map((header, index) => {
-    if (!header || header === '' || header === 'null') {
-      // Special handling for first column (likely customer names)
-      return index === 0 ? 'Customer' : `Column_${index}`
-    }
-    return header
-  })
-  
-  console.log('🔍 DEBUG: Processed Excel headers:', headers)
-  const objectData: Record<string, unknown>[] = []
-  
-  // DIRECT PROCESSING: Skip all complex logic, process raw Excel data directly
-  console.log('🔍 DEBUG: DIRECT PROCESSING - Converting raw Excel to CustomerMonth records')
-  
-  // Process customer rows directly (skip row 1 "Total MRR", start from row 2)
-  for (let customerRowIndex = 2; customerRowIndex < data.length; customerRowIndex++) {
-    const customerRow = data[customerRowIndex]
-    console.log(`🔍 DEBUG: Direct processing customer row ${customerRowIndex}:`, customerRow)
-    
-    if (!customerRow || customerRow.length === 0) {
-      console.log(`🔍 DEBUG: Skipping empty row ${customerRowIndex}`)
-      continue
-    }
-    
-    const customerName = String(customerRow[0] || '').trim()
-    console.log(`🔍 DEBUG: Customer name from row ${customerRowIndex}:`, customerName)
-    
-    if (!customerName || !customerName.toLowerCase().includes('customer')) {
-      console.log(`🔍 DEBUG: Skipping row ${customerRowIndex} - not a customer: "${customerName}"`)
-      continue
-    }
-    
-    // Generate customer ID
-    const customerId = customerName.toLowerCase().replace(/[^a-z0-9]/g, '_')
-    console.log(`🔍 DEBUG: Generated customer ID: ${customerId}`)
-    
-    // Process each month column for this customer
-    for (let monthIndex = 1; monthIndex < customerRow.length && monthIndex < headers.length; monthIndex++) {
-      const monthHeader = headers[monthIndex]
-      const mrrValue = customerRow[monthIndex]
-      
-      // Skip empty cells
-      if (!mrrValue || mrrValue === null || mrrValue === undefined || mrrValue === '') {
-        continue
-      }
-      
-      const mrr = parseFloat(String(mrrValue))
-      if (isNaN(mrr) || mrr <= 0) {
-        continue
-      }
-      
-      try {
-        // Convert Excel serial number to month
-        const month = convertExcelSerial(monthHeader)
-        
-        const record = {
-          customerId,
-          customerName,
-          month,
-          mrr
-        }
-        
-        objectData.push(record)
-        console.log(`🔍 DEBUG: Added record: ${customerName} - ${month}: $${mrr}`)
-      } catch (error) {
-        console.warn(`🔍 DEBUG: Failed to process month ${monthHeader} for ${customerName}:`, error)
-      }
-    }
-  }
-  
-  console.log('🔍 DEBUG: Converted to object format - rows:', objectData.length)
-  
-  // We've directly created CustomerMonth objects, no need for further transformation
-  const result = objectData as unknown as CustomerMonth[]
-  
-  console.log(`🔍 DEBUG: Direct processing complete - ${result.length} records created`)
-  
-  // Debug the final results
-  DebugHelper.logCustomerMonthData(result, 'Direct Excel Processing Results')
-  
-  // Validate the data quality
-  const validation = DebugHelper.validateSaaSData(result)
-  if (!validation.isValid) {
-    console.error('❌ Data validation failed:', validation.issues)
-    console.warn('💡 Recommendations:', validation.recommendations)
-  } else {
-    console.log('✅ Data validation passed!', validation.stats)
-  }
-  
-  return result
-}
-
-function findColumnIndex(headers: string[], possibleNames: string[]): number {
-  for (const name of possibleNames) {
-    const index = headers.indexOf(name)
-    if (index !== -1) return index
-  }
-  return -1
-}
-
 function formatMonth(month: unknown): string {
   // Handle different month formats
   if (!month) throw new Error('Invalid month value')
@@ -836,6 +1378,14 @@ function formatMonth(month: unknown): string {
     return monthStr
   }
   
+  // Excel date cells arrive as serial day numbers (2000-01-01 to 2029-12-31)
+  if (/^\d{5}(\.\d+)?$/.test(monthStr)) {
+    const serial = Number(monthStr)
+    if (serial >= 36526 && serial <= 47482) {
+      return convertExcelSerial(monthStr)
+    }
+  }
+  
   // If it's in MM/YYYY or MM-YYYY format
   if (/^\d{1,2}[\/\-]\d{4}$/.test(monthStr)) {
     const [m, y] = monthStr.split(/[\/\-]/)
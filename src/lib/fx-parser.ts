@@ -0,0 +1,70 @@
+import { FxRate } from '@/types'
+import { findColumn, normalizeCurrency, normalizeMonth, parseAmount, readFileRows } from './parse-helpers'
+
+// Accepted header spellings, compared after lowercasing and stripping non-letters
+const MONTH_HEADERS = ['month', 'date', 'period']
+const CURRENCY_HEADERS = ['currency', 'currencycode', 'ccy']
+const AVERAGE_HEADERS = ['average', 'averagerate', 'avgrate', 'avg', 'rate', 'usdrate']
+const MONTH_END_HEADERS = ['monthend', 'monthendrate', 'endrate', 'closingrate', 'close', 'closing']
+
+/**
+ * Parse an FX rate table (CSV or Excel) with one row per currency and month.
+ * Rates are the value of one unit of the currency in USD. Either the average
+ * or the month-end column may be omitted; the other is then used for both.
+ */
+export async function parseFxRateFile(file: File): Promise<FxRate[]> {
+  return parseFxRateRows(await readFileRows(file))
+}
+
+/**
+ * Convert raw FX rows into FxRate records; later rows win for duplicate months
+ */
+export function parseFxRateRows(rows: Record<string, unknown>[]): FxRate[] {
+  if (rows.length === 0) {
+    throw new Error('No rows found in FX rate file')
+  }
+
+  const headers = Object.keys(rows[0])
+  const monthColumn = findColumn(headers, MONTH_HEADERS)
+  const currencyColumn = findColumn(headers, CURRENCY_HEADERS)
+  const averageColumn = findColumn(headers, AVERAGE_HEADERS)
+  const monthEndColumn = findColumn(headers, MONTH_END_HEADERS)
+
+  if (!monthColumn || !currencyColumn || (!averageColumn && !monthEndColumn)) {
+    throw new Error('FX rate file needs "month", "currency" and "average_rate" or "month_end_rate" columns')
+  }
+
+  const byKey = new Map<string, FxRate>()
+
+  rows.forEach((row, index) => {
+    const month = normalizeMonth(row[monthColumn])
+    if (!month) {
+      throw new Error(`Row ${index + 2}: invalid month "${String(row[monthColumn])}"`)
+    }
+
+    const currency = normalizeCurrency(row[currencyColumn])
+    if (!currency) {
+      throw new Error(`Row ${index + 2}: currency must be a three-letter code such as EUR`)
+    }
+
+    const average = averageColumn ? parseAmount(row[averageColumn]) : null
+    const monthEnd = monthEndColumn ? parseAmount(row[monthEndColumn]) : null
+    if ((average === null || average <= 0) && (monthEnd === null || monthEnd <= 0)) {
+      throw new Error(`Row ${index + 2}: FX rate must be a positive number`)
+    }
+
+    const validAverage = average !== null && average > 0 ? average : null
+    const validMonthEnd = monthEnd !== null && monthEnd > 0 ? monthEnd : null
+
+    byKey.set(`${currency}:${month}`, {
+      month,
+      currency,
+      average: validAverage ?? validMonthEnd!,
+      monthEnd: validMonthEnd ?? validAverage!
+    })
+  })
+
+  return Array.from(byKey.values()).sort((a, b) =>
+    a.currency.localeCompare(b.currency) || a.month.localeCompare(b.month)
+  )
+}
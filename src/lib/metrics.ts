@@ -1,13 +1,38 @@
 // Core metrics calculation functions for SaaS analytics
 // Based on the SaaSGrid improvement plan
 
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics';
+import { EfficiencyCalculator } from '@/lib/calculations/efficiency';
+import { CurrencyConverter } from '@/lib/calculations/currency';
+import type {
+  CompanySettings,
+  CustomerMonth,
+  EfficiencyMetrics,
+  FxRate,
+  MonthlyMetrics,
+  MonthlyTotals,
+  MRRMovement,
+  SpendMonth
+} from '@/types';
+
+export interface UploadMetrics {
+  metrics: MonthlyMetrics[];
+  // Per-customer movements behind the metrics, for anomaly detection
+  ledger: MRRMovement[];
+  // Billing currencies without an FX rate into the reporting currency
+  missingCurrencies: string[];
+}
+
 export interface MonthlyMetric {
   month: string; // YYYY-MM format
   mrr: number;
   new_mrr?: number;
+  new_customers?: number;
+  reactivation_mrr?: number;
   expansion_mrr?: number;
   contraction_mrr?: number;
   churned_mrr?: number;
+  churned_customers?: number | null;
   customers?: number;
   company_id?: string;
 }
@@ -22,7 +47,7 @@ export interface CalculatedMetrics {
   mom: number; // Month-over-month growth %
   nrr: number; // Net Revenue Retention
   grr: number; // Gross Revenue Retention
-  churnRate: number;
+  churnRate: number | null; // Logo churn: churned customers / starting customers; null when not reported
   
   // Additional metrics
   newMrr: number;
@@ -30,126 +55,181 @@ export interface CalculatedMetrics {
   contractionMrr: number;
   churnedMrr: number;
   
-  // Magic Number
+  // Growth efficiency (growth rates and Rule of 40 are fractions, e.g. 0.42 = 42%)
+  netNewArr: number;
+  quickRatio?: number;
+  arrGrowthQoQ?: number;
+  arrGrowthYoY?: number;
+  cmgr?: number;
+  ruleOf40?: number; // Only when a profit margin is configured
+  
+  // Capital efficiency (only when S&M spend is available)
   magicNumber?: number;
+  cac?: number;
+  cacPaybackMonths?: number;
+  burnMultiple?: number;
 }
 
 /**
  * Calculate comprehensive SaaS metrics from monthly data
+ * Definitions come from SaaSMetricsCalculator so the API and dashboard always agree
  * @param data Array of monthly metrics, should be sorted by month ascending
+ * @param spend Optional S&M spend per month for efficiency metrics
+ * @param settings Optional company settings (profit margin for the Rule of 40)
  * @returns Calculated metrics for the latest month
  */
-export function calculateMetrics(data: MonthlyMetric[]): CalculatedMetrics {
+export function calculateMetrics(
+  data: MonthlyMetric[],
+  spend: SpendMonth[] = [],
+  settings: Partial<CompanySettings> = {}
+): CalculatedMetrics {
   if (!data || data.length === 0) {
     return {
       mrr: 0,
       arr: 0,
       customerCount: 0,
       mom: 0,
-      nrr: 1,
-      grr: 1,
+      nrr: 0,
+      grr: 0,
       churnRate: 0,
       newMrr: 0,
       expansionMrr: 0,
       contractionMrr: 0,
       churnedMrr: 0,
+      netNewArr: 0,
     };
   }
 
-  // Sort data by month to ensure correct order
-  const sortedData = [...data].sort((a, b) => a.month.localeCompare(b.month));
-  
-  const latest = sortedData[sortedData.length - 1];
-  const previous = sortedData.length > 1 ? sortedData[sortedData.length - 2] : null;
+  const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(toMonthlyTotals(data), settings);
+  const efficiency = EfficiencyCalculator.calculate(metrics, spend);
+  const last = metrics.length - 1;
   
-  // Core metrics
-  const mrr = latest.mrr || 0;
-  const arr = mrr * 12;
-  const customerCount = latest.customers || 0;
-  
-  // Month-over-month growth
-  const mom = previous ? ((mrr - previous.mrr) / previous.mrr) * 100 : 0;
-  
-  // Revenue components (use provided values or calculate from MRR change)
-  const newMrr = latest.new_mrr || 0;
-  const expansionMrr = latest.expansion_mrr || 0;
-  const contractionMrr = latest.contraction_mrr || 0;
-  const churnedMrr = latest.churned_mrr || 0;
-  
-  // Calculate Net Revenue Retention (NRR)
-  let nrr = 1; // Default 100%
-  if (previous && previous.mrr > 0) {
-    // NRR = (Starting MRR + Expansion - Contraction - Churn) / Starting MRR
-    const retainedMrr = previous.mrr - churnedMrr + expansionMrr - contractionMrr;
-    nrr = retainedMrr / previous.mrr;
-  }
+  return toCalculatedMetrics(metrics[last], last > 0 ? metrics[last - 1] : null, efficiency[last]);
+}
+
+/**
+ * Calculate metrics for multiple months (for time series charts)
+ * @param data Array of monthly metrics
+ * @param spend Optional S&M spend per month for efficiency metrics
+ * @param settings Optional company settings (profit margin for the Rule of 40)
+ * @returns Array of calculated metrics for each month
+ */
+export function calculateMetricsSeries(
+  data: MonthlyMetric[],
+  spend: SpendMonth[] = [],
+  settings: Partial<CompanySettings> = {}
+): (CalculatedMetrics & { month: string })[] {
+  if (!data || data.length === 0) return [];
   
-  // Calculate Gross Revenue Retention (GRR)
-  let grr = 1; // Default 100%
-  if (previous && previous.mrr > 0) {
-    // GRR = (Starting MRR - Contraction - Churn) / Starting MRR
-    const grossRetainedMrr = previous.mrr - contractionMrr - churnedMrr;
-    grr = grossRetainedMrr / previous.mrr;
-  }
+  const metrics = SaaSMetricsCalculator.calculateFromMonthlyTotals(toMonthlyTotals(data), settings);
+  const efficiency = EfficiencyCalculator.calculate(metrics, spend);
   
-  // Calculate Customer Churn Rate
-  let churnRate = 0;
-  if (previous && previous.customers && previous.customers > 0) {
-    // Simple estimate: assume churned MRR represents churned customers
-    // This is approximate - ideally we'd have actual customer churn data
-    const averageMrrPerCustomer = previous.mrr / previous.customers;
-    const estimatedChurnedCustomers = averageMrrPerCustomer > 0 ? churnedMrr / averageMrrPerCustomer : 0;
-    churnRate = estimatedChurnedCustomers / previous.customers;
-  }
+  return metrics.map((metric, i) => ({
+    ...toCalculatedMetrics(metric, i > 0 ? metrics[i - 1] : null, efficiency[i]),
+    month: metric.month,
+  }));
+}
+
+// Map monthly_metrics rows onto the engine's aggregated input
+export function toMonthlyTotals(data: MonthlyMetric[]): MonthlyTotals[] {
+  return data.map(row => ({
+    month: row.month,
+    totalMRR: row.mrr || 0,
+    customerCount: row.customers,
+    newCustomers: row.new_customers,
+    newMRR: row.new_mrr,
+    reactivationMRR: row.reactivation_mrr,
+    expansionMRR: row.expansion_mrr,
+    contractionMRR: row.contraction_mrr,
+    churnedMRR: row.churned_mrr,
+    churnedCustomers: row.churned_customers,
+  }));
+}
+
+// Reshape engine output into the API response format
+function toCalculatedMetrics(
+  latest: MonthlyMetrics,
+  previous: MonthlyMetrics | null,
+  efficiency: EfficiencyMetrics
+): CalculatedMetrics {
+  const mrr = latest.totalMRR;
   
-  // Calculate Magic Number (if we have sufficient data)
-  let magicNumber: number | undefined;
-  if (sortedData.length >= 2 && previous) {
-    // Magic Number = Net New MRR / Sales & Marketing Spend
-    // For now, we'll use Net New MRR / Previous MRR as a growth efficiency metric
-    const netNewMrr = newMrr + expansionMrr - contractionMrr - churnedMrr;
-    if (previous.mrr > 0) {
-      magicNumber = netNewMrr / previous.mrr;
-    }
-  }
+  // Month-over-month growth
+  const mom = previous && previous.totalMRR > 0
+    ? ((mrr - previous.totalMRR) / previous.totalMRR) * 100
+    : 0;
   
   return {
     mrr,
-    arr,
-    customerCount,
+    arr: latest.arr,
+    customerCount: latest.customerCount,
     mom,
-    nrr: Math.max(0, nrr), // Ensure non-negative
-    grr: Math.max(0, grr), // Ensure non-negative
-    churnRate: Math.max(0, Math.min(1, churnRate)), // Clamp between 0-100%
-    newMrr,
-    expansionMrr,
-    contractionMrr,
-    churnedMrr,
-    magicNumber,
+    nrr: latest.netRevenueRetention,
+    grr: latest.grossRevenueRetention,
+    churnRate: latest.logoChurnRate,
+    newMrr: latest.newMRR,
+    expansionMrr: latest.expansionMRR,
+    contractionMrr: latest.contractionMRR,
+    churnedMrr: latest.churnedMRR,
+    netNewArr: latest.netNewARR,
+    quickRatio: latest.quickRatio ?? undefined,
+    arrGrowthQoQ: latest.arrGrowthQoQ ?? undefined,
+    arrGrowthYoY: latest.arrGrowthYoY ?? undefined,
+    cmgr: latest.cmgr ?? undefined,
+    ruleOf40: latest.ruleOf40 ?? undefined,
+    magicNumber: efficiency.magicNumber ?? undefined,
+    cac: efficiency.cac ?? undefined,
+    cacPaybackMonths: efficiency.cacPaybackMonths ?? undefined,
+    burnMultiple: efficiency.burnMultiple ?? undefined,
   };
 }
 
 /**
- * Calculate metrics for multiple months (for time series charts)
- * @param data Array of monthly metrics
- * @returns Array of calculated metrics for each month
+ * Convert customer-level calculator output into monthly_metrics rows
+ * @param metrics Monthly metrics from SaaSMetricsCalculator
+ * @returns Rows in MonthlyMetric format
  */
-export function calculateMetricsSeries(data: MonthlyMetric[]): (CalculatedMetrics & { month: string })[] {
-  if (!data || data.length === 0) return [];
-  
-  const sortedData = [...data].sort((a, b) => a.month.localeCompare(b.month));
-  const results: (CalculatedMetrics & { month: string })[] = [];
-  
-  for (let i = 0; i < sortedData.length; i++) {
-    const monthData = sortedData.slice(0, i + 1); // Include all data up to current month
-    const metrics = calculateMetrics(monthData);
-    results.push({
-      ...metrics,
-      month: sortedData[i].month,
-    });
-  }
+export function toMonthlyMetricRows(metrics: MonthlyMetrics[]): MonthlyMetric[] {
+  return metrics.map(metric => ({
+    month: metric.month,
+    mrr: metric.totalMRR,
+    new_mrr: metric.newMRR,
+    new_customers: metric.newCustomers,
+    reactivation_mrr: metric.reactivationMRR,
+    expansion_mrr: metric.expansionMRR,
+    contraction_mrr: metric.contractionMRR,
+    churned_mrr: metric.churnedMRR,
+    churned_customers: metric.churnedCustomers,
+    customers: metric.customerCount,
+  }));
+}
+
+/**
+ * Calculate an upload's customer rows in the reporting currency, as /api/metrics does
+ * @param rows Customer-level rows from the uploaded file
+ * @param rates The company's FX rate table
+ * @param settings Company settings (reporting currency, FX basis, grace period)
+ * @param history Stored customer rows; those for months the file does not cover are calculated
+ *   alongside it, so the first month of a partial re-upload is measured against the month before
+ * @returns Metrics and movement ledger for the uploaded months, plus any currencies that could not be converted
+ */
+export function calculateUploadMetrics(
+  rows: CustomerMonth[],
+  rates: FxRate[],
+  settings: CompanySettings,
+  history: CustomerMonth[] = []
+): UploadMetrics {
+  const uploadedMonths = new Set(rows.map(row => row.month));
+  const combined = [...history.filter(row => !uploadedMonths.has(row.month)), ...rows];
+  const conversion = CurrencyConverter.convert(combined, rates, settings.reportingCurrency, settings.fxConversion);
   
-  return results;
+  return {
+    metrics: SaaSMetricsCalculator.calculateMetrics(conversion.data, settings)
+      .filter(metric => uploadedMonths.has(metric.month)),
+    ledger: SaaSMetricsCalculator.buildMovementLedger(conversion.data, settings)
+      .filter(movement => uploadedMonths.has(movement.month)),
+    missingCurrencies: conversion.missingCurrencies,
+  };
 }
 
 /**
@@ -186,11 +266,12 @@ export function validateMetricsData(data: MonthlyMetric[]): string[] {
 
 /**
  * Format currency values for display
+ * @param currency ISO 4217 code, e.g. the company's reporting currency
  */
-export function formatCurrency(value: number): string {
+export function formatCurrency(value: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
@@ -0,0 +1,106 @@
+import * as XLSX from 'xlsx'
+import Papa from 'papaparse'
+
+// Shared helpers for the small import files (spend, FX rates, contracts)
+
+export async function readCsvRows(file: File): Promise<Record<string, unknown>[]> {
+  const text = await file.text()
+  const result = Papa.parse<Record<string, unknown>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim()
+  })
+  return result.data
+}
+
+export async function readExcelRows(file: File): Promise<Record<string, unknown>[]> {
+  const buffer = await file.arrayBuffer()
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { raw: true })
+}
+
+// Read a CSV or the first sheet of an Excel file into header-keyed rows
+export async function readFileRows(file: File): Promise<Record<string, unknown>[]> {
+  return file.name.toLowerCase().endsWith('.csv')
+    ? readCsvRows(file)
+    : readExcelRows(file)
+}
+
+// Header matching ignores case and anything that is not a letter
+export function findColumn(headers: string[], candidates: string[]): string | undefined {
+  return headers.find(header => candidates.includes(header.toLowerCase().replace(/[^a-z]/g, '')))
+}
+
+export function parseAmount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'number') return value
+
+  // Strip currency symbols and thousands separators; (123) means negative
+  const text = String(value).trim()
+  const negative = /^\(.*\)$/.test(text)
+  const digits = text.replace(/[^0-9.-]/g, '')
+  // Text such as "n/a" or "TBD" has no digits left and is not an amount
+  if (!/\d/.test(digits)) return null
+  const amount = Number(digits)
+  if (isNaN(amount)) return null
+  return negative ? -amount : amount
+}
+
+// Accepts YYYY-MM, YYYY-MM-DD, MM/YYYY and Excel dates
+export function normalizeMonth(value: unknown): string | null {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}`
+  }
+
+  const text = String(value ?? '').trim()
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})(-\d{1,2})?$/)
+  const slashMatch = text.match(/^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})$/)
+
+  const [year, month] = isoMatch
+    ? [isoMatch[1], isoMatch[2]]
+    : slashMatch
+      ? [slashMatch[2], slashMatch[1]]
+      : [null, null]
+
+  if (!year || !month || Number(month) < 1 || Number(month) > 12) return null
+  return `${year}-${month.padStart(2, '0')}`
+}
+
+// Three-letter ISO 4217 code, uppercased; anything else is treated as absent
+export function normalizeCurrency(value: unknown): string | undefined {
+  const code = String(value ?? '').trim().toUpperCase()
+  return /^[A-Z]{3}$/.test(code) ? code : undefined
+}
+
+/**
+ * Accepts YYYY-MM-DD, MM/DD/YYYY, YYYY-MM and Excel dates; returns YYYY-MM-DD.
+ * A bare month becomes its first day, or its last day with `endOfMonth`.
+ */
+export function normalizeDate(value: unknown, endOfMonth = false): string | null {
+  const toIso = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1) return null
+    return date.toISOString().slice(0, 10)
+  }
+
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return toIso(value.getFullYear(), value.getMonth() + 1, value.getDate())
+  }
+
+  const text = String(value ?? '').trim()
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (isoMatch) return toIso(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]))
+
+  const usMatch = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (usMatch) return toIso(Number(usMatch[3]), Number(usMatch[1]), Number(usMatch[2]))
+
+  const month = normalizeMonth(text)
+  if (!month) return null
+
+  const [year, monthNumber] = month.split('-').map(Number)
+  // Day 0 of the next month is the last day of this one
+  return endOfMonth
+    ? new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10)
+    : `${month}-01`
+}
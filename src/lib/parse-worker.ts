@@ -0,0 +1,22 @@
+// Web Worker entry for reading uploads off the main thread
+// Inspects a new file, previews sheets for the mapping wizard, or parses the whole file with a confirmed mapping
+
+import { inspectUpload, readSheet, streamSpreadsheet } from './file-parser'
+import type { ParseWorkerMessage, ParseWorkerRequest } from './worker-parse'
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message)
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    const result = request.type === 'inspect'
+      ? await inspectUpload(request.file, request.templates)
+      : request.type === 'preview'
+        ? await readSheet(request.file, request.options)
+        : await streamSpreadsheet(request.file, request.mapping, request.options, progress => post({ type: 'progress', progress }))
+    post({ type: 'done', result })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse file' })
+  }
+}
@@ -0,0 +1,60 @@
+import { SpendMonth } from '@/types'
+import { findColumn, normalizeMonth, parseAmount, readFileRows } from './parse-helpers'
+
+// Accepted header spellings, compared after lowercasing and stripping non-letters
+const MONTH_HEADERS = ['month', 'date', 'period']
+const SPEND_HEADERS = ['smspend', 'salesmarketingspend', 'salesandmarketingspend', 'salesmarketing', 'spend']
+const BURN_HEADERS = ['netburn', 'burn', 'cashburn']
+
+/**
+ * Parse a sales & marketing spend file (CSV or Excel) with one row per month.
+ * Required columns: month and S&M spend. Optional: net burn.
+ */
+export async function parseSpendFile(file: File): Promise<SpendMonth[]> {
+  return parseSpendRows(await readFileRows(file))
+}
+
+/**
+ * Convert raw spend rows into SpendMonth records, merging duplicate months
+ */
+export function parseSpendRows(rows: Record<string, unknown>[]): SpendMonth[] {
+  if (rows.length === 0) {
+    throw new Error('No rows found in spend file')
+  }
+
+  const headers = Object.keys(rows[0])
+  const monthColumn = findColumn(headers, MONTH_HEADERS)
+  const spendColumn = findColumn(headers, SPEND_HEADERS)
+  const burnColumn = findColumn(headers, BURN_HEADERS)
+
+  if (!monthColumn || !spendColumn) {
+    throw new Error('Spend file needs a "month" column and an "sm_spend" column')
+  }
+
+  const byMonth = new Map<string, SpendMonth>()
+
+  rows.forEach((row, index) => {
+    const month = normalizeMonth(row[monthColumn])
+    if (!month) {
+      throw new Error(`Row ${index + 2}: invalid month "${String(row[monthColumn])}"`)
+    }
+
+    const spend = parseAmount(row[spendColumn])
+    if (spend === null || spend < 0) {
+      throw new Error(`Row ${index + 2}: S&M spend must be a non-negative number`)
+    }
+
+    const burn = burnColumn ? parseAmount(row[burnColumn]) : null
+    const existing = byMonth.get(month)
+
+    byMonth.set(month, {
+      month,
+      salesMarketingSpend: (existing?.salesMarketingSpend || 0) + spend,
+      ...(burn !== null || existing?.netBurn !== undefined
+        ? { netBurn: (existing?.netBurn || 0) + (burn || 0) }
+        : {})
+    })
+  })
+
+  return Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month))
+}
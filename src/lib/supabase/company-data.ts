@@ -0,0 +1,271 @@
+// Company data loaders shared by the metrics, portfolio, compare and upload API routes
+import { createServerClient } from '@supabase/ssr';
+import { toMonthlyTotals, type MonthlyMetric } from '@/lib/metrics';
+import { SaaSMetricsCalculator } from '@/lib/calculations/metrics';
+import { CurrencyConverter } from '@/lib/calculations/currency';
+import { DEFAULT_COMPANY_SETTINGS } from '@/lib/constants';
+import type {
+  ColumnMapping,
+  CompanySettings,
+  CustomerAttributes,
+  CustomerMonth,
+  CustomerVersion,
+  FxRate,
+  ImportTemplate,
+  MetricVersion,
+  MonthlyMetrics,
+  SpendMonth,
+} from '@/types';
+
+export type SupabaseClient = ReturnType<typeof createServerClient>;
+
+const CUSTOMER_PAGE_SIZE = 1000;
+
+interface CustomerMRRRow {
+  customer_id: string;
+  customer_name: string;
+  month: string;
+  mrr: number | string;
+  currency: string | null;
+  attributes: CustomerAttributes | null;
+  product: string | null;
+  quantity: number | string | null;
+}
+
+const CUSTOMER_COLUMNS = 'customer_id, customer_name, month, mrr, currency, attributes, product, quantity';
+
+// Run a ranged query page by page; Supabase caps each response at 1000 rows
+async function fetchPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  label: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  
+  for (let from = 0; ; from += CUSTOMER_PAGE_SIZE) {
+    const { data, error } = await page(from, from + CUSTOMER_PAGE_SIZE - 1);
+    
+    if (error) throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    if (!data) return rows;
+    
+    rows.push(...data);
+    if (data.length < CUSTOMER_PAGE_SIZE) return rows;
+  }
+}
+
+function toCustomerMonth(row: CustomerMRRRow): CustomerMonth {
+  return {
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    month: String(row.month).slice(0, 7),
+    mrr: Number(row.mrr) || 0,
+    ...(row.currency ? { currency: row.currency } : {}),
+    ...(row.attributes ? { attributes: row.attributes } : {}),
+    ...(row.product ? { product: row.product } : {}),
+    ...(row.quantity !== null ? { quantity: Number(row.quantity) } : {}),
+  };
+}
+
+// Load all customer-level MRR rows for a company, page by page
+export async function fetchCustomerMonths(supabase: SupabaseClient, companyId: string): Promise<CustomerMonth[]> {
+  const rows = await fetchPages<CustomerMRRRow>((from, to) => supabase
+    .from('customer_mrr')
+    .select(CUSTOMER_COLUMNS)
+    .eq('company_id', companyId)
+    .order('month', { ascending: true })
+    .range(from, to), 'customer data');
+  
+  return rows.map(toCustomerMonth);
+}
+
+// Load the customer rows of every upload made on or before a date (YYYY-MM-DD), grouped by upload
+export async function fetchCustomerVersions(supabase: SupabaseClient, companyId: string, asOf: string): Promise<CustomerVersion[]> {
+  const rows = await fetchPages<CustomerMRRRow & { upload_job_id: string; recorded_at: string }>((from, to) => supabase
+    .from('customer_mrr_versions')
+    .select(`upload_job_id, recorded_at, ${CUSTOMER_COLUMNS}`)
+    .eq('company_id', companyId)
+    .lte('recorded_at', `${asOf}T23:59:59.999Z`)
+    .order('recorded_at', { ascending: true })
+    .order('upload_job_id', { ascending: true })
+    .order('month', { ascending: true })
+    .order('customer_id', { ascending: true })
+    .order('product', { ascending: true })
+    .range(from, to), 'customer versions');
+  
+  const versions = new Map<string, CustomerVersion>();
+  for (const row of rows) {
+    const version = versions.get(row.upload_job_id) ?? { uploadId: row.upload_job_id, uploadedAt: row.recorded_at, rows: [] };
+    version.rows.push(toCustomerMonth(row));
+    versions.set(row.upload_job_id, version);
+  }
+  
+  return Array.from(versions.values());
+}
+
+// Load S&M spend for efficiency metrics (Magic Number, CAC, burn multiple)
+export async function fetchSpend(supabase: SupabaseClient, companyId: string): Promise<SpendMonth[]> {
+  const { data, error } = await supabase
+    .from('sales_marketing_spend')
+    .select('month, sm_spend, net_burn')
+    .eq('company_id', companyId)
+    .order('month', { ascending: true });
+  
+  if (error) throw new Error(`Failed to fetch spend data: ${error.message}`);
+  
+  return (data || []).map((row: { month: string; sm_spend: number | string; net_burn: number | string | null }) => ({
+    month: String(row.month).slice(0, 7),
+    salesMarketingSpend: Number(row.sm_spend) || 0,
+    ...(row.net_burn !== null ? { netBurn: Number(row.net_burn) } : {}),
+  }));
+}
+
+// Load the company's FX rate table for currency conversion
+export async function fetchFxRates(supabase: SupabaseClient, companyId: string): Promise<FxRate[]> {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('month, currency, average_rate, month_end_rate')
+    .eq('company_id', companyId);
+  
+  if (error) throw new Error(`Failed to fetch FX rates: ${error.message}`);
+  
+  return (data || []).map((row: { month: string; currency: string; average_rate: number | string; month_end_rate: number | string }) => ({
+    month: String(row.month).slice(0, 7),
+    currency: row.currency,
+    average: Number(row.average_rate),
+    monthEnd: Number(row.month_end_rate),
+  }));
+}
+
+// Load pre-aggregated monthly_metrics rows (uploads without customer-level data)
+export async function fetchMonthlyMetrics(supabase: SupabaseClient, companyId: string): Promise<MonthlyMetric[]> {
+  const { data, error } = await supabase
+    .from('monthly_metrics')
+    .select('*')
+    .eq('company_id', companyId)
+    .order('month', { ascending: true });
+  
+  if (error) throw new Error(`Failed to fetch metrics data: ${error.message}`);
+  
+  return (data || []).map((row: MonthlyMetric) => ({
+    month: row.month,
+    mrr: row.mrr || 0,
+    new_mrr: row.new_mrr || 0,
+    new_customers: row.new_customers || 0,
+    reactivation_mrr: row.reactivation_mrr || 0,
+    expansion_mrr: row.expansion_mrr || 0,
+    contraction_mrr: row.contraction_mrr || 0,
+    churned_mrr: row.churned_mrr || 0,
+    churned_customers: row.churned_customers ?? null,
+    customers: row.customers || 0,
+    company_id: row.company_id
+  }));
+}
+
+// Load every upload's snapshot of monthly totals, grouped by upload
+export async function fetchMetricVersions(supabase: SupabaseClient, companyId: string): Promise<MetricVersion[]> {
+  type UploadRow = { id: string; file_name: string; snapshot: { importTemplate?: { name: string } } | null };
+  const uploads = await fetchPages<UploadRow>((from, to) => supabase
+    .from('upload_jobs')
+    .select('id, file_name, snapshot')
+    .eq('company_id', companyId)
+    .order('id', { ascending: true })
+    .range(from, to), 'uploads');
+  
+  const data = await fetchPages<MonthlyMetric & { upload_job_id: string; recorded_at: string }>((from, to) => supabase
+    .from('monthly_metrics_versions')
+    .select('*')
+    .eq('company_id', companyId)
+    .order('recorded_at', { ascending: true })
+    .order('upload_job_id', { ascending: true })
+    .order('month', { ascending: true })
+    .range(from, to), 'metric versions');
+  
+  const uploadsById = new Map<string, UploadRow>(uploads.map(upload => [upload.id, upload]));
+  const versions = new Map<string, MetricVersion>();
+  
+  for (const row of data) {
+    const upload = uploadsById.get(row.upload_job_id);
+    const templateName = upload?.snapshot?.importTemplate?.name;
+    const version: MetricVersion = versions.get(row.upload_job_id) ?? {
+      uploadId: row.upload_job_id,
+      fileName: upload?.file_name ?? 'Unknown file',
+      uploadedAt: row.recorded_at,
+      ...(templateName ? { templateName } : {}),
+      months: [],
+    };
+    version.months.push(...toMonthlyTotals([{ ...row, month: String(row.month).slice(0, 7) }]));
+    versions.set(row.upload_job_id, version);
+  }
+  
+  return Array.from(versions.values());
+}
+
+interface ImportTemplateRow {
+  id: string;
+  name: string;
+  source_system: string | null;
+  sheet_names: string[] | null;
+  header_row: number;
+  headers: string[];
+  mapping: ColumnMapping;
+  created_at: string;
+}
+
+// Load the company's saved import templates, newest first
+export async function fetchImportTemplates(supabase: SupabaseClient, companyId: string): Promise<ImportTemplate[]> {
+  const { data, error } = await supabase
+    .from('import_templates')
+    .select('id, name, source_system, sheet_names, header_row, headers, mapping, created_at')
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
+  
+  if (error) throw new Error(`Failed to fetch import templates: ${error.message}`);
+  
+  return (data || []).map((row: ImportTemplateRow) => ({
+    id: String(row.id),
+    name: row.name,
+    sourceSystem: row.source_system,
+    sheetNames: row.sheet_names || [],
+    headerRow: row.header_row || 0,
+    headers: row.headers || [],
+    mapping: row.mapping,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * A company's monthly metrics in its reporting currency, calculated the same way
+ * as /api/metrics: from customer-level rows when uploaded, else from monthly totals.
+ * Billing currencies without an FX rate are left out and listed in missingFxCurrencies.
+ */
+export async function loadCompanyMetrics(
+  supabase: SupabaseClient,
+  companyId: string,
+  storedSettings: Partial<CompanySettings> | null
+): Promise<{ settings: CompanySettings; metrics: MonthlyMetrics[]; spend: SpendMonth[]; missingFxCurrencies: string[] }> {
+  const settings: CompanySettings = { ...DEFAULT_COMPANY_SETTINGS, ...(storedSettings || {}) };
+  const spend = await fetchSpend(supabase, companyId);
+  const customerMonths = await fetchCustomerMonths(supabase, companyId);
+  
+  if (customerMonths.length > 0) {
+    const conversion = CurrencyConverter.convert(
+      customerMonths,
+      await fetchFxRates(supabase, companyId),
+      settings.reportingCurrency,
+      settings.fxConversion
+    );
+    return {
+      settings,
+      metrics: SaaSMetricsCalculator.calculateMetrics(conversion.data, settings),
+      spend,
+      missingFxCurrencies: conversion.missingCurrencies,
+    };
+  }
+  
+  const rows = await fetchMonthlyMetrics(supabase, companyId);
+  return {
+    settings,
+    metrics: SaaSMetricsCalculator.calculateFromMonthlyTotals(toMonthlyTotals(rows), settings),
+    spend,
+    missingFxCurrencies: [],
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  ColumnMapping,
+  ImportTemplate,
+  ParseProgress,
+  SheetData,
+  SheetReadOptions,
+  StreamingParseResult,
+  UploadInspection
+} from '@/types'
+
+export type ParseWorkerRequest =
+  | { type: 'parse'; file: File; mapping: ColumnMapping; options: SheetReadOptions }
+  | { type: 'inspect'; file: File; templates: ImportTemplate[] }
+  | { type: 'preview'; file: File; options: SheetReadOptions }
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; result: StreamingParseResult | UploadInspection | SheetData }
+  | { type: 'error'; message: string }
+
+interface ParseInWorkerOptions {
+  onProgress?: (progress: ParseProgress) => void
+  // Aborting stops the worker and rejects with an AbortError
+  signal?: AbortSignal
+}
+
+/**
+ * Parse a whole upload with a confirmed mapping in a Web Worker, so large files
+ * don't freeze the page.
+ */
+export function parseInWorker(
+  file: File,
+  mapping: ColumnMapping,
+  options: SheetReadOptions,
+  workerOptions: ParseInWorkerOptions = {}
+): Promise<StreamingParseResult> {
+  return runWorker({ type: 'parse', file, mapping, options }, workerOptions)
+}
+
+// Preview, matching template and worksheet list of a new upload, read in a Web Worker
+export function inspectInWorker(file: File, templates: ImportTemplate[]): Promise<UploadInspection> {
+  return runWorker({ type: 'inspect', file, templates })
+}
+
+// The start of the chosen sheets for the mapping wizard, read in a Web Worker
+export function previewInWorker(file: File, options: SheetReadOptions): Promise<SheetData> {
+  return runWorker({ type: 'preview', file, options })
+}
+
+// Each call runs its own worker, stopped once it answers
+function runWorker<T extends StreamingParseResult | UploadInspection | SheetData>(
+  request: ParseWorkerRequest,
+  { onProgress, signal }: ParseInWorkerOptions = {}
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Parsing canceled', 'AbortError'))
+      return
+    }
+
+    const worker = new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' })
+    const stop = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleAbort = () => {
+      stop()
+      reject(new DOMException('Parsing canceled', 'AbortError'))
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.progress)
+        return
+      }
+
+      stop()
+      if (message.type === 'done') {
+        resolve(message.result as T)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      stop()
+      reject(new Error(event.message || 'The file parser stopped unexpectedly'))
+    }
+
+    worker.postMessage(request)
+  })
+}
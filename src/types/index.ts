@@ -31,6 +31,183 @@ export interface CustomerMonth {
   customerName: string
   month: string
   mrr: number
+  // ISO 4217 billing currency; omitted means the company's reporting currency
+  currency?: string
+  // Descriptive columns kept from the upload for slicing metrics
+  attributes?: CustomerAttributes
+  // Product line; a customer-month may hold one row per product
+  product?: string
+  // Set on zero-MRR rows bridging a gap within the churn grace period: retained, not billed
+  paused?: boolean
+  // Seats/units on the product line, used to tell up-sell from price increases
+  quantity?: number
+}
+
+// Raw spreadsheet content: one object per data row, keyed by header
+export interface SheetData {
+  headers: string[]
+  rows: Record<string, unknown>[]
+  // Worksheets the rows came from, stacked in this order (Excel only)
+  sheetNames?: string[]
+  // Rows above the header row, as found or as requested
+  headerRow?: number
+  // Non-blank rows left out of the data, with their row number in the original file
+  ignoredRows?: IgnoredRow[]
+  // Set when only the first rows were read (see SheetReadOptions.maxRows)
+  truncated?: boolean
+}
+
+export type IgnoredRowReason = 'title' | 'total' | 'footnote' | 'repeatedHeader'
+
+export interface IgnoredRow {
+  // 1-based, as shown in Excel or a text editor
+  rowNumber: number
+  sheetName?: string
+  reason: IgnoredRowReason
+  // The row's first non-empty cell, to recognise it by
+  text: string
+}
+
+// Where in the file to read: the worksheets (the first when none are named) and the rows above the header (found when unset)
+export interface SheetReadOptions {
+  sheetNames?: string[]
+  headerRow?: number
+  // Read only this many file rows, for previews of large files
+  maxRows?: number
+}
+
+// Customer-months from a streamed parse, with rows of the same customer, month and product combined
+export interface StreamingParseResult {
+  data: CustomerMonth[]
+  ignoredRows: IgnoredRow[]
+  // File rows read, including blank and ignored rows
+  rowsRead: number
+}
+
+export interface ParseProgress {
+  rowsRead: number
+  // Share of the file processed, from 0 to 1
+  fraction: number
+}
+
+// One worksheet of a workbook, listed so the user can choose what to import
+export interface SheetSummary {
+  name: string
+  rowCount: number
+  columnCount: number
+  // First rows exactly as they appear in the sheet
+  preview: unknown[][]
+  // Detection confidence for the sheet on its own; 0 when unrecognised or empty
+  confidence: number
+  layout: DataLayout | null
+}
+
+// Scale of the MRR figures in a file
+export type ValueUnit = 'units' | 'thousands' | 'millions'
+
+// 'long' has one row per customer-month; 'wide' one row per customer with a column per month
+export type DataLayout = 'long' | 'wide'
+
+// Which columns hold what, as detected and then confirmed by the user
+export interface ColumnMapping {
+  layout: DataLayout
+  customerNameColumn: string
+  // null generates IDs from customer names
+  customerIdColumn: string | null
+  // Long layout only
+  monthColumn: string | null
+  valueColumn: string | null
+  // Wide layout only: the headers holding monthly MRR
+  monthColumns: string[]
+  // date-fns pattern for month headers/values (e.g. 'MMM yy'); recognised automatically when unset
+  monthHeaderFormat?: string | null
+  valueUnit?: ValueUnit
+}
+
+// What the uploader checks before choosing a mapping, read from the start of the file
+export interface UploadInspection {
+  // The first sheet (or the CSV file), up to the preview row limit
+  preview: SheetData
+  // The first saved template the file matches
+  match: { template: ImportTemplate; sheet: SheetData } | null
+  // Every worksheet; empty for CSV files
+  sheets: SheetSummary[]
+}
+
+// A confirmed mapping saved for the spreadsheet a company sends every month
+export interface ImportTemplate {
+  id: string
+  name: string
+  // Exporting system, e.g. "NetSuite" or "Board pack"
+  sourceSystem: string | null
+  // Empty for the first sheet (and CSV files)
+  sheetNames: string[]
+  // Rows above the header row
+  headerRow: number
+  // Non-month headers of the file the template was saved from; a file matches when they are the same
+  headers: string[]
+  mapping: ColumnMapping
+  createdAt: string
+}
+
+export interface MappingDetection {
+  mapping: ColumnMapping
+  // 0 when nothing recognisable was found and the mapping is only a starting point
+  confidence: number
+  warnings: string[]
+}
+
+export type BillingFrequency = 'monthly' | 'quarterly' | 'annual' | 'upfront'
+
+// One row of a finance contract export; revenue is recognized straight-line over the term
+export interface Contract {
+  contractId: string
+  customerId: string
+  customerName: string
+  // YYYY-MM-DD, both inclusive
+  startDate: string
+  endDate: string
+  // Total contract value
+  tcv: number
+  billingFrequency: BillingFrequency
+  product?: string
+}
+
+// Contract-derived monthly flows and month-end balances
+export interface ContractRevenueMetrics {
+  month: string
+  // TCV of contracts starting this month
+  bookings: number
+  // Amounts invoiced this month, in advance for each billing period
+  billings: number
+  // Straight-line recognized revenue
+  revenue: number
+  // Billed but not yet recognized
+  deferredRevenue: number
+  // Remaining performance obligations: booked TCV not yet recognized
+  rpo: number
+}
+
+// Gross expansion on product lines of customers who were already paying.
+// Lines are compared one by one, so this can exceed the customer-level expansion
+// when a customer adds one product and cuts another in the same month.
+export interface ExpansionBreakdown {
+  month: string
+  // Products the customer did not buy the month before
+  crossSellMRR: number
+  // More units on an existing line (all growth on lines without a quantity)
+  upsellMRR: number
+  // Higher price per unit on an existing line
+  priceIncreaseMRR: number
+}
+
+export type SegmentDimension = 'plan' | 'segment' | 'region' | 'salesOwner'
+
+export type CustomerAttributes = Partial<Record<SegmentDimension, string>>
+
+export interface SegmentFilter {
+  dimension: SegmentDimension
+  value: string
 }
 
 export interface MonthlyMetrics {
@@ -38,13 +215,436 @@ export interface MonthlyMetrics {
   totalMRR: number
   arr: number
   customerCount: number
+  newCustomers: number
   newMRR: number
+  reactivationMRR: number
   expansionMRR: number
   contractionMRR: number
   churnedMRR: number
+  // null when the source gave no churned customer count
+  churnedCustomers: number | null
   grossRevenueRetention: number
   netRevenueRetention: number
-  logoChurnRate: number
+  // null when the source gave no churned customer count
+  logoChurnRate: number | null
+  netNewARR: number
+  // (new + reactivation + expansion) ÷ (contraction + churn); null when nothing was lost
+  quickRatio: number | null
+  // Growth vs. 3 and 12 calendar months earlier; null without that history
+  arrGrowthQoQ: number | null
+  arrGrowthYoY: number | null
+  // Compound monthly MRR growth over the trailing 12 months (or all history if shorter)
+  cmgr: number | null
+  // YoY ARR growth + profit margin; null until a margin is configured
+  ruleOf40: number | null
+  // Only available when calculated from customer-level data
+  trailingRetention?: TrailingRetention
+}
+
+// Pre-aggregated monthly input (e.g. a monthly_metrics CSV) for the metrics engine.
+// Movement fields default to 0 when the source does not provide them.
+export interface MonthlyTotals {
+  month: string
+  totalMRR: number
+  customerCount?: number
+  newCustomers?: number
+  newMRR?: number
+  reactivationMRR?: number
+  expansionMRR?: number
+  contractionMRR?: number
+  churnedMRR?: number
+  // null (or missing) when the source gave no count; logo churn is then unknown, not 0%
+  churnedCustomers?: number | null
+}
+
+// Company-provided spend for one month (entered manually or imported)
+export interface SpendMonth {
+  month: string
+  salesMarketingSpend: number
+  // Cash burned net of revenue; negative when cash-flow positive
+  netBurn?: number
+}
+
+// Capital efficiency for the quarter ending in `month`.
+// Magic Number, CAC and payback use the previous quarter's S&M spend.
+export interface EfficiencyMetrics {
+  month: string
+  laggedSpend: number | null
+  netNewARR: number | null
+  magicNumber: number | null
+  cac: number | null
+  cacPaybackMonths: number | null
+  burnMultiple: number | null
+}
+
+// Unit economics for one month, based on trailing observed logo churn
+export interface CustomerValueMetrics {
+  month: string
+  arpa: number
+  monthlyLogoChurn: number | null
+  lifetimeMonths: number | null
+  ltv: number | null
+  ltvToCac: number | null
+}
+
+// An MRR range for customer-size buckets; min inclusive, max exclusive (null = no upper bound)
+export interface MRRBand {
+  label: string
+  min: number
+  max: number | null
+}
+
+export interface MRRBandSummary {
+  label: string
+  customers: number
+  mrr: number
+}
+
+// How concentrated MRR is across paying customers in one month.
+// Shares are fractions of total MRR.
+export interface ConcentrationMetrics {
+  month: string
+  totalMRR: number
+  customerCount: number
+  top1Share: number
+  top10Share: number
+  top20PercentShare: number
+  // Sum of squared MRR shares on the 0-10,000 scale
+  herfindahlIndex: number
+  bands: MRRBandSummary[]
+}
+
+// One point on the cumulative MRR curve, largest customers first
+export interface ParetoPoint {
+  customerShare: number
+  mrrShare: number
+}
+
+export type ForecastMethod = 'trend' | 'driver'
+
+export type ForecastScenario = 'bear' | 'base' | 'bull'
+
+// Monthly assumptions for the driver-based forecast
+export interface ForecastDrivers {
+  // New + reactivation MRR added each month
+  newMRR: number
+  // Expansion MRR as a fraction of starting MRR
+  expansionRate: number
+  // Contraction + churned MRR as a fraction of starting MRR
+  churnRate: number
+}
+
+export type ScenarioDrivers = Record<ForecastScenario, ForecastDrivers>
+
+// Compound monthly growth fitted to historical MRR
+export interface TrendFit {
+  monthlyGrowthRate: number
+  // Standard deviation of month-over-month growth; bull/bear are ± one deviation
+  volatility: number
+  monthsUsed: number
+}
+
+// Projected MRR for one future month under each scenario
+export interface ForecastPoint {
+  month: string
+  bear: number
+  base: number
+  bull: number
+}
+
+// Retention of the customers active at the start of a trailing window
+export interface RetentionWindow {
+  startMonth: string
+  nrr: number
+  grr: number
+  logoRetention: number
+}
+
+export interface TrailingRetention {
+  threeMonth: RetentionWindow | null
+  sixMonth: RetentionWindow | null
+  twelveMonth: RetentionWindow | null
+}
+
+export type MRRMovementType =
+  | 'new'
+  | 'expansion'
+  | 'contraction'
+  | 'churn'
+  | 'reactivation'
+  | 'flat'
+
+// One customer's MRR change between two consecutive months
+export interface MRRMovement {
+  month: string
+  customerId: string
+  customerName: string
+  type: MRRMovementType
+  previousMRR: number
+  currentMRR: number
+  change: number
+}
+
+// One customer's share of a month's movement
+export interface MovementDriver {
+  customerId: string
+  customerName: string
+  change: number
+  // |change| ÷ the movement total (0-1)
+  share: number
+}
+
+export interface MovementExplanation {
+  type: Exclude<MRRMovementType, 'flat'>
+  total: number
+  customerCount: number
+  // Largest contributors first
+  topCustomers: MovementDriver[]
+}
+
+// Customers behind each movement type in one month
+export interface MonthExplanation {
+  month: string
+  netChange: number
+  movements: MovementExplanation[]
+}
+
+export type AnomalyType = 'metricOutlier' | 'customerSwing' | 'customerCountDrop'
+
+export type AnomalyMetric = 'newMRR' | 'churnedMRR' | 'netRevenueRetention'
+
+// A month, customer change or customer count flagged by the post-upload anomaly pass
+export interface Anomaly {
+  month: string
+  type: AnomalyType
+  severity: 'warning' | 'critical'
+  // Set for metric outliers
+  metric?: AnomalyMetric
+  // Set for customer swings
+  customerId?: string
+  customerName?: string
+  value: number
+  // Historical median for outliers, previous month's value otherwise
+  expected: number
+  // Robust z-score for outliers, fractional change otherwise
+  score: number
+}
+
+// Limits above which the anomaly pass raises a warning
+export interface AnomalyThresholds {
+  // Robust (median/MAD) z-score for new MRR, churned MRR and NRR
+  zScore: number
+  // Fractional MRR change of a single customer, e.g. 0.5 = 50%
+  customerChange: number
+  // Fractional month-over-month drop in customer count
+  customerCountDrop: number
+}
+
+// Annual figures compared against peers; logo churn is 1 − annual logo retention
+export type BenchmarkMetric = 'arrGrowthYoY' | 'netRevenueRetention' | 'grossRevenueRetention' | 'logoChurn' | 'quickRatio'
+
+// Peer distribution of one metric; rates are fractions (1.1 = 110%)
+export interface BenchmarkPercentiles {
+  p25: number
+  p50: number
+  p75: number
+}
+
+// Peer percentiles for one stage, matched to a company by ARR
+export interface BenchmarkBand {
+  stage: string
+  minARR: number
+  // null for the open-ended top band
+  maxARR: number | null
+  metrics: Partial<Record<BenchmarkMetric, BenchmarkPercentiles>>
+}
+
+export interface BenchmarkResult {
+  metric: BenchmarkMetric
+  value: number
+  percentiles: BenchmarkPercentiles
+  // Where the company ranks among peers (1-99); higher is always better
+  percentile: number
+}
+
+export interface BenchmarkComparison {
+  stage: string
+  results: BenchmarkResult[]
+}
+
+// One company's latest metrics in the portfolio roll-up
+export interface PortfolioCompany {
+  companyId: string
+  name: string
+  // Currency of the values below: the portfolio currency unless no FX rate was available
+  currency: string
+  // The company's own reporting currency, when its values were converted
+  convertedFrom?: string
+  latestMonth: string | null
+  arr: number
+  netNewARR: number
+  arrGrowthYoY: number | null
+  // Trailing-twelve-month NRR, or the latest month's NRR without 12 months of customer-level data
+  nrr: number | null
+  nrrBasis: 'ttm' | 'month' | null
+  // Latest month's net burn and the latest quarterly burn multiple
+  netBurn: number | null
+  burnMultiple: number | null
+  // Up to 12 months of ARR for the sparkline
+  arrHistory: { month: string; arr: number }[]
+  // Billing currencies without an FX rate, whose customers are left out of the metrics
+  missingFxCurrencies: string[]
+}
+
+export type PortfolioSortKey = 'name' | 'arr' | 'netNewARR' | 'arrGrowthYoY' | 'nrr' | 'netBurn' | 'burnMultiple'
+
+export interface PortfolioSummary {
+  currency: string
+  companies: PortfolioCompany[]
+  totalARR: number
+  totalNetNewARR: number
+  totalNetBurn: number
+  // Averages weighted by each company's ARR, over companies that report the metric
+  weightedGrowthYoY: number | null
+  weightedNRR: number | null
+  weightedBurnMultiple: number | null
+  // Companies in another currency without an FX rate to convert them, left out of the totals
+  excludedCompanyIds: string[]
+  // Companies in the totals without a trailing-twelve-month NRR, left out of the weighted NRR
+  nrrExcludedCompanyIds: string[]
+}
+
+// 'milestone' lines companies up on months since they first reached $1M ARR
+export type ComparisonAlignment = 'calendar' | 'milestone'
+
+export interface ComparisonOptions {
+  alignment: ComparisonAlignment
+  // Rebase each series to 100 at the first shared period
+  indexed: boolean
+}
+
+// One company's monthly metrics in the compare view
+export interface ComparedCompany {
+  companyId: string
+  name: string
+  currency: string
+  metrics: MonthlyMetrics[]
+  // Billing currencies without an FX rate, whose customers are left out of the metrics
+  missingFxCurrencies?: string[]
+}
+
+// What the charts and KPI table overlay when in compare mode
+export interface ComparisonView {
+  companies: ComparedCompany[]
+  options: ComparisonOptions
+}
+
+// A calendar month or a milestone offset, with each company's value keyed by companyId
+export interface ComparisonRow {
+  period: string | number
+  values: Record<string, number | null>
+}
+
+// Monthly totals exactly as one upload reported them; later uploads may restate them
+export interface MetricVersion {
+  uploadId: string
+  fileName: string
+  // ISO timestamp of the upload
+  uploadedAt: string
+  // Import template applied to the file, if any
+  templateName?: string
+  months: MonthlyTotals[]
+}
+
+// Customer-level rows exactly as one upload reported them, so past views recalculate like live ones
+export interface CustomerVersion {
+  uploadId: string
+  // ISO timestamp of the upload
+  uploadedAt: string
+  rows: CustomerMonth[]
+}
+
+export type RestatedField = 'totalMRR' | 'customerCount' | 'newMRR' | 'expansionMRR' | 'contractionMRR' | 'churnedMRR'
+
+export interface RestatedValue {
+  field: RestatedField
+  previous: number
+  restated: number
+  change: number
+}
+
+// A month whose reported figures changed in a later upload
+export interface Restatement {
+  month: string
+  uploadId: string
+  fileName: string
+  uploadedAt: string
+  // Upload the previous figures came from
+  previousUploadId: string
+  changes: RestatedValue[]
+}
+
+export type AnnotationType = 'priceChange' | 'bigDeal' | 'dataCorrection' | 'note'
+
+// A user note attached to a month, drawn as a marker on the charts
+export interface Annotation {
+  id: string
+  month: string
+  type: AnnotationType
+  title: string
+  description?: string
+  createdAt: string
+}
+
+// Per-company knobs for the metrics calculator
+export interface CompanySettings {
+  // Gaps of up to N months are treated as a pause instead of churn + re-acquisition
+  churnGracePeriodMonths: number
+  // Gross margin (0-100) applied to LTV; null leaves LTV revenue-based
+  grossMarginPercent: number | null
+  // Profit margin (e.g. EBITDA or FCF, may be negative) used for the Rule of 40
+  profitMarginPercent: number | null
+  // ISO 4217 currency all metrics are reported in
+  reportingCurrency: string
+  // Which FX rate converts each month's MRR
+  fxConversion: FxConversion
+  // Share of a customer's MRR (0.5 = 50%) that one month's expansion or contraction must reach to be flagged
+  customerChangeThreshold: number
+}
+
+export type FxConversion = 'average' | 'monthEnd'
+
+// Value of one unit of `currency` in the FX base currency (USD) for a month
+export interface FxRate {
+  month: string
+  currency: string
+  average: number
+  monthEnd: number
+}
+
+// A customer gap that the grace period bridged instead of counting as churn
+export interface GracePeriodAdjustment {
+  customerId: string
+  customerName: string
+  gapStart: string
+  gapEnd: string
+  gapMonths: number
+  // MRR in the month before the pause; the gap months themselves bill nothing
+  pausedMRR: number
+}
+
+export interface CohortRow {
+  cohort: string // First month with MRR > 0 (YYYY-MM)
+  initialCustomers: number
+  initialMRR: number
+  // Indexed by months since cohort start; index 0 is always 1
+  logoRetention: number[]
+  revenueRetention: number[]
+}
+
+export interface CohortMatrix {
+  cohorts: CohortRow[]
+  maxPeriods: number
 }
 
 export interface Organization {